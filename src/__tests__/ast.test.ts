@@ -0,0 +1,84 @@
+/**
+ * Tests for TypeScript Source Parsing Module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeModule, isParsableSource } from '../ast.js';
+
+describe('AST Module', () => {
+  describe('isParsableSource', () => {
+    it('should accept TypeScript and JavaScript extensions', () => {
+      expect(isParsableSource('src/app.tsx')).toBe(true);
+      expect(isParsableSource('lib/index.cjs')).toBe(true);
+      expect(isParsableSource('app/main.py')).toBe(false);
+    });
+  });
+
+  describe('analyzeModule', () => {
+    it('should find functions, classes and methods', () => {
+      const analysis = analyzeModule(
+        'src/auth.ts',
+        [
+          'export const login = async (user: string) => user;',
+          'function hash() {}',
+          'export default class Auth {',
+          '  constructor() {}',
+          '  get user() { return 1; }',
+          '  check() { [1].map((v) => v); }',
+          '}',
+        ].join('\n')
+      );
+
+      expect(analysis.functions).toEqual(['login', 'hash', 'Auth.constructor', 'Auth.user', 'Auth.check']);
+      expect(analysis.classes).toEqual(['Auth']);
+    });
+
+    it('should record the lines the code spans, skipping leading comments', () => {
+      const analysis = analyzeModule('src/a.ts', '/**\n * Header\n */\n\nimport x from "y";\n\nexport const a = x;\n\n');
+      expect(analysis.lines).toEqual([5, 7]);
+      expect(analyzeModule('src/empty.ts', '').lines).toEqual([1, 1]);
+    });
+
+    it('should detect ES module exports', () => {
+      const analysis = analyzeModule(
+        'src/a.ts',
+        [
+          'export function a() {}',
+          'export const { b, c: [d] } = obj;',
+          'export interface Options {}',
+          'export type Id = string;',
+          'function e() {}',
+          'export { e as f };',
+          "export * as utils from './utils';",
+          "export * from './types';",
+          'export default e;',
+        ].join('\n')
+      );
+
+      expect(analysis.exports).toEqual(['a', 'b', 'd', 'Options', 'Id', 'f', 'utils', 'default']);
+    });
+
+    it('should detect CommonJS exports', () => {
+      const analysis = analyzeModule('lib/a.cjs', 'module.exports = {};\nexports.foo = 1;\nmodule.exports.bar = 2;\n');
+      expect(analysis.exports).toEqual(['default', 'foo', 'bar']);
+    });
+
+    it('should count decision points per function', () => {
+      const analysis = analyzeModule(
+        'src/a.ts',
+        [
+          'export function check(a?: number) {',
+          '  if (a && a > 1) return 1;',
+          '  for (const x of [a]) { [x].map((v) => (v ? 1 : 2)); }',
+          '  try { return a ?? 0; } catch { return 0; }',
+          '}',
+          'export const noop = () => {};',
+        ].join('\n')
+      );
+
+      // check: 1 + if, &&, for, ternary, ??, catch; noop: 1
+      expect(analysis.cyclomaticComplexity).toBe(8);
+      expect(analyzeModule('src/b.ts', 'export const x = 1;').cyclomaticComplexity).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Tests for Coverage Report Parsing Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  parseLcov,
+  parseIstanbulJson,
+  parseCoberturaXml,
+  parseGoCoverProfile,
+  parseCoveragePyJson,
+  detectCoverageFormat,
+  findCoverageReports,
+  readCoverageReports,
+  computeCoverageMetrics,
+  buildTestCoverageMap,
+  applyCoverageReports,
+} from '../coverage.js';
+import { createEmptyFunctionalityMap, createFeature } from '../agents/discovery.js';
+import { createInitialState } from '../state.js';
+import type { FileCoverage, TestCoverageMap } from '../types.js';
+
+describe('Coverage Module', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `coverage-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeFiles(files: Record<string, string>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(dirname(join(testDir, file)), { recursive: true });
+      await writeFile(join(testDir, file), content);
+    }
+  }
+
+  const LCOV = [
+    'TN:',
+    'SF:src/orders.ts',
+    'FN:1,list',
+    'FN:5,get',
+    'FNDA:3,list',
+    'FNDA:0,get',
+    'DA:1,3',
+    'DA:2,3',
+    'DA:5,0',
+    'DA:6,0',
+    'BRDA:2,0,0,2',
+    'BRDA:2,0,1,0',
+    'BRDA:6,1,0,-',
+    'end_of_record',
+    '',
+  ].join('\n');
+
+  describe('parsers', () => {
+    it('should parse lcov tracefiles', () => {
+      expect(parseLcov(LCOV)).toEqual([
+        {
+          file: 'src/orders.ts',
+          lines: { 1: 3, 2: 3, 5: 0, 6: 0 },
+          branches: { 2: { taken: 1, total: 2 }, 6: { taken: 0, total: 1 } },
+          functions: [
+            { name: 'list', line: 1, hits: 3 },
+            { name: 'get', line: 5, hits: 0 },
+          ],
+        },
+      ]);
+    });
+
+    it('should read lcov 2 function records', () => {
+      const [file] = parseLcov('SF:a.ts\nFNL:0,4,9\nFNA:0,2,load\nDA:4,2\nend_of_record\n');
+
+      expect(file?.functions).toEqual([{ name: 'load', line: 4, hits: 2 }]);
+    });
+
+    it('should parse Istanbul coverage-final.json', () => {
+      const report = {
+        '/app/src/orders.ts': {
+          path: '/app/src/orders.ts',
+          statementMap: {
+            '0': { start: { line: 1 }, end: { line: 1 } },
+            '1': { start: { line: 2 }, end: { line: 2 } },
+            '2': { start: { line: 2 }, end: { line: 2 } },
+          },
+          s: { '0': 1, '1': 0, '2': 4 },
+          fnMap: { '0': { name: 'list', decl: { start: { line: 1 } }, loc: { start: { line: 1 } } } },
+          f: { '0': 1 },
+          branchMap: { '0': { loc: { start: { line: 2 } }, locations: [] } },
+          b: { '0': [4, 0] },
+        },
+      };
+
+      expect(parseIstanbulJson(JSON.stringify(report))).toEqual([
+        {
+          file: '/app/src/orders.ts',
+          lines: { 1: 1, 2: 4 },
+          branches: { 2: { taken: 1, total: 2 } },
+          functions: [{ name: 'list', line: 1, hits: 1 }],
+        },
+      ]);
+    });
+
+    it('should parse Cobertura XML', () => {
+      const xml = `<?xml version="1.0" ?>
+<coverage line-rate="0.5" branch-rate="0.5">
+  <sources><source>/app</source></sources>
+  <packages><package name="app"><classes>
+    <class name="orders.py" filename="app/orders.py" line-rate="0.5">
+      <methods>
+        <method name="list" signature="()"><lines><line number="3" hits="2"/></lines></method>
+      </methods>
+      <lines>
+        <line number="3" hits="2"/>
+        <line number="4" hits="2" branch="true" condition-coverage="50% (1/2)"/>
+        <line number="8" hits="0"/>
+      </lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+
+      expect(parseCoberturaXml(xml)).toEqual([
+        {
+          file: '/app/app/orders.py',
+          lines: { 3: 2, 4: 2, 8: 0 },
+          branches: { 4: { taken: 1, total: 2 } },
+          functions: [{ name: 'list', line: 3, hits: 2 }],
+        },
+      ]);
+    });
+
+    it('should parse Go coverprofiles', () => {
+      const profile = [
+        'mode: count',
+        'example.com/shop/orders/list.go:3.20,5.2 2 4',
+        'example.com/shop/orders/list.go:7.20,8.2 1 0',
+        '',
+      ].join('\n');
+
+      expect(parseGoCoverProfile(profile)).toEqual([
+        { file: 'example.com/shop/orders/list.go', lines: { 3: 4, 4: 4, 5: 4, 7: 0, 8: 0 }, branches: {}, functions: [] },
+      ]);
+    });
+
+    it('should parse coverage.py JSON', () => {
+      const report = {
+        meta: { version: '7.6.0' },
+        files: {
+          'app/orders.py': {
+            executed_lines: [1, 2, 3],
+            missing_lines: [6],
+            executed_branches: [[2, 3]],
+            missing_branches: [[2, 6]],
+            functions: {
+              list_orders: { executed_lines: [2, 3], missing_lines: [] },
+              cancel: { executed_lines: [], missing_lines: [6] },
+              '': { executed_lines: [1], missing_lines: [] },
+            },
+          },
+        },
+      };
+
+      expect(parseCoveragePyJson(JSON.stringify(report))).toEqual([
+        {
+          file: 'app/orders.py',
+          lines: { 1: 1, 2: 1, 3: 1, 6: 0 },
+          branches: { 2: { taken: 1, total: 2 } },
+          functions: [
+            { name: 'list_orders', line: 2, hits: 1 },
+            { name: 'cancel', line: 6, hits: 0 },
+          ],
+        },
+      ]);
+    });
+
+    it('should detect the format of a report', () => {
+      expect(detectCoverageFormat(LCOV)).toBe('lcov');
+      expect(detectCoverageFormat('mode: set\n')).toBe('go');
+      expect(detectCoverageFormat('<?xml version="1.0" ?>\n<coverage line-rate="1"></coverage>')).toBe('cobertura');
+      expect(detectCoverageFormat('{"meta": {}, "files": {}}')).toBe('coveragepy');
+      expect(detectCoverageFormat('{"/app/a.ts": {}}')).toBe('istanbul');
+      expect(detectCoverageFormat('not a report')).toBeUndefined();
+    });
+  });
+
+  describe('readCoverageReports', () => {
+    it('should find reports and make their paths project-relative', async () => {
+      await writeFiles({
+        'go.mod': 'module example.com/shop\n',
+        'coverage/lcov.info': LCOV,
+        'coverage.out': 'mode: set\nexample.com/shop/orders/list.go:3.20,4.2 1 1\n',
+        'node_modules/pkg/coverage/lcov.info': LCOV,
+        'web/coverage/coverage-final.json': JSON.stringify({
+          [join(testDir, 'web', 'src', 'cart.ts')]: { statementMap: { '0': { start: { line: 1 } } }, s: { '0': 1 } },
+        }),
+      });
+
+      expect(await findCoverageReports(testDir)).toEqual(['coverage.out', 'coverage/lcov.info', 'web/coverage/coverage-final.json']);
+
+      const files = await readCoverageReports(testDir);
+
+      expect(files.map((f) => f.file)).toEqual(['orders/list.go', 'src/orders.ts', 'web/src/cart.ts']);
+    });
+
+    it('should only find reports written since a given time', async () => {
+      await writeFiles({ 'coverage/lcov.info': LCOV, 'coverage.out': 'mode: set\n' });
+      await utimes(join(testDir, 'coverage.out'), new Date('2026-01-01'), new Date('2026-01-01'));
+
+      expect(await findCoverageReports(testDir, new Date('2026-02-01'))).toEqual(['coverage/lcov.info']);
+    });
+
+    it('should keep the highest count of files found in several reports', async () => {
+      await writeFiles({
+        'coverage/lcov.info': 'SF:src/a.ts\nDA:1,0\nDA:2,1\nend_of_record\n',
+        'other/lcov.info': 'SF:../src/a.ts\nDA:1,2\nDA:2,0\nend_of_record\n',
+      });
+
+      const [file] = await readCoverageReports(testDir);
+
+      expect(file).toMatchObject({ file: 'src/a.ts', lines: { 1: 2, 2: 1 } });
+    });
+  });
+
+  describe('computeCoverageMetrics', () => {
+    it('should compute line, branch and function coverage', () => {
+      expect(computeCoverageMetrics(parseLcov(LCOV))).toEqual({
+        lineCoverage: 50,
+        branchCoverage: 33.3,
+        functionCoverage: 50,
+      });
+    });
+
+    it('should leave out metrics with nothing to cover', () => {
+      const file: FileCoverage = { file: 'a.go', lines: { 1: 1 }, branches: {}, functions: [] };
+
+      expect(computeCoverageMetrics([file])).toEqual({ lineCoverage: 100 });
+      expect(computeCoverageMetrics([])).toEqual({ lineCoverage: 0 });
+    });
+  });
+
+  describe('buildTestCoverageMap', () => {
+    it('should measure features over their source locations', () => {
+      const list = createFeature('list', 'src/orders.ts', [1, 3]);
+      list.testCoverage = { hasTests: true, testFiles: ['src/orders.test.ts'], testCount: 2 };
+      const get = createFeature('get', 'src/orders.ts', [5, 6]);
+      const billing = createFeature('billing', 'src/billing.ts', [1, 10]);
+
+      const coverage = buildTestCoverageMap(parseLcov(LCOV), [list, get, billing]);
+
+      expect(coverage.overallCoverage.lineCoverage).toBe(50);
+      expect(coverage.byFeature.map((f) => [f.featureId, f.coverage.lineCoverage])).toEqual([
+        [list.id, 100],
+        [get.id, 0],
+        [billing.id, 0],
+      ]);
+      expect(coverage.byFeature[0]?.testFiles).toEqual(['src/orders.test.ts']);
+      expect(coverage.byFeature[1]?.gaps).toEqual([
+        {
+          file: 'src/orders.ts',
+          uncoveredLines: [5, 6],
+          description: '2 uncovered lines; functions never called: get',
+          complexity: 'low',
+        },
+      ]);
+      expect(coverage.untestedFeatures).toEqual([get.id, billing.id]);
+    });
+
+    it('should keep what the previous map planned and compare against its numbers', () => {
+      const list = createFeature('list', 'src/orders.ts', [1, 1]);
+      const previous: TestCoverageMap = {
+        version: '1.0.0',
+        analyzedAt: '2026-01-01T00:00:00.000Z',
+        overallCoverage: { lineCoverage: 20, branchCoverage: 10, functionCoverage: 30 },
+        byFeature: [
+          {
+            featureId: list.id,
+            featureName: 'list',
+            coverage: { lineCoverage: 10, branchCoverage: 0, functionCoverage: 0 },
+            testFiles: [],
+            gaps: [],
+            priority: 'critical',
+            testsGenerated: true,
+          },
+        ],
+        untestedFeatures: [],
+        generationQueue: [{ featureId: list.id, priority: 90, estimatedTests: 4, status: 'completed' }],
+      };
+
+      const coverage = buildTestCoverageMap(parseLcov(LCOV), [list], previous);
+
+      expect(coverage.overallCoverage.previous).toEqual(previous.overallCoverage);
+      expect(coverage.byFeature[0]).toMatchObject({
+        coverage: { lineCoverage: 50, previous: { lineCoverage: 10 } },
+        priority: 'critical',
+        testsGenerated: true,
+      });
+      expect(coverage.generationQueue).toEqual(previous.generationQueue);
+    });
+  });
+
+  describe('applyCoverageReports', () => {
+    it('should record measured coverage in the state', async () => {
+      await writeFiles({ 'coverage/lcov.info': LCOV });
+      const state = createInitialState(testDir, 'test', 'coverage');
+      state.functionalityMap = createEmptyFunctionalityMap();
+      state.functionalityMap.features = [createFeature('list', 'src/orders.ts', [1, 3])];
+
+      const coverage = await applyCoverageReports(testDir, state);
+
+      expect(state.currentCoverage).toBe(50);
+      expect(state.testCoverageMap).toBe(coverage);
+      expect(state.functionalityMap.features[0]?.testCoverage).toEqual({
+        hasTests: false,
+        testFiles: [],
+        coveragePercent: 100,
+      });
+    });
+
+    it('should change nothing without reports', async () => {
+      const state = createInitialState(testDir, 'test', 'coverage');
+      state.currentCoverage = 30;
+
+      expect(await applyCoverageReports(testDir, state)).toBeUndefined();
+      expect(state.currentCoverage).toBe(30);
+    });
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Tests for Database Schema Discovery Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  parsePrismaSchema,
+  parseTypeOrmEntities,
+  parseSequelizeModels,
+  parseDjangoModels,
+  parseSqlAlchemyModels,
+  parseSqlMigrations,
+  discoverDatabaseSchema,
+  linkDatabaseTables,
+} from '../database.js';
+import { createEmptyFunctionalityMap, createFeature } from '../agents/discovery.js';
+
+describe('Database Module', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `database-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeFiles(files: Record<string, string>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(dirname(join(testDir, file)), { recursive: true });
+      await writeFile(join(testDir, file), content);
+    }
+  }
+
+  describe('parsePrismaSchema', () => {
+    it('should read models, mapped names and relationships', () => {
+      const tables = parsePrismaSchema(
+        [
+          'model User {',
+          '  id    Int     @id @default(autoincrement())',
+          '  email String  @unique',
+          '  name  String? @map("full_name")',
+          '  posts Post[]',
+          '  @@map("users")',
+          '}',
+          '',
+          'model Post {',
+          '  id       Int   @id',
+          '  author   User  @relation(fields: [authorId], references: [id])',
+          '  authorId Int   // owner',
+          '  tags     Tag[]',
+          '}',
+          '',
+          'model Tag {',
+          '  id    Int    @id',
+          '  posts Post[]',
+          '}',
+        ].join('\n'),
+        'prisma/schema.prisma'
+      );
+
+      expect(tables.map((t) => [t.name, t.model])).toEqual([
+        ['users', 'User'],
+        ['Post', 'Post'],
+        ['Tag', 'Tag'],
+      ]);
+      expect(tables[0]?.columns).toEqual([
+        { name: 'id', type: 'Int', primaryKey: true },
+        { name: 'email', type: 'String' },
+        { name: 'full_name', type: 'String', nullable: true },
+      ]);
+      expect(tables[0]?.relationships).toEqual([{ kind: 'one-to-many', table: 'Post' }]);
+      expect(tables[1]?.relationships).toEqual([
+        { kind: 'many-to-one', table: 'users', column: 'authorId' },
+        { kind: 'many-to-many', table: 'Tag' },
+      ]);
+      expect(tables[2]?.relationships).toEqual([{ kind: 'many-to-many', table: 'Post' }]);
+    });
+  });
+
+  describe('parseTypeOrmEntities', () => {
+    it('should read entities, columns and relations', () => {
+      const tables = parseTypeOrmEntities(
+        'src/order.entity.ts',
+        [
+          "@Entity('orders')",
+          'export class Order {',
+          '  @PrimaryGeneratedColumn() id: number;',
+          "  @Column('decimal', { nullable: true }) total: number;",
+          "  @Column({ name: 'placed_at' }) placedAt: Date;",
+          '  @ManyToOne(() => Customer, (c) => c.orders) customer: Customer;',
+          '  @OneToMany(() => OrderLine, (l) => l.order) lines: OrderLine[];',
+          '}',
+          '@Entity()',
+          'export class OrderLine {',
+          '  @PrimaryColumn() sku: string;',
+          "  @ManyToOne(() => Order) @JoinColumn({ name: 'order_ref' }) order: Order;",
+          '}',
+        ].join('\n')
+      );
+
+      expect(tables.map((t) => t.name)).toEqual(['orders', 'order_line']);
+      expect(tables[0]?.columns).toEqual([
+        { name: 'id', type: 'number', primaryKey: true },
+        { name: 'total', type: 'decimal', nullable: true },
+        { name: 'placed_at', type: 'Date' },
+      ]);
+      expect(tables[0]?.relationships).toEqual([
+        { kind: 'many-to-one', table: 'Customer', column: 'customerId' },
+        { kind: 'one-to-many', table: 'order_line' },
+      ]);
+      expect(tables[1]?.relationships).toEqual([{ kind: 'many-to-one', table: 'orders', column: 'order_ref' }]);
+    });
+  });
+
+  describe('parseSequelizeModels', () => {
+    it('should read define() and init() models with their associations', () => {
+      const tables = parseSequelizeModels(
+        'models/index.js',
+        [
+          "const User = sequelize.define('User', {",
+          '  email: { type: DataTypes.STRING, allowNull: false },',
+          '  bio: DataTypes.TEXT,',
+          '});',
+          'class Category extends Model {',
+          '  static associate(models) { this.hasMany(models.Product); }',
+          '}',
+          "Category.init({ code: { type: DataTypes.STRING(8), primaryKey: true } }, { sequelize, tableName: 'categories' });",
+          "const Product = sequelize.define('Product', { userId: { type: DataTypes.INTEGER, references: { model: 'Users', key: 'id' } } }, { freezeTableName: true });",
+          "Product.belongsTo(Category, { foreignKey: 'category_code' });",
+        ].join('\n')
+      );
+
+      expect(tables.map((t) => t.name)).toEqual(['Users', 'categories', 'Product']);
+      expect(tables[0]?.columns).toEqual([
+        { name: 'id', type: 'INTEGER', primaryKey: true },
+        { name: 'email', type: 'STRING' },
+        { name: 'bio', type: 'TEXT', nullable: true },
+      ]);
+      expect(tables[1]?.columns).toEqual([{ name: 'code', type: 'STRING(8)', primaryKey: true }]);
+      expect(tables[1]?.relationships).toEqual([{ kind: 'one-to-many', table: 'Product' }]);
+      expect(tables[2]?.relationships).toEqual([
+        { kind: 'many-to-one', table: 'Users', column: 'userId' },
+        { kind: 'many-to-one', table: 'categories', column: 'category_code' },
+      ]);
+    });
+  });
+
+  describe('parseDjangoModels', () => {
+    it('should read models with app-prefixed tables, keys and abstract bases', () => {
+      const tables = parseDjangoModels(
+        'shop/models.py',
+        [
+          'from django.db import models',
+          '',
+          'class Timestamped(models.Model):',
+          '    created = models.DateTimeField(auto_now_add=True)',
+          '    class Meta:',
+          '        abstract = True',
+          '',
+          'class Order(Timestamped):',
+          '    customer = models.ForeignKey(',
+          "        'accounts.Customer', on_delete=models.CASCADE, null=True",
+          '    )',
+          "    tags = models.ManyToManyField('Tag')",
+          '    total = models.DecimalField(max_digits=8, decimal_places=2)  # with tax',
+          '',
+          'class Tag(models.Model):',
+          '    slug = models.SlugField(primary_key=True)',
+          '    class Meta:',
+          "        db_table = 'tags'",
+        ].join('\n')
+      );
+
+      expect(tables.map((t) => t.name)).toEqual(['shop_order', 'tags']);
+      expect(tables[0]?.columns).toEqual([
+        { name: 'id', type: 'AutoField', primaryKey: true },
+        { name: 'created', type: 'DateTimeField' },
+        { name: 'customer_id', type: 'ForeignKey', nullable: true },
+        { name: 'total', type: 'DecimalField' },
+      ]);
+      expect(tables[0]?.relationships).toEqual([
+        { kind: 'many-to-one', table: 'Customer', column: 'customer_id' },
+        { kind: 'many-to-many', table: 'tags' },
+      ]);
+      expect(tables[1]?.columns).toEqual([{ name: 'slug', type: 'SlugField', primaryKey: true }]);
+    });
+  });
+
+  describe('parseSqlAlchemyModels', () => {
+    it('should read classic and typed declarative models', () => {
+      const tables = parseSqlAlchemyModels(
+        'app/models.py',
+        [
+          'class User(Base):',
+          "    __tablename__ = 'users'",
+          '    id = Column(Integer, primary_key=True)',
+          '    name = Column(String(50), nullable=False)',
+          '    addresses: Mapped[List["Address"]] = relationship(back_populates="user")',
+          '',
+          'class Address(Base):',
+          '    __tablename__ = "addresses"',
+          '    id: Mapped[int] = mapped_column(primary_key=True)',
+          '    user_id: Mapped[int] = mapped_column(ForeignKey("users.id"))',
+          '    note: Mapped[Optional[str]] = mapped_column(Text)',
+          '',
+          'class AuditLog(db.Model):',
+          '    id = db.Column(db.Integer, primary_key=True)',
+          '',
+          'class Helper:',
+          '    value = 1',
+        ].join('\n')
+      );
+
+      expect(tables.map((t) => t.name)).toEqual(['users', 'addresses', 'audit_log']);
+      expect(tables[0]?.columns).toEqual([
+        { name: 'id', type: 'Integer', primaryKey: true },
+        { name: 'name', type: 'String(50)' },
+      ]);
+      expect(tables[0]?.relationships).toEqual([{ kind: 'one-to-many', table: 'addresses' }]);
+      expect(tables[1]?.columns).toEqual([
+        { name: 'id', type: 'int', primaryKey: true },
+        { name: 'user_id', type: 'int' },
+        { name: 'note', type: 'Text', nullable: true },
+      ]);
+      expect(tables[1]?.relationships).toEqual([{ kind: 'many-to-one', table: 'users', column: 'user_id' }]);
+    });
+  });
+
+  describe('parseSqlMigrations', () => {
+    it('should replay creates, alters and drops in order', () => {
+      const tables = parseSqlMigrations([
+        {
+          file: 'migrations/001_init.sql',
+          content: [
+            '-- initial schema',
+            'CREATE TABLE users (',
+            '  id SERIAL PRIMARY KEY,',
+            '  email VARCHAR(255) NOT NULL UNIQUE,',
+            '  nickname TEXT',
+            ');',
+            'CREATE TABLE IF NOT EXISTS "orders" (',
+            '  "id" INTEGER NOT NULL,',
+            '  "user_id" INTEGER REFERENCES users(id),',
+            '  total NUMERIC(10, 2) DEFAULT 0,',
+            '  CONSTRAINT orders_pkey PRIMARY KEY ("id")',
+            ');',
+            'CREATE TABLE scratch (id INT);',
+          ].join('\n'),
+        },
+        {
+          file: 'migrations/002_changes.sql',
+          content: [
+            'ALTER TABLE users ADD COLUMN created_at TIMESTAMP WITH TIME ZONE NOT NULL, DROP COLUMN nickname;',
+            'ALTER TABLE orders RENAME COLUMN total TO amount;',
+            'ALTER TABLE orders ALTER COLUMN amount TYPE NUMERIC(12, 2);',
+            'CREATE TABLE coupons (code TEXT PRIMARY KEY, order_id INT);',
+            'ALTER TABLE coupons ADD CONSTRAINT coupons_order_fk FOREIGN KEY (order_id) REFERENCES orders (id);',
+            'DROP TABLE IF EXISTS scratch;',
+          ].join('\n'),
+        },
+      ]);
+
+      expect(tables.map((t) => [t.name, t.source])).toEqual([
+        ['users', 'migrations/001_init.sql'],
+        ['orders', 'migrations/001_init.sql'],
+        ['coupons', 'migrations/002_changes.sql'],
+      ]);
+      expect(tables[0]?.columns).toEqual([
+        { name: 'id', type: 'SERIAL', primaryKey: true },
+        { name: 'email', type: 'VARCHAR(255)' },
+        { name: 'created_at', type: 'TIMESTAMP WITH TIME ZONE' },
+      ]);
+      expect(tables[1]?.columns).toEqual([
+        { name: 'id', type: 'INTEGER', primaryKey: true },
+        { name: 'user_id', type: 'INTEGER', nullable: true },
+        { name: 'amount', type: 'NUMERIC(12, 2)', nullable: true },
+      ]);
+      expect(tables[1]?.relationships).toEqual([{ kind: 'many-to-one', table: 'users', column: 'user_id' }]);
+      expect(tables[2]?.relationships).toEqual([{ kind: 'many-to-one', table: 'orders', column: 'order_id' }]);
+    });
+  });
+
+  describe('discoverDatabaseSchema', () => {
+    it('should combine models and migrations, preferring models', async () => {
+      await writeFiles({
+        'prisma/schema.prisma': 'model User {\n  id Int @id\n  @@map("users")\n}\n',
+        'prisma/migrations/001/migration.sql': 'CREATE TABLE "users" (id INT);\nCREATE TABLE audit (id INT);\n',
+        'app/models.py': "class Invoice(Base):\n    __tablename__ = 'invoices'\n    user_id = Column(Integer, ForeignKey('users.id'))\n",
+        'node_modules/pkg/migrations/x.sql': 'CREATE TABLE vendored (id INT);\n',
+      });
+
+      const schema = await discoverDatabaseSchema(testDir, ['app/models.py']);
+
+      expect(schema?.tables.map((t) => [t.name, t.source])).toEqual([
+        ['audit', 'prisma/migrations/001/migration.sql'],
+        ['invoices', 'app/models.py'],
+        ['users', 'prisma/schema.prisma'],
+      ]);
+    });
+
+    it('should return undefined without models or migrations', async () => {
+      await writeFiles({ 'src/index.ts': 'export {};\n' });
+
+      expect(await discoverDatabaseSchema(testDir, ['src/index.ts'])).toBeUndefined();
+    });
+  });
+
+  describe('linkDatabaseTables', () => {
+    it('should link tables to the features querying them', async () => {
+      await writeFiles({
+        'src/users/model.ts': "@Entity('users') export class User {}\n",
+        'src/users/service.ts': 'const users = await dataSource.getRepository(User).find();\n',
+        'src/orders/report.ts': "const rows = await db.query('SELECT * FROM orders o JOIN users u ON u.id = o.user_id');\n",
+        'src/posts/feed.ts': 'const posts = await prisma.post.findMany();\n',
+        'src/misc/util.ts': 'export const ordersLabel = "orders";\n',
+      });
+      const map = createEmptyFunctionalityMap();
+      map.features = [
+        createFeature('users', 'src/users/model.ts', [1, 1]),
+        createFeature('users service', 'src/users/service.ts', [1, 1]),
+        createFeature('orders report', 'src/orders/report.ts', [1, 1]),
+        createFeature('feed', 'src/posts/feed.ts', [1, 1]),
+        createFeature('util', 'src/misc/util.ts', [1, 1]),
+      ];
+      const [, service, report, feed] = map.features.map((f) => f.id);
+      map.databaseSchema = {
+        tables: [
+          { name: 'users', columns: [], model: 'User', source: 'src/users/model.ts' },
+          { name: 'orders', columns: [] },
+          { name: 'Post', columns: [], model: 'Post', source: 'prisma/schema.prisma' },
+        ],
+      };
+
+      await linkDatabaseTables(testDir, map);
+
+      expect(map.databaseSchema.tables.map((t) => [t.name, t.usedBy])).toEqual([
+        ['users', [service, report]],
+        ['orders', [report]],
+        ['Post', [feed]],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for Artifact Diff Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { captureArtifacts, diffArtifacts, isEmptyDiff, renderArtifactDiff } from '../diff.js';
+import { initializeModernizationDir, saveFunctionalityMap } from '../state.js';
+import { createEmptyFunctionalityMap, createFeature } from '../agents/discovery.js';
+import type { ArtifactSnapshot, TestCoverageMap, EnhancementPlan } from '../types.js';
+
+describe('Diff Module', () => {
+  const coverageMap = (line: number, byFeature: TestCoverageMap['byFeature'] = []): TestCoverageMap => ({
+    version: '1.0.0',
+    analyzedAt: '2024-01-01T00:00:00.000Z',
+    overallCoverage: { lineCoverage: line, branchCoverage: 50, functionCoverage: 60 },
+    byFeature,
+    untestedFeatures: [],
+    generationQueue: [],
+  });
+
+  const enhancementPlan = (status: 'pending' | 'completed', stepStatus: 'pending' | 'completed'): EnhancementPlan => ({
+    version: '1.0.0',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    enhancementSpec: 'spec',
+    baselineTestResults: { total: 1, passed: 1, failed: 0, skipped: 0 },
+    enhancements: [
+      {
+        id: 'enh-1',
+        title: 'Notifications',
+        description: '',
+        affectedFeatures: [],
+        newFeatures: [],
+        implementationSteps: [{ step: 1, description: 'Add model', files: [], risk: 'low', status: stepStatus }],
+        riskLevel: 'low',
+        requiresApproval: false,
+        status,
+      },
+    ],
+  });
+
+  describe('diffArtifacts', () => {
+    it('should report features added, removed and changed', () => {
+      const login = createFeature('Login', 'src/login.ts', [1, 10]);
+      const logout = createFeature('Logout', 'src/logout.ts', [1, 5]);
+      const search = createFeature('Search', 'src/search.ts', [1, 30]);
+
+      const before = createEmptyFunctionalityMap();
+      before.features.push(login, logout);
+      const after = createEmptyFunctionalityMap();
+      after.features.push({ ...login, complexity: 'high', description: 'Signs users in' }, search);
+
+      const diff = diffArtifacts({ functionalityMap: before }, { functionalityMap: after });
+
+      expect(diff.featuresAdded).toEqual([{ id: search.id, name: 'Search' }]);
+      expect(diff.featuresRemoved).toEqual([{ id: logout.id, name: 'Logout' }]);
+      expect(diff.featuresChanged).toEqual([{ id: login.id, name: 'Login', fields: ['complexity', 'description'] }]);
+    });
+
+    it('should report overall and per-feature coverage deltas', () => {
+      const feature = (line: number) => ({
+        featureId: 'auth',
+        featureName: 'Auth',
+        coverage: { lineCoverage: line, branchCoverage: 0, functionCoverage: 0 },
+        testFiles: [],
+        gaps: [],
+        priority: 'high' as const,
+        testsGenerated: false,
+      });
+
+      const diff = diffArtifacts(
+        { testCoverageMap: coverageMap(40, [feature(10)]) },
+        { testCoverageMap: coverageMap(55, [feature(70)]) }
+      );
+
+      expect(diff.coverage).toEqual([
+        { metric: 'lineCoverage', before: 40, after: 55 },
+        { featureId: 'auth', featureName: 'Auth', metric: 'lineCoverage', before: 10, after: 70 },
+      ]);
+    });
+
+    it('should treat a newly written coverage map as a change from nothing', () => {
+      const diff = diffArtifacts({}, { testCoverageMap: coverageMap(40) });
+
+      expect(diff.coverage.map((d) => [d.metric, d.before, d.after])).toEqual([
+        ['lineCoverage', undefined, 40],
+        ['branchCoverage', undefined, 50],
+        ['functionCoverage', undefined, 60],
+      ]);
+    });
+
+    it('should report status transitions of enhancements and their steps', () => {
+      const diff = diffArtifacts(
+        { enhancementPlan: enhancementPlan('pending', 'pending') },
+        { enhancementPlan: enhancementPlan('completed', 'completed') }
+      );
+
+      expect(diff.statusTransitions).toEqual([
+        { kind: 'enhancement', id: 'enh-1', label: 'Notifications', from: 'pending', to: 'completed' },
+        { kind: 'implementation_step', id: 'enh-1#1', label: 'Add model', from: 'pending', to: 'completed' },
+      ]);
+    });
+
+    it('should record added and removed items without a from or to status', () => {
+      const diff = diffArtifacts({}, { enhancementPlan: enhancementPlan('pending', 'pending') });
+      expect(diff.statusTransitions[0]).toEqual({
+        kind: 'enhancement',
+        id: 'enh-1',
+        label: 'Notifications',
+        from: undefined,
+        to: 'pending',
+      });
+
+      const removed = diffArtifacts({ enhancementPlan: enhancementPlan('pending', 'pending') }, {});
+      expect(removed.statusTransitions.map((t) => [t.kind, t.from, t.to])).toEqual([
+        ['enhancement', 'pending', undefined],
+        ['implementation_step', 'pending', undefined],
+      ]);
+    });
+
+    it('should be empty for identical snapshots', () => {
+      const snapshot: ArtifactSnapshot = {
+        testCoverageMap: coverageMap(40),
+        enhancementPlan: enhancementPlan('pending', 'pending'),
+      };
+      expect(isEmptyDiff(diffArtifacts(snapshot, snapshot))).toBe(true);
+    });
+  });
+
+  describe('renderArtifactDiff', () => {
+    it('should render each section as markdown', () => {
+      const search = createFeature('Search', 'src/search.ts', [1, 30]);
+      const after = createEmptyFunctionalityMap();
+      after.features.push(search);
+
+      const output = renderArtifactDiff(
+        diffArtifacts(
+          { testCoverageMap: coverageMap(40), enhancementPlan: enhancementPlan('pending', 'pending') },
+          {
+            functionalityMap: after,
+            testCoverageMap: coverageMap(55),
+            enhancementPlan: enhancementPlan('completed', 'pending'),
+          }
+        ),
+        'Artifact Changes (session 3)'
+      );
+
+      expect(output).toContain('## Artifact Changes (session 3)');
+      expect(output).toContain(`- Added: Search (${search.id})`);
+      expect(output).toContain('- Overall lineCoverage: 40.0% -> 55.0% (+15.0)');
+      expect(output).toContain('- enhancement Notifications (enh-1): pending -> completed');
+    });
+
+    it('should say when nothing changed', () => {
+      expect(renderArtifactDiff(diffArtifacts({}, {}))).toBe('## Artifact Changes\n\nNo changes.\n');
+    });
+  });
+
+  describe('captureArtifacts', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `diff-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      await mkdir(testDir, { recursive: true });
+      await initializeModernizationDir(testDir);
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should read the artifacts that exist', async () => {
+      const map = createEmptyFunctionalityMap();
+      await saveFunctionalityMap(testDir, map);
+
+      const snapshot = await captureArtifacts(testDir);
+
+      expect(snapshot.functionalityMap).toEqual(map);
+      expect(snapshot.testCoverageMap).toBeUndefined();
+      expect(snapshot.enhancementPlan).toBeUndefined();
+      expect(snapshot.migrationPlan).toBeUndefined();
+    });
+  });
+});
@@ -3,12 +3,14 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdir, rm, writeFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { mkdir, rm, writeFile, unlink } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
 import { tmpdir } from 'node:os';
 import {
   createEmptyFunctionalityMap,
   generateFeatureId,
+  ensureUniqueFeatureIds,
+  preserveFeatureIds,
   detectFeatureCategory,
   createFeature,
   createUndocumentedBehavior,
@@ -19,12 +21,21 @@ import {
   prioritizeFeatures,
   generateDiscoveryReport,
   detectLanguage,
+  detectLanguages,
   detectFramework,
+  detectFrameworkVersion,
   detectArchitecturePattern,
   findWorkspacePackages,
   findEntryPoints,
   extractDependencies,
+  linkExternalDependencies,
+  extractFeatures,
+  computeCodeMetrics,
+  runDiscovery,
+  refreshDiscovery,
+  buildDiscoveryCache,
 } from '../agents/discovery.js';
+import { loadDiscoveryCache } from '../state.js';
 import type { Feature, FunctionalityMap } from '../types.js';
 
 describe('Discovery Module', () => {
@@ -47,7 +58,7 @@ describe('Discovery Module', () => {
     it('should create map with correct structure', () => {
       const map = createEmptyFunctionalityMap();
 
-      expect(map.version).toBe('1.0.0');
+      expect(map.version).toBe('1.1.0');
       expect(map.discoveredAt).toBeDefined();
       expect(map.sourceAnalysis.language).toBe('unknown');
       expect(map.sourceAnalysis.entryPoints).toEqual([]);
@@ -70,6 +81,81 @@ describe('Discovery Module', () => {
       const id = generateFeatureId('API-Endpoint/v2', 'api');
       expect(id).toMatch(/^api_api_endpoint_v2_[a-z0-9]+$/);
     });
+
+    it('should give the same inputs the same ID', () => {
+      expect(generateFeatureId('User Login', 'authentication', 'src/auth/login.ts')).toBe(
+        generateFeatureId('User Login', 'authentication', 'src/auth/login.ts')
+      );
+    });
+
+    it('should tell apart features with the same name in different places', () => {
+      expect(generateFeatureId('login', 'authentication', 'apps/web/login.ts')).not.toBe(
+        generateFeatureId('login', 'authentication', 'apps/admin/login.ts')
+      );
+    });
+  });
+
+  describe('ensureUniqueFeatureIds', () => {
+    it('should suffix colliding IDs and leave the first alone', () => {
+      const features = [
+        createFeature('Login', 'src/auth/login.ts', [1, 10]),
+        createFeature('Login', 'src/auth/login.ts', [1, 10]),
+        createFeature('Login', 'src/auth/login.ts', [1, 10]),
+      ];
+      const id = features[0]!.id;
+
+      ensureUniqueFeatureIds(features);
+
+      expect(features.map((f) => f.id)).toEqual([id, `${id}_2`, `${id}_3`]);
+    });
+  });
+
+  describe('preserveFeatureIds', () => {
+    it('should keep IDs of features found again under a new location', () => {
+      const previous = createEmptyFunctionalityMap();
+      previous.features.push({ ...createFeature('Login', 'src/auth/login.ts', [1, 10]), id: 'legacy_login' });
+
+      const map = createEmptyFunctionalityMap();
+      const moved = createFeature('Login', 'src/auth/signin.ts', [1, 10]);
+      const other = createFeature('Orders', 'src/api/orders.ts', [1, 10]);
+      other.dependencies = [moved.id];
+      map.features.push(moved, other);
+      map.undocumentedBehaviors.push(createUndocumentedBehavior('Retries', 'loop', [moved.id]));
+
+      preserveFeatureIds(previous, map);
+
+      expect(map.features[0]?.id).toBe('legacy_login');
+      expect(map.features[1]?.dependencies).toEqual(['legacy_login']);
+      expect(map.undocumentedBehaviors[0]?.affectedFeatures).toEqual(['legacy_login']);
+    });
+
+    it('should match a renamed feature by its primary file', () => {
+      const previous = createEmptyFunctionalityMap();
+      previous.features.push({ ...createFeature('Auth', 'src/auth/index.ts', [1, 10]), id: 'auth_old' });
+
+      const map = createEmptyFunctionalityMap();
+      map.features.push(createFeature('Authentication', 'src/auth/index.ts', [1, 10]));
+
+      preserveFeatureIds(previous, map);
+
+      expect(map.features[0]?.id).toBe('auth_old');
+    });
+
+    it('should give each previous ID to one feature only', () => {
+      const previous = createEmptyFunctionalityMap();
+      previous.features.push({ ...createFeature('Login', 'src/auth/login.ts', [1, 10]), id: 'login' });
+
+      const map = createEmptyFunctionalityMap();
+      map.features.push(
+        createFeature('Login', 'src/auth/login.ts', [1, 10]),
+        createFeature('Session', 'src/auth/login.ts', [1, 10])
+      );
+
+      preserveFeatureIds(previous, map);
+
+      expect(map.features[0]?.id).toBe('login');
+      expect(map.features[1]?.id).not.toBe('login');
+    });
   });
 
   describe('detectFeatureCategory', () => {
@@ -138,6 +224,9 @@ describe('Discovery Module', () => {
       );
 
       expect(behavior.id).toMatch(/^ub_/);
+      expect(behavior.id).toBe(
+        createUndocumentedBehavior('Silent retry on failure', 'other evidence', ['feature_2', 'feature_1']).id
+      );
       expect(behavior.description).toBe('Silent retry on failure');
       expect(behavior.evidence).toBe('Found retry logic without documentation');
       expect(behavior.affectedFeatures).toEqual(['feature_1', 'feature_2']);
@@ -287,6 +376,35 @@ describe('Discovery Module', () => {
 
       expect(calculateComplexity(feature)).toBe('high');
     });
+
+    it('should raise complexity for heavily branching code', () => {
+      const feature: Feature = {
+        id: 'rules',
+        name: 'Rules',
+        category: 'utility',
+        discoveryMethod: 'static',
+        sourceLocations: [{ file: 'src/rules.ts', lines: [1, 300], complexity: 60 }],
+        dependencies: [],
+      };
+      expect(calculateComplexity(feature)).toBe('low');
+
+      feature.codeMetrics = computeCodeMetrics(feature.sourceLocations);
+      expect(calculateComplexity(feature)).toBe('medium');
+    });
+  });
+
+  describe('computeCodeMetrics', () => {
+    it('should sum metrics over parsed locations only', () => {
+      expect(
+        computeCodeMetrics([
+          { file: 'src/a.ts', lines: [3, 12], functions: ['a', 'b'], classes: ['A'], complexity: 4 },
+          { file: 'src/b.ts', lines: [1, 5], functions: ['c'], complexity: 2 },
+          { file: 'src/c.py', lines: [1, 1] },
+        ])
+      ).toEqual({ functions: 3, classes: 1, lines: 15, cyclomaticComplexity: 6 });
+
+      expect(computeCodeMetrics([{ file: 'src/c.py', lines: [1, 1] }])).toBeUndefined();
+    });
   });
 
   describe('prioritizeFeatures', () => {
@@ -382,6 +500,59 @@ describe('Discovery Module', () => {
       const lang = await detectLanguage(testDir);
       expect(lang).toBe('unknown');
     });
+
+    it('should prefer the language with the most code over marker files', async () => {
+      await writeFile(join(testDir, 'package.json'), '{}');
+      await writeFile(join(testDir, 'build.js'), 'module.exports = {};\n');
+      await mkdir(join(testDir, 'app'), { recursive: true });
+      await writeFile(join(testDir, 'app', 'main.py'), 'import os\n\nprint(os.getcwd())\n');
+
+      expect(await detectLanguage(testDir)).toBe('python');
+    });
+  });
+
+  describe('detectLanguages', () => {
+    it('should break the source down by language and directory', async () => {
+      await mkdir(join(testDir, 'backend'), { recursive: true });
+      await mkdir(join(testDir, 'frontend', 'src'), { recursive: true });
+      await writeFile(join(testDir, 'backend', 'main.go'), 'package main\n'.repeat(30));
+      await writeFile(join(testDir, 'backend', 'handlers.go'), 'package main\n'.repeat(20));
+      await writeFile(join(testDir, 'frontend', 'src', 'app.ts'), 'export {};\n'.repeat(10));
+      // Vendored script, too small to be scanned
+      await writeFile(join(testDir, 'backend', 'vendor.js'), 'x;\n');
+      await writeFile(join(testDir, 'frontend', 'src', 'types.d.ts'), 'declare const x: number;\n');
+
+      const languages = await detectLanguages(testDir);
+
+      expect(languages.primary).toBe('go');
+      expect(languages.secondary).toEqual(['typescript']);
+      expect(languages.languages).toEqual([
+        { language: 'go', files: 2, lines: 52 },
+        { language: 'typescript', files: 1, lines: 11 },
+        { language: 'javascript', files: 1, lines: 2 },
+      ]);
+      expect(languages.directories).toEqual({ backend: ['go'], frontend: ['typescript'] });
+    });
+
+    it('should skip vendored dependencies and virtualenvs', async () => {
+      await mkdir(join(testDir, 'app'), { recursive: true });
+      await mkdir(join(testDir, '.venv', 'lib', 'site-packages', 'requests'), { recursive: true });
+      await mkdir(join(testDir, 'vendor', 'github.com', 'lib'), { recursive: true });
+      await mkdir(join(testDir, 'target', 'debug'), { recursive: true });
+      await writeFile(join(testDir, 'app', 'main.py'), 'import os\n'.repeat(10));
+      await writeFile(join(testDir, '.venv', 'lib', 'site-packages', 'requests', 'api.py'), 'x = 1\n'.repeat(100));
+      await writeFile(join(testDir, 'vendor', 'github.com', 'lib', 'lib.go'), 'package lib\n'.repeat(100));
+      await writeFile(join(testDir, 'target', 'debug', 'build.rs'), 'fn main() {}\n'.repeat(100));
+
+      const languages = await detectLanguages(testDir);
+
+      expect(languages.languages).toEqual([{ language: 'python', files: 1, lines: 11 }]);
+    });
+
+    it('should fall back to marker files without source', async () => {
+      await writeFile(join(testDir, 'Cargo.toml'), '[package]');
+      expect(await detectLanguages(testDir)).toEqual({ primary: 'rust', secondary: [], languages: [], directories: {} });
+    });
   });
 
   describe('detectFramework', () => {
@@ -430,6 +601,36 @@ describe('Discovery Module', () => {
       expect(framework).toBe('nestjs');
     });
 
+    it('should detect Python frameworks from requirements.txt, pyproject.toml or Pipfile', async () => {
+      await writeFile(join(testDir, 'requirements.txt'), 'Flask==3.0.0\n');
+      expect(await detectFramework(testDir)).toBe('flask');
+
+      await rm(join(testDir, 'requirements.txt'));
+      await writeFile(join(testDir, 'pyproject.toml'), '[project]\ndependencies = ["fastapi>=0.110"]\n');
+      expect(await detectFramework(testDir)).toBe('fastapi');
+
+      await rm(join(testDir, 'pyproject.toml'));
+      await writeFile(join(testDir, 'Pipfile'), '[packages]\nDjango = "*"\n');
+      expect(await detectFramework(testDir)).toBe('django');
+    });
+
+    it('should detect Go, Rust and Java frameworks from their manifests', async () => {
+      await writeFile(join(testDir, 'go.mod'), 'module x\nrequire github.com/gofiber/fiber/v2 v2.52.0\n');
+      expect(await detectFramework(testDir)).toBe('fiber');
+
+      await rm(join(testDir, 'go.mod'));
+      await writeFile(join(testDir, 'Cargo.toml'), '[dependencies]\nactix-web = "4"\nserde = "1"\n');
+      expect(await detectFramework(testDir)).toBe('actix');
+
+      await rm(join(testDir, 'Cargo.toml'));
+      await writeFile(
+        join(testDir, 'pom.xml'),
+        '<project><dependencies><dependency><groupId>org.springframework.boot</groupId>' +
+          '<artifactId>spring-boot-starter-web</artifactId></dependency></dependencies></project>'
+      );
+      expect(await detectFramework(testDir)).toBe('spring');
+    });
+
     it('should return undefined for no framework', async () => {
       await writeFile(join(testDir, 'package.json'), JSON.stringify({ dependencies: {} }));
       const framework = await detectFramework(testDir);
@@ -437,6 +638,33 @@ describe('Discovery Module', () => {
     });
   });
 
+  describe('detectFrameworkVersion', () => {
+    it('should read the version from package.json', async () => {
+      await writeFile(join(testDir, 'package.json'), JSON.stringify({ dependencies: { express: '^4.18.2' } }));
+      expect(await detectFrameworkVersion(testDir, 'express')).toBe('^4.18.2');
+    });
+
+    it('should read the version from other manifests', async () => {
+      await writeFile(join(testDir, 'go.mod'), 'module x\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n)\n');
+      expect(await detectFrameworkVersion(testDir, 'gin')).toBe('v1.9.1');
+    });
+
+    it('should fall back to the Spring Boot plugin version', async () => {
+      await writeFile(
+        join(testDir, 'build.gradle'),
+        "plugins {\n  id 'org.springframework.boot' version '3.2.1'\n}\n" +
+          "dependencies {\n  implementation 'org.springframework.boot:spring-boot-starter-web'\n}\n"
+      );
+      expect(await detectFrameworkVersion(testDir, 'spring')).toBe('3.2.1');
+    });
+
+    it('should return undefined when no version is declared', async () => {
+      await writeFile(join(testDir, 'requirements.txt'), 'flask\n');
+      expect(await detectFrameworkVersion(testDir, 'flask')).toBeUndefined();
+      expect(await detectFrameworkVersion(testDir, 'rails')).toBeUndefined();
+    });
+  });
+
   describe('detectArchitecturePattern', () => {
     it('should detect monorepo from package.json workspaces', async () => {
       await writeFile(
@@ -535,6 +763,16 @@ describe('Discovery Module', () => {
   });
 
   describe('extractDependencies', () => {
+    it('should include Python dependencies', async () => {
+      await writeFile(join(testDir, 'requirements.txt'), 'django>=4.2\n');
+
+      const deps = await extractDependencies(testDir);
+
+      expect(deps).toEqual([
+        { name: 'django', type: 'production', usedBy: [], configLocation: 'requirements.txt', version: '>=4.2' },
+      ]);
+    });
+
     it('should extract production dependencies', async () => {
       await writeFile(
         join(testDir, 'package.json'),
@@ -590,4 +828,381 @@ describe('Discovery Module', () => {
       expect(express?.version).toBe('^4.18.0');
     });
   });
+
+  describe('linkExternalDependencies', () => {
+    function createMap(): FunctionalityMap {
+      const map = createEmptyFunctionalityMap();
+      map.features = [createFeature('orders', 'src/orders.ts', [1, 1]), createFeature('reports', 'api/reports.py', [1, 1])];
+      map.features[0]!.id = 'orders';
+      map.features[1]!.id = 'reports';
+      map.externalDependencies = [
+        { name: 'express', type: 'production', usedBy: [], configLocation: 'package.json' },
+        { name: 'lodash', type: 'production', usedBy: [], configLocation: 'package.json' },
+        { name: 'vitest', type: 'development', usedBy: [], configLocation: 'package.json' },
+        { name: 'pyyaml', type: 'production', usedBy: [], configLocation: 'requirements.txt' },
+        { name: 'serde', type: 'production', usedBy: ['agent-note'], configLocation: 'Cargo.toml' },
+      ];
+      map.importGraph = {
+        files: {},
+        packages: { 'src/orders.ts': ['express', 'zod'], 'api/reports.py': ['os', 'yaml'] },
+      };
+      return map;
+    }
+
+    it('should fill usedBy with the features importing each dependency', () => {
+      const map = linkExternalDependencies(createMap());
+
+      expect(map.externalDependencies.map((d) => [d.name, d.usedBy])).toEqual([
+        ['express', ['orders']],
+        ['lodash', []],
+        ['vitest', []],
+        ['pyyaml', ['reports']],
+        ['serde', ['agent-note']],
+      ]);
+    });
+
+    it('should flag unused production and undeclared packages, replacing earlier flags', () => {
+      const map = createMap();
+      map.undocumentedBehaviors = [createUndocumentedBehavior('Silent retry on failure', 'runtime trace', ['orders'])];
+
+      linkExternalDependencies(map);
+      map.externalDependencies = map.externalDependencies.filter((dep) => dep.name !== 'lodash');
+      linkExternalDependencies(map);
+
+      expect(map.undocumentedBehaviors.map((b) => [b.description, b.affectedFeatures, b.discoveredVia])).toEqual([
+        ['Silent retry on failure', ['orders'], 'runtime'],
+        ['Undeclared package zod is imported without a manifest entry', ['orders'], 'static'],
+      ]);
+      expect(map.undocumentedBehaviors[1]?.evidence).toBe('Imported by src/orders.ts');
+    });
+
+    it('should keep behaviors agents describe like dependency flags', () => {
+      const map = createMap();
+      const note = createUndocumentedBehavior(
+        'Declared dependency moment is never imported but loaded by a plugin at runtime',
+        'plugin loader',
+        []
+      );
+      map.undocumentedBehaviors = [note];
+
+      linkExternalDependencies(map);
+
+      expect(map.undocumentedBehaviors[0]).toBe(note);
+    });
+  });
+
+  describe('runDiscovery', () => {
+    it('should produce the same feature IDs on every run', async () => {
+      await mkdir(join(testDir, 'src', 'auth'), { recursive: true });
+      await writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'app' }));
+      await writeFile(join(testDir, 'tsconfig.json'), '{}');
+      await writeFile(join(testDir, 'src', 'auth', 'login.ts'), 'export function login() {}\n');
+      await writeFile(join(testDir, 'src', 'orders.ts'), 'export function list() {}\n');
+
+      const first = await runDiscovery(testDir);
+      const second = await runDiscovery(testDir);
+
+      expect(first.features.length).toBeGreaterThan(0);
+      expect(second.features.map((f) => f.id).sort()).toEqual(first.features.map((f) => f.id).sort());
+    });
+
+    it('should keep previous IDs when given the previous map', async () => {
+      await mkdir(join(testDir, 'src'), { recursive: true });
+      await writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'app' }));
+      await writeFile(join(testDir, 'tsconfig.json'), '{}');
+      await writeFile(join(testDir, 'src', 'orders.ts'), 'export function list() {}\n');
+
+      const previous = await runDiscovery(testDir);
+      previous.features[0]!.id = 'orders_from_v1';
+
+      const map = await runDiscovery(testDir, undefined, previous);
+
+      expect(map.features[0]?.id).toBe('orders_from_v1');
+    });
+
+    it('should leave .modernization alone', async () => {
+      await mkdir(join(testDir, 'src'), { recursive: true });
+      await writeFile(join(testDir, 'src', 'orders.ts'), 'export function list() {}\n');
+
+      await runDiscovery(testDir);
+
+      expect(await loadDiscoveryCache(testDir)).toBeNull();
+    });
+
+    it('should link features through the files they import', async () => {
+      await mkdir(join(testDir, 'src', 'orders'), { recursive: true });
+      await mkdir(join(testDir, 'src', 'db'), { recursive: true });
+      await writeFile(join(testDir, 'tsconfig.json'), '{}');
+      await writeFile(join(testDir, 'src', 'orders', 'service.ts'), "import { db } from '../db/client.js';\nexport const list = () => db;\n");
+      await writeFile(join(testDir, 'src', 'db', 'client.ts'), 'export const db = {};\n');
+
+      const map = await runDiscovery(testDir);
+      const service = map.features.find((f) => f.sourceLocations[0]?.file === 'src/orders/service.ts');
+      const client = map.features.find((f) => f.sourceLocations[0]?.file === 'src/db/client.ts');
+
+      expect(map.importGraph).toEqual({ files: { 'src/orders/service.ts': ['src/db/client.ts'] }, packages: {} });
+      expect(service?.dependencies).toEqual([client?.id]);
+      expect(client?.dependencies).toEqual([]);
+    });
+
+    it('should map workspace dependencies to the features importing them', async () => {
+      await mkdir(join(testDir, 'packages', 'web', 'src'), { recursive: true });
+      await writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'root', workspaces: ['packages/*'] }));
+      await writeFile(join(testDir, 'packages', 'web', 'package.json'), JSON.stringify({ name: 'web', dependencies: { react: '^18.0.0' } }));
+      await writeFile(join(testDir, 'packages', 'web', 'src', 'app.ts'), "import React from 'react';\nexport const app = React;\n");
+
+      const map = await runDiscovery(testDir);
+      const app = map.features.find((f) => f.sourceLocations[0]?.file === 'packages/web/src/app.ts');
+
+      expect(map.externalDependencies).toEqual([
+        { name: 'react', type: 'production', usedBy: [app?.id], configLocation: 'packages/web/package.json', version: '^18.0.0' },
+      ]);
+      expect(map.undocumentedBehaviors).toEqual([]);
+    });
+
+    it('should read the database schema and link tables to the features querying them', async () => {
+      await mkdir(join(testDir, 'src', 'orders'), { recursive: true });
+      await mkdir(join(testDir, 'migrations'), { recursive: true });
+      await writeFile(join(testDir, 'tsconfig.json'), '{}');
+      await writeFile(join(testDir, 'migrations', '001_orders.sql'), 'CREATE TABLE orders (id SERIAL PRIMARY KEY, total NUMERIC);\n');
+      await writeFile(join(testDir, 'src', 'orders', 'list.ts'), "export const list = () => db.query('SELECT * FROM orders');\n");
+
+      const map = await runDiscovery(testDir);
+      const list = map.features.find((f) => f.sourceLocations[0]?.file === 'src/orders/list.ts');
+
+      expect(map.databaseSchema?.tables).toEqual([
+        {
+          name: 'orders',
+          columns: [
+            { name: 'id', type: 'SERIAL', primaryKey: true },
+            { name: 'total', type: 'NUMERIC', nullable: true },
+          ],
+          source: 'migrations/001_orders.sql',
+          usedBy: [list?.id],
+        },
+      ]);
+      expect(generateDiscoveryReport(map)).toContain(`| orders | 2 |  | ${list?.id} |`);
+    });
+
+    it('should link test files to the features they cover instead of making them features', async () => {
+      await mkdir(join(testDir, 'src', '__tests__'), { recursive: true });
+      await writeFile(join(testDir, 'tsconfig.json'), '{}');
+      await writeFile(join(testDir, 'src', 'orders.ts'), 'export function list() {}\n');
+      await writeFile(join(testDir, 'src', 'billing.ts'), 'export function charge() {}\n');
+      await writeFile(
+        join(testDir, 'src', '__tests__', 'orders.test.ts'),
+        "import { list } from '../orders.js';\nit('lists', () => {});\nit('pages', () => {});\n"
+      );
+
+      const map = await runDiscovery(testDir);
+      const orders = map.features.find((f) => f.sourceLocations[0]?.file === 'src/orders.ts');
+      const billing = map.features.find((f) => f.sourceLocations[0]?.file === 'src/billing.ts');
+
+      expect(map.features).toHaveLength(2);
+      expect(orders?.testCoverage).toEqual({ hasTests: true, testFiles: ['src/__tests__/orders.test.ts'], testCount: 2 });
+      expect(billing?.testCoverage).toEqual({ hasTests: false, testFiles: [] });
+    });
+
+    it('should scan each directory for its own languages', async () => {
+      await mkdir(join(testDir, 'api'), { recursive: true });
+      await mkdir(join(testDir, 'web'), { recursive: true });
+      await writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'app' }));
+      await writeFile(join(testDir, 'api', 'orders.py'), 'def list_orders():\n    return []\n'.repeat(5));
+      await writeFile(join(testDir, 'web', 'cart.ts'), 'export function cart() {}\n');
+
+      const map = await runDiscovery(testDir);
+
+      expect(map.sourceAnalysis.language).toBe('python');
+      expect(map.sourceAnalysis.secondaryLanguages).toEqual(['typescript']);
+      expect(map.sourceAnalysis.directoryLanguages).toEqual({ api: ['python'], web: ['typescript'] });
+      expect(map.features.flatMap((f) => f.sourceLocations.map((loc) => loc.file)).sort()).toEqual([
+        'api/orders.py',
+        'web/cart.ts',
+      ]);
+      expect(map.sourceAnalysis.totalFiles).toBe(2);
+    });
+  });
+
+  describe('extractFeatures', () => {
+    it('should derive the same features whatever order the files come in', async () => {
+      const files = ['tests/orders.test.ts', 'src/index.ts', 'src/auth.ts', 'src/zeta/auth.ts', 'src/alpha/auth.ts', 'lib/auth.ts'];
+      for (const file of files) {
+        await mkdir(join(testDir, dirname(file)), { recursive: true });
+        await writeFile(join(testDir, file), 'export function run() {}\n');
+      }
+
+      const sorted = await extractFeatures(testDir, [...files].sort());
+      const shuffled = await extractFeatures(testDir, [
+        'src/zeta/auth.ts',
+        'tests/orders.test.ts',
+        'lib/auth.ts',
+        'src/index.ts',
+        'src/alpha/auth.ts',
+        'src/auth.ts',
+      ]);
+
+      expect(shuffled.map((f) => f.id)).toEqual(sorted.map((f) => f.id));
+      expect(shuffled.map((f) => f.sourceLocations.map((loc) => loc.file))).toEqual(
+        sorted.map((f) => f.sourceLocations.map((loc) => loc.file))
+      );
+      expect(sorted.find((f) => f.name === 'auth')?.sourceLocations[0]?.file).toBe('lib/auth.ts');
+    });
+
+    it('should parse TypeScript sources into locations and code metrics', async () => {
+      await mkdir(join(testDir, 'src', 'auth'), { recursive: true });
+      await writeFile(
+        join(testDir, 'src', 'auth', 'session.ts'),
+        '// Sessions\n\nexport class Session {\n  refresh() {\n    if (this) return 1;\n  }\n}\n'
+      );
+      await writeFile(join(testDir, 'src', 'auth', 'index.ts'), 'export function login() {}\n');
+      await writeFile(join(testDir, 'src', 'auth', 'index.py'), 'def login(): pass\n');
+
+      const [feature] = await extractFeatures(testDir, ['src/auth/index.ts', 'src/auth/index.py']);
+      const [session] = await extractFeatures(testDir, ['src/auth/session.ts']);
+
+      expect(feature?.sourceLocations).toEqual([
+        { file: 'src/auth/index.py', lines: [1, 1] },
+        { file: 'src/auth/index.ts', lines: [1, 1], functions: ['login'], exports: ['login'], complexity: 1 },
+      ]);
+      expect(session?.sourceLocations[0]).toEqual({
+        file: 'src/auth/session.ts',
+        lines: [3, 7],
+        functions: ['Session.refresh'],
+        classes: ['Session'],
+        exports: ['Session'],
+        complexity: 2,
+      });
+      expect(session?.codeMetrics).toEqual({ functions: 1, classes: 1, lines: 5, cyclomaticComplexity: 2 });
+    });
+
+    it('should attach routes to the feature of the file declaring them', async () => {
+      await mkdir(join(testDir, 'src', 'orders'), { recursive: true });
+      await writeFile(
+        join(testDir, 'src', 'orders', 'routes.ts'),
+        "import { Router } from 'express';\nconst router = Router();\nrouter.get('/orders', listOrders);\nrouter.post('/orders', requireAuth, createOrder);\n"
+      );
+      await writeFile(join(testDir, 'src', 'orders', 'index.ts'), 'export {};\n');
+
+      const features = await extractFeatures(testDir, ['src/orders/index.ts', 'src/orders/routes.ts']);
+      const routes = features.find((f) => f.sourceLocations.some((loc) => loc.file === 'src/orders/routes.ts'));
+
+      expect(routes?.apiEndpoints?.map((e) => [e.method, e.path, e.authRequired, e.handler?.file])).toEqual([
+        ['GET', '/orders', false, 'src/orders/routes.ts'],
+        ['POST', '/orders', true, 'src/orders/routes.ts'],
+      ]);
+      expect(features.filter((f) => f.apiEndpoints)).toHaveLength(1);
+    });
+
+    it('should attach Go routes', async () => {
+      await writeFile(
+        join(testDir, 'server.go'),
+        'package main\nimport "github.com/gin-gonic/gin"\nfunc main() {\n\tr := gin.Default()\n\tr.GET("/ping", ping)\n}\n'
+      );
+
+      const [feature] = await extractFeatures(testDir, ['server.go']);
+
+      expect(feature?.apiEndpoints?.map((e) => [e.method, e.path, e.framework])).toEqual([['GET', '/ping', 'gin']]);
+    });
+
+    it('should attach Python routes without parsing the file', async () => {
+      await mkdir(join(testDir, 'app'), { recursive: true });
+      await writeFile(join(testDir, 'app', 'users.py'), "from flask import Flask\n@app.get('/users')\ndef users():\n    pass\n");
+
+      const [feature] = await extractFeatures(testDir, ['app/users.py']);
+
+      expect(feature?.sourceLocations).toEqual([{ file: 'app/users.py', lines: [1, 1] }]);
+      expect(feature?.apiEndpoints?.map((e) => [e.method, e.path, e.framework])).toEqual([['GET', '/users', 'flask']]);
+    });
+  });
+
+  describe('refreshDiscovery', () => {
+    async function createProject(): Promise<void> {
+      await mkdir(join(testDir, 'src'), { recursive: true });
+      await writeFile(join(testDir, 'package.json'), JSON.stringify({ name: 'app' }));
+      await writeFile(join(testDir, 'tsconfig.json'), '{}');
+      await writeFile(join(testDir, 'src', 'orders.ts'), 'export function list() {}\n');
+      await writeFile(join(testDir, 'src', 'billing.ts'), 'export function charge() {}\n');
+    }
+
+    it('should rescan only files changed since a full discovery was cached', async () => {
+      await createProject();
+      const map = await runDiscovery(testDir);
+      const cache = await buildDiscoveryCache(testDir, map.discoveredAt);
+      await writeFile(join(testDir, 'src', 'billing.ts'), 'export function charge() {}\nexport function refund() {}\n');
+
+      const { refresh } = await refreshDiscovery(testDir, map, cache);
+
+      expect(Object.keys(cache.files).sort()).toEqual(['src/billing.ts', 'src/orders.ts']);
+      expect(refresh.changedFiles).toEqual(['src/billing.ts']);
+    });
+
+    it('should treat every file as changed without a cache', async () => {
+      await createProject();
+
+      const { map, cache, refresh } = await refreshDiscovery(testDir, null, null);
+
+      expect(refresh.changedFiles.sort()).toEqual(['src/billing.ts', 'src/orders.ts']);
+      expect(refresh.featuresAdded).toHaveLength(map.features.length);
+      expect(Object.keys(cache.files).sort()).toEqual(['src/billing.ts', 'src/orders.ts']);
+      expect(map.sourceAnalysis.totalLines).toBe(4);
+    });
+
+    it('should rescan only changed files and keep agent-added details', async () => {
+      await createProject();
+      const first = await refreshDiscovery(testDir, null, null);
+      const orders = first.map.features.find((f) => f.sourceLocations[0]?.file === 'src/orders.ts')!;
+      orders.description = 'Lists customer orders';
+      orders.behavioralNotes = ['Sorted by date'];
+      orders.testCoverage = { hasTests: true, testFiles: ['e2e/orders.feature'], testCount: 3 };
+      first.map.undocumentedBehaviors.push(
+        createUndocumentedBehavior('Orders are capped at 100', 'src/orders.ts', [orders.id])
+      );
+
+      await writeFile(join(testDir, 'src', 'orders.ts'), 'export function list() {}\nexport function get() {}\n');
+      await writeFile(join(testDir, 'src', 'shipping.ts'), 'export function ship() {}\n');
+
+      const { map, refresh } = await refreshDiscovery(testDir, first.map, first.cache);
+
+      expect(refresh.changedFiles.sort()).toEqual(['src/orders.ts', 'src/shipping.ts']);
+      expect(refresh.unchangedFiles).toBe(1);
+      expect(refresh.featuresUpdated).toEqual([orders.id]);
+      expect(refresh.featuresAdded).toHaveLength(1);
+
+      const refreshed = map.features.find((f) => f.id === orders.id);
+      expect(refreshed?.description).toBe('Lists customer orders');
+      expect(refreshed?.behavioralNotes).toEqual(['Sorted by date']);
+      expect(refreshed?.testCoverage?.testCount).toBe(3);
+      expect(map.undocumentedBehaviors).toHaveLength(1);
+    });
+
+    it('should link tests added since the last refresh', async () => {
+      await createProject();
+      const first = await refreshDiscovery(testDir, null, null);
+
+      await writeFile(join(testDir, 'src', 'billing.test.ts'), "it('charges', () => {});\n");
+      const { map } = await refreshDiscovery(testDir, first.map, first.cache);
+      const billing = map.features.find((f) => f.sourceLocations[0]?.file === 'src/billing.ts');
+
+      expect(billing?.testCoverage).toEqual({ hasTests: true, testFiles: ['src/billing.test.ts'], testCount: 1 });
+      expect(map.features.some((f) => f.sourceLocations[0]?.file === 'src/billing.test.ts')).toBe(false);
+    });
+
+    it('should flag features whose source files disappeared instead of dropping them', async () => {
+      await createProject();
+      const first = await refreshDiscovery(testDir, null, null);
+      const billing = first.map.features.find((f) => f.sourceLocations[0]?.file === 'src/billing.ts')!;
+
+      await unlink(join(testDir, 'src', 'billing.ts'));
+      const { map, refresh } = await refreshDiscovery(testDir, first.map, first.cache);
+
+      expect(refresh.removedFiles).toEqual(['src/billing.ts']);
+      expect(refresh.featuresWithMissingFiles).toEqual([billing.id]);
+      expect(map.features.find((f) => f.id === billing.id)?.missingSourceFiles).toEqual(['src/billing.ts']);
+
+      // The flag clears once the file is back
+      await writeFile(join(testDir, 'src', 'billing.ts'), 'export function charge() {}\n');
+      const restored = await refreshDiscovery(testDir, map, null);
+      expect(restored.map.features.find((f) => f.id === billing.id)?.missingSourceFiles).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,250 @@
+/**
+ * Tests for Git Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile, readFile, access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  runGit,
+  isGitRepository,
+  getCheckpointRef,
+  createCheckpoint,
+  getCheckpoint,
+  rollbackToSession,
+  getWorktreeBranch,
+  prepareWorktree,
+  commitWorktree,
+  mergeWorktree,
+  exportWorktreePatch,
+} from '../git.js';
+import {
+  initializeModernizationDir,
+  createInitialState,
+  saveState,
+  loadState,
+  saveArtifactCheckpoint,
+  saveFunctionalityMap,
+  loadFunctionalityMap,
+  getArtifactPath,
+} from '../state.js';
+import { createEmptyFunctionalityMap, createFeature } from '../agents/discovery.js';
+
+const exists = (path: string) =>
+  access(path).then(
+    () => true,
+    () => false
+  );
+
+describe('Git Module', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `git-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function initRepo(): Promise<void> {
+    await runGit(testDir, ['init', '-q']);
+    await writeFile(join(testDir, 'index.js'), 'console.log("v1");\n');
+    await runGit(testDir, ['add', '.']);
+    await runGit(testDir, ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init']);
+  }
+
+  describe('getCheckpointRef', () => {
+    it('should zero-pad the session number', () => {
+      expect(getCheckpointRef(7)).toBe('refs/modernize/checkpoints/session_007');
+    });
+  });
+
+  describe('createCheckpoint', () => {
+    it('should return null outside a git repository', async () => {
+      expect(await isGitRepository(testDir)).toBe(false);
+      expect(await createCheckpoint(testDir, 1)).toBeNull();
+    });
+
+    it('should capture uncommitted and untracked files without touching the index', async () => {
+      await initRepo();
+      await writeFile(join(testDir, 'index.js'), 'console.log("dirty");\n');
+      await writeFile(join(testDir, 'notes.txt'), 'untracked\n');
+
+      const checkpoint = await createCheckpoint(testDir, 1);
+
+      expect(checkpoint?.ref).toBe(getCheckpointRef(1));
+      expect(checkpoint?.head).toBe(await runGit(testDir, ['rev-parse', 'HEAD']));
+      expect(await runGit(testDir, ['show', `${checkpoint?.commit}:notes.txt`])).toBe('untracked');
+      expect(await runGit(testDir, ['status', '--porcelain'])).toBe('M index.js\n?? notes.txt');
+    });
+
+    it('should leave .modernization out of the snapshot', async () => {
+      await initRepo();
+      await initializeModernizationDir(testDir);
+      await saveState(testDir, createInitialState(testDir, 'test', 'coverage'));
+
+      const checkpoint = await createCheckpoint(testDir, 1);
+      const files = await runGit(testDir, ['ls-tree', '-r', '--name-only', checkpoint?.commit ?? '']);
+
+      expect(files).toBe('index.js');
+    });
+
+    it('should be readable back by session number', async () => {
+      await initRepo();
+      const checkpoint = await createCheckpoint(testDir, 2);
+
+      const found = await getCheckpoint(testDir, 2);
+      expect(found).toMatchObject({ ref: checkpoint?.ref, commit: checkpoint?.commit, head: checkpoint?.head });
+      expect(await getCheckpoint(testDir, 3)).toBeNull();
+    });
+  });
+
+  describe('rollbackToSession', () => {
+    it('should restore edited files, remove new ones and restore the artifacts', async () => {
+      await initRepo();
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'coverage');
+      await saveState(testDir, state);
+      await saveFunctionalityMap(testDir, createEmptyFunctionalityMap());
+
+      await createCheckpoint(testDir, 1);
+      await saveArtifactCheckpoint(testDir, 1);
+
+      // The session edits a file, adds another and records progress in its artifacts
+      await writeFile(join(testDir, 'index.js'), 'console.log("broken");\n');
+      await mkdir(join(testDir, 'src'));
+      await writeFile(join(testDir, 'src', 'new.js'), 'export {};\n');
+      const map = createEmptyFunctionalityMap();
+      map.features.push(createFeature('orders', 'src/new.js', [1, 1]));
+      await saveFunctionalityMap(testDir, map);
+      await writeFile(getArtifactPath(testDir, 'test_coverage'), '{}');
+      state.currentCoverage = 80;
+      state.sessionNumber = 1;
+      await saveState(testDir, state);
+
+      const result = await rollbackToSession(testDir, 1);
+
+      expect(result.removedFiles).toEqual(['src/new.js']);
+      expect(result.artifactsRestored).toBe(true);
+      expect(result.warnings).toEqual([]);
+      expect(await readFile(join(testDir, 'index.js'), 'utf-8')).toBe('console.log("v1");\n');
+      expect(await exists(join(testDir, 'src', 'new.js'))).toBe(false);
+
+      const restored = await loadState(testDir);
+      expect(restored?.currentCoverage).toBe(0);
+      // Numbering carries on so later checkpoints are not overwritten
+      expect(restored?.sessionNumber).toBe(1);
+      expect((await loadFunctionalityMap(testDir))?.features).toEqual([]);
+      expect(await exists(getArtifactPath(testDir, 'test_coverage'))).toBe(false);
+
+      // The rolled-back tree is kept under a safety ref
+      expect(await runGit(testDir, ['show', `${result.safetyRef}:src/new.js`])).toBe('export {};');
+    });
+
+    it('should warn when HEAD moved since the checkpoint', async () => {
+      await initRepo();
+      await createCheckpoint(testDir, 1);
+
+      await writeFile(join(testDir, 'index.js'), 'console.log("v2");\n');
+      await runGit(testDir, ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-am', 'v2']);
+
+      const result = await rollbackToSession(testDir, 1);
+
+      expect(await readFile(join(testDir, 'index.js'), 'utf-8')).toBe('console.log("v1");\n');
+      expect(result.artifactsRestored).toBe(false);
+      expect(result.warnings.some((w) => w.startsWith('HEAD moved'))).toBe(true);
+    });
+
+    it('should fail when the session has no checkpoint', async () => {
+      await initRepo();
+      await expect(rollbackToSession(testDir, 9)).rejects.toThrow('No checkpoint found for session 9');
+    });
+  });
+
+  describe('worktrees', () => {
+    it('should name branches by mode and session', () => {
+      expect(getWorktreeBranch('migration', 4)).toBe('modernize/migration/session_004');
+    });
+
+    it('should refuse to create a worktree outside a git repository', async () => {
+      await expect(prepareWorktree(testDir, 'coverage', 'session', 1)).rejects.toThrow('git repository');
+    });
+
+    it('should create a worktree that shares .modernization with the project', async () => {
+      await initRepo();
+      await initializeModernizationDir(testDir);
+
+      const worktree = await prepareWorktree(testDir, 'coverage', 'session', 1);
+
+      expect(worktree.branch).toBe('modernize/coverage/session_001');
+      expect(worktree.baseCommit).toBe(await runGit(testDir, ['rev-parse', 'HEAD']));
+      expect(await runGit(worktree.path, ['branch', '--show-current'])).toBe(worktree.branch);
+
+      await writeFile(join(worktree.path, '.modernization', 'notes.md'), 'shared\n');
+      expect(await readFile(join(testDir, '.modernization', 'notes.md'), 'utf-8')).toBe('shared\n');
+    });
+
+    it('should commit agent changes without touching the user checkout', async () => {
+      await initRepo();
+      await initializeModernizationDir(testDir);
+      const worktree = await prepareWorktree(testDir, 'coverage', 'session', 1);
+
+      await writeFile(join(worktree.path, 'index.test.js'), 'test("works", () => {});\n');
+      const commit = await commitWorktree(worktree, 'add tests');
+
+      expect(commit).toBe(await runGit(testDir, ['rev-parse', worktree.branch]));
+      expect(await runGit(testDir, ['ls-tree', '--name-only', worktree.branch])).toBe('index.js\nindex.test.js');
+      expect(await exists(join(testDir, 'index.test.js'))).toBe(false);
+      expect(await commitWorktree(worktree, 'nothing')).toBeNull();
+    });
+
+    it('should reuse a mode worktree and chain session worktrees', async () => {
+      await initRepo();
+      await initializeModernizationDir(testDir);
+
+      const shared = await prepareWorktree(testDir, 'migration', 'mode', 1);
+      expect(await prepareWorktree(testDir, 'migration', 'mode', 2, shared)).toBe(shared);
+
+      const first = await prepareWorktree(testDir, 'coverage', 'session', 3);
+      await writeFile(join(first.path, 'a.js'), 'a\n');
+      await commitWorktree(first, 'session 3');
+
+      const second = await prepareWorktree(testDir, 'coverage', 'session', 4, first);
+
+      expect(await exists(first.path)).toBe(false);
+      expect(second.baseCommit).toBe(first.baseCommit);
+      expect(await readFile(join(second.path, 'a.js'), 'utf-8')).toBe('a\n');
+    });
+
+    it('should export the branch as a patch and merge it back', async () => {
+      await initRepo();
+      await initializeModernizationDir(testDir);
+      const worktree = await prepareWorktree(testDir, 'enhancement', 'session', 1);
+      await writeFile(join(worktree.path, 'index.js'), 'console.log("v2");\n');
+
+      const patch = await exportWorktreePatch(testDir, worktree);
+      expect(patch).toContain('+console.log("v2");');
+
+      await runGit(testDir, ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'merge', '-q', '--ff-only', worktree.branch]);
+      expect(await readFile(join(testDir, 'index.js'), 'utf-8')).toBe('console.log("v2");\n');
+    });
+
+    it('should merge with a merge commit and remove the worktree', async () => {
+      await initRepo();
+      await initializeModernizationDir(testDir);
+      const worktree = await prepareWorktree(testDir, 'enhancement', 'session', 1);
+      await writeFile(join(worktree.path, 'feature.js'), 'export {};\n');
+
+      await runGit(testDir, ['config', 'user.name', 'Test']);
+      await runGit(testDir, ['config', 'user.email', 'test@example.com']);
+      await mergeWorktree(testDir, worktree);
+
+      expect(await readFile(join(testDir, 'feature.js'), 'utf-8')).toBe('export {};\n');
+      expect(await runGit(testDir, ['log', '-1', '--format=%s'])).toBe(`Merge ${worktree.branch}`);
+      expect(await exists(worktree.path)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for Internal Import Graph Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  getImportSpecifiers,
+  buildImportGraph,
+  getFeatureEdges,
+  linkFeatureDependencies,
+  exportDependencyGraph,
+} from '../imports.js';
+import { createEmptyFunctionalityMap, createFeature } from '../agents/discovery.js';
+import type { Feature } from '../types.js';
+
+describe('Imports Module', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `imports-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeFiles(files: Record<string, string>): Promise<string[]> {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(dirname(join(testDir, file)), { recursive: true });
+      await writeFile(join(testDir, file), content);
+    }
+    return Object.keys(files).filter((file) => !file.endsWith('.json'));
+  }
+
+  function feature(id: string, ...files: string[]): Feature {
+    const f = createFeature(id, files[0]!, [1, 1]);
+    f.id = id;
+    f.sourceLocations = files.map((file) => ({ file, lines: [1, 1] as [number, number] }));
+    return f;
+  }
+
+  describe('getImportSpecifiers', () => {
+    it('should find imports, re-exports, require and dynamic imports', () => {
+      const specifiers = getImportSpecifiers(
+        'src/index.ts',
+        [
+          "import { a } from './a.js';",
+          "import type { B } from '../b';",
+          "export * from './c';",
+          "const d = require('./d');",
+          "const e = await import('./e');",
+          "import './a.js';",
+        ].join('\n')
+      );
+
+      expect(specifiers).toEqual(['./a.js', '../b', './c', './d', './e']);
+    });
+
+    it('should find absolute Python imports', () => {
+      const specifiers = getImportSpecifiers(
+        'app/views.py',
+        ['import os, yaml as y', 'from flask import Flask', 'from .models import User', '    import requests.adapters'].join('\n')
+      );
+
+      expect(specifiers).toEqual(['os', 'yaml', 'flask', 'requests.adapters']);
+    });
+
+    it('should find Go import paths', () => {
+      const specifiers = getImportSpecifiers(
+        'main.go',
+        ['import "fmt"', 'import (', '  "net/http"', '  gin "github.com/gin-gonic/gin"', ')'].join('\n')
+      );
+
+      expect(specifiers).toEqual(['net/http', 'github.com/gin-gonic/gin', 'fmt']);
+    });
+  });
+
+  describe('buildImportGraph', () => {
+    it('should resolve relative imports to source files and index files', async () => {
+      const files = await writeFiles({
+        'src/index.ts': "import { db } from './db/index.js';\nimport { log } from './log';\nimport express from 'express';\n",
+        'src/db/index.ts': "export * from './client.js';\n",
+        'src/db/client.ts': 'export const db = 1;\n',
+        'src/log.tsx': 'export const log = 1;\n',
+      });
+
+      const graph = await buildImportGraph(testDir, files);
+
+      expect(graph.files).toEqual({
+        'src/index.ts': ['src/db/index.ts', 'src/log.tsx'],
+        'src/db/index.ts': ['src/db/client.ts'],
+      });
+    });
+
+    it('should resolve tsconfig path aliases and baseUrl', async () => {
+      const files = await writeFiles({
+        'tsconfig.base.json': '{ "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["src/*"], "~config": ["config/index.ts"] } } }',
+        'tsconfig.json': '{\n  // shared settings\n  "extends": "./tsconfig.base.json"\n}',
+        'src/app.ts': "import { db } from '@/lib/db';\nimport config from '~config';\nimport { util } from 'src/util';\n",
+        'src/lib/db.ts': 'export const db = 1;\n',
+        'src/util.ts': 'export const util = 1;\n',
+        'config/index.ts': 'export default {};\n',
+      });
+
+      const graph = await buildImportGraph(testDir, files);
+
+      expect(graph.files['src/app.ts']).toEqual(['config/index.ts', 'src/lib/db.ts', 'src/util.ts']);
+    });
+
+    it('should resolve workspace package names to their sources', async () => {
+      const files = await writeFiles({
+        'packages/shared/package.json': '{ "name": "@acme/shared", "main": "dist/index.js" }',
+        'packages/shared/src/index.ts': 'export const shared = 1;\n',
+        'packages/shared/src/format.ts': 'export const format = 1;\n',
+        'packages/web/package.json': '{ "name": "@acme/web" }',
+        'packages/web/src/page.ts': "import { shared } from '@acme/shared';\nimport { format } from '@acme/shared/format';\n",
+      });
+
+      const graph = await buildImportGraph(testDir, files, { workspaces: ['packages/shared', 'packages/web'] });
+
+      expect(graph.files['packages/web/src/page.ts']).toEqual([
+        'packages/shared/src/format.ts',
+        'packages/shared/src/index.ts',
+      ]);
+    });
+
+    it('should record the external packages each file imports', async () => {
+      await writeFile(join(testDir, 'go.mod'), 'module example.com/shop\n');
+      const files = await writeFiles({
+        'tsconfig.json': '{ "compilerOptions": { "paths": { "@/*": ["src/*"] } } }',
+        'src/app.ts': "import express from 'express';\nimport { z } from 'zod/v4';\nimport { Pool } from '@types/pg';\nimport fs from 'node:fs';\nimport path from 'path';\nimport { gone } from '@/gone';\n",
+        'api/views.py': 'import os\nimport yaml\nfrom api.models import User\n',
+        'api/models.py': 'from sqlalchemy import Column\n',
+        'main.go': 'import (\n  "fmt"\n  "example.com/shop/orders"\n  "github.com/gin-gonic/gin"\n)\n',
+      });
+
+      const graph = await buildImportGraph(testDir, files);
+
+      expect(graph.packages).toEqual({
+        'src/app.ts': ['@types/pg', 'express', 'zod'],
+        'api/views.py': ['os', 'yaml'],
+        'api/models.py': ['sqlalchemy'],
+        'main.go': ['github.com/gin-gonic/gin'],
+      });
+    });
+
+    it('should reuse the previous imports of unchanged files', async () => {
+      const files = await writeFiles({
+        'src/a.ts': "import './b';\n",
+        'src/b.ts': '',
+      });
+
+      const graph = await buildImportGraph(testDir, files, {
+        previous: { files: { 'src/a.ts': ['src/gone.ts'], 'src/b.ts': ['src/a.ts'] } },
+        unchanged: new Set(['src/b.ts']),
+      });
+
+      expect(graph.files).toEqual({ 'src/a.ts': ['src/b.ts'], 'src/b.ts': ['src/a.ts'] });
+    });
+  });
+
+  describe('feature edges', () => {
+    const graph = {
+      files: {
+        'src/orders/routes.ts': ['src/orders/service.ts', 'src/auth/guard.ts', 'src/db/client.ts'],
+        'src/orders/service.ts': ['src/db/client.ts', 'src/vendor.ts'],
+        'src/auth/guard.ts': ['src/db/client.ts'],
+      },
+    };
+
+    it('should count the imports between features', () => {
+      const features = [
+        feature('orders', 'src/orders/routes.ts', 'src/orders/service.ts'),
+        feature('auth', 'src/auth/guard.ts'),
+        feature('db', 'src/db/client.ts'),
+      ];
+
+      expect(getFeatureEdges(features, graph)).toEqual([
+        { from: 'auth', to: 'db', imports: 1 },
+        { from: 'orders', to: 'auth', imports: 1 },
+        { from: 'orders', to: 'db', imports: 2 },
+      ]);
+
+      linkFeatureDependencies(features, graph);
+      expect(features.map((f) => [f.id, f.dependencies])).toEqual([
+        ['orders', ['auth', 'db']],
+        ['auth', ['db']],
+        ['db', []],
+      ]);
+    });
+  });
+
+  describe('exportDependencyGraph', () => {
+    const map = createEmptyFunctionalityMap();
+    map.features = [feature('orders_1', 'src/orders.ts'), feature('db_2', 'src/db.ts')];
+    map.features[1]!.name = 'db "core"';
+    map.importGraph = { files: { 'src/orders.ts': ['src/db.ts'] } };
+
+    it('should render DOT', () => {
+      expect(exportDependencyGraph(map, 'dot')).toBe(
+        [
+          'digraph dependencies {',
+          '  rankdir=LR;',
+          '  node [shape=box];',
+          '  "orders_1" [label="orders_1"];',
+          '  "db_2" [label="db \\"core\\""];',
+          '  "orders_1" -> "db_2" [label="1"];',
+          '}',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should render Mermaid, between features or files', () => {
+      expect(exportDependencyGraph(map, 'mermaid')).toBe(
+        ['graph LR', '  n0["orders_1"]', '  n1["db #quot;core#quot;"]', '  n0 -->|1| n1', ''].join('\n')
+      );
+      expect(exportDependencyGraph(map, 'mermaid', 'files')).toBe(
+        ['graph LR', '  n0["src/db.ts"]', '  n1["src/orders.ts"]', '  n1 --> n0', ''].join('\n')
+      );
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Tests for Dependency Manifests Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  parseTomlSections,
+  parseRequirements,
+  parsePyproject,
+  parsePipfile,
+  readPythonDependencies,
+  parseGoMod,
+  parseCargoToml,
+  parsePomXml,
+  parseGradle,
+  readManifestDependencies,
+} from '../manifests.js';
+
+describe('Manifests Module', () => {
+  describe('parseTomlSections', () => {
+    it('should read tables and multi-line arrays', () => {
+      const sections = parseTomlSections(
+        ['name = "app" # comment', '[tool.poetry.dependencies]', 'python = "^3.11"', 'deps = [', '  "a",', '  "b",', ']'].join('\n')
+      );
+
+      expect(sections.get('')).toEqual({ name: '"app"' });
+      expect(sections.get('tool.poetry.dependencies')).toEqual({ python: '"^3.11"', deps: '[ "a", "b", ]' });
+    });
+  });
+
+  describe('parseRequirements', () => {
+    it('should parse names and version specifiers', () => {
+      const deps = parseRequirements(
+        [
+          '# web',
+          'Django>=4.2,<5',
+          'celery[redis]==5.3.1  # workers',
+          'requests; python_version > "3.8"',
+          '-r base.txt',
+          '-e git+https://github.com/org/lib.git#egg=lib',
+        ].join('\n'),
+        'production',
+        'requirements.txt'
+      );
+
+      expect(deps).toEqual([
+        { name: 'django', type: 'production', usedBy: [], configLocation: 'requirements.txt', version: '>=4.2,<5' },
+        { name: 'celery', type: 'production', usedBy: [], configLocation: 'requirements.txt', version: '==5.3.1' },
+        { name: 'requests', type: 'production', usedBy: [], configLocation: 'requirements.txt' },
+      ]);
+    });
+  });
+
+  describe('parsePyproject', () => {
+    it('should read PEP 621 dependencies and optional groups', () => {
+      const deps = parsePyproject(
+        [
+          '[project]',
+          'name = "api"',
+          'dependencies = [',
+          '  "fastapi>=0.110",',
+          '  "pydantic_settings",',
+          ']',
+          '[project.optional-dependencies]',
+          'dev = ["pytest>=8"]',
+        ].join('\n')
+      );
+
+      expect(deps.map((d) => [d.name, d.type, d.version])).toEqual([
+        ['fastapi', 'production', '>=0.110'],
+        ['pydantic-settings', 'production', undefined],
+        ['pytest', 'development', '>=8'],
+      ]);
+    });
+
+    it('should read Poetry dependencies', () => {
+      const deps = parsePyproject(
+        [
+          '[tool.poetry.dependencies]',
+          'python = "^3.11"',
+          'Flask = "^3.0"',
+          'sqlalchemy = { version = "^2.0", extras = ["asyncio"] }',
+          '[tool.poetry.group.dev.dependencies]',
+          'pytest = "*"',
+        ].join('\n')
+      );
+
+      expect(deps.map((d) => [d.name, d.type, d.version])).toEqual([
+        ['flask', 'production', '^3.0'],
+        ['sqlalchemy', 'production', '^2.0'],
+        ['pytest', 'development', undefined],
+      ]);
+    });
+  });
+
+  describe('parsePipfile', () => {
+    it('should read packages and dev packages', () => {
+      const deps = parsePipfile('[packages]\ndjango = "==4.2"\n\n[dev-packages]\nblack = "*"\n');
+
+      expect(deps).toEqual([
+        { name: 'django', type: 'production', usedBy: [], configLocation: 'Pipfile', version: '==4.2' },
+        { name: 'black', type: 'development', usedBy: [], configLocation: 'Pipfile' },
+      ]);
+    });
+  });
+
+  describe('parseGoMod', () => {
+    it('should read single and block requirements', () => {
+      const deps = parseGoMod(
+        [
+          'module example.com/shop',
+          'go 1.22',
+          'require github.com/google/uuid v1.6.0',
+          'require (',
+          '\tgithub.com/gin-gonic/gin v1.9.1',
+          '\tgolang.org/x/net v0.21.0 // indirect',
+          ')',
+        ].join('\n')
+      );
+
+      expect(deps.map((d) => [d.name, d.version, d.type])).toEqual([
+        ['github.com/google/uuid', 'v1.6.0', 'production'],
+        ['github.com/gin-gonic/gin', 'v1.9.1', 'production'],
+        ['golang.org/x/net', 'v0.21.0', 'indirect'],
+      ]);
+      expect(deps[0]?.configLocation).toBe('go.mod');
+    });
+  });
+
+  describe('parseCargoToml', () => {
+    it('should read dependency tables and inline versions', () => {
+      const deps = parseCargoToml(
+        [
+          '[package]',
+          'name = "shop"',
+          '[dependencies]',
+          'axum = "0.7"',
+          'tokio = { version = "1.36", features = ["full"] }',
+          '[dependencies.serde]',
+          'version = "1.0"',
+          '[dev-dependencies]',
+          'mockall = "0.12"',
+          "[target.'cfg(unix)'.dependencies]",
+          'nix = "0.28"',
+        ].join('\n')
+      );
+
+      expect(deps.map((d) => [d.name, d.version, d.type])).toEqual([
+        ['axum', '0.7', 'production'],
+        ['tokio', '1.36', 'production'],
+        ['serde', '1.0', 'production'],
+        ['mockall', '0.12', 'development'],
+        ['nix', '0.28', 'production'],
+      ]);
+    });
+  });
+
+  describe('parsePomXml', () => {
+    it('should read dependencies, scopes and the parent, resolving properties', () => {
+      const deps = parsePomXml(
+        [
+          '<project>',
+          '  <parent>',
+          '    <groupId>org.springframework.boot</groupId>',
+          '    <artifactId>spring-boot-starter-parent</artifactId>',
+          '    <version>3.2.1</version>',
+          '  </parent>',
+          '  <properties><jjwt.version>0.12.3</jjwt.version></properties>',
+          '  <dependencyManagement><dependencies><dependency>',
+          '    <groupId>org.managed</groupId><artifactId>bom</artifactId><version>1</version>',
+          '  </dependency></dependencies></dependencyManagement>',
+          '  <dependencies>',
+          '    <dependency>',
+          '      <groupId>org.springframework.boot</groupId>',
+          '      <artifactId>spring-boot-starter-web</artifactId>',
+          '    </dependency>',
+          '    <!-- <dependency><groupId>old</groupId><artifactId>lib</artifactId></dependency> -->',
+          '    <dependency>',
+          '      <groupId>io.jsonwebtoken</groupId>',
+          '      <artifactId>jjwt-api</artifactId>',
+          '      <version>${jjwt.version}</version>',
+          '    </dependency>',
+          '    <dependency>',
+          '      <groupId>org.junit.jupiter</groupId>',
+          '      <artifactId>junit-jupiter</artifactId>',
+          '      <scope>test</scope>',
+          '    </dependency>',
+          '  </dependencies>',
+          '</project>',
+        ].join('\n')
+      );
+
+      expect(deps.map((d) => [d.name, d.version, d.type])).toEqual([
+        ['org.springframework.boot:spring-boot-starter-parent', '3.2.1', 'parent'],
+        ['org.springframework.boot:spring-boot-starter-web', undefined, 'production'],
+        ['io.jsonwebtoken:jjwt-api', '0.12.3', 'production'],
+        ['org.junit.jupiter:junit-jupiter', undefined, 'development'],
+      ]);
+    });
+  });
+
+  describe('parseGradle', () => {
+    it('should read Groovy and Kotlin DSL dependencies and plugins', () => {
+      const deps = parseGradle(
+        [
+          'plugins {',
+          "  id 'org.springframework.boot' version '3.2.1'",
+          '}',
+          'dependencies {',
+          "  implementation 'org.springframework.boot:spring-boot-starter-web'",
+          '  implementation("com.google.guava:guava:33.0.0-jre")',
+          "  compileOnly 'org.projectlombok:lombok:1.18.30'",
+          "  testImplementation 'org.junit.jupiter:junit-jupiter:5.10.1'",
+          '}',
+        ].join('\n'),
+        'build.gradle'
+      );
+
+      expect(deps.map((d) => [d.name, d.version, d.type])).toEqual([
+        ['org.springframework.boot:spring-boot-starter-web', undefined, 'production'],
+        ['com.google.guava:guava', '33.0.0-jre', 'production'],
+        ['org.projectlombok:lombok', '1.18.30', 'provided'],
+        ['org.junit.jupiter:junit-jupiter', '5.10.1', 'development'],
+        ['org.springframework.boot', '3.2.1', 'plugin'],
+      ]);
+    });
+  });
+
+  describe('readPythonDependencies', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `manifests-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      await mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should combine manifests, listing each package once', async () => {
+      await writeFile(join(testDir, 'requirements.txt'), 'flask==3.0\n');
+      await writeFile(join(testDir, 'requirements-dev.txt'), 'pytest\n');
+      await writeFile(join(testDir, 'Pipfile'), '[packages]\nflask = "*"\ngunicorn = "*"\n');
+
+      const deps = await readPythonDependencies(testDir);
+
+      expect(deps.map((d) => [d.name, d.configLocation])).toEqual([
+        ['flask', 'requirements.txt'],
+        ['pytest', 'requirements-dev.txt'],
+        ['gunicorn', 'Pipfile'],
+      ]);
+    });
+
+    it('should return nothing without manifests', async () => {
+      expect(await readPythonDependencies(testDir)).toEqual([]);
+    });
+  });
+
+  describe('readManifestDependencies', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `manifests-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      await mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should read every manifest present', async () => {
+      await writeFile(join(testDir, 'requirements.txt'), 'flask\n');
+      await writeFile(join(testDir, 'go.mod'), 'module x\nrequire github.com/labstack/echo/v4 v4.11.4\n');
+      await writeFile(join(testDir, 'Cargo.toml'), '[dependencies]\nrocket = "0.5"\n');
+      await writeFile(join(testDir, 'build.gradle.kts'), 'dependencies {\n  implementation("a:b:1")\n}\n');
+
+      const deps = await readManifestDependencies(testDir);
+
+      expect(deps.map((d) => [d.name, d.configLocation])).toEqual([
+        ['flask', 'requirements.txt'],
+        ['github.com/labstack/echo/v4', 'go.mod'],
+        ['rocket', 'Cargo.toml'],
+        ['a:b', 'build.gradle.kts'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for Artifact Migrations Module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareVersions, migrateArtifact, ARTIFACT_VERSIONS } from '../migrations.js';
+import type { ArtifactMigration } from '../types.js';
+
+describe('Migrations Module', () => {
+  const migrations: ArtifactMigration[] = [
+    {
+      from: '1.0.0',
+      to: '1.1.0',
+      description: 'Rename total to totalFiles',
+      migrate: ({ total, ...rest }) => ({ ...rest, totalFiles: total }),
+    },
+    {
+      from: '1.1.0',
+      to: '2.0.0',
+      description: 'Add tags list',
+      migrate: (data) => ({ ...data, tags: [] }),
+    },
+  ];
+
+  describe('compareVersions', () => {
+    it('should compare numerically per segment', () => {
+      expect(compareVersions('1.0.0', '1.0.0')).toBe(0);
+      expect(compareVersions('1.2.0', '1.10.0')).toBe(-1);
+      expect(compareVersions('2.0.0', '1.9.9')).toBe(1);
+      expect(compareVersions('1.0', '1.0.0')).toBe(0);
+    });
+  });
+
+  describe('migrateArtifact', () => {
+    it('should leave current-version data untouched', () => {
+      const data = { version: ARTIFACT_VERSIONS.state, projectName: 'x' };
+      const result = migrateArtifact('state', data);
+
+      expect(result.applied).toEqual([]);
+      expect(result.error).toBeUndefined();
+      expect(result.data).toEqual(data);
+    });
+
+    it('should apply each step in order', () => {
+      const result = migrateArtifact('functionality_map', { version: '1.0.0', total: 3 }, migrations, '2.0.0');
+
+      expect(result.error).toBeUndefined();
+      expect(result.fromVersion).toBe('1.0.0');
+      expect(result.toVersion).toBe('2.0.0');
+      expect(result.applied).toHaveLength(2);
+      expect(result.data).toEqual({ version: '2.0.0', totalFiles: 3, tags: [] });
+    });
+
+    it('should start from an intermediate version', () => {
+      const result = migrateArtifact('functionality_map', { version: '1.1.0' }, migrations, '2.0.0');
+
+      expect(result.applied).toEqual(['1.1.0 -> 2.0.0: Add tags list']);
+    });
+
+    it('should treat unversioned data as the baseline version', () => {
+      const result = migrateArtifact('functionality_map', { total: 1 }, migrations, '1.1.0');
+
+      expect(result.data).toEqual({ version: '1.1.0', totalFiles: 1 });
+    });
+
+    it('should refuse data from a newer version', () => {
+      const data = { version: '3.0.0' };
+      const result = migrateArtifact('state', data, migrations, '2.0.0');
+
+      expect(result.error).toContain('newer version');
+      expect(result.data).toBe(data);
+    });
+
+    it('should report a missing migration path', () => {
+      const result = migrateArtifact('state', { version: '0.9.0' }, migrations, '2.0.0');
+
+      expect(result.error).toContain('no migration path from version 0.9.0');
+    });
+
+    it('should not mutate the input', () => {
+      const data = { version: '1.0.0', total: 3 };
+      migrateArtifact('functionality_map', data, migrations, '2.0.0');
+
+      expect(data).toEqual({ version: '1.0.0', total: 3 });
+    });
+  });
+
+  describe('registered migrations', () => {
+    it('should turn database column and relationship names into objects', () => {
+      const result = migrateArtifact('functionality_map', {
+        version: '1.0.0',
+        databaseSchema: { tables: [{ name: 'orders', columns: ['id', 'total'], relationships: ['users'] }] },
+      });
+
+      expect(result.error).toBeUndefined();
+      expect(result.data).toEqual({
+        version: ARTIFACT_VERSIONS.functionality_map,
+        databaseSchema: {
+          tables: [
+            {
+              name: 'orders',
+              columns: [
+                { name: 'id', type: 'unknown' },
+                { name: 'total', type: 'unknown' },
+              ],
+              relationships: [{ table: 'users' }],
+            },
+          ],
+        },
+      });
+    });
+  });
+});
@@ -2,24 +2,45 @@
  * Tests for Orchestrator Module
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdir, rm, writeFile } from 'node:fs/promises';
-import { join } from 'node:path';
-import { tmpdir } from 'node:os';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import { mkdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { tmpdir, hostname } from 'node:os';
 import {
   determineNextAgent,
   getModelForAgent,
   calculateProgress,
   generateStatusReport,
   initializeProject,
+  reconcileArtifacts,
+  runOrchestrator,
+  runOrchestratorLoop,
+  isBudgetExhausted,
 } from '../agents/orchestrator.js';
 import {
   createInitialState,
   addApprovalRequest,
   markDiscoveryComplete,
+  initializeModernizationDir,
+  getModernizationDir,
+  acquireLock,
+  releaseLock,
+  loadState,
+  saveState,
+  createEmptyUsage,
+  createSessionSummary,
+  addSessionSummary,
+  loadSessionSnapshot,
+  loadTestCoverageMap,
+  getArtifactCheckpointDir,
+  loadDiscoveryCache,
 } from '../state.js';
+import { runGit, rollbackToSession } from '../git.js';
 import type { ModernizationState, EnhancementPlan } from '../types.js';
 
+vi.mock('@anthropic-ai/claude-agent-sdk', () => ({ query: vi.fn() }));
+
 describe('Orchestrator Module', () => {
   let testDir: string;
 
@@ -29,6 +50,7 @@ describe('Orchestrator Module', () => {
   });
 
   afterEach(async () => {
+    vi.unstubAllEnvs();
     try {
       await rm(testDir, { recursive: true, force: true });
     } catch {
@@ -288,6 +310,27 @@ describe('Orchestrator Module', () => {
       const progress = calculateProgress(state);
       expect(progress).toBe(0);
     });
+
+    it('should return 0 for an empty enhancement plan', () => {
+      const state = createInitialState(testDir, 'test', 'enhancement');
+      state.enhancementPlan = {
+        version: '1.0.0',
+        createdAt: new Date().toISOString(),
+        enhancementSpec: 'spec',
+        baselineTestResults: { total: 0, passed: 0, failed: 0, skipped: 0 },
+        enhancements: [],
+      };
+
+      expect(calculateProgress(state)).toBe(0);
+    });
+
+    it('should treat a zero coverage target as met', () => {
+      const state = createInitialState(testDir, 'test', 'coverage');
+      markDiscoveryComplete(state);
+      state.coverageTarget = 0;
+
+      expect(calculateProgress(state)).toBe(100);
+    });
   });
 
   describe('generateStatusReport', () => {
@@ -322,6 +365,24 @@ describe('Orchestrator Module', () => {
       expect(report).toContain('Target Coverage: 80%');
     });
 
+    it('should show spend by agent type and mode', () => {
+      const state = createInitialState(testDir, 'test', 'coverage');
+      const summary = createSessionSummary(1, 'coverage', 'coverage');
+      summary.usage = { ...createEmptyUsage(), inputTokens: 1200, outputTokens: 300, turns: 4, costUsd: 0.42 };
+      addSessionSummary(state, summary);
+
+      const report = generateStatusReport(state);
+
+      expect(report).toContain('### Spend');
+      expect(report).toContain('- Total: 1,500 tokens, $0.42');
+      expect(report).toContain('  - coverage: 1,500 tokens, $0.42');
+    });
+
+    it('should omit spend when nothing was recorded', () => {
+      const report = generateStatusReport(createInitialState(testDir, 'test', 'coverage'));
+      expect(report).not.toContain('### Spend');
+    });
+
     it('should include pending approvals', () => {
       const state = createInitialState(testDir, 'test', 'migration');
       addApprovalRequest(state, {
@@ -388,4 +449,373 @@ describe('Orchestrator Module', () => {
       expect(state.targetStack?.framework).toBe('gin');
     });
   });
+
+  describe('reconcileArtifacts', () => {
+    const writeArtifact = async (name: string, data: unknown) => {
+      await writeFile(join(getModernizationDir(testDir), name), JSON.stringify(data), 'utf-8');
+    };
+
+    it('should return no changes when no artifacts exist', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'coverage');
+
+      const changes = await reconcileArtifacts(testDir, state);
+
+      expect(changes).toEqual([]);
+      expect(state.testCoverageMap).toBeUndefined();
+    });
+
+    it('should update current coverage from test_coverage.json', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'coverage');
+      await writeArtifact('test_coverage.json', {
+        version: '1.0.0',
+        analyzedAt: new Date().toISOString(),
+        overallCoverage: { lineCoverage: 55, branchCoverage: 40, functionCoverage: 60 },
+        byFeature: [],
+        untestedFeatures: [],
+        generationQueue: [],
+      });
+
+      const changes = await reconcileArtifacts(testDir, state);
+
+      expect(state.currentCoverage).toBe(55);
+      expect(state.testCoverageMap).toBeDefined();
+      expect(changes).toContain('Coverage: 0% -> 55%');
+    });
+
+    it('should measure coverage from the reports the tests wrote', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'coverage');
+      await writeArtifact('test_coverage.json', {
+        version: '1.0.0',
+        analyzedAt: new Date().toISOString(),
+        overallCoverage: { lineCoverage: 90, branchCoverage: 90, functionCoverage: 90 },
+        byFeature: [],
+        untestedFeatures: [],
+        generationQueue: [{ featureId: 'orders', priority: 80, estimatedTests: 3, status: 'pending' }],
+      });
+      const session = createSessionSummary(1, 'coverage', 'coverage');
+      session.startedAt = new Date(Date.now() - 60 * 1000).toISOString();
+      await mkdir(join(testDir, 'coverage'), { recursive: true });
+      await writeFile(join(testDir, 'coverage', 'lcov.info'), 'SF:src/orders.ts\nDA:1,1\nDA:2,0\nend_of_record\n');
+
+      const changes = await reconcileArtifacts(testDir, state, session);
+      const saved = await loadTestCoverageMap(testDir);
+
+      expect(state.currentCoverage).toBe(50);
+      expect(changes).toContain('Coverage: 0% -> 50%');
+      expect(saved?.overallCoverage).toMatchObject({ lineCoverage: 50, previous: { lineCoverage: 90 } });
+      expect(saved?.generationQueue).toHaveLength(1);
+    });
+
+    it('should ignore coverage reports older than the session or outside coverage sessions', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'coverage');
+      const report = join(testDir, 'coverage', 'lcov.info');
+      await mkdir(join(testDir, 'coverage'), { recursive: true });
+      await writeFile(report, 'SF:src/orders.ts\nDA:1,1\nDA:2,0\nend_of_record\n');
+      await utimes(report, new Date('2026-01-01'), new Date('2026-01-01'));
+
+      await reconcileArtifacts(testDir, state, createSessionSummary(1, 'coverage', 'coverage'));
+      await utimes(report, new Date(), new Date());
+      await reconcileArtifacts(testDir, state, createSessionSummary(2, 'discovery', 'coverage'));
+
+      expect(state.currentCoverage).toBe(0);
+      expect(await loadTestCoverageMap(testDir)).toBeNull();
+    });
+
+    it('should update migration progress from migration_plan.json', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'migration');
+      const feature = (featureId: string, status: string) => ({
+        featureId,
+        featureName: featureId,
+        sourceFiles: [],
+        targetFiles: [],
+        complexity: 'low',
+        dependencies: [],
+        validationCriteria: [],
+        status,
+      });
+      await writeArtifact('migration_plan.json', {
+        version: '1.0.0',
+        createdAt: new Date().toISOString(),
+        strategy: 'strangler_fig',
+        source: { language: 'python', version: '3.11', keyDependencies: [] },
+        target: { language: 'go', version: '1.22', keyDependencies: [] },
+        phases: [],
+        featureMigration: [
+          feature('a', 'completed'),
+          feature('b', 'validated'),
+          feature('c', 'pending'),
+        ],
+        riskAssessment: { highRiskFeatures: [], mitigationStrategies: [] },
+      });
+
+      const changes = await reconcileArtifacts(testDir, state);
+
+      expect(state.featuresMigrated).toBe(2);
+      expect(state.featuresTotal).toBe(3);
+      expect(state.sourceStack?.language).toBe('python');
+      expect(changes).toContain('Features migrated: 0 -> 2/3');
+    });
+
+    it('should merge the enhancement plan so the next agent changes', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'enhancement');
+      markDiscoveryComplete(state);
+      await writeArtifact('enhancement_plan.json', {
+        version: '1.0.0',
+        createdAt: new Date().toISOString(),
+        enhancementSpec: 'spec',
+        baselineTestResults: { total: 0, passed: 0, failed: 0, skipped: 0 },
+        enhancements: [],
+      });
+
+      await reconcileArtifacts(testDir, state);
+
+      expect(state.enhancementPlan).toBeDefined();
+      expect(determineNextAgent(state, 'enhancement')).toBe('validation');
+    });
+
+    it('should ignore structurally invalid artifacts', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'coverage');
+      state.currentCoverage = 30;
+      await writeArtifact('test_coverage.json', { overallCoverage: 'high' });
+
+      const changes = await reconcileArtifacts(testDir, state);
+
+      expect(state.currentCoverage).toBe(30);
+      expect(state.testCoverageMap).toBeUndefined();
+      expect(changes).toContain('Ignored invalid test_coverage.json (5 errors)');
+    });
+  });
+
+  describe('runOrchestrator', () => {
+    it('should refuse to run while another session holds the lock', async () => {
+      await initializeProject(testDir, 'discovery');
+      await writeFile(
+        join(getModernizationDir(testDir), 'session.lock'),
+        JSON.stringify({
+          pid: process.ppid,
+          hostname: hostname(),
+          command: 'discover',
+          acquiredAt: new Date().toISOString(),
+        }),
+        'utf-8'
+      );
+
+      const result = await runOrchestrator({ projectDir: testDir, mode: 'discovery', model: 'opus' });
+
+      expect(result.shouldContinue).toBe(false);
+      expect(result.error).toContain('Another modernize session is already running');
+    });
+
+    it('should refuse to start a session with an exhausted budget', async () => {
+      const result = await runOrchestrator({
+        projectDir: testDir,
+        mode: 'coverage',
+        model: 'opus',
+        budget: { maxTokens: 0 },
+      });
+
+      expect(result.shouldContinue).toBe(false);
+      expect(result.error).toBe('Budget exhausted');
+      expect(await loadState(testDir)).toBeNull();
+    });
+
+    it('should record what the session changed in the artifacts', async () => {
+      await runOrchestrator({ projectDir: testDir, mode: 'discovery', model: 'opus' });
+
+      const session = (await loadState(testDir))?.sessions[0];
+      const snapshot = await loadSessionSnapshot(testDir, 1);
+
+      expect(session?.artifactDiff).toBeDefined();
+      expect(snapshot?.before.functionalityMap).toBeUndefined();
+      expect(snapshot?.after.functionalityMap).toBeDefined();
+    });
+
+    it('should cache the source files after a discovery session', async () => {
+      await writeFile(join(testDir, 'orders.ts'), 'export function list() {}\n');
+
+      await runOrchestrator({ projectDir: testDir, mode: 'discovery', model: 'opus' });
+
+      expect(Object.keys((await loadDiscoveryCache(testDir))?.files ?? {})).toEqual(['orders.ts']);
+      expect((await loadState(testDir))?.sessions[0]?.artifactsModified).toContain('.modernization/discovery_cache.json');
+    });
+
+    it('should release the lock after the session', async () => {
+      await runOrchestrator({ projectDir: testDir, mode: 'discovery', model: 'opus' });
+
+      const lock = await acquireLock(testDir, 'status');
+      expect(lock.acquired).toBe(true);
+      await releaseLock(testDir);
+    });
+
+    it('should checkpoint the worktree an agent session runs in', async () => {
+      vi.stubEnv('ANTHROPIC_API_KEY', 'test-key');
+      await runGit(testDir, ['init', '-q']);
+      await writeFile(join(testDir, 'app.js'), 'console.log("v1");\n');
+      await runGit(testDir, ['add', '.']);
+      await runGit(testDir, ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init']);
+      const state = await initializeProject(testDir, 'coverage');
+      markDiscoveryComplete(state);
+      await saveState(testDir, state);
+
+      // The agent edits the worktree it is sandboxed to
+      vi.mocked(query).mockImplementation(({ options }) => {
+        return (async function* () {
+          await writeFile(join(options?.cwd ?? '', 'app.js'), 'console.log("agent");\n');
+          yield { type: 'result', subtype: 'success', num_turns: 1 };
+        })() as unknown as ReturnType<typeof query>;
+      });
+
+      const result = await runOrchestrator({ projectDir: testDir, mode: 'coverage', model: 'opus', worktree: 'session' });
+      const worktree = result.worktree?.path ?? '';
+      const session = (await loadState(testDir))?.sessions.at(-1);
+
+      expect(session?.checkpoint?.worktree).toBe(relative(testDir, worktree));
+      expect(await readFile(join(worktree, 'app.js'), 'utf-8')).toBe('console.log("agent");\n');
+
+      const rollback = await rollbackToSession(testDir, session?.sessionNumber ?? 0);
+
+      expect(rollback.checkpoint.worktree).toBe(relative(testDir, worktree));
+      expect(await readFile(join(worktree, 'app.js'), 'utf-8')).toBe('console.log("v1");\n');
+      expect(await readFile(join(testDir, 'app.js'), 'utf-8')).toBe('console.log("v1");\n');
+    });
+  });
+
+  describe('runOrchestratorLoop', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should run a single session by default', async () => {
+      const loop = await runOrchestratorLoop({ projectDir: testDir, mode: 'coverage', model: 'opus' });
+
+      expect(loop.iterations).toBe(1);
+      expect(loop.stopReason).toBe('max_iterations');
+      expect((await loadState(testDir))?.sessions).toHaveLength(1);
+    });
+
+    it('should stop when the mode is complete', async () => {
+      const agents: string[] = [];
+      const loop = await runOrchestratorLoop(
+        { projectDir: testDir, mode: 'discovery', model: 'opus', untilComplete: true },
+        (_, agent) => agents.push(agent)
+      );
+
+      expect(loop.stopReason).toBe('complete');
+      expect(agents).toEqual(['discovery']);
+    });
+
+    it('should stop on pending approvals without running a session', async () => {
+      const state = await initializeProject(testDir, 'coverage');
+      addApprovalRequest(state, {
+        operation: 'rm -rf dist',
+        riskLevel: 'high',
+        description: 'Clean build output',
+      });
+      await saveState(testDir, state);
+
+      const loop = await runOrchestratorLoop({
+        projectDir: testDir,
+        mode: 'coverage',
+        model: 'opus',
+        untilComplete: true,
+      });
+
+      expect(loop.iterations).toBe(0);
+      expect(loop.stopReason).toBe('approval_required');
+    });
+
+    it('should stop after repeated failures and persist every session', async () => {
+      vi.stubEnv('CLAUDE_CODE_OAUTH_TOKEN', '');
+      vi.stubEnv('ANTHROPIC_API_KEY', '');
+
+      const loop = await runOrchestratorLoop({
+        projectDir: testDir,
+        mode: 'coverage',
+        model: 'opus',
+        untilComplete: true,
+      });
+
+      expect(loop.stopReason).toBe('repeated_failure');
+      expect(loop.error).toContain('Authentication required');
+      expect(loop.iterations).toBe(3);
+
+      const state = await loadState(testDir);
+      expect(state?.sessions.map((s) => s.agentType)).toEqual(['discovery', 'coverage', 'coverage']);
+
+      // Artifacts are checkpointed before the session changes them
+      const checkpoint = getArtifactCheckpointDir(testDir, 2);
+      const checkpointed = JSON.parse(await readFile(join(checkpoint, 'state.json'), 'utf-8'));
+      expect(checkpointed.sessionNumber).toBe(1);
+      expect(JSON.parse(await readFile(join(checkpoint, 'functionality_map.json'), 'utf-8')).features).toBeDefined();
+    });
+
+    it('should respect maxIterations with untilComplete', async () => {
+      vi.stubEnv('CLAUDE_CODE_OAUTH_TOKEN', '');
+      vi.stubEnv('ANTHROPIC_API_KEY', '');
+
+      const loop = await runOrchestratorLoop({
+        projectDir: testDir,
+        mode: 'coverage',
+        model: 'opus',
+        untilComplete: true,
+        maxIterations: 2,
+      });
+
+      expect(loop.iterations).toBe(2);
+      expect(loop.stopReason).toBe('max_iterations');
+    });
+
+    it('should stop before starting a session once the budget is spent', async () => {
+      const loop = await runOrchestratorLoop({
+        projectDir: testDir,
+        mode: 'coverage',
+        model: 'opus',
+        untilComplete: true,
+        budget: { maxTokens: 0 },
+      });
+
+      expect(loop.iterations).toBe(0);
+      expect(loop.stopReason).toBe('budget');
+    });
+
+    it('should stop once the duration limit has passed', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const loop = await runOrchestratorLoop(
+          { projectDir: testDir, mode: 'coverage', model: 'opus', untilComplete: true, maxDurationMinutes: 5 },
+          () => vi.setSystemTime(Date.now() + 10 * 60 * 1000)
+        );
+
+        expect(loop.iterations).toBe(1);
+        expect(loop.stopReason).toBe('max_duration');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('isBudgetExhausted', () => {
+    const spent = { ...createEmptyUsage(), inputTokens: 8000, outputTokens: 2000, costUsd: 1.5 };
+
+    it('should never be exhausted without a budget', () => {
+      expect(isBudgetExhausted(undefined, spent)).toBe(false);
+    });
+
+    it('should check the dollar cap', () => {
+      expect(isBudgetExhausted({ maxCostUsd: 2 }, spent)).toBe(false);
+      expect(isBudgetExhausted({ maxCostUsd: 1.5 }, spent)).toBe(true);
+    });
+
+    it('should check the token cap', () => {
+      expect(isBudgetExhausted({ maxTokens: 20000 }, spent)).toBe(false);
+      expect(isBudgetExhausted({ maxTokens: 10000 }, spent)).toBe(true);
+    });
+  });
 });
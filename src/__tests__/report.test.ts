@@ -0,0 +1,150 @@
+/**
+ * Tests for Report Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  REPORT_SCHEMA_VERSION,
+  buildReport,
+  renderReport,
+  renderReportHtml,
+  renderReportJUnit,
+} from '../report.js';
+import {
+  createInitialState,
+  initializeModernizationDir,
+  saveState,
+  saveFunctionalityMap,
+  getArtifactPath,
+  addApprovalRequest,
+  resolveApproval,
+  createSessionSummary,
+  completeSessionSummary,
+  addSessionSummary,
+  createEmptyUsage,
+} from '../state.js';
+import { createEmptyFunctionalityMap, createFeature } from '../agents/discovery.js';
+import type { ModernizationState } from '../types.js';
+
+describe('Report Module', () => {
+  let testDir: string;
+  let state: ModernizationState;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `report-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    await initializeModernizationDir(testDir);
+
+    state = createInitialState(testDir, 'shop <api>', 'coverage');
+    state.discoveryComplete = true;
+    state.currentCoverage = 40;
+
+    const map = createEmptyFunctionalityMap();
+    map.sourceAnalysis.language = 'typescript';
+    map.features.push(
+      { ...createFeature('Login', 'src/auth/login.ts', [1, 20]), category: 'authentication' },
+      { ...createFeature('Logout', 'src/auth/logout.ts', [1, 10]), category: 'authentication' },
+      { ...createFeature('Orders', 'src/orders.ts', [1, 50]), category: 'api' }
+    );
+    state.functionalityMap = map;
+    await saveFunctionalityMap(testDir, map);
+
+    const ok = createSessionSummary(1, 'discovery', 'coverage');
+    completeSessionSummary(ok, ['scanned'], ['.modernization/functionality_map.json'], [], []);
+    addSessionSummary(state, ok);
+
+    const failed = createSessionSummary(2, 'coverage', 'coverage');
+    completeSessionSummary(failed, [], [], [], ['Tests failed: <timeout>']);
+    failed.usage = { ...createEmptyUsage(), inputTokens: 100, outputTokens: 50, turns: 2, costUsd: 0.1 };
+    addSessionSummary(state, failed);
+
+    addApprovalRequest(state, { operation: 'rm -rf dist', riskLevel: 'high', description: 'Clean build' });
+    const approved = addApprovalRequest(state, {
+      operation: 'npm install',
+      riskLevel: 'medium',
+      description: 'Install',
+    });
+    resolveApproval(state, approved, true, 'reviewer');
+
+    await saveState(testDir, state);
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('buildReport', () => {
+    it('should summarize state, progress and sessions', async () => {
+      const report = await buildReport(testDir, state);
+
+      expect(report.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+      expect(report.project.name).toBe('shop <api>');
+      expect(report.progress.percent).toBe(50);
+      expect(report.sessions.map((s) => s.operations)).toEqual([1, 0]);
+      expect(report.sessions[1]?.errors).toEqual(['Tests failed: <timeout>']);
+      expect(report.approvals.pending).toHaveLength(1);
+      expect(report.approvals.resolved).toHaveLength(1);
+      expect(report.usage.total.costUsd).toBeCloseTo(0.1);
+    });
+
+    it('should summarize the functionality map', async () => {
+      const report = await buildReport(testDir, state);
+
+      expect(report.functionalityMap?.features).toBe(3);
+      expect(report.functionalityMap?.featuresByCategory).toEqual({ authentication: 2, api: 1 });
+    });
+
+    it('should report artifact validity', async () => {
+      await writeFile(getArtifactPath(testDir, 'test_coverage'), '{"version": 1}', 'utf-8');
+
+      const report = await buildReport(testDir, state);
+      const byKind = Object.fromEntries(report.artifacts.map((a) => [a.kind, a]));
+
+      expect(byKind.state?.valid).toBe(true);
+      expect(byKind.state?.file).toBe(join('.modernization', 'state.json'));
+      expect(byKind.migration_plan?.exists).toBe(false);
+      expect(byKind.test_coverage?.valid).toBe(false);
+      expect(byKind.test_coverage?.errors.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('renderReport', () => {
+    it('should emit parseable JSON', async () => {
+      const report = await buildReport(testDir, state);
+      const parsed = JSON.parse(renderReport(report, state, 'json'));
+
+      expect(parsed.project.mode).toBe('coverage');
+      expect(parsed.sessions).toHaveLength(2);
+    });
+
+    it('should keep markdown as the status report', async () => {
+      const report = await buildReport(testDir, state);
+      expect(renderReport(report, state, 'markdown')).toContain('## Modernization Status: shop <api>');
+    });
+
+    it('should escape HTML', async () => {
+      const html = renderReportHtml(await buildReport(testDir, state));
+
+      expect(html).toContain('<title>Modernization Report: shop &lt;api&gt;</title>');
+      expect(html).toContain('Tests failed: &lt;timeout&gt;');
+      expect(html).not.toContain('<timeout>');
+    });
+
+    it('should map sessions, artifacts and approvals to JUnit test cases', async () => {
+      const xml = renderReportJUnit(await buildReport(testDir, state));
+
+      expect(xml).toContain('<testsuite name="sessions" tests="2" failures="1" skipped="0">');
+      expect(xml).toContain('<failure message="Tests failed: &lt;timeout&gt;">');
+      expect(xml).toContain('<testsuite name="artifacts" tests="2" failures="0" skipped="0">');
+      expect(xml).toContain('<testsuite name="approvals" tests="2" failures="0" skipped="1">');
+      expect(xml).toContain('<skipped message="awaiting approval"/>');
+    });
+  });
+});
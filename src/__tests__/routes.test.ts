@@ -0,0 +1,681 @@
+/**
+ * Tests for HTTP Route Extraction Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { extractRoutes, findRouterMounts, getNextRoutePath, linkRouterMounts } from '../routes.js';
+import { buildImportGraph } from '../imports.js';
+import { createEmptyFunctionalityMap, extractFeatures } from '../agents/discovery.js';
+import type { FunctionalityMap } from '../types.js';
+
+const lines = (...source: string[]) => source.join('\n');
+
+describe('Routes Module', () => {
+  describe('Express', () => {
+    it('should find routes with their middleware and handler', () => {
+      const endpoints = extractRoutes(
+        'src/routes/users.ts',
+        lines(
+          "import express from 'express';",
+          'const users = express.Router();',
+          "users.get('/users', listUsers);",
+          "users.post('/users', requireAuth, validate(schema), async (req, res) => {",
+          '  res.send(201);',
+          '});'
+        )
+      );
+
+      expect(endpoints).toEqual([
+        {
+          method: 'GET',
+          path: '/users',
+          authRequired: false,
+          documented: false,
+          framework: 'express',
+          handler: { file: 'src/routes/users.ts', line: 3, function: 'listUsers' },
+          relativeToMount: true,
+        },
+        {
+          method: 'POST',
+          path: '/users',
+          authRequired: true,
+          documented: false,
+          framework: 'express',
+          auth: ['requireAuth'],
+          handler: { file: 'src/routes/users.ts', line: 4 },
+          relativeToMount: true,
+        },
+      ]);
+    });
+
+    it('should apply auth middleware from use() to later routes', () => {
+      const endpoints = extractRoutes(
+        'src/app.js',
+        lines(
+          "const express = require('express');",
+          "app.get('/health', health);",
+          "app.use(passport.authenticate('jwt'));",
+          "app.route('/orders').get(listOrders).delete(clearOrders);"
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.auth])).toEqual([
+        ['GET', '/health', undefined],
+        ['GET', '/orders', ['passport.authenticate']],
+        ['DELETE', '/orders', ['passport.authenticate']],
+      ]);
+    });
+
+    it('should ignore lookalike calls on other objects', () => {
+      expect(
+        extractRoutes('src/cache.ts', "import express from 'express';\ncache.get('/users', fallback);\napp.get('env');")
+      ).toEqual([]);
+    });
+
+    it('should ignore files that do not import Express', () => {
+      const source = lines(
+        "import axios from 'axios';",
+        "const api = axios.create({ baseURL: '/api' });",
+        "api.get('/users', { params });"
+      );
+
+      expect(extractRoutes('src/client.ts', source)).toEqual([]);
+    });
+
+    it('should prefix the routes of routers mounted in the file', () => {
+      const endpoints = extractRoutes(
+        'src/app.ts',
+        lines(
+          "import express, { Router } from 'express';",
+          'const app = express();',
+          'const v1 = Router();',
+          'const orders = Router();',
+          "orders.get('/', listOrders);",
+          "orders.post('/:id/cancel', cancelOrder);",
+          "v1.use('/orders', requireAuth, orders);",
+          "app.use('/api/v1', v1);",
+          "app.get('/health', health);"
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.auth])).toEqual([
+        ['GET', '/api/v1/orders', ['requireAuth']],
+        ['POST', '/api/v1/orders/:id/cancel', ['requireAuth']],
+        ['GET', '/health', undefined],
+      ]);
+    });
+
+    it('should find routers imported from other modules and mounted', () => {
+      const source = lines(
+        "import express, { Router } from 'express';",
+        "import usersRouter from './routes/users.js';",
+        "const { ordersRouter } = require('./routes/orders');",
+        'const app = express();',
+        'const api = Router();',
+        "api.use('/users', requireAuth, usersRouter);",
+        "app.use('/api', api);",
+        "app.use('/admin', require('./routes/admin'));",
+        "app.use('/static', express.static('public'));"
+      );
+
+      expect(findRouterMounts('src/app.ts', source)).toEqual([
+        { file: 'src/app.ts', specifier: './routes/users.js', prefix: '/api/users', auth: ['requireAuth'], relative: false },
+        { file: 'src/app.ts', specifier: './routes/admin', prefix: '/admin', auth: [], relative: false },
+      ]);
+    });
+
+    it('should not take login validators for auth', () => {
+      const source = lines(
+        "import { Router } from 'express';",
+        'const router = Router();',
+        "router.post('/login', validateLogin, rateLimit, login);",
+        "router.get('/me', verifyToken, me);"
+      );
+
+      expect(extractRoutes('src/auth.ts', source).map((e) => [e.path, e.auth])).toEqual([
+        ['/login', undefined],
+        ['/me', ['verifyToken']],
+      ]);
+    });
+  });
+
+  describe('NestJS', () => {
+    it('should combine controller and method paths and collect guards', () => {
+      const endpoints = extractRoutes(
+        'src/orders/orders.controller.ts',
+        lines(
+          "@Controller('orders')",
+          "@UseGuards(AuthGuard('jwt'))",
+          'export class OrdersController {',
+          '  @Get()',
+          '  findAll() {}',
+          '',
+          "  @Post(':id/cancel')",
+          '  @UseGuards(RolesGuard)',
+          '  cancel() {}',
+          '',
+          '  helper() {}',
+          '}'
+        )
+      );
+
+      expect(endpoints).toEqual([
+        {
+          method: 'GET',
+          path: '/orders',
+          authRequired: true,
+          documented: false,
+          framework: 'nestjs',
+          auth: ['AuthGuard'],
+          handler: { file: 'src/orders/orders.controller.ts', line: 4, function: 'OrdersController.findAll' },
+        },
+        {
+          method: 'POST',
+          path: '/orders/:id/cancel',
+          authRequired: true,
+          documented: false,
+          framework: 'nestjs',
+          auth: ['AuthGuard', 'RolesGuard'],
+          handler: { file: 'src/orders/orders.controller.ts', line: 7, function: 'OrdersController.cancel' },
+        },
+      ]);
+    });
+
+    it('should read the path from controller options', () => {
+      const endpoints = extractRoutes(
+        'src/health.controller.ts',
+        "@Controller({ path: 'health', version: '1' })\nclass HealthController {\n  @Get('live') live() {}\n}"
+      );
+      expect(endpoints.map((e) => [e.method, e.path, e.authRequired])).toEqual([['GET', '/health/live', false]]);
+    });
+  });
+
+  describe('Next.js', () => {
+    it('should map files to routes', () => {
+      expect(getNextRoutePath('pages/api/users/[id].ts')).toEqual({ router: 'pages', path: '/api/users/[id]' });
+      expect(getNextRoutePath('src/pages/api/index.js')).toEqual({ router: 'pages', path: '/api' });
+      expect(getNextRoutePath('app/(shop)/api/cart/route.ts')).toEqual({ router: 'app', path: '/api/cart' });
+      expect(getNextRoutePath('app/route.ts')).toEqual({ router: 'app', path: '/' });
+      expect(getNextRoutePath('pages/about.tsx')).toBeUndefined();
+    });
+
+    it('should find app router handlers per exported method', () => {
+      const endpoints = extractRoutes(
+        'app/api/cart/route.ts',
+        lines(
+          'export async function GET() {',
+          '  return Response.json([]);',
+          '}',
+          'export const POST = async (req: Request) => {',
+          '  const session = await getServerSession();',
+          '};',
+          'export const dynamic = "force-dynamic";'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.auth, e.handler])).toEqual([
+        ['GET', '/api/cart', undefined, { file: 'app/api/cart/route.ts', line: 1, function: 'GET' }],
+        ['POST', '/api/cart', ['getServerSession'], { file: 'app/api/cart/route.ts', line: 4, function: 'POST' }],
+      ]);
+    });
+
+    it('should find the methods a pages router handler checks for', () => {
+      const endpoints = extractRoutes(
+        'pages/api/login.ts',
+        lines(
+          'async function handler(req, res) {',
+          "  if (req.method === 'POST') return res.send(1);",
+          "  if (req.method === 'DELETE') return res.send(2);",
+          '}',
+          'export default withAuth(handler);'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.auth, e.handler])).toEqual([
+        ['POST', '/api/login', ['withAuth'], { file: 'pages/api/login.ts', line: 1, function: 'handler' }],
+        ['DELETE', '/api/login', ['withAuth'], { file: 'pages/api/login.ts', line: 1, function: 'handler' }],
+      ]);
+    });
+
+    it('should serve every method when the handler checks none', () => {
+      const endpoints = extractRoutes('pages/api/ping.js', 'export default function ping(req, res) {}');
+      expect(endpoints.map((e) => [e.method, e.path, e.handler?.function])).toEqual([['ALL', '/api/ping', 'ping']]);
+    });
+  });
+
+  describe('Flask', () => {
+    it('should find route decorators with their methods and auth decorators', () => {
+      const endpoints = extractRoutes(
+        'app/views.py',
+        lines(
+          'from flask import Blueprint',
+          "bp = Blueprint('users', __name__)",
+          '',
+          "@bp.route('/users', methods=['GET', 'POST'])",
+          '@login_required',
+          'def users():',
+          '    pass',
+          '',
+          '@bp.get("/health")',
+          'def health():',
+          '    pass'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.framework, e.auth, e.handler])).toEqual([
+        ['GET', '/users', 'flask', ['login_required'], { file: 'app/views.py', line: 6, function: 'users' }],
+        ['POST', '/users', 'flask', ['login_required'], { file: 'app/views.py', line: 6, function: 'users' }],
+        ['GET', '/health', 'flask', undefined, { file: 'app/views.py', line: 10, function: 'health' }],
+      ]);
+    });
+
+    it('should read request schemas from argument decorators', () => {
+      const endpoints = extractRoutes(
+        'app/pets.py',
+        "from flask import Flask\n@blp.post('/pets')\n@blp.arguments(PetSchema)\ndef create(data):\n    pass\n"
+      );
+      expect(endpoints[0]?.requestSchema).toEqual({ model: 'PetSchema' });
+    });
+  });
+
+  describe('FastAPI', () => {
+    it('should find routes with request models, response models and auth dependencies', () => {
+      const endpoints = extractRoutes(
+        'app/routers/items.py',
+        lines(
+          'from fastapi import APIRouter, Depends',
+          'from pydantic import BaseModel',
+          '',
+          'class ItemIn(BaseModel):',
+          '    name: str',
+          '    price: float = 0',
+          '',
+          'router = APIRouter()',
+          '',
+          '@router.post(',
+          '    "/items",',
+          '    response_model=Item,',
+          ')',
+          'async def create_item(',
+          '    item: ItemIn,',
+          '    user: User = Depends(get_current_user),',
+          '    db: Session = Depends(get_db),',
+          '):',
+          '    pass',
+          '',
+          '@router.get("/items/{item_id}", dependencies=[Depends(verify_token)])',
+          'async def read_item(item_id: int, q: Optional[str] = Query(None)):',
+          '    pass'
+        )
+      );
+
+      expect(endpoints).toEqual([
+        {
+          method: 'POST',
+          path: '/items',
+          authRequired: true,
+          documented: false,
+          framework: 'fastapi',
+          auth: ['get_current_user'],
+          handler: { file: 'app/routers/items.py', line: 14, function: 'create_item' },
+          requestSchema: { model: 'ItemIn', fields: { name: 'str', price: 'float' } },
+          responseSchema: { model: 'Item' },
+        },
+        {
+          method: 'GET',
+          path: '/items/{item_id}',
+          authRequired: true,
+          documented: false,
+          framework: 'fastapi',
+          auth: ['verify_token'],
+          handler: { file: 'app/routers/items.py', line: 22, function: 'read_item' },
+        },
+      ]);
+    });
+  });
+
+  describe('Django', () => {
+    it('should find URL patterns in urls.py', () => {
+      const endpoints = extractRoutes(
+        'shop/urls.py',
+        lines(
+          'from django.urls import path, re_path, include',
+          'urlpatterns = [',
+          "    path('', views.index, name='index'),",
+          "    path('orders/<int:pk>/', login_required(views.order_detail)),",
+          "    re_path(r'^reports/(?P<year>[0-9]{4})/$', ReportView.as_view()),",
+          "    path('api/', include('api.urls')),",
+          ']'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.auth, e.handler])).toEqual([
+        ['ALL', '/', undefined, { file: 'shop/urls.py', line: 3, function: 'views.index' }],
+        ['ALL', '/orders/<int:pk>/', ['login_required'], { file: 'shop/urls.py', line: 4, function: 'views.order_detail' }],
+        ['ALL', '/reports/(?P<year>[0-9]{4})/', undefined, { file: 'shop/urls.py', line: 5, function: 'ReportView' }],
+      ]);
+    });
+  });
+
+  describe('Go', () => {
+    it('should find Gin routes with group prefixes and middleware', () => {
+      const endpoints = extractRoutes(
+        'internal/server/routes.go',
+        lines(
+          'import "github.com/gin-gonic/gin"',
+          '',
+          'func Register(r *gin.Engine, h *Handler) {',
+          '\tr.GET("/health", h.Health)',
+          '\tv1 := r.Group("/api/v1")',
+          '\tv1.Use(AuthRequired())',
+          '\t{',
+          '\t\tv1.POST("/orders", RateLimit(), h.CreateOrder) // create',
+          '\t\tv1.Handle("DELETE", "/orders/:id", func(c *gin.Context) {',
+          '\t\t\tc.Get("user")',
+          '\t\t})',
+          '\t}',
+          '}'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.framework, e.auth, e.handler])).toEqual([
+        ['GET', '/health', 'gin', undefined, { file: 'internal/server/routes.go', line: 4, function: 'h.Health' }],
+        ['POST', '/api/v1/orders', 'gin', ['AuthRequired'], { file: 'internal/server/routes.go', line: 8, function: 'h.CreateOrder' }],
+        ['DELETE', '/api/v1/orders/:id', 'gin', ['AuthRequired'], { file: 'internal/server/routes.go', line: 9 }],
+      ]);
+    });
+
+    it('should take the Echo handler before its middleware', () => {
+      const endpoints = extractRoutes(
+        'main.go',
+        lines(
+          'import "github.com/labstack/echo/v4"',
+          'e := echo.New()',
+          'admin := e.Group("/admin", middleware.JWT([]byte("secret")))',
+          'admin.PUT("/users/:id", updateUser, logRequest)',
+          'e.Any("/ping", ping)'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.auth, e.handler?.function])).toEqual([
+        ['PUT', '/admin/users/:id', ['middleware.JWT'], 'updateUser'],
+        ['ALL', '/ping', undefined, 'ping'],
+      ]);
+    });
+
+    it('should find Fiber routes and skip lookalike calls', () => {
+      const endpoints = extractRoutes(
+        'main.go',
+        lines(
+          'import "github.com/gofiber/fiber/v2"',
+          'api := app.Group("/api", jwtware.New(jwtware.Config{}))',
+          'api.Get("/items", listItems)',
+          'app.Post("/login", func(c *fiber.Ctx) error {',
+          '\treturn c.Get("X-Request-Id", "none")',
+          '})'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.auth])).toEqual([
+        ['GET', '/api/items', ['jwtware.New']],
+        ['POST', '/login', undefined],
+      ]);
+    });
+
+    it('should ignore files without a supported framework', () => {
+      expect(extractRoutes('main.go', 'import "net/http"\nmux.Get("/x", h)')).toEqual([]);
+    });
+  });
+
+  describe('Rust', () => {
+    it('should find Actix attribute routes with body types and auth extractors', () => {
+      const endpoints = extractRoutes(
+        'src/handlers.rs',
+        lines(
+          'use actix_web::{get, post, web, HttpResponse};',
+          '',
+          '#[derive(Deserialize)]',
+          'pub struct NewUser {',
+          '    pub name: String,',
+          '    email: String,',
+          '}',
+          '',
+          '#[get("/users/{id}")]',
+          'async fn get_user(path: web::Path<u32>) -> HttpResponse { todo!() }',
+          '',
+          '#[post("/users")]',
+          'pub async fn create_user(user: AuthUser, web::Json(body): web::Json<NewUser>) -> HttpResponse { todo!() }',
+          '',
+          'fn helper() {}'
+        )
+      );
+
+      expect(endpoints).toEqual([
+        {
+          method: 'GET',
+          path: '/users/{id}',
+          authRequired: false,
+          documented: false,
+          framework: 'actix',
+          handler: { file: 'src/handlers.rs', line: 10, function: 'get_user' },
+        },
+        {
+          method: 'POST',
+          path: '/users',
+          authRequired: true,
+          documented: false,
+          framework: 'actix',
+          auth: ['AuthUser'],
+          handler: { file: 'src/handlers.rs', line: 13, function: 'create_user' },
+          requestSchema: { model: 'NewUser', fields: { name: 'String', email: 'String' } },
+        },
+      ]);
+    });
+
+    it('should find Actix routes registered under scopes and resources', () => {
+      const endpoints = extractRoutes(
+        'src/main.rs',
+        lines(
+          'use actix_web::{web, App};',
+          'App::new()',
+          '    .route("/health", web::get().to(health))',
+          '    .service(',
+          '        web::scope("/api")',
+          '            .route("/orders", web::post().to(orders::create))',
+          '            .service(web::resource("/items").route(web::get().to(list_items)))',
+          '    );'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.handler])).toEqual([
+        ['GET', '/health', { file: 'src/main.rs', line: 3, function: 'health' }],
+        ['POST', '/api/orders', { file: 'src/main.rs', line: 6, function: 'orders::create' }],
+        ['GET', '/api/items', { file: 'src/main.rs', line: 7, function: 'list_items' }],
+      ]);
+    });
+
+    it('should find Axum method routers, including nested ones', () => {
+      const endpoints = extractRoutes(
+        'src/app.rs',
+        lines(
+          'use axum::{routing::get, Router, Json};',
+          '',
+          'async fn create_todo(claims: Claims, Json(input): Json<CreateTodo>) {}',
+          '',
+          'pub fn app() -> Router {',
+          '    Router::new()',
+          '        .route("/todos", get(list_todos).post(create_todo))',
+          '        .nest("/admin", Router::new().route("/stats", get(|| async { "ok" })))',
+          '}'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.handler, e.requestSchema])).toEqual([
+        ['GET', '/todos', { file: 'src/app.rs', line: 7, function: 'list_todos' }, undefined],
+        ['POST', '/todos', { file: 'src/app.rs', line: 3, function: 'create_todo' }, { model: 'CreateTodo' }],
+        ['GET', '/admin/stats', { file: 'src/app.rs', line: 8 }, undefined],
+      ]);
+    });
+
+    it('should find Rocket routes with request guards', () => {
+      const endpoints = extractRoutes(
+        'src/main.rs',
+        lines(
+          '#[macro_use] extern crate rocket;',
+          '#[get("/hello/<name>")]',
+          'fn hello(name: &str) -> String { name.into() }',
+          '#[delete("/sessions")]',
+          'fn logout(session: SessionGuard) {}'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.framework, e.auth])).toEqual([
+        ['GET', '/hello/<name>', 'rocket', undefined],
+        ['DELETE', '/sessions', 'rocket', ['SessionGuard']],
+      ]);
+    });
+  });
+
+  describe('Spring', () => {
+    it('should combine class and method mappings in Java controllers', () => {
+      const endpoints = extractRoutes(
+        'src/main/java/com/shop/OrderController.java',
+        lines(
+          'package com.shop;',
+          '',
+          '@RestController',
+          '@RequestMapping("/api/orders")',
+          'public class OrderController {',
+          '    @Autowired',
+          '    private OrderService service;',
+          '',
+          '    @GetMapping',
+          '    public List<Order> list() { return service.all(); }',
+          '',
+          '    @PostMapping(value = "/{id}/items", consumes = "application/json")',
+          '    @PreAuthorize("hasRole(\'ADMIN\')")',
+          '    public ResponseEntity<Order> addItem(@PathVariable Long id, @RequestBody @Valid NewItem item) {',
+          '        return null;',
+          '    }',
+          '',
+          '    @RequestMapping(path = {"/export", "/download"}, method = {RequestMethod.GET, RequestMethod.HEAD})',
+          '    public void export() {}',
+          '}'
+        )
+      );
+
+      const file = 'src/main/java/com/shop/OrderController.java';
+      expect(endpoints.map((e) => [e.method, e.path, e.auth, e.handler, e.requestSchema])).toEqual([
+        ['GET', '/api/orders', undefined, { file, line: 10, function: 'OrderController.list' }, undefined],
+        ['POST', '/api/orders/{id}/items', ['PreAuthorize'], { file, line: 14, function: 'OrderController.addItem' }, { model: 'NewItem' }],
+        ['GET', '/api/orders/export', undefined, { file, line: 19, function: 'OrderController.export' }, undefined],
+        ['HEAD', '/api/orders/export', undefined, { file, line: 19, function: 'OrderController.export' }, undefined],
+        ['GET', '/api/orders/download', undefined, { file, line: 19, function: 'OrderController.export' }, undefined],
+        ['HEAD', '/api/orders/download', undefined, { file, line: 19, function: 'OrderController.export' }, undefined],
+      ]);
+    });
+
+    it('should read Kotlin controllers and class-level security', () => {
+      const endpoints = extractRoutes(
+        'src/main/kotlin/UserController.kt',
+        lines(
+          '@RestController',
+          '@Secured("ROLE_USER")',
+          'class UserController(private val users: UserService) {',
+          '    @PutMapping("/users/{id}")',
+          '    fun update(@PathVariable id: Long, @RequestBody body: UpdateUser): User = users.update(id, body)',
+          '}'
+        )
+      );
+
+      expect(endpoints.map((e) => [e.method, e.path, e.auth, e.handler?.function, e.requestSchema])).toEqual([
+        ['PUT', '/users/{id}', ['Secured'], 'UserController.update', { model: 'UpdateUser' }],
+      ]);
+    });
+
+    it('should ignore classes that are not controllers', () => {
+      expect(extractRoutes('src/Client.java', 'class Client {\n  @GetMapping("/x")\n  void x() {}\n}')).toEqual([]);
+    });
+  });
+
+  describe('linkRouterMounts', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `routes-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      await mkdir(join(testDir, 'src', 'routes'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    async function discover(files: Record<string, string>): Promise<FunctionalityMap> {
+      for (const [file, content] of Object.entries(files)) {
+        await writeFile(join(testDir, file), content);
+      }
+      const map = createEmptyFunctionalityMap();
+      map.features = await extractFeatures(testDir, Object.keys(files));
+      map.importGraph = await buildImportGraph(testDir, Object.keys(files));
+      return linkRouterMounts(testDir, map);
+    }
+
+    const routerFile = lines(
+      "import { Router } from 'express';",
+      'const router = Router();',
+      "router.get('/', listUsers);",
+      "router.get('/:id', getUser);",
+      'export default router;'
+    );
+
+    it('should prefix routers mounted from another file', async () => {
+      const map = await discover({
+        'src/routes/users.ts': routerFile,
+        'src/app.ts': lines(
+          "import express from 'express';",
+          "import usersRouter from './routes/users.js';",
+          'const app = express();',
+          "app.use('/api/users', requireAuth, usersRouter);"
+        ),
+      });
+
+      expect(map.features.flatMap((f) => f.apiEndpoints ?? []).map((e) => [e.path, e.auth, e.relativeToMount])).toEqual([
+        ['/api/users', ['requireAuth'], undefined],
+        ['/api/users/:id', ['requireAuth'], undefined],
+      ]);
+    });
+
+    it('should follow routers mounted on routers from other files', async () => {
+      const map = await discover({
+        'src/routes/users.ts': routerFile,
+        'src/routes/index.ts': lines(
+          "import { Router } from 'express';",
+          "import users from './users';",
+          'const routes = Router();',
+          "routes.use('/users', users);",
+          'export default routes;'
+        ),
+        'src/app.ts': lines(
+          "import express from 'express';",
+          "import routes from './routes/index.js';",
+          'const app = express();',
+          "app.use('/api', routes);"
+        ),
+      });
+
+      expect(map.features.flatMap((f) => f.apiEndpoints ?? []).map((e) => e.path)).toEqual(['/api/users', '/api/users/:id']);
+    });
+
+    it('should keep routes no mount is found for relative', async () => {
+      const map = await discover({ 'src/routes/users.ts': routerFile });
+
+      expect(map.features.flatMap((f) => f.apiEndpoints ?? []).map((e) => [e.path, e.relativeToMount])).toEqual([
+        ['/', true],
+        ['/:id', true],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for Artifact Schema Module
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ARTIFACT_KINDS,
+  validateArtifact,
+  repairArtifact,
+  formatSchemaIssues,
+} from '../schema.js';
+import { createInitialState } from '../state.js';
+import { createEmptyFunctionalityMap, createFeature } from '../agents/discovery.js';
+
+describe('Schema Module', () => {
+  describe('ARTIFACT_KINDS', () => {
+    it('should list every artifact kind', () => {
+      expect(ARTIFACT_KINDS).toEqual([
+        'state',
+        'functionality_map',
+        'test_coverage',
+        'enhancement_plan',
+        'migration_plan',
+      ]);
+    });
+  });
+
+  describe('validateArtifact', () => {
+    it('should accept a freshly created state', () => {
+      const state = createInitialState('/project', 'test', 'discovery');
+      expect(validateArtifact('state', state)).toEqual([]);
+    });
+
+    it('should accept a functionality map with features', () => {
+      const map = createEmptyFunctionalityMap();
+      map.features.push(createFeature('Login', 'src/auth/login.ts', [1, 20]));
+      expect(validateArtifact('functionality_map', map)).toEqual([]);
+    });
+
+    it('should report missing required fields by path', () => {
+      const map = createEmptyFunctionalityMap();
+      const feature: Record<string, unknown> = { ...createFeature('Login', 'src/login.ts', [1, 2]) };
+      delete feature.category;
+      (map.features as unknown[]).push(feature);
+
+      const issues = validateArtifact('functionality_map', map);
+      expect(issues).toEqual([{ path: 'features[0].category', message: 'missing required field' }]);
+    });
+
+    it('should report wrong types and enum values', () => {
+      const state = {
+        ...createInitialState('/project', 'test', 'discovery'),
+        mode: 'rewrite',
+        sessionNumber: 'three',
+      };
+
+      const messages = formatSchemaIssues(validateArtifact('state', state));
+      expect(messages).toContain(
+        'mode: expected one of discovery, coverage, enhancement, migration, got "rewrite"'
+      );
+      expect(messages).toContain('sessionNumber: expected number, got string');
+    });
+
+    it('should validate tuple lengths', () => {
+      const map = createEmptyFunctionalityMap();
+      const feature = createFeature('Login', 'src/login.ts', [1, 2]);
+      (feature.sourceLocations[0] as { lines: unknown }).lines = [1];
+      map.features.push(feature);
+
+      const issues = validateArtifact('functionality_map', map);
+      expect(issues[0]?.path).toBe('features[0].sourceLocations[0].lines');
+    });
+
+    it('should reject non-object roots', () => {
+      const issues = validateArtifact('migration_plan', []);
+      expect(issues).toEqual([{ path: '(root)', message: 'expected object, got array' }]);
+    });
+  });
+
+  describe('repairArtifact', () => {
+    it('should coerce numeric strings and fill missing lists', () => {
+      const data = {
+        version: '1.0.0',
+        analyzedAt: '2024-01-01T00:00:00.000Z',
+        overallCoverage: { lineCoverage: '72.5', branchCoverage: 60, functionCoverage: 70 },
+        byFeature: [],
+      };
+
+      const result = repairArtifact('test_coverage', data);
+
+      expect(result.errors).toEqual([]);
+      expect(result.repairs).toHaveLength(3);
+      expect((result.data as { overallCoverage: { lineCoverage: number } }).overallCoverage.lineCoverage).toBe(72.5);
+      expect(data.overallCoverage.lineCoverage).toBe('72.5');
+    });
+
+    it('should normalize enum casing and drop invalid optional fields', () => {
+      const map = createEmptyFunctionalityMap();
+      const feature = {
+        ...createFeature('Login', 'src/login.ts', [1, 2]),
+        discoveryMethod: 'STATIC',
+        complexity: 'extreme',
+      };
+      (map.features as unknown[]).push(feature);
+
+      const result = repairArtifact('functionality_map', map);
+
+      expect(result.errors).toEqual([]);
+      const repaired = result.data as { features: Record<string, unknown>[] };
+      expect(repaired.features[0]?.discoveryMethod).toBe('static');
+      expect(repaired.features[0]).not.toHaveProperty('complexity');
+    });
+
+    it('should not drop optional objects with an invalid entry', () => {
+      const map = createEmptyFunctionalityMap();
+      const feature = {
+        ...createFeature('Login', 'src/login.ts', [1, 2]),
+        testCoverage: { hasTests: true, testFiles: ['src/login.test.ts', { file: 'e2e/login.spec.ts' }] },
+      };
+      (map.features as unknown[]).push(feature);
+
+      const result = repairArtifact('functionality_map', map);
+
+      expect(result.errors.map((e) => e.path)).toEqual(['features[0].testCoverage.testFiles[1]']);
+      expect((result.data as { features: Record<string, unknown>[] }).features[0]?.testCoverage).toEqual(
+        feature.testCoverage
+      );
+    });
+
+    it('should not invent missing scalar values', () => {
+      const result = repairArtifact('enhancement_plan', { enhancements: [] });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        'version',
+        'createdAt',
+        'enhancementSpec',
+        'baselineTestResults',
+      ]);
+    });
+  });
+});
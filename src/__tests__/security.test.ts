@@ -6,7 +6,9 @@ import { describe, it, expect } from 'vitest';
 import {
   validateCommand,
   isPathSafe,
+  validatePathAccess,
   sanitizeOutput,
+  sanitizeValue,
   getSecurityConfigForMode,
   DEFAULT_SECURITY_CONFIG,
 } from '../security.js';
@@ -236,6 +238,49 @@ describe('Security Module', () => {
     it('should block .git/config', () => {
       expect(isPathSafe('.git/config', projectDir)).toBe(false);
     });
+
+    it('should block sibling directories sharing the project prefix', () => {
+      expect(isPathSafe('/home/user/project-other/file.ts', projectDir)).toBe(false);
+    });
+
+    it('should block absolute paths that traverse out of the project', () => {
+      expect(isPathSafe('/home/user/project/../other/file.ts', projectDir)).toBe(false);
+    });
+  });
+
+  describe('validatePathAccess', () => {
+    const projectDir = '/home/user/project';
+
+    it('should allow reads and writes inside the project by default', () => {
+      expect(validatePathAccess('/home/user/project/src/a.ts', projectDir, 'read').allowed).toBe(true);
+      expect(validatePathAccess('src/a.ts', projectDir, 'write').allowed).toBe(true);
+    });
+
+    it('should reject paths outside the project', () => {
+      const result = validatePathAccess('/etc/hosts', projectDir, 'read');
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('/etc/hosts');
+    });
+
+    it('should limit discovery writes to .modernization', () => {
+      const config = getSecurityConfigForMode('discovery');
+      expect(config.writablePaths).toEqual(['.modernization']);
+
+      expect(
+        validatePathAccess('/home/user/project/.modernization/notes.md', projectDir, 'write', config).allowed
+      ).toBe(true);
+      expect(
+        validatePathAccess('/home/user/project/src/index.ts', projectDir, 'write', config).allowed
+      ).toBe(false);
+      expect(
+        validatePathAccess('/home/user/project/.modernization/../src/index.ts', projectDir, 'write', config).allowed
+      ).toBe(false);
+    });
+
+    it('should still allow discovery reads anywhere in the project', () => {
+      const config = getSecurityConfigForMode('discovery');
+      expect(validatePathAccess('src/index.ts', projectDir, 'read', config).allowed).toBe(true);
+    });
   });
 
   describe('sanitizeOutput', () => {
@@ -280,6 +325,31 @@ MIIEpAIBAAKCAQEA...
     });
   });
 
+  describe('sanitizeValue', () => {
+    it('should sanitize strings nested in objects and arrays', () => {
+      const value = {
+        type: 'user',
+        content: [{ type: 'tool_result', content: 'DATABASE_URL=postgres://admin:pw@db/prod' }],
+      };
+
+      const sanitized = JSON.stringify(sanitizeValue(value));
+      expect(sanitized).not.toContain('admin:pw');
+      expect(sanitized).toContain('tool_result');
+    });
+
+    it('should redact values under sensitive keys', () => {
+      const sanitized = sanitizeValue({
+        input: { password: 'hunter2', apiKey: 'abc', github_token: 'ghp_1', path: 'src/a.ts' },
+        usage: { input_tokens: 120 },
+      });
+
+      expect(sanitized).toEqual({
+        input: { password: '[REDACTED]', apiKey: '[REDACTED]', github_token: '[REDACTED]', path: 'src/a.ts' },
+        usage: { input_tokens: 120 },
+      });
+    });
+  });
+
   describe('DEFAULT_SECURITY_CONFIG', () => {
     it('should have allowed commands', () => {
       expect(DEFAULT_SECURITY_CONFIG.allowedCommands).toContain('ls');
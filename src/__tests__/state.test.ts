@@ -3,9 +3,9 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { mkdir, rm, readFile, writeFile } from 'node:fs/promises';
+import { mkdir, rm, readFile, writeFile, readdir } from 'node:fs/promises';
 import { join } from 'node:path';
-import { tmpdir } from 'node:os';
+import { tmpdir, hostname } from 'node:os';
 import {
   createInitialState,
   initializeModernizationDir,
@@ -24,8 +24,36 @@ import {
   markDiscoveryComplete,
   updateCoverageMetrics,
   updateMigrationProgress,
+  getArtifactPath,
+  checkArtifact,
+  repairArtifactFile,
+  quarantineArtifact,
+  loadTestCoverageMap,
+  acquireLock,
+  releaseLock,
+  readLock,
+  isLockStale,
+  createEmptyUsage,
+  addUsage,
+  getTotalTokens,
+  summarizeUsage,
+  saveSessionTranscript,
+  loadSessionTranscript,
+  getSessionTranscriptPath,
+  saveSessionSnapshot,
+  loadSessionSnapshot,
+  getSessionSnapshotPath,
+  saveDiscoveryCache,
+  loadDiscoveryCache,
 } from '../state.js';
-import type { ModernizationState, FunctionalityMap } from '../types.js';
+import { ARTIFACT_VERSIONS, ARTIFACT_MIGRATIONS } from '../migrations.js';
+import { createEmptyFunctionalityMap } from '../agents/discovery.js';
+import type { ModernizationState, FunctionalityMap, LockInfo, MigrationRegistry, SessionUsage } from '../types.js';
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('node:fs/promises')>();
+  return { ...fs, readFile: vi.fn(fs.readFile) };
+});
 
 describe('State Management', () => {
   let testDir: string;
@@ -72,7 +100,7 @@ describe('State Management', () => {
     it('should create state with correct defaults', () => {
       const state = createInitialState(testDir, 'test-project', 'discovery');
 
-      expect(state.version).toBe('1.0.0');
+      expect(state.version).toBe('1.1.0');
       expect(state.projectPath).toBe(testDir);
       expect(state.projectName).toBe('test-project');
       expect(state.mode).toBe('discovery');
@@ -149,12 +177,113 @@ describe('State Management', () => {
     });
   });
 
+  describe('Atomic writes', () => {
+    it('should not leave temp files behind', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'discovery');
+
+      await saveState(testDir, state);
+      await saveState(testDir, state);
+
+      const files = await readdir(getModernizationDir(testDir));
+      expect(files.filter((f) => f.endsWith('.tmp'))).toEqual([]);
+    });
+  });
+
+  describe('Project locking', () => {
+    const lockPath = () => join(getModernizationDir(testDir), 'session.lock');
+    const otherLock = (pid: number, overrides: Partial<LockInfo> = {}): LockInfo => ({
+      pid,
+      hostname: hostname(),
+      command: 'discover',
+      acquiredAt: new Date().toISOString(),
+      ...overrides,
+    });
+
+    it('should create and remove the lockfile', async () => {
+      const lock = await acquireLock(testDir, 'discover');
+
+      expect(lock.acquired).toBe(true);
+      expect((await readLock(testDir))?.pid).toBe(process.pid);
+
+      await releaseLock(testDir);
+      expect(await readLock(testDir)).toBeNull();
+    });
+
+    it('should be re-entrant within a process', async () => {
+      await acquireLock(testDir, 'continue');
+      const nested = await acquireLock(testDir, 'coverage session');
+
+      expect(nested.acquired).toBe(true);
+      expect(nested.holder.command).toBe('continue');
+
+      await releaseLock(testDir);
+      expect(await readLock(testDir)).not.toBeNull();
+      await releaseLock(testDir);
+      expect(await readLock(testDir)).toBeNull();
+    });
+
+    it('should refuse a lock held by another live process', async () => {
+      await initializeModernizationDir(testDir);
+      await writeFile(lockPath(), JSON.stringify(otherLock(process.ppid)), 'utf-8');
+
+      const lock = await acquireLock(testDir, 'coverage');
+
+      expect(lock.acquired).toBe(false);
+      expect(lock.holder.pid).toBe(process.ppid);
+      expect(lock.holder.command).toBe('discover');
+    });
+
+    it('should replace a stale lock from a dead process', async () => {
+      await initializeModernizationDir(testDir);
+      const stale = otherLock(2 ** 22 + 1);
+      await writeFile(lockPath(), JSON.stringify(stale), 'utf-8');
+
+      const lock = await acquireLock(testDir, 'coverage');
+
+      expect(lock.acquired).toBe(true);
+      expect(lock.recoveredStale).toEqual(stale);
+      expect((await readLock(testDir))?.pid).toBe(process.pid);
+      await releaseLock(testDir);
+    });
+
+    it('should not remove a lock another session took after the stale one was read', async () => {
+      await initializeModernizationDir(testDir);
+      const stale = JSON.stringify(otherLock(2 ** 22 + 1));
+      const fresh = JSON.stringify(otherLock(process.ppid, { command: 'migrate' }));
+      await writeFile(lockPath(), stale, 'utf-8');
+
+      // Another session replaces the stale lock right after this one reads it
+      vi.mocked(readFile).mockImplementationOnce(async () => {
+        await writeFile(lockPath(), fresh, 'utf-8');
+        return stale;
+      });
+      const lock = await acquireLock(testDir, 'coverage');
+
+      expect(lock.acquired).toBe(false);
+      expect(lock.holder.command).toBe('migrate');
+      expect(await readFile(lockPath(), 'utf-8')).toBe(fresh);
+      expect((await readdir(getModernizationDir(testDir))).filter((f) => f.startsWith('session.lock'))).toEqual([
+        'session.lock',
+      ]);
+    });
+
+    it('should expire locks from other hosts by age', () => {
+      const acquiredAt = '2024-01-01T00:00:00.000Z';
+      const lock = otherLock(1, { hostname: 'other-host', acquiredAt });
+      const start = new Date(acquiredAt).getTime();
+
+      expect(isLockStale(lock, start + 60 * 1000)).toBe(false);
+      expect(isLockStale(lock, start + 48 * 60 * 60 * 1000)).toBe(true);
+    });
+  });
+
   describe('FunctionalityMap persistence', () => {
     it('should save and load functionality map', async () => {
       await initializeModernizationDir(testDir);
 
       const map: FunctionalityMap = {
-        version: '1.0.0',
+        version: ARTIFACT_VERSIONS.functionality_map,
         discoveredAt: new Date().toISOString(),
         sourceAnalysis: {
           language: 'typescript',
@@ -191,6 +320,182 @@ describe('State Management', () => {
     });
   });
 
+  describe('Artifact validation', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const writeRaw = async (content: string) => {
+      await initializeModernizationDir(testDir);
+      await writeFile(getArtifactPath(testDir, 'test_coverage'), content, 'utf-8');
+    };
+
+    it('should report missing artifacts', async () => {
+      const check = await checkArtifact(testDir, 'test_coverage');
+      expect(check.exists).toBe(false);
+      expect(check.valid).toBe(false);
+    });
+
+    it('should report invalid JSON', async () => {
+      await writeRaw('{ not json');
+
+      const check = await checkArtifact(testDir, 'test_coverage');
+      expect(check.exists).toBe(true);
+      expect(check.repairable).toBe(false);
+      expect(check.errors[0]?.message).toContain('invalid JSON');
+    });
+
+    it('should refuse to load unrepairable artifacts', async () => {
+      await writeRaw(JSON.stringify({ overallCoverage: 'high' }));
+
+      expect(await loadTestCoverageMap(testDir)).toBeNull();
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it('should refuse to load repairable artifacts until they are repaired', async () => {
+      const raw = JSON.stringify({
+        version: '1.0.0',
+        analyzedAt: new Date().toISOString(),
+        overallCoverage: { lineCoverage: '50', branchCoverage: 40, functionCoverage: 45 },
+        byFeature: [],
+        untestedFeatures: [],
+        generationQueue: [],
+      });
+      await writeRaw(raw);
+
+      expect(await loadTestCoverageMap(testDir)).toBeNull();
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('validate-artifacts --repair'));
+      expect(await readFile(getArtifactPath(testDir, 'test_coverage'), 'utf-8')).toBe(raw);
+    });
+
+    it('should rewrite repairable artifacts and keep the original', async () => {
+      await writeRaw(
+        JSON.stringify({
+          version: '1.0.0',
+          analyzedAt: new Date().toISOString(),
+          overallCoverage: { lineCoverage: '50', branchCoverage: 40, functionCoverage: 45 },
+        })
+      );
+
+      const check = await repairArtifactFile(testDir, 'test_coverage');
+      const after = await checkArtifact(testDir, 'test_coverage');
+      const quarantined = await readdir(join(getModernizationDir(testDir), 'quarantine'));
+
+      expect(check.repairable).toBe(true);
+      expect(after.valid).toBe(true);
+      expect(quarantined).toHaveLength(1);
+    });
+
+    it('should quarantine artifacts so they are no longer loaded', async () => {
+      await writeRaw(JSON.stringify({ overallCoverage: 'high' }));
+
+      const target = await quarantineArtifact(testDir, 'test_coverage');
+
+      expect(target).toContain('quarantine');
+      expect((await checkArtifact(testDir, 'test_coverage')).exists).toBe(false);
+    });
+  });
+
+  describe('Artifact migrations', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should refuse to load state from a newer version', async () => {
+      await initializeModernizationDir(testDir);
+      const state = createInitialState(testDir, 'test', 'discovery');
+      await writeFile(
+        getArtifactPath(testDir, 'state'),
+        JSON.stringify({ ...state, version: '99.0.0' }),
+        'utf-8'
+      );
+
+      expect(await loadState(testDir)).toBeNull();
+      const check = await checkArtifact(testDir, 'state');
+      expect(check.errors[0]?.path).toBe('version');
+      expect(check.repairable).toBe(false);
+    });
+
+    async function writeOldMap(): Promise<string> {
+      await initializeModernizationDir(testDir);
+      const raw = JSON.stringify({
+        version: '1.0.0',
+        discoveredAt: new Date().toISOString(),
+        sourceAnalysis: { language: 'go', entryPoints: [], totalFiles: 0, totalLines: 0 },
+        features: [],
+        undocumentedBehaviors: [],
+        externalDependencies: [],
+        databaseSchema: { tables: [{ name: 'orders', columns: ['id'] }] },
+      });
+      await writeFile(getArtifactPath(testDir, 'functionality_map'), raw, 'utf-8');
+      return raw;
+    }
+
+    async function readBackups(): Promise<string[]> {
+      const backupsDir = join(getModernizationDir(testDir), 'backups');
+      const files = await readdir(backupsDir).catch(() => []);
+      return Promise.all(files.map((file) => readFile(join(backupsDir, file), 'utf-8')));
+    }
+
+    it('should upgrade older files in memory on load without writing them', async () => {
+      const raw = await writeOldMap();
+
+      const loaded = await loadFunctionalityMap(testDir);
+
+      expect(loaded?.version).toBe(ARTIFACT_VERSIONS.functionality_map);
+      expect(loaded?.databaseSchema?.tables[0]?.columns).toEqual([{ name: 'id', type: 'unknown' }]);
+      expect(await readFile(getArtifactPath(testDir, 'functionality_map'), 'utf-8')).toBe(raw);
+      expect(await readBackups()).toEqual([]);
+    });
+
+    it('should back up the original when saving over an older file', async () => {
+      const raw = await writeOldMap();
+
+      await saveFunctionalityMap(testDir, (await loadFunctionalityMap(testDir))!);
+
+      const onDisk = JSON.parse(await readFile(getArtifactPath(testDir, 'functionality_map'), 'utf-8'));
+      expect(onDisk.version).toBe(ARTIFACT_VERSIONS.functionality_map);
+      expect(await readBackups()).toEqual([raw]);
+    });
+
+    it('should write upgrades from a given registry on repair', async () => {
+      const raw = await writeOldMap();
+      const registry: MigrationRegistry = {
+        versions: { ...ARTIFACT_VERSIONS, functionality_map: '9.0.0' },
+        migrations: {
+          ...ARTIFACT_MIGRATIONS,
+          functionality_map: [
+            ...ARTIFACT_MIGRATIONS.functionality_map,
+            {
+              from: ARTIFACT_VERSIONS.functionality_map,
+              to: '9.0.0',
+              description: 'Add an empty import graph',
+              migrate: (data) => ({ ...data, importGraph: { files: {} } }),
+            },
+          ],
+        },
+      };
+
+      const check = await repairArtifactFile(testDir, 'functionality_map', registry);
+
+      expect(check.migrations).toHaveLength(2);
+      const onDisk = JSON.parse(await readFile(getArtifactPath(testDir, 'functionality_map'), 'utf-8'));
+      expect(onDisk).toMatchObject({ version: '9.0.0', importGraph: { files: {} } });
+      expect(await readBackups()).toEqual([raw]);
+      expect(ARTIFACT_VERSIONS.functionality_map).not.toBe('9.0.0');
+    });
+  });
+
   describe('Session Management', () => {
     it('should create session summary', () => {
       const summary = createSessionSummary(1, 'discovery');
@@ -234,6 +539,141 @@ describe('State Management', () => {
     });
   });
 
+  describe('Session transcripts', () => {
+    it('should save and load a transcript by session number', async () => {
+      const transcript = {
+        sessionNumber: 7,
+        agentType: 'coverage' as const,
+        mode: 'coverage' as const,
+        model: 'sonnet',
+        startedAt: new Date().toISOString(),
+        prompt: 'Improve coverage',
+        messages: [{ receivedAt: new Date().toISOString(), message: { type: 'result' } }],
+      };
+
+      await saveSessionTranscript(testDir, 7, transcript);
+
+      expect(getSessionTranscriptPath(testDir, 7)).toBe(
+        join(getModernizationDir(testDir), 'sessions', 'session_007.json')
+      );
+      expect(await loadSessionTranscript(testDir, 7)).toEqual(transcript);
+      expect(await loadSessionTranscript(testDir, 8)).toBeNull();
+    });
+  });
+
+  describe('Session snapshots', () => {
+    it('should save and load artifact snapshots by session number', async () => {
+      const snapshot = {
+        sessionNumber: 4,
+        before: {},
+        after: { functionalityMap: createEmptyFunctionalityMap() },
+      };
+
+      await saveSessionSnapshot(testDir, snapshot);
+
+      expect(getSessionSnapshotPath(testDir, 4)).toBe(
+        join(getModernizationDir(testDir), 'snapshots', 'session_004.json')
+      );
+      expect(await loadSessionSnapshot(testDir, 4)).toEqual(snapshot);
+      expect(await loadSessionSnapshot(testDir, 5)).toBeNull();
+    });
+  });
+
+  describe('Discovery cache', () => {
+    it('should save and load the discovery cache', async () => {
+      await initializeModernizationDir(testDir);
+      expect(await loadDiscoveryCache(testDir)).toBeNull();
+
+      const cache = {
+        version: '1.0.0',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        files: { 'src/index.ts': { hash: 'abc', mtimeMs: 1, size: 10, lines: 2 } },
+      };
+      await saveDiscoveryCache(testDir, cache);
+
+      expect(await loadDiscoveryCache(testDir)).toEqual(cache);
+    });
+  });
+
+  describe('Usage Tracking', () => {
+    const usage = (costUsd: number, inputTokens: number, outputTokens: number): SessionUsage => ({
+      ...createEmptyUsage(),
+      inputTokens,
+      outputTokens,
+      turns: 1,
+      costUsd,
+    });
+
+    it('should start with zero totals', () => {
+      const state = createInitialState(testDir, 'test', 'coverage');
+      expect(state.totalUsage).toEqual(createEmptyUsage());
+    });
+
+    it('should roll session usage into state totals', () => {
+      const state = createInitialState(testDir, 'test', 'coverage');
+      const first = createSessionSummary(1, 'coverage', 'coverage');
+      first.usage = usage(0.5, 1000, 200);
+      const second = createSessionSummary(2, 'validation', 'coverage');
+      second.usage = usage(0.25, 400, 100);
+
+      addSessionSummary(state, first);
+      addSessionSummary(state, second);
+
+      expect(state.totalUsage.costUsd).toBeCloseTo(0.75);
+      expect(state.totalUsage.turns).toBe(2);
+      expect(getTotalTokens(state.totalUsage)).toBe(1700);
+    });
+
+    it('should count cache tokens in the total', () => {
+      const total = addUsage(usage(0, 10, 5), {
+        ...createEmptyUsage(),
+        cacheReadInputTokens: 100,
+        cacheCreationInputTokens: 20,
+      });
+      expect(getTotalTokens(total)).toBe(135);
+    });
+
+    it('should break down spend by agent type and mode', () => {
+      const state = createInitialState(testDir, 'test', 'migration');
+      const sessions = [
+        { agent: 'coverage', mode: 'coverage', cost: 1 },
+        { agent: 'coverage', mode: 'migration', cost: 2 },
+        { agent: 'migration', mode: 'migration', cost: 4 },
+        { agent: 'validation', mode: undefined, cost: 8 },
+      ] as const;
+      sessions.forEach((entry, i) => {
+        const summary = createSessionSummary(i + 1, entry.agent, entry.mode);
+        summary.usage = usage(entry.cost, 0, 0);
+        addSessionSummary(state, summary);
+      });
+      addSessionSummary(state, createSessionSummary(5, 'discovery', 'migration'));
+
+      const breakdown = summarizeUsage(state);
+
+      expect(breakdown.total.costUsd).toBe(15);
+      expect(breakdown.byAgent.coverage?.costUsd).toBe(3);
+      expect(breakdown.byAgent.migration?.costUsd).toBe(4);
+      expect(breakdown.byAgent).not.toHaveProperty('discovery');
+      expect(breakdown.byMode.migration?.costUsd).toBe(6);
+      expect(breakdown.byMode.unknown?.costUsd).toBe(8);
+    });
+
+    it('should add usage totals when loading a 1.0.0 state file', async () => {
+      await initializeModernizationDir(testDir);
+      const { totalUsage: _, ...legacy } = createInitialState(testDir, 'test', 'coverage');
+      await writeFile(
+        getArtifactPath(testDir, 'state'),
+        JSON.stringify({ ...legacy, version: '1.0.0' }),
+        'utf-8'
+      );
+
+      const loaded = await loadState(testDir);
+
+      expect(loaded?.version).toBe('1.1.0');
+      expect(loaded?.totalUsage).toEqual(createEmptyUsage());
+    });
+  });
+
   describe('Approval Management', () => {
     it('should add approval request', () => {
       const state = createInitialState(testDir, 'test', 'migration');
@@ -0,0 +1,177 @@
+/**
+ * Tests for Test Discovery Module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { isTestFile, countTestCases, discoverTests, linkFeatureTests } from '../testing.js';
+import { buildImportGraph } from '../imports.js';
+import { createFeature } from '../agents/discovery.js';
+
+describe('Testing Module', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `testing-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeFiles(files: Record<string, string>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(dirname(join(testDir, file)), { recursive: true });
+      await writeFile(join(testDir, file), content);
+    }
+  }
+
+  describe('isTestFile', () => {
+    it('should recognize test files by name and directory', () => {
+      expect(isTestFile('src/__tests__/orders.ts')).toBe(true);
+      expect(isTestFile('src/orders.test.ts')).toBe(true);
+      expect(isTestFile('src/orders.spec.jsx')).toBe(true);
+      expect(isTestFile('pkg/orders/orders_test.go')).toBe(true);
+      expect(isTestFile('app/test_orders.py')).toBe(true);
+      expect(isTestFile('tests/integration.rs')).toBe(true);
+      expect(isTestFile('src/test/java/com/shop/OrderServiceTest.java')).toBe(true);
+    });
+
+    it('should not match source files', () => {
+      expect(isTestFile('src/orders.ts')).toBe(false);
+      expect(isTestFile('src/testing.ts')).toBe(false);
+      expect(isTestFile('app/contest.py')).toBe(false);
+      expect(isTestFile('src/main/java/com/shop/Contest.java')).toBe(false);
+    });
+  });
+
+  describe('countTestCases', () => {
+    it('should count it() and test() calls with their modifiers', () => {
+      const content = [
+        "describe('orders', () => {",
+        "  it('lists', () => {});",
+        "  it.only('gets', () => {});",
+        "  test.each([[1], [2]])('pages %i', () => {});",
+        '  test.skip.each`a | b`("skips", () => {});',
+        "  // it('commented out', () => {});",
+        "  expect(items.test('x')).toBe(true);",
+        '});',
+      ].join('\n');
+
+      expect(countTestCases('src/orders.test.ts', content)).toBe(4);
+    });
+
+    it('should count test functions in other languages', () => {
+      expect(countTestCases('test_orders.py', 'def test_list():\n    pass\n\nasync def test_get():\n    pass\n\ndef helper():\n    pass\n')).toBe(2);
+      expect(countTestCases('orders_test.go', 'func TestList(t *testing.T) {}\nfunc TestGet(t *testing.T) {}\nfunc helper() {}\n')).toBe(2);
+      expect(countTestCases('tests/orders.rs', '#[test]\nfn lists() {}\n#[tokio::test]\nasync fn gets() {}\n')).toBe(2);
+      expect(countTestCases('OrderServiceTest.java', '@Test\nvoid lists() {}\n@Test\nvoid gets() {}\n')).toBe(2);
+    });
+  });
+
+  describe('discoverTests', () => {
+    it('should link TypeScript tests to the files they import', async () => {
+      await writeFiles({
+        'src/orders.ts': 'export function list() {}\n',
+        'src/billing.ts': 'export function charge() {}\n',
+        'src/__tests__/checkout.test.ts': [
+          "import { list } from '../orders.js';",
+          "import { charge } from '../billing.js';",
+          "it('checks out', () => {});",
+        ].join('\n'),
+      });
+      const files = ['src/orders.ts', 'src/billing.ts', 'src/__tests__/checkout.test.ts'];
+
+      const tests = await discoverTests(testDir, files, await buildImportGraph(testDir, files));
+
+      expect(tests).toEqual([
+        { file: 'src/__tests__/checkout.test.ts', testCount: 1, covers: ['src/billing.ts', 'src/orders.ts'] },
+      ]);
+    });
+
+    it('should link tests to the files they are named after', async () => {
+      await writeFiles({
+        'app/orders.py': 'def list_orders(): pass\n',
+        'app/billing.py': 'def charge(): pass\n',
+        'tests/test_orders.py': 'from app.billing import charge\n\ndef test_list():\n    pass\n',
+        'src/orders.ts': 'export function list() {}\n',
+        'lib/orders.ts': 'export function list() {}\n',
+        'src/orders.spec.ts': "it('lists', () => {});\n",
+      });
+      const files = ['app/orders.py', 'app/billing.py', 'tests/test_orders.py', 'src/orders.ts', 'lib/orders.ts', 'src/orders.spec.ts'];
+
+      const tests = await discoverTests(testDir, files);
+
+      expect(tests.find((t) => t.file === 'tests/test_orders.py')?.covers).toEqual(['app/billing.py']);
+      expect(tests.find((t) => t.file === 'src/orders.spec.ts')?.covers).toEqual(['src/orders.ts']);
+    });
+
+    it('should link Go tests without a matching file to their package', async () => {
+      await writeFiles({
+        'orders/list.go': 'package orders\n',
+        'orders/get.go': 'package orders\n',
+        'orders/handlers_test.go': 'package orders\n\nfunc TestList(t *testing.T) {}\n',
+        'billing/charge.go': 'package billing\n',
+      });
+
+      const tests = await discoverTests(testDir, [
+        'orders/list.go',
+        'orders/get.go',
+        'orders/handlers_test.go',
+        'billing/charge.go',
+      ]);
+
+      expect(tests).toEqual([{ file: 'orders/handlers_test.go', testCount: 1, covers: ['orders/get.go', 'orders/list.go'] }]);
+    });
+  });
+
+  describe('linkFeatureTests', () => {
+    it('should fill the test coverage of the features the tests cover', () => {
+      const orders = createFeature('orders', 'src/orders.ts', [1, 10]);
+      orders.testCoverage = { hasTests: false, testFiles: [], coveragePercent: 40 };
+      const billing = createFeature('billing', 'src/billing.ts', [1, 10]);
+      const shipping = createFeature('shipping', 'src/shipping.ts', [1, 10]);
+      shipping.testCoverage = { hasTests: true, testFiles: ['e2e/shipping.feature'], testCount: 2 };
+
+      linkFeatureTests(
+        [orders, billing, shipping],
+        [
+          { file: 'src/orders.test.ts', testCount: 3, covers: ['src/orders.ts'] },
+          { file: 'src/__tests__/checkout.test.ts', testCount: 2, covers: ['src/billing.ts', 'src/orders.ts'] },
+        ]
+      );
+
+      expect(orders.testCoverage).toEqual({
+        hasTests: true,
+        testFiles: ['src/orders.test.ts', 'src/__tests__/checkout.test.ts'],
+        testCount: 5,
+        coveragePercent: 40,
+      });
+      expect(billing.testCoverage).toEqual({ hasTests: true, testFiles: ['src/__tests__/checkout.test.ts'], testCount: 2 });
+      expect(shipping.testCoverage?.testCount).toBe(2);
+    });
+
+    it('should drop discovered test files that no longer cover the feature', () => {
+      const orders = createFeature('orders', 'src/orders.ts', [1, 10]);
+      orders.testCoverage = { hasTests: true, testFiles: ['src/orders.test.ts'], testCount: 3, coveragePercent: 40 };
+      const shipping = createFeature('shipping', 'src/shipping.ts', [1, 10]);
+      shipping.testCoverage = { hasTests: true, testFiles: ['src/shipping.test.ts', 'e2e/shipping.feature'], testCount: 5 };
+
+      linkFeatureTests([orders, shipping], []);
+
+      expect(orders.testCoverage).toEqual({ hasTests: false, testFiles: [], coveragePercent: 40 });
+      expect(shipping.testCoverage).toEqual({ hasTests: true, testFiles: ['e2e/shipping.feature'] });
+    });
+
+    it('should mark features without tests as untested', () => {
+      const orders = createFeature('orders', 'src/orders.ts', [1, 10]);
+
+      linkFeatureTests([orders], []);
+
+      expect(orders.testCoverage).toEqual({ hasTests: false, testFiles: [] });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for Transcript Module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTranscriptEntries, filterTranscriptEntries } from '../transcript.js';
+import type { SessionTranscript } from '../types.js';
+
+describe('Transcript Module', () => {
+  const message = (m: Record<string, unknown>) => ({ receivedAt: '2024-01-01T00:00:00.000Z', message: m });
+
+  const transcript: SessionTranscript = {
+    sessionNumber: 3,
+    agentType: 'coverage',
+    mode: 'coverage',
+    model: 'claude-sonnet-4-5-20250929',
+    startedAt: '2024-01-01T00:00:00.000Z',
+    prompt: 'Improve coverage',
+    messages: [
+      message({ type: 'system', subtype: 'init', model: 'sonnet', cwd: '/project' }),
+      message({
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'text', text: 'Running the tests first.' },
+            { type: 'tool_use', id: 'tu_1', name: 'Bash', input: { command: 'npm test' } },
+          ],
+        },
+      }),
+      message({
+        type: 'user',
+        message: {
+          content: [
+            { type: 'tool_result', tool_use_id: 'tu_1', content: [{ type: 'text', text: '3 failing' }], is_error: true },
+          ],
+        },
+      }),
+      message({ type: 'tool_progress', tool_name: 'Bash' }),
+      message({ type: 'result', subtype: 'success', is_error: false, num_turns: 4, total_cost_usd: 0.0123 }),
+    ],
+  };
+
+  describe('getTranscriptEntries', () => {
+    it('should split messages into readable entries', () => {
+      const entries = getTranscriptEntries(transcript);
+
+      expect(entries.map((e) => e.kind)).toEqual([
+        'system',
+        'assistant',
+        'tool_use',
+        'tool_result',
+        'other',
+        'result',
+      ]);
+      expect(entries[0]?.text).toBe('init (model sonnet, cwd /project)');
+      expect(entries[2]).toMatchObject({ index: 1, tool: 'Bash', text: '{"command":"npm test"}' });
+      expect(entries[5]?.text).toBe('success after 4 turns, $0.0123');
+    });
+
+    it('should attribute tool results to the tool that was called', () => {
+      const result = getTranscriptEntries(transcript).find((e) => e.kind === 'tool_result');
+
+      expect(result).toMatchObject({ tool: 'Bash', text: '3 failing', isError: true });
+    });
+  });
+
+  describe('filterTranscriptEntries', () => {
+    it('should filter by kind', () => {
+      const entries = filterTranscriptEntries(getTranscriptEntries(transcript), { kinds: ['assistant'] });
+      expect(entries.map((e) => e.text)).toEqual(['Running the tests first.']);
+    });
+
+    it('should filter by tool name case-insensitively', () => {
+      const entries = filterTranscriptEntries(getTranscriptEntries(transcript), { tool: 'bash' });
+      expect(entries.map((e) => e.kind)).toEqual(['tool_use', 'tool_result']);
+    });
+  });
+});
@@ -9,16 +9,30 @@ import type {
   FunctionalityMap,
   Feature,
   SourceAnalysis,
+  SourceLocation,
+  CodeMetrics,
   EntryPoint,
   APIEndpoint,
   UndocumentedBehavior,
   ExternalDependency,
   DatabaseSchema,
   ModernizationState,
+  DiscoveryCache,
+  DiscoveryRefresh,
+  LanguageStats,
+  LanguageBreakdown,
 } from '../types.js';
 import { loadState, saveState, saveFunctionalityMap, markDiscoveryComplete } from '../state.js';
+import { analyzeModule, isParsableSource } from '../ast.js';
+import { extractRoutes, canExtractRoutes, linkRouterMounts } from '../routes.js';
+import { readManifestDependencies } from '../manifests.js';
+import { buildImportGraph, linkFeatureDependencies } from '../imports.js';
+import { discoverDatabaseSchema, linkDatabaseTables } from '../database.js';
+import { discoverTests, isTestFile, linkFeatureTests } from '../testing.js';
+import { ARTIFACT_VERSIONS } from '../migrations.js';
 import { readFile, readdir, stat } from 'node:fs/promises';
 import { join, relative, extname, basename, dirname } from 'node:path';
+import { createHash } from 'node:crypto';
 import { glob } from 'glob';
 
 /**
@@ -46,7 +60,7 @@ const LANGUAGE_PATTERNS: Record<string, { extensions: string[]; markers: string[
     markers: ['Cargo.toml'],
   },
   java: {
-    extensions: ['.java'],
+    extensions: ['.java', '.kt'],
     markers: ['pom.xml', 'build.gradle', 'build.gradle.kts'],
   },
   ruby: {
@@ -59,6 +73,38 @@ const LANGUAGE_PATTERNS: Record<string, { extensions: string[]; markers: string[
   },
 };
 
+/**
+ * Paths never scanned for source files: build output, vendored dependencies
+ * and virtualenvs
+ */
+const SOURCE_IGNORE = [
+  '**/node_modules/**',
+  '**/bower_components/**',
+  '**/vendor/**',
+  '**/venv/**',
+  '**/.venv/**',
+  '**/site-packages/**',
+  '**/__pycache__/**',
+  '**/.tox/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/target/**',
+  '**/.next/**',
+  '**/.nuxt/**',
+  '**/.gradle/**',
+  '**/.git/**',
+  '**/.modernization/**',
+  '**/coverage/**',
+  '**/*.min.js',
+  '**/*.d.ts',
+];
+
+/**
+ * Share of the source lines a language needs to count as one of a project's,
+ * or a directory's, languages
+ */
+const SIGNIFICANT_LANGUAGE_SHARE = 0.05;
+
 /**
  * Framework detection patterns
  */
@@ -94,6 +140,57 @@ const FRAMEWORK_PATTERNS: Record<string, { language: string; markers: string[] }
   sinatra: { language: 'ruby', markers: ['sinatra'] },
 };
 
+/**
+ * Frameworks identified by package.json dependencies, in detection order
+ */
+const PACKAGE_FRAMEWORKS: [string, string[]][] = [
+  ['nuxt', ['nuxt', 'nuxt3', '@nuxt/kit']],
+  ['vue', ['vue', '@vue/cli-service', 'vite-plugin-vue']],
+  ['nextjs', ['next']],
+  ['react', ['react', 'react-dom']],
+  ['angular', ['@angular/core']],
+  ['nestjs', ['@nestjs/core']],
+  ['express', ['express']],
+];
+
+/**
+ * Frameworks identified by dependencies in other language manifests, in detection order
+ */
+const MANIFEST_FRAMEWORKS: [string, RegExp][] = [
+  ['django', /^django$/],
+  ['fastapi', /^fastapi$/],
+  ['flask', /^flask$/],
+  ['gin', /^github\.com\/gin-gonic\/gin$/],
+  ['echo', /^github\.com\/labstack\/echo(\/v\d+)?$/],
+  ['fiber', /^github\.com\/gofiber\/fiber(\/v\d+)?$/],
+  ['actix', /^actix-web$/],
+  ['axum', /^axum$/],
+  ['rocket', /^rocket$/],
+  ['spring', /^org\.springframework/],
+];
+
+/**
+ * Python distributions imported under a different top-level module
+ */
+const PYTHON_MODULES: Record<string, string> = {
+  pyyaml: 'yaml',
+  beautifulsoup4: 'bs4',
+  pillow: 'pil',
+  'python-dateutil': 'dateutil',
+  'scikit-learn': 'sklearn',
+  'opencv-python': 'cv2',
+  'psycopg2-binary': 'psycopg2',
+  'python-dotenv': 'dotenv',
+  djangorestframework: 'rest_framework',
+  protobuf: 'google',
+};
+
+/**
+ * ID prefix of the undocumented behaviors recorded from imports, which are
+ * replaced on every discovery
+ */
+const DEPENDENCY_BEHAVIOR_PREFIX = 'ub_dependency_';
+
 /**
  * Entry point patterns by language
  */
@@ -133,7 +230,7 @@ const FEATURE_CATEGORY_PATTERNS: Record<string, string[]> = {
  */
 export function createEmptyFunctionalityMap(): FunctionalityMap {
   return {
-    version: '1.0.0',
+    version: ARTIFACT_VERSIONS.functionality_map,
     discoveredAt: new Date().toISOString(),
     sourceAnalysis: {
       language: 'unknown',
@@ -148,14 +245,92 @@ export function createEmptyFunctionalityMap(): FunctionalityMap {
 }
 
 /**
- * Generate a unique feature ID
+ * Short, stable hash of a string for use in IDs
  */
-export function generateFeatureId(name: string, category: string): string {
+function stableHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 8);
+}
+
+/**
+ * Generate a feature ID from its category, name and primary location.
+ * The same inputs always give the same ID, so rediscovery keeps references intact.
+ */
+export function generateFeatureId(name: string, category: string, location: string = ''): string {
   const slug = name
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '_')
     .replace(/^_|_$/g, '');
-  return `${category}_${slug}_${Date.now().toString(36)}`;
+  return `${category}_${slug}_${stableHash(`${category}:${name.toLowerCase()}:${location}`)}`;
+}
+
+/**
+ * Give features that share an ID distinct ones by suffixing _2, _3, ...
+ * in order, so the first keeps its ID
+ */
+export function ensureUniqueFeatureIds(features: Feature[]): Feature[] {
+  const taken = new Set<string>();
+
+  for (const feature of features) {
+    let id = feature.id;
+    for (let n = 2; taken.has(id); n++) {
+      id = `${feature.id}_${n}`;
+    }
+    feature.id = id;
+    taken.add(id);
+  }
+
+  return features;
+}
+
+/**
+ * Carry IDs over from a previous map to features found again, so references
+ * from coverage maps, plans and undocumented behaviors stay valid.
+ * A feature matches by ID, then by category and name, then by primary file.
+ */
+export function preserveFeatureIds(
+  previous: FunctionalityMap,
+  map: FunctionalityMap
+): FunctionalityMap {
+  const unclaimed = new Map(previous.features.map((f) => [f.id, f]));
+  const renamed = new Map<string, string>();
+
+  const claim = (feature: Feature, match: (old: Feature) => boolean): boolean => {
+    for (const old of unclaimed.values()) {
+      if (match(old)) {
+        unclaimed.delete(old.id);
+        if (old.id !== feature.id) {
+          renamed.set(feature.id, old.id);
+          feature.id = old.id;
+        }
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const pending = map.features.filter((f) => !claim(f, (old) => old.id === f.id));
+  const unmatched = pending.filter(
+    (f) => !claim(f, (old) => old.category === f.category && old.name.toLowerCase() === f.name.toLowerCase())
+  );
+  for (const feature of unmatched) {
+    const file = feature.sourceLocations[0]?.file;
+    if (file) {
+      claim(feature, (old) => old.sourceLocations[0]?.file === file);
+    }
+  }
+
+  if (renamed.size > 0) {
+    const rename = (id: string) => renamed.get(id) ?? id;
+    for (const feature of map.features) {
+      feature.dependencies = feature.dependencies.map(rename);
+    }
+    for (const behavior of map.undocumentedBehaviors) {
+      behavior.affectedFeatures = behavior.affectedFeatures.map(rename);
+    }
+  }
+
+  ensureUniqueFeatureIds(map.features);
+  return map;
 }
 
 /**
@@ -204,7 +379,7 @@ export function createFeature(
   const category = detectFeatureCategory(path, name);
 
   return {
-    id: generateFeatureId(name, category),
+    id: generateFeatureId(name, category, path),
     name,
     category,
     discoveryMethod,
@@ -214,7 +389,7 @@ export function createFeature(
 }
 
 /**
- * Add an undocumented behavior
+ * Add an undocumented behavior; its ID is derived from the description and affected features
  */
 export function createUndocumentedBehavior(
   description: string,
@@ -223,7 +398,7 @@ export function createUndocumentedBehavior(
   discoveredVia: 'runtime' | 'static' = 'runtime'
 ): UndocumentedBehavior {
   return {
-    id: `ub_${Date.now().toString(36)}`,
+    id: `ub_${stableHash(`${description}:${[...affectedFeatures].sort().join(',')}`)}`,
     description,
     discoveredVia,
     evidence,
@@ -250,14 +425,17 @@ export function createExternalDependency(
  * Merge features that refer to the same functionality
  */
 export function mergeFeatures(existing: Feature, newFeature: Feature): Feature {
+  const sourceLocations = [
+    ...existing.sourceLocations,
+    ...newFeature.sourceLocations.filter(
+      (loc) => !existing.sourceLocations.some((e) => e.file === loc.file)
+    ),
+  ];
+
   return {
     ...existing,
-    sourceLocations: [
-      ...existing.sourceLocations,
-      ...newFeature.sourceLocations.filter(
-        (loc) => !existing.sourceLocations.some((e) => e.file === loc.file)
-      ),
-    ],
+    sourceLocations,
+    codeMetrics: computeCodeMetrics(sourceLocations) ?? existing.codeMetrics,
     dependencies: [...new Set([...existing.dependencies, ...newFeature.dependencies])],
     apiEndpoints: existing.apiEndpoints || newFeature.apiEndpoints,
     uiComponents: existing.uiComponents || newFeature.uiComponents,
@@ -272,6 +450,23 @@ export function mergeFeatures(existing: Feature, newFeature: Feature): Feature {
   };
 }
 
+/**
+ * Sum code metrics over the parsed source locations of a feature
+ */
+export function computeCodeMetrics(locations: SourceLocation[]): CodeMetrics | undefined {
+  const parsed = locations.filter((loc) => loc.complexity !== undefined);
+  if (parsed.length === 0) {
+    return undefined;
+  }
+
+  return {
+    functions: parsed.reduce((sum, loc) => sum + (loc.functions?.length ?? 0), 0),
+    classes: parsed.reduce((sum, loc) => sum + (loc.classes?.length ?? 0), 0),
+    lines: parsed.reduce((sum, loc) => sum + loc.lines[1] - loc.lines[0] + 1, 0),
+    cyclomaticComplexity: parsed.reduce((sum, loc) => sum + (loc.complexity ?? 0), 0),
+  };
+}
+
 /**
  * Add or update a feature in the map
  */
@@ -322,6 +517,11 @@ export function calculateComplexity(feature: Feature): 'low' | 'medium' | 'high'
     score += feature.behavioralNotes.length * 3;
   }
 
+  // Branching measured in the parsed code
+  if (feature.codeMetrics) {
+    score += Math.floor(feature.codeMetrics.cyclomaticComplexity / 5);
+  }
+
   if (score <= 5) return 'low';
   if (score <= 15) return 'medium';
   return 'high';
@@ -373,6 +573,17 @@ export function prioritizeFeatures(map: FunctionalityMap): FunctionalityMap {
   return map;
 }
 
+/**
+ * Describe every language found, for the discovery report
+ */
+function languageBreakdownLine(analysis: SourceAnalysis): string {
+  if (!analysis.languages || analysis.languages.length < 2) {
+    return '';
+  }
+  const languages = analysis.languages.map((l) => `${l.language} (${l.files} files, ${l.lines} lines)`);
+  return `- **Languages:** ${languages.join(', ')}\n`;
+}
+
 /**
  * Generate a discovery report
  */
@@ -382,7 +593,7 @@ export function generateDiscoveryReport(map: FunctionalityMap): string {
 ## Source Analysis
 
 - **Language:** ${map.sourceAnalysis.language} ${map.sourceAnalysis.languageVersion || ''}
-- **Framework:** ${map.sourceAnalysis.framework || 'None detected'} ${map.sourceAnalysis.frameworkVersion || ''}
+${languageBreakdownLine(map.sourceAnalysis)}- **Framework:** ${map.sourceAnalysis.framework || 'None detected'} ${map.sourceAnalysis.frameworkVersion || ''}
 - **Architecture:** ${map.sourceAnalysis.architecturePattern || 'Unknown'}
 - **Total Files:** ${map.sourceAnalysis.totalFiles}
 - **Total Lines:** ${map.sourceAnalysis.totalLines}
@@ -428,6 +639,9 @@ export function generateDiscoveryReport(map: FunctionalityMap): string {
 - **Discovery Method:** ${feature.discoveryMethod}
 - **Locations:** ${feature.sourceLocations.map((l) => l.file).join(', ')}
 `;
+    if (feature.testCoverage?.hasTests) {
+      report += `- **Tests:** ${feature.testCoverage.testCount ?? 0} in ${feature.testCoverage.testFiles.join(', ')}\n`;
+    }
     if (feature.apiEndpoints && feature.apiEndpoints.length > 0) {
       report += `- **API Endpoints:**\n`;
       for (const ep of feature.apiEndpoints) {
@@ -463,6 +677,19 @@ export function generateDiscoveryReport(map: FunctionalityMap): string {
     }
   }
 
+  if (map.databaseSchema && map.databaseSchema.tables.length > 0) {
+    report += `
+## Database Schema
+
+| Table | Columns | Relationships | Used By |
+|-------|---------|---------------|---------|
+`;
+    for (const table of map.databaseSchema.tables) {
+      const relationships = (table.relationships ?? []).map((r) => (r.kind ? `${r.kind} ${r.table}` : r.table));
+      report += `| ${table.name} | ${table.columns.length} | ${relationships.join(', ')} | ${(table.usedBy ?? []).join(', ')} |\n`;
+    }
+  }
+
   return report;
 }
 
@@ -525,9 +752,94 @@ async function countLines(filePath: string): Promise<number> {
 }
 
 /**
- * Detect the primary language of a project
+ * Detect the primary language of a project: the one with the most lines of
+ * code, or the first whose marker file exists when there is no source yet
  */
 export async function detectLanguage(projectDir: string): Promise<string> {
+  return (await detectLanguages(projectDir)).primary;
+}
+
+/**
+ * Get the language of a source file from its extension
+ */
+function getFileLanguage(file: string): string | undefined {
+  const ext = extname(file).toLowerCase();
+  return Object.entries(LANGUAGE_PATTERNS).find(([, patterns]) => patterns.extensions.includes(ext))?.[0];
+}
+
+/**
+ * Get the top-level directory of a project-relative path, '.' for files at the root
+ */
+function getTopDirectory(file: string): string {
+  const index = file.indexOf('/');
+  return index === -1 ? '.' : file.slice(0, index);
+}
+
+/**
+ * Get the languages with a significant share of the lines, largest first.
+ * The largest always counts.
+ */
+function getSignificantLanguages(stats: Map<string, LanguageStats>): LanguageStats[] {
+  const order = Object.keys(LANGUAGE_PATTERNS);
+  const ranked = [...stats.values()].sort(
+    (a, b) => b.lines - a.lines || b.files - a.files || order.indexOf(a.language) - order.indexOf(b.language)
+  );
+  const total = ranked.reduce((sum, s) => sum + s.lines, 0);
+  return ranked.filter((s, index) => index === 0 || s.lines >= total * SIGNIFICANT_LANGUAGE_SHARE);
+}
+
+/**
+ * Break a project's source down by language, counting files and lines for the
+ * whole project and for each top-level directory. Languages with under 5% of
+ * the lines are listed but not scanned, so a few vendored scripts do not turn
+ * a Python project into a JavaScript one.
+ */
+export async function detectLanguages(projectDir: string): Promise<LanguageBreakdown> {
+  const extensions = Object.values(LANGUAGE_PATTERNS).flatMap((pattern) => pattern.extensions);
+  const files = await glob(
+    extensions.map((ext) => `**/*${ext}`),
+    { cwd: projectDir, absolute: false, ignore: SOURCE_IGNORE }
+  );
+
+  const totals = new Map<string, LanguageStats>();
+  const directories = new Map<string, Map<string, LanguageStats>>();
+  const count = (stats: Map<string, LanguageStats>, language: string, lines: number) => {
+    const entry = stats.get(language) ?? { language, files: 0, lines: 0 };
+    entry.files++;
+    entry.lines += lines;
+    stats.set(language, entry);
+  };
+
+  for (const file of files.sort()) {
+    const language = getFileLanguage(file);
+    if (!language) continue;
+    const lines = await countLines(join(projectDir, file));
+    const directory = getTopDirectory(file);
+
+    count(totals, language, lines);
+    const stats = directories.get(directory) ?? new Map<string, LanguageStats>();
+    directories.set(directory, stats);
+    count(stats, language, lines);
+  }
+
+  const significant = getSignificantLanguages(totals).map((s) => s.language);
+  const order = Object.keys(LANGUAGE_PATTERNS);
+  return {
+    primary: significant[0] ?? (await detectLanguageFromMarkers(projectDir)),
+    secondary: significant.slice(1),
+    languages: [...totals.values()].sort(
+      (a, b) => b.lines - a.lines || b.files - a.files || order.indexOf(a.language) - order.indexOf(b.language)
+    ),
+    directories: Object.fromEntries(
+      [...directories].map(([directory, stats]) => [directory, getSignificantLanguages(stats).map((s) => s.language)])
+    ),
+  };
+}
+
+/**
+ * Detect a language from the first marker file found, e.g. go.mod
+ */
+async function detectLanguageFromMarkers(projectDir: string): Promise<string> {
   for (const [language, { markers }] of Object.entries(LANGUAGE_PATTERNS)) {
     for (const marker of markers) {
       if (await pathExists(join(projectDir, marker))) {
@@ -542,17 +854,6 @@ export async function detectLanguage(projectDir: string): Promise<string> {
  * Detect the framework used in a project
  */
 export async function detectFramework(projectDir: string): Promise<string | undefined> {
-  // Framework detection order - check for dependencies in package.json
-  const frameworkChecks: [string, string[]][] = [
-    ['nuxt', ['nuxt', 'nuxt3', '@nuxt/kit']],
-    ['vue', ['vue', '@vue/cli-service', 'vite-plugin-vue']],
-    ['nextjs', ['next']],
-    ['react', ['react', 'react-dom']],
-    ['angular', ['@angular/core']],
-    ['nestjs', ['@nestjs/core']],
-    ['express', ['express']],
-  ];
-
   // Helper to check dependencies in a package.json
   const checkDepsInPackage = async (pkgPath: string): Promise<string | undefined> => {
     const packageJson = await readJsonFile<{
@@ -567,7 +868,7 @@ export async function detectFramework(projectDir: string): Promise<string | unde
       ...packageJson.devDependencies,
     };
 
-    for (const [framework, deps] of frameworkChecks) {
+    for (const [framework, deps] of PACKAGE_FRAMEWORKS) {
       for (const dep of deps) {
         if (allDeps[dep]) {
           return framework;
@@ -592,6 +893,14 @@ export async function detectFramework(projectDir: string): Promise<string | unde
     }
   }
 
+  // Python, Go, Rust and Java projects declare dependencies in their own manifests
+  const manifestDeps = await readManifestDependencies(projectDir);
+  for (const [framework, pattern] of MANIFEST_FRAMEWORKS) {
+    if (manifestDeps.some((dep) => pattern.test(dep.name))) {
+      return framework;
+    }
+  }
+
   // Check for marker files
   for (const [framework, { markers }] of Object.entries(FRAMEWORK_PATTERNS)) {
     for (const marker of markers) {
@@ -606,6 +915,40 @@ export async function detectFramework(projectDir: string): Promise<string | unde
   return undefined;
 }
 
+/**
+ * Get the version of a detected framework as declared in the project's
+ * manifests, from the first matching dependency that declares one
+ */
+export async function detectFrameworkVersion(projectDir: string, framework: string): Promise<string | undefined> {
+  const packageDeps = PACKAGE_FRAMEWORKS.find(([name]) => name === framework)?.[1];
+  if (packageDeps) {
+    const packagePaths = [
+      'package.json',
+      ...(await findWorkspacePackages(projectDir)).map((workspace) => join(workspace, 'package.json')),
+    ];
+    for (const packagePath of packagePaths) {
+      const packageJson = await readJsonFile<{
+        dependencies?: Record<string, string>;
+        devDependencies?: Record<string, string>;
+      }>(join(projectDir, packagePath));
+      const allDeps = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+      const version = packageDeps.map((dep) => allDeps[dep]).find(Boolean);
+      if (version) {
+        return version;
+      }
+    }
+    return undefined;
+  }
+
+  const pattern = MANIFEST_FRAMEWORKS.find(([name]) => name === framework)?.[1];
+  if (!pattern) {
+    return undefined;
+  }
+  // Spring starters usually take their version from the parent POM or Gradle plugin
+  const manifestDeps = await readManifestDependencies(projectDir);
+  return manifestDeps.find((dep) => pattern.test(dep.name) && dep.version)?.version;
+}
+
 /**
  * Detect architecture pattern (monorepo, layered, modular, etc.)
  */
@@ -693,7 +1036,7 @@ export async function findWorkspacePackages(projectDir: string): Promise<string[
       cwd: projectDir,
       absolute: false,
     });
-    for (const resolvedPath of resolvedPaths) {
+    for (const resolvedPath of resolvedPaths.sort()) {
       const pkgJsonPath = join(projectDir, resolvedPath, 'package.json');
       if (await pathExists(pkgJsonPath)) {
         packages.push(resolvedPath);
@@ -888,34 +1231,173 @@ export async function extractDependencies(
     }
   }
 
+  dependencies.push(...(await readManifestDependencies(projectDir)));
+
   return dependencies;
 }
 
 /**
- * Scan source files and count them
+ * Extract the dependencies of a project and its workspaces, with manifest
+ * paths relative to the project. A monorepo's root manifest declares the
+ * dependencies its workspaces share.
  */
-export async function scanSourceFiles(
+async function extractProjectDependencies(projectDir: string, workspaces: string[]): Promise<ExternalDependency[]> {
+  const dependencies: ExternalDependency[] = [];
+  for (const root of ['', ...workspaces]) {
+    for (const dep of await extractDependencies(join(projectDir, root))) {
+      if (dependencies.some((d) => d.name === dep.name)) continue;
+      dependencies.push(root && dep.configLocation ? { ...dep, configLocation: join(root, dep.configLocation) } : dep);
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Get the package ecosystem of a manifest or source file
+ */
+function getEcosystem(file: string): 'npm' | 'python' | 'go' | undefined {
+  const name = basename(file);
+  if (name === 'package.json' || isParsableSource(name)) return 'npm';
+  if (/^requirements.*\.txt$|^pyproject\.toml$|^Pipfile$|\.py$/i.test(name)) return 'python';
+  if (name === 'go.mod' || /\.go$/i.test(name)) return 'go';
+  return undefined;
+}
+
+/**
+ * Check if a declared dependency provides an imported package: npm names
+ * match exactly, Python distributions by their top-level module, and Go
+ * modules by path prefix
+ */
+function providesPackage(dep: ExternalDependency, ecosystem: string, pkg: string): boolean {
+  if (ecosystem === 'python') {
+    return (PYTHON_MODULES[dep.name] ?? dep.name.replace(/-/g, '_')) === pkg.toLowerCase();
+  }
+  if (ecosystem === 'go') {
+    return pkg === dep.name || pkg.startsWith(`${dep.name}/`);
+  }
+  return pkg === dep.name;
+}
+
+/**
+ * Fill the usedBy of npm, Python and Go dependencies with the features whose
+ * files import them, and record production dependencies nothing imports and
+ * npm and Go packages imported without being declared as undocumented
+ * behaviors. Python imports are not checked against the manifests, since the
+ * standard library cannot be told apart from installed packages.
+ */
+export function linkExternalDependencies(map: FunctionalityMap): FunctionalityMap {
+  const owners = new Map<string, string[]>();
+  for (const feature of map.features) {
+    for (const loc of feature.sourceLocations) {
+      owners.set(loc.file, [...new Set([...(owners.get(loc.file) ?? []), feature.id])]);
+    }
+  }
+
+  const imports = Object.entries(map.importGraph?.packages ?? {}).flatMap(([file, packages]) =>
+    packages.map((pkg) => ({ file, pkg, ecosystem: getEcosystem(file) }))
+  );
+  // A manifest whose ecosystem no file imports from, like a package.json kept for tooling, is not checked
+  const scanned = new Set(imports.map(({ ecosystem }) => ecosystem));
+
+  const linked = map.externalDependencies.flatMap((dep) => {
+    const ecosystem = dep.configLocation ? getEcosystem(dep.configLocation) : undefined;
+    return ecosystem ? [{ dep, ecosystem }] : [];
+  });
+  for (const { dep } of linked) {
+    dep.usedBy = [];
+  }
+
+  const imported = new Set<ExternalDependency>();
+  const undeclared = new Map<string, string[]>();
+  for (const { file, pkg, ecosystem } of imports) {
+    if (!ecosystem) continue;
+    const providers = linked
+      .filter((linkedDep) => linkedDep.ecosystem === ecosystem && providesPackage(linkedDep.dep, ecosystem, pkg))
+      .map(({ dep }) => dep);
+    for (const dep of providers) {
+      imported.add(dep);
+      dep.usedBy = [...new Set([...dep.usedBy, ...(owners.get(file) ?? [])])];
+    }
+    if (providers.length === 0 && ecosystem !== 'python') {
+      undeclared.set(pkg, [...(undeclared.get(pkg) ?? []), file]);
+    }
+  }
+
+  const behaviors: UndocumentedBehavior[] = [];
+  for (const { dep, ecosystem } of linked) {
+    if (imported.has(dep) || dep.type !== 'production' || dep.name.startsWith('@types/')) continue;
+    if (!scanned.has(ecosystem)) continue;
+    behaviors.push({
+      ...createUndocumentedBehavior(
+        `Declared dependency ${dep.name} is never imported`,
+        `Declared in ${dep.configLocation} but not imported by any source file`,
+        [],
+        'static'
+      ),
+      id: `${DEPENDENCY_BEHAVIOR_PREFIX}${stableHash(`unused:${dep.name}`)}`,
+    });
+  }
+  for (const [pkg, files] of undeclared) {
+    behaviors.push({
+      ...createUndocumentedBehavior(
+        `Undeclared package ${pkg} is imported without a manifest entry`,
+        `Imported by ${files.join(', ')}`,
+        [...new Set(files.flatMap((file) => owners.get(file) ?? []))],
+        'static'
+      ),
+      id: `${DEPENDENCY_BEHAVIOR_PREFIX}${stableHash(`undeclared:${pkg}`)}`,
+    });
+  }
+
+  map.undocumentedBehaviors = [
+    ...map.undocumentedBehaviors.filter((behavior) => !behavior.id.startsWith(DEPENDENCY_BEHAVIOR_PREFIX)),
+    ...behaviors,
+  ];
+  return map;
+}
+
+/**
+ * List a project's source files, relative to the project. Given the languages
+ * of each top-level directory, every directory is scanned for its own
+ * languages, falling back to the primary language.
+ */
+async function listSourceFiles(
   projectDir: string,
-  language: string
-): Promise<{ files: string[]; totalLines: number }> {
-  const languageConfig = LANGUAGE_PATTERNS[language];
-  const extensions = languageConfig?.extensions || ['.ts', '.js'];
+  language: string,
+  directories?: Record<string, string[]>
+): Promise<string[]> {
+  const languages = [...new Set([language, ...Object.values(directories ?? {}).flat()])];
+  const extensions = languages.flatMap((lang) => LANGUAGE_PATTERNS[lang]?.extensions || ['.ts', '.js']);
 
-  const patterns = extensions.map((ext) => `**/*${ext}`);
+  const patterns = [...new Set(extensions)].map((ext) => `**/*${ext}`);
 
   const files = await glob(patterns, {
     cwd: projectDir,
     absolute: false,
-    ignore: [
-      '**/node_modules/**',
-      '**/dist/**',
-      '**/build/**',
-      '**/.git/**',
-      '**/coverage/**',
-      '**/*.min.js',
-      '**/*.d.ts',
-    ],
+    ignore: SOURCE_IGNORE,
   });
+  // Glob order depends on the filesystem; feature IDs must not
+  files.sort();
+  if (!directories) {
+    return files;
+  }
+
+  return files.filter((file) => {
+    const fileLanguage = getFileLanguage(file);
+    return fileLanguage !== undefined && (directories[getTopDirectory(file)] ?? [language]).includes(fileLanguage);
+  });
+}
+
+/**
+ * Scan source files and count them, optionally with per-directory languages
+ * from detectLanguages
+ */
+export async function scanSourceFiles(
+  projectDir: string,
+  language: string,
+  directories?: Record<string, string[]>
+): Promise<{ files: string[]; totalLines: number }> {
+  const files = await listSourceFiles(projectDir, language, directories);
 
   let totalLines = 0;
   for (const file of files) {
@@ -926,7 +1408,10 @@ export async function scanSourceFiles(
 }
 
 /**
- * Extract features from source files based on patterns
+ * Extract features from source files based on patterns. Test files are left
+ * out; they are linked to the features they cover instead. Files are read in
+ * sorted order, which picks each feature's primary location and the suffixes
+ * of colliding IDs, so the same files always give the same IDs.
  */
 export async function extractFeatures(
   projectDir: string,
@@ -935,22 +1420,85 @@ export async function extractFeatures(
   const features: Feature[] = [];
   const featureMap = new Map<string, Feature>();
 
-  for (const file of sourceFiles) {
-    const category = detectFeatureCategory(file, basename(file, extname(file)));
+  for (const file of sourceFiles.filter((f) => !isTestFile(f)).sort()) {
     const featureName = deriveFeatureName(file);
+    const { location, endpoints } = await analyzeSource(projectDir, file);
 
     // Group related files into features
-    const existingFeature = featureMap.get(featureName);
-    if (existingFeature) {
-      existingFeature.sourceLocations.push({ file, lines: [1, 1] });
+    let feature = featureMap.get(featureName);
+    if (feature) {
+      feature.sourceLocations.push(location);
     } else {
-      const feature = createFeature(featureName, file, [1, 1]);
+      feature = createFeature(featureName, file, location.lines);
+      feature.sourceLocations = [location];
       featureMap.set(featureName, feature);
       features.push(feature);
     }
+
+    // Routes belong to the feature of the file that declares them
+    if (endpoints.length > 0) {
+      feature.apiEndpoints = [...(feature.apiEndpoints ?? []), ...endpoints];
+    }
   }
 
-  return features;
+  for (const feature of features) {
+    const metrics = computeCodeMetrics(feature.sourceLocations);
+    if (metrics) {
+      feature.codeMetrics = metrics;
+    }
+  }
+
+  return ensureUniqueFeatureIds(features);
+}
+
+/**
+ * Build the source location of a file and find the routes it declares,
+ * parsing TypeScript and JavaScript for functions, classes, exports and
+ * line ranges. Other languages only get their routes.
+ */
+async function analyzeSource(
+  projectDir: string,
+  file: string
+): Promise<{ location: SourceLocation; endpoints: APIEndpoint[] }> {
+  const unparsed = { location: { file, lines: [1, 1] as [number, number] }, endpoints: [] };
+  if (!isParsableSource(file) && !canExtractRoutes(file)) {
+    return unparsed;
+  }
+
+  let content: string;
+  try {
+    content = await readFile(join(projectDir, file), 'utf-8');
+  } catch {
+    return unparsed;
+  }
+
+  if (!isParsableSource(file)) {
+    return { ...unparsed, endpoints: extractRoutes(file, content) };
+  }
+
+  const analysis = analyzeModule(file, content);
+  const location: SourceLocation = { file, lines: analysis.lines, complexity: analysis.cyclomaticComplexity };
+  if (analysis.functions.length > 0) location.functions = analysis.functions;
+  if (analysis.classes.length > 0) location.classes = analysis.classes;
+  if (analysis.exports.length > 0) location.exports = analysis.exports;
+  return { location, endpoints: extractRoutes(file, content) };
+}
+
+/**
+ * Make a workspace feature's paths relative to the monorepo root
+ */
+function prefixFeaturePaths(feature: Feature, workspace: string): Feature {
+  feature.sourceLocations = feature.sourceLocations.map((loc) => ({ ...loc, file: join(workspace, loc.file) }));
+  feature.apiEndpoints = feature.apiEndpoints?.map((endpoint) =>
+    endpoint.handler
+      ? { ...endpoint, handler: { ...endpoint.handler, file: join(workspace, endpoint.handler.file) } }
+      : endpoint
+  );
+  if (!feature.apiEndpoints) delete feature.apiEndpoints;
+
+  // Workspaces often share file layouts, so IDs use the prefixed path
+  feature.id = generateFeatureId(feature.name, feature.category, feature.sourceLocations[0]?.file);
+  return feature;
 }
 
 /**
@@ -976,20 +1524,33 @@ function deriveFeatureName(filePath: string): string {
 }
 
 /**
- * Run the full discovery process
+ * Record a language breakdown in the source analysis
+ */
+function setLanguages(analysis: SourceAnalysis, languages: LanguageBreakdown): void {
+  analysis.language = languages.primary;
+  analysis.secondaryLanguages = languages.secondary;
+  analysis.languages = languages.languages;
+  analysis.directoryLanguages = languages.directories;
+}
+
+/**
+ * Run the full discovery process.
+ * Pass the previous map to keep the IDs of features that are found again.
  */
 export async function runDiscovery(
   projectDir: string,
-  onProgress?: (message: string) => void
+  onProgress?: (message: string) => void,
+  previous?: FunctionalityMap
 ): Promise<FunctionalityMap> {
   const log = (msg: string) => onProgress?.(msg);
 
   log('Starting discovery process');
 
-  // Detect language
-  log('Detecting project language');
-  const language = await detectLanguage(projectDir);
-  log(`Detected language: ${language}`);
+  // Detect languages
+  log('Detecting project languages');
+  const languages = await detectLanguages(projectDir);
+  const language = languages.primary;
+  log(`Detected language: ${language}${languages.secondary.length > 0 ? ` (also ${languages.secondary.join(', ')})` : ''}`);
 
   // Detect framework
   log('Detecting framework');
@@ -1005,10 +1566,13 @@ export async function runDiscovery(
 
   // Initialize the map
   const map = createEmptyFunctionalityMap();
-  map.sourceAnalysis.language = language;
+  setLanguages(map.sourceAnalysis, languages);
   map.sourceAnalysis.framework = framework;
+  map.sourceAnalysis.frameworkVersion = framework ? await detectFrameworkVersion(projectDir, framework) : undefined;
   map.sourceAnalysis.architecturePattern = architecturePattern;
 
+  let sourceFiles: string[];
+
   // Handle monorepo differently
   if (architecturePattern === 'monorepo') {
     log('Scanning monorepo workspaces');
@@ -1017,59 +1581,52 @@ export async function runDiscovery(
 
     let totalFiles = 0;
     let totalLines = 0;
-    const allDependencies: ExternalDependency[] = [];
     const allFeatures: Feature[] = [];
+    const allFiles: string[] = [];
 
     for (const workspace of workspaces) {
       const workspacePath = join(projectDir, workspace);
       log(`Scanning workspace: ${workspace}`);
+      // Workspaces can be written in different languages
+      const workspaceLanguages = await detectLanguages(workspacePath);
 
       // Find entry points for this workspace
-      const entryPoints = await findEntryPoints(workspacePath, language);
+      const entryPoints = await findEntryPoints(workspacePath, workspaceLanguages.primary);
       for (const ep of entryPoints) {
         ep.file = join(workspace, ep.file);
         map.sourceAnalysis.entryPoints.push(ep);
       }
 
-      // Extract dependencies
-      const deps = await extractDependencies(workspacePath);
-      for (const dep of deps) {
-        dep.usedBy = [workspace];
-        // Merge with existing dependency
-        const existing = allDependencies.find((d) => d.name === dep.name);
-        if (existing) {
-          if (!existing.usedBy.includes(workspace)) {
-            existing.usedBy.push(workspace);
-          }
-        } else {
-          allDependencies.push(dep);
-        }
-      }
-
       // Scan source files
-      const { files, totalLines: lines } = await scanSourceFiles(workspacePath, language);
+      const { files, totalLines: lines } = await scanSourceFiles(
+        workspacePath,
+        workspaceLanguages.primary,
+        workspaceLanguages.directories
+      );
       totalFiles += files.length;
       totalLines += lines;
+      allFiles.push(...files.map((file) => join(workspace, file)));
 
       // Extract features
       const features = await extractFeatures(workspacePath, files);
       for (const f of features) {
-        f.sourceLocations = f.sourceLocations.map((loc) => ({
-          ...loc,
-          file: join(workspace, loc.file),
-        }));
-        allFeatures.push(f);
+        allFeatures.push(prefixFeaturePaths(f, workspace));
       }
     }
 
     map.sourceAnalysis.totalFiles = totalFiles;
     map.sourceAnalysis.totalLines = totalLines;
-    map.externalDependencies = allDependencies;
-    map.features = allFeatures;
+    map.externalDependencies = await extractProjectDependencies(projectDir, workspaces);
+    map.features = ensureUniqueFeatureIds(allFeatures);
+
+    // Workspaces import each other by package name
+    log('Resolving imports');
+    map.importGraph = await buildImportGraph(projectDir, allFiles, { workspaces });
+    sourceFiles = allFiles;
   } else {
     // Standard project discovery
     log('Scanning source files');
-    const { files, totalLines } = await scanSourceFiles(projectDir, language);
+    const { files, totalLines } = await scanSourceFiles(projectDir, language, languages.directories);
     log(`Found ${files.length} source files with ${totalLines} total lines`);
     map.sourceAnalysis.totalFiles = files.length;
     map.sourceAnalysis.totalLines = totalLines;
@@ -1088,8 +1645,39 @@ export async function runDiscovery(
     const features = await extractFeatures(projectDir, files);
     log(`Extracted ${features.length} features`);
     map.features = features;
+
+    log('Resolving imports');
+    map.importGraph = await buildImportGraph(projectDir, files);
+    sourceFiles = files;
+  }
+
+  // Features depend on the features whose files they import
+  linkFeatureDependencies(map.features, map.importGraph);
+
+  // Keep the IDs of features that were found before
+  if (previous) {
+    preserveFeatureIds(previous, map);
   }
 
+  // Dependencies are used by the features whose files import them
+  linkExternalDependencies(map);
+
+  // Routers mounted from other files get the prefixes they are mounted under
+  await linkRouterMounts(projectDir, map);
+
+  log('Reading database schema');
+  const databaseSchema = await discoverDatabaseSchema(projectDir, sourceFiles);
+  if (databaseSchema) {
+    map.databaseSchema = databaseSchema;
+    log(`Found ${databaseSchema.tables.length} database tables`);
+    await linkDatabaseTables(projectDir, map);
+  }
+
+  log('Finding tests');
+  const tests = await discoverTests(projectDir, sourceFiles, map.importGraph);
+  linkFeatureTests(map.features, tests);
+  log(`Found ${tests.length} test files`);
+
   // Prioritize features
   log('Prioritizing features');
   const prioritizedMap = prioritizeFeatures(map);
@@ -1098,18 +1686,231 @@ export async function runDiscovery(
   return prioritizedMap;
 }
 
+/**
+ * Hash a file's contents and count its lines
+ */
+async function readSourceFile(filePath: string): Promise<{ hash: string; lines: number }> {
+  const content = await readFile(filePath);
+  return {
+    hash: createHash('sha256').update(content).digest('hex'),
+    lines: content.toString('utf-8').split('\n').length,
+  };
+}
+
+/**
+ * Build the discovery cache for a project's source files, listed the way a
+ * refresh lists them, so a refresh after a full discovery rescans only the
+ * files that changed since
+ */
+export async function buildDiscoveryCache(projectDir: string, updatedAt: string): Promise<DiscoveryCache> {
+  const languages = await detectLanguages(projectDir);
+  const roots =
+    (await detectArchitecturePattern(projectDir)) === 'monorepo' ? await findWorkspacePackages(projectDir) : [''];
+
+  const cache: DiscoveryCache = { version: '1.0.0', updatedAt, files: {} };
+  for (const root of roots) {
+    const rootDir = join(projectDir, root);
+    const rootLanguages = root ? await detectLanguages(rootDir) : languages;
+    for (const file of await listSourceFiles(rootDir, rootLanguages.primary, rootLanguages.directories)) {
+      const path = root ? join(root, file) : file;
+      const info = await stat(join(projectDir, path));
+      const { hash, lines } = await readSourceFile(join(projectDir, path));
+      cache.files[path] = { hash, mtimeMs: info.mtimeMs, size: info.size, lines };
+    }
+  }
+  return cache;
+}
+
+/**
+ * Rescan only the files that changed since the last discovery and merge what
+ * is found into the previous map, keeping agent-added descriptions, notes,
+ * test coverage and undocumented behaviors. Features whose source files
+ * disappeared are flagged with missingSourceFiles rather than dropped.
+ * Without a cache every file counts as changed.
+ */
+export async function refreshDiscovery(
+  projectDir: string,
+  previous: FunctionalityMap | null,
+  cache: DiscoveryCache | null,
+  onProgress?: (message: string) => void
+): Promise<{ map: FunctionalityMap; cache: DiscoveryCache; refresh: DiscoveryRefresh }> {
+  const log = (msg: string) => onProgress?.(msg);
+
+  log('Starting incremental discovery');
+  const languages = await detectLanguages(projectDir);
+  const framework = await detectFramework(projectDir);
+  const architecturePattern = await detectArchitecturePattern(projectDir);
+
+  // Monorepo workspaces are scanned separately, like a full discovery
+  const roots = architecturePattern === 'monorepo' ? await findWorkspacePackages(projectDir) : [''];
+
+  const map: FunctionalityMap = previous ? structuredClone(previous) : createEmptyFunctionalityMap();
+  map.discoveredAt = new Date().toISOString();
+  setLanguages(map.sourceAnalysis, languages);
+  map.sourceAnalysis.framework = framework;
+  map.sourceAnalysis.frameworkVersion = framework ? await detectFrameworkVersion(projectDir, framework) : undefined;
+  map.sourceAnalysis.architecturePattern = architecturePattern;
+  map.sourceAnalysis.entryPoints = [];
+
+  const nextCache: DiscoveryCache = { version: '1.0.0', updatedAt: map.discoveredAt, files: {} };
+  const changedFiles: string[] = [];
+  const found: Feature[] = [];
+
+  for (const root of roots) {
+    const rootDir = join(projectDir, root);
+    const prefix = (file: string) => (root ? join(root, file) : file);
+    const rootLanguages = root ? await detectLanguages(rootDir) : languages;
+
+    // Compare against the cache, reading only files whose size or mtime moved
+    const changedInRoot: string[] = [];
+    for (const file of await listSourceFiles(rootDir, rootLanguages.primary, rootLanguages.directories)) {
+      const path = prefix(file);
+      const info = await stat(join(projectDir, path));
+      const cached = cache?.files[path];
+
+      if (cached && cached.mtimeMs === info.mtimeMs && cached.size === info.size) {
+        nextCache.files[path] = cached;
+        continue;
+      }
+
+      const { hash, lines } = await readSourceFile(join(projectDir, path));
+      nextCache.files[path] = { hash, mtimeMs: info.mtimeMs, size: info.size, lines };
+      if (cached?.hash !== hash) {
+        changedInRoot.push(file);
+        changedFiles.push(path);
+      }
+    }
+
+    for (const feature of await extractFeatures(rootDir, changedInRoot)) {
+      found.push(root ? prefixFeaturePaths(feature, root) : feature);
+    }
+
+    for (const ep of await findEntryPoints(rootDir, rootLanguages.primary)) {
+      map.sourceAnalysis.entryPoints.push({ ...ep, file: prefix(ep.file) });
+    }
+  }
+  log(`${changedFiles.length} changed files`);
+
+  // Keep what earlier runs or agents recorded about known dependencies
+  const dependencies = await extractProjectDependencies(projectDir, architecturePattern === 'monorepo' ? roots : []);
+  map.externalDependencies = dependencies.map((dep) => {
+    const known = previous?.externalDependencies.find((d) => d.name === dep.name);
+    return known ? { ...known, ...dep, usedBy: dep.usedBy.length > 0 ? dep.usedBy : known.usedBy } : dep;
+  });
+
+  const files = Object.keys(nextCache.files);
+  map.sourceAnalysis.totalFiles = files.length;
+  map.sourceAnalysis.totalLines = files.reduce((sum, file) => sum + (nextCache.files[file]?.lines ?? 0), 0);
+
+  // Merge features found in changed files, keeping the IDs already in the map
+  const scanned = createEmptyFunctionalityMap();
+  scanned.features = ensureUniqueFeatureIds(found);
+  preserveFeatureIds(map, scanned);
+
+  const featuresAdded: string[] = [];
+  const featuresUpdated: string[] = [];
+  for (const feature of scanned.features) {
+    const index = map.features.findIndex((f) => f.id === feature.id);
+    const existing = map.features[index];
+    if (existing) {
+      // Rescanned files replace their old line ranges
+      const merged = mergeFeatures(existing, feature);
+      merged.sourceLocations = merged.sourceLocations.map(
+        (loc) => feature.sourceLocations.find((l) => l.file === loc.file) ?? loc
+      );
+      merged.codeMetrics = computeCodeMetrics(merged.sourceLocations) ?? merged.codeMetrics;
+      const rescanned = new Set(feature.sourceLocations.map((loc) => loc.file));
+      const endpoints = [
+        ...(existing.apiEndpoints ?? []).filter((e) => !e.handler || !rescanned.has(e.handler.file)),
+        ...(feature.apiEndpoints ?? []),
+      ];
+      if (endpoints.length > 0) {
+        merged.apiEndpoints = endpoints;
+      } else {
+        delete merged.apiEndpoints;
+      }
+      map.features[index] = merged;
+      featuresUpdated.push(feature.id);
+    } else {
+      const count = map.features.length;
+      addOrUpdateFeature(map, feature);
+      (map.features.length > count ? featuresAdded : featuresUpdated).push(feature.id);
+    }
+  }
+
+  // Flag features whose files are gone instead of dropping them
+  const featuresWithMissingFiles: string[] = [];
+  for (const feature of map.features) {
+    const missing: string[] = [];
+    for (const loc of feature.sourceLocations) {
+      if (!(await pathExists(join(projectDir, loc.file)))) {
+        missing.push(loc.file);
+      }
+    }
+
+    if (missing.length > 0) {
+      feature.missingSourceFiles = missing;
+      featuresWithMissingFiles.push(feature.id);
+    } else {
+      delete feature.missingSourceFiles;
+    }
+  }
+
+  // Only changed files are read again for their imports
+  const changed = new Set(changedFiles);
+  map.importGraph = await buildImportGraph(projectDir, files, {
+    workspaces: architecturePattern === 'monorepo' ? roots : [],
+    previous: previous?.importGraph,
+    unchanged: new Set(files.filter((file) => !changed.has(file))),
+  });
+  linkFeatureDependencies(map.features, map.importGraph);
+  linkExternalDependencies(map);
+  await linkRouterMounts(projectDir, map);
+
+  // Models and migrations are read again, since queries can change in any file
+  const databaseSchema = await discoverDatabaseSchema(projectDir, files);
+  if (databaseSchema) {
+    map.databaseSchema = databaseSchema;
+    await linkDatabaseTables(projectDir, map);
+  } else {
+    delete map.databaseSchema;
+  }
+
+  // Tests can start covering a feature without the feature's files changing
+  linkFeatureTests(map.features, await discoverTests(projectDir, files, map.importGraph));
+
+  const removedFiles = Object.keys(cache?.files ?? {}).filter((file) => !(file in nextCache.files));
+  log(`${featuresAdded.length} features added, ${featuresUpdated.length} updated, ${featuresWithMissingFiles.length} with missing files`);
+
+  return {
+    map: prioritizeFeatures(map),
+    cache: nextCache,
+    refresh: {
+      changedFiles,
+      removedFiles,
+      unchangedFiles: files.length - changedFiles.length,
+      featuresAdded,
+      featuresUpdated,
+      featuresWithMissingFiles,
+    },
+  };
+}
+
 /**
  * Export discovery utilities
  */
 export const discovery = {
   createEmptyFunctionalityMap,
   generateFeatureId,
+  ensureUniqueFeatureIds,
+  preserveFeatureIds,
   detectFeatureCategory,
   parseAPIEndpoint,
   createFeature,
   createUndocumentedBehavior,
   createExternalDependency,
   mergeFeatures,
+  computeCodeMetrics,
   addOrUpdateFeature,
   calculateComplexity,
   prioritizeFeatures,
@@ -1117,14 +1918,18 @@ export const discovery = {
   saveDiscoveryResults,
   // New exports
   detectLanguage,
+  detectLanguages,
   detectFramework,
+  detectFrameworkVersion,
   detectArchitecturePattern,
   findWorkspacePackages,
   findEntryPoints,
   extractDependencies,
+  linkExternalDependencies,
   scanSourceFiles,
   extractFeatures,
   runDiscovery,
+  refreshDiscovery,
   LANGUAGE_PATTERNS,
   FRAMEWORK_PATTERNS,
   ENTRY_POINT_PATTERNS,
@@ -12,6 +12,16 @@ import type {
   SessionResult,
   SessionSummary,
   AgentType,
+  EnhancementPlan,
+  ArtifactCheck,
+  LoopResult,
+  LoopStopReason,
+  Budget,
+  SessionUsage,
+  SessionWorktree,
+  ArtifactSnapshot,
+  FunctionalityMap,
+  DiscoveryCache,
 } from '../types.js';
 import {
   loadState,
@@ -21,19 +31,41 @@ import {
   isInitialized,
   loadFunctionalityMap,
   loadTestCoverageMap,
+  saveTestCoverageMap,
   loadEnhancementPlan,
   loadMigrationPlan,
   saveFunctionalityMap,
+  loadDiscoveryCache,
+  saveDiscoveryCache,
   createSessionSummary,
   completeSessionSummary,
   addSessionSummary,
   getPendingApprovals,
   markDiscoveryComplete,
+  updateCoverageMetrics,
+  updateMigrationProgress,
+  acquireLock,
+  releaseLock,
+  describeLockHolder,
+  createEmptyUsage,
+  addUsage,
+  getTotalTokens,
+  summarizeUsage,
+  saveArtifactCheckpoint,
+  saveSessionSnapshot,
 } from '../state.js';
+import { captureArtifacts, diffArtifacts } from '../diff.js';
+import { applyCoverageReports, findCoverageReports } from '../coverage.js';
+import { createCheckpoint, prepareWorktree, commitWorktree } from '../git.js';
 import { getSecurityConfigForMode, validateCommand } from '../security.js';
-import { runDiscovery } from './discovery.js';
+import { runDiscovery, refreshDiscovery, buildDiscoveryCache } from './discovery.js';
 import { runAgentSession, checkAuthentication } from './runner.js';
-import { basename } from 'node:path';
+import { basename, relative } from 'node:path';
+
+/**
+ * Failed sessions in a row before the loop gives up
+ */
+const MAX_CONSECUTIVE_FAILURES = 2;
 
 /**
  * Determine which agent should run next based on state and mode
@@ -131,6 +163,7 @@ export function calculateProgress(state: ModernizationState): number {
 
     case 'coverage':
       if (!state.discoveryComplete) return 0;
+      if (state.coverageTarget <= 0) return 100;
       return Math.min(
         100,
         (state.currentCoverage / state.coverageTarget) * 100
@@ -139,6 +172,7 @@ export function calculateProgress(state: ModernizationState): number {
     case 'enhancement':
       if (!state.enhancementPlan) return 0;
       const totalEnhancements = state.enhancementPlan.enhancements.length;
+      if (totalEnhancements === 0) return 0;
       const completed = state.enhancementPlan.enhancements.filter(
         (e) => e.status === 'completed'
       ).length;
@@ -153,6 +187,13 @@ export function calculateProgress(state: ModernizationState): number {
   }
 }
 
+/**
+ * Format a usage record as tokens and cost
+ */
+function formatUsage(usage: SessionUsage): string {
+  return `${getTotalTokens(usage).toLocaleString('en-US')} tokens, $${usage.costUsd.toFixed(2)}`;
+}
+
 /**
  * Generate a status report for the current state
  */
@@ -214,6 +255,20 @@ export function generateStatusReport(state: ModernizationState): string {
     }
   }
 
+  const usage = summarizeUsage(state);
+  if (usage.total.turns > 0 || usage.total.costUsd > 0) {
+    report += `\n### Spend\n`;
+    report += `- Total: ${formatUsage(usage.total)}\n`;
+    report += `- By Agent:\n`;
+    for (const [agent, agentUsage] of Object.entries(usage.byAgent)) {
+      report += `  - ${agent}: ${formatUsage(agentUsage)}\n`;
+    }
+    report += `- By Mode:\n`;
+    for (const [mode, modeUsage] of Object.entries(usage.byMode)) {
+      report += `  - ${mode}: ${formatUsage(modeUsage)}\n`;
+    }
+  }
+
   if (state.sessions.length > 0) {
     const lastSession = state.sessions[state.sessions.length - 1];
     if (lastSession) {
@@ -354,6 +409,86 @@ ${securityConfig.requireApprovalFor.map((p) => `  - ${p}`).join('\n')}
   return context;
 }
 
+/**
+ * Reload agent-written artifacts and merge them into state.
+ * The loaders validate each artifact against its schema, so anything
+ * returned here is safe to merge. After a coverage session, coverage reports
+ * its tests wrote in the agent's working directory replace the coverage
+ * numbers the agent recorded; reports older than the session are ignored.
+ * Returns a description of each change.
+ */
+export async function reconcileArtifacts(
+  projectDir: string,
+  state: ModernizationState,
+  session?: SessionSummary,
+  workingDir: string = projectDir
+): Promise<string[]> {
+  const changes: string[] = [];
+  // Artifacts that exist but failed validation are reported and left out
+  const ignore = (check: ArtifactCheck) => {
+    changes.push(`Ignored invalid ${basename(check.file)} (${check.errors.length} errors)`);
+  };
+
+  const map = await loadFunctionalityMap(projectDir, ignore);
+  if (map) {
+    const before = state.functionalityMap?.features.length ?? 0;
+    state.functionalityMap = map;
+    if (before !== map.features.length) {
+      changes.push(`Functionality map: ${before} -> ${map.features.length} features`);
+    }
+  }
+
+  const coverage = await loadTestCoverageMap(projectDir, ignore);
+  const coverageBefore = state.currentCoverage;
+  if (coverage) {
+    state.testCoverageMap = coverage;
+    updateCoverageMetrics(state, coverage.overallCoverage.lineCoverage);
+  }
+  const measured =
+    session?.agentType === 'coverage'
+      ? await applyCoverageReports(workingDir, state, await findCoverageReports(workingDir, new Date(session.startedAt)))
+      : undefined;
+  if (measured) {
+    await saveTestCoverageMap(projectDir, measured);
+  }
+  if ((coverage || measured) && coverageBefore !== state.currentCoverage) {
+    changes.push(`Coverage: ${coverageBefore}% -> ${state.currentCoverage}%`);
+  }
+
+  const enhancementPlan = await loadEnhancementPlan(projectDir, ignore);
+  if (enhancementPlan) {
+    const countCompleted = (plan?: EnhancementPlan) =>
+      plan?.enhancements.filter((e) => e.status === 'completed').length ?? 0;
+    const before = countCompleted(state.enhancementPlan);
+    const after = countCompleted(enhancementPlan);
+    state.enhancementPlan = enhancementPlan;
+    if (before !== after) {
+      changes.push(
+        `Enhancements completed: ${before} -> ${after}/${enhancementPlan.enhancements.length}`
+      );
+    }
+  }
+
+  const migrationPlan = await loadMigrationPlan(projectDir, ignore);
+  if (migrationPlan) {
+    const before = state.featuresMigrated;
+    const total = migrationPlan.featureMigration.length;
+    const migrated = migrationPlan.featureMigration.filter(
+      (f) => f.status === 'completed' || f.status === 'validated'
+    ).length;
+    state.migrationPlan = migrationPlan;
+    if (!state.sourceStack) {
+      state.sourceStack = migrationPlan.source;
+    }
+    updateMigrationProgress(state, migrated, total);
+    if (before !== migrated) {
+      changes.push(`Features migrated: ${before} -> ${migrated}/${total}`);
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Initialize a new modernization project
  */
@@ -405,8 +540,35 @@ export async function initializeProject(
 export async function runOrchestrator(
   config: AgentConfig
 ): Promise<SessionResult> {
+  const lock = await acquireLock(config.projectDir, `${config.mode} session`);
+  if (!lock.acquired) {
+    return {
+      shouldContinue: false,
+      error: describeLockHolder(lock.holder),
+    };
+  }
+
+  try {
+    return await runSession(config);
+  } finally {
+    await releaseLock(config.projectDir);
+  }
+}
+
+/**
+ * Run one session while holding the project lock
+ */
+async function runSession(config: AgentConfig): Promise<SessionResult> {
   const { projectDir, mode } = config;
 
+  // A cap that is already used up starts nothing; the runner enforces the rest
+  if (isBudgetExhausted(config.budget, createEmptyUsage())) {
+    return {
+      shouldContinue: false,
+      error: 'Budget exhausted',
+    };
+  }
+
   // Check if initialized
   const initialized = await isInitialized(projectDir);
   if (!initialized) {
@@ -442,31 +604,78 @@ export async function runOrchestrator(
     };
   }
 
-  // Determine next agent
-  const nextAgent = determineNextAgent(state, mode);
+  // Determine next agent (a refresh always reruns discovery)
+  const nextAgent = config.refresh ? 'discovery' : determineNextAgent(state, mode);
 
   // Create session summary
   const sessionNumber = state.sessionNumber + 1;
-  const summary = createSessionSummary(sessionNumber, nextAgent);
+  const summary = createSessionSummary(sessionNumber, nextAgent, mode);
+
+  const operations: string[] = [];
+  const artifacts: string[] = [];
+
+  // Copy the artifacts before the session changes them, so agent sessions
+  // can be rolled back
+  if (nextAgent !== 'discovery') {
+    try {
+      await saveArtifactCheckpoint(projectDir, sessionNumber);
+    } catch (error) {
+      operations.push(`Checkpoint failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
   // Update state
   state.sessionNumber = sessionNumber;
   await saveState(projectDir, state);
 
-  const operations: string[] = [];
-  const artifacts: string[] = [];
+  // Kept to diff against the artifacts the session leaves behind
+  const before = await captureArtifacts(projectDir);
 
   // Execute agent based on type
   if (nextAgent === 'discovery') {
     // Run the discovery process
-    const map = await runDiscovery(projectDir, (msg) => {
-      operations.push(msg);
-    });
+    const previous = before.functionalityMap ?? state.functionalityMap;
+    const nextActions = ['Review functionality map', 'Run coverage analysis'];
+    let map: FunctionalityMap;
+    let cache: DiscoveryCache;
+
+    if (config.refresh) {
+      // Rescan only changed files and merge into the existing map
+      const refreshed = await refreshDiscovery(
+        projectDir,
+        previous ?? null,
+        await loadDiscoveryCache(projectDir),
+        (msg) => {
+          operations.push(msg);
+        }
+      );
+      map = refreshed.map;
+      cache = refreshed.cache;
+
+      const { changedFiles, removedFiles, featuresWithMissingFiles } = refreshed.refresh;
+      operations.push(`Rescanned ${changedFiles.length} changed files, ${removedFiles.length} removed`);
+      if (featuresWithMissingFiles.length > 0) {
+        nextActions.unshift(`Review ${featuresWithMissingFiles.length} features whose source files disappeared`);
+      }
+    } else {
+      map = await runDiscovery(
+        projectDir,
+        (msg) => {
+          operations.push(msg);
+        },
+        previous
+      );
+      cache = await buildDiscoveryCache(projectDir, map.discoveredAt);
+    }
 
     // Save the functionality map
     await saveFunctionalityMap(projectDir, map);
     artifacts.push('.modernization/functionality_map.json');
 
+    // Cache the source files the map was built from, so a refresh rescans only changes
+    await saveDiscoveryCache(projectDir, cache);
+    artifacts.push('.modernization/discovery_cache.json');
+
     // Update state
     state.functionalityMap = map;
     state.featuresTotal = map.features.length;
@@ -478,9 +687,10 @@ export async function runOrchestrator(
       summary,
       operations,
       artifacts,
-      ['Review functionality map', 'Run coverage analysis'],
+      nextActions,
       []
     );
+    await recordArtifactDiff(projectDir, summary, before);
     addSessionSummary(state, summary);
     await saveState(projectDir, state);
 
@@ -494,29 +704,231 @@ export async function runOrchestrator(
   // First check authentication
   const auth = checkAuthentication();
   if (!auth.authenticated) {
+    completeSessionSummary(summary, operations, [], [], [auth.error ?? 'Authentication required']);
+    addSessionSummary(state, summary);
+    await saveState(projectDir, state);
+
     return {
       shouldContinue: false,
       error: auth.error,
     };
   }
 
+  // Optionally run the agent in a worktree instead of the user's checkout
+  let worktree: SessionWorktree | undefined;
+  if (config.worktree) {
+    try {
+      worktree = await prepareWorktree(projectDir, mode, config.worktree, sessionNumber, state.activeWorktree);
+      state.activeWorktree = worktree;
+      operations.push(`Worktree: ${worktree.branch} (${relative(projectDir, worktree.path)})`);
+    } catch (error) {
+      const message = `Failed to prepare worktree: ${error instanceof Error ? error.message : String(error)}`;
+      completeSessionSummary(summary, operations, [], [], [message]);
+      addSessionSummary(state, summary);
+      await saveState(projectDir, state);
+
+      return {
+        shouldContinue: false,
+        error: message,
+      };
+    }
+  }
+
+  // Checkpoint the tree the agent works in, which is the worktree when it has one
+  try {
+    const checkpoint = await createCheckpoint(projectDir, sessionNumber, worktree);
+    if (checkpoint) {
+      summary.checkpoint = checkpoint;
+      operations.push(`Checkpoint: ${checkpoint.ref}`);
+    }
+  } catch (error) {
+    operations.push(`Checkpoint failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
   // Run the agent session
-  const result = await runAgentSession(nextAgent, state, config, (msg) => {
-    operations.push(msg);
-  });
+  const result = await runAgentSession(
+    nextAgent,
+    state,
+    { ...config, workingDir: worktree?.path },
+    (msg) => {
+      operations.push(msg);
+    }
+  );
+
+  const nextActions = result.shouldContinue ? ['Continue with next agent'] : [];
+  if (worktree) {
+    try {
+      const commit = await commitWorktree(worktree, `modernize: ${nextAgent} session ${sessionNumber}`);
+      if (commit) {
+        operations.push(`Committed ${commit.slice(0, 8)} on ${worktree.branch}`);
+      }
+    } catch (error) {
+      operations.push(`Worktree commit failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (nextAgent === 'validation' && !result.error) {
+      worktree.validatedAt = new Date().toISOString();
+      nextActions.push(`Merge ${worktree.branch} with \`modernize merge\` or export it with \`modernize merge --patch <file>\``);
+    }
+    summary.worktree = { ...worktree };
+  }
+
+  // Pull agent-written artifacts back into state
+  const changes = await reconcileArtifacts(projectDir, state, summary, worktree?.path);
+  for (const change of changes) {
+    operations.push(change);
+  }
+
+  // Sandbox violations surface as session errors
+  const commandDecisions = result.commandDecisions || [];
+  const pathViolations = commandDecisions
+    .filter((d) => d.tool !== 'Bash' && d.decision === 'denied')
+    .map((d) => `${d.tool} denied: ${d.reason}`);
 
   // Complete session
   completeSessionSummary(
     summary,
     operations,
     result.artifactsCreated || [],
-    result.shouldContinue ? ['Continue with next agent'] : [],
-    result.error ? [result.error] : []
+    nextActions,
+    [...(result.error ? [result.error] : []), ...pathViolations]
   );
+  summary.commandDecisions = commandDecisions;
+  summary.usage = result.usage;
+  summary.transcript = result.transcript;
+  await recordArtifactDiff(projectDir, summary, before);
   addSessionSummary(state, summary);
   await saveState(projectDir, state);
 
-  return result;
+  return worktree ? { ...result, worktree } : result;
+}
+
+/**
+ * Snapshot the artifacts after a session and record what it changed
+ */
+async function recordArtifactDiff(
+  projectDir: string,
+  summary: SessionSummary,
+  before: ArtifactSnapshot
+): Promise<void> {
+  const after = await captureArtifacts(projectDir);
+  summary.artifactDiff = diffArtifacts(before, after);
+  await saveSessionSnapshot(projectDir, { sessionNumber: summary.sessionNumber, before, after });
+}
+
+/**
+ * Check if spend has reached either cap of a budget
+ */
+export function isBudgetExhausted(budget: Budget | undefined, spent: SessionUsage): boolean {
+  if (!budget) return false;
+  if (budget.maxCostUsd !== undefined && spent.costUsd >= budget.maxCostUsd) return true;
+  if (budget.maxTokens !== undefined && getTotalTokens(spent) >= budget.maxTokens) return true;
+  return false;
+}
+
+/**
+ * Subtract spend from a budget, leaving what the next session may use
+ */
+function getRemainingBudget(budget: Budget | undefined, spent: SessionUsage): Budget | undefined {
+  if (!budget) return undefined;
+  return {
+    maxCostUsd: budget.maxCostUsd !== undefined ? budget.maxCostUsd - spent.costUsd : undefined,
+    maxTokens: budget.maxTokens !== undefined ? budget.maxTokens - getTotalTokens(spent) : undefined,
+  };
+}
+
+/**
+ * Run sessions back to back until the mode completes or a stop condition
+ * is reached. Limits are read from config.maxIterations, config.untilComplete
+ * and config.maxDurationMinutes; the duration is checked between sessions.
+ */
+export async function runOrchestratorLoop(
+  config: AgentConfig,
+  onIteration?: (iteration: number, agent: AgentType, result: SessionResult) => void
+): Promise<LoopResult> {
+  const { projectDir, mode } = config;
+  const results: SessionResult[] = [];
+
+  const lock = await acquireLock(projectDir, `${mode} loop`);
+  if (!lock.acquired) {
+    return { iterations: 0, stopReason: 'error', results, error: describeLockHolder(lock.holder) };
+  }
+
+  const maxIterations = config.maxIterations ?? (config.untilComplete ? Infinity : 1);
+  const deadline = config.maxDurationMinutes
+    ? Date.now() + config.maxDurationMinutes * 60 * 1000
+    : Infinity;
+
+  const stop = (stopReason: LoopStopReason, error?: string): LoopResult => ({
+    iterations: results.length,
+    stopReason,
+    results,
+    error,
+  });
+
+  try {
+    let lastAgent: AgentType | undefined;
+    let consecutiveFailures = 0;
+
+    for (;;) {
+      if (!(await isInitialized(projectDir))) {
+        await initializeProject(projectDir, mode, {
+          targetStack: config.targetStack,
+          enhancementSpec: config.specFile,
+        });
+      }
+
+      const state = await loadState(projectDir);
+      if (!state) {
+        return stop('error', 'Failed to load project state');
+      }
+
+      if (getPendingApprovals(state).length > 0) {
+        return stop('approval_required');
+      }
+
+      // A clean validation pass (or nothing left to do) ends the mode
+      const lastResult = results[results.length - 1];
+      if (lastAgent === 'validation' && lastResult && !lastResult.error) {
+        return stop('complete');
+      }
+      const nextAgent = determineNextAgent(state, mode);
+      if (nextAgent === 'orchestrator') {
+        return stop('complete');
+      }
+
+      if (results.length >= maxIterations) {
+        return stop('max_iterations');
+      }
+      if (Date.now() >= deadline) {
+        return stop('max_duration');
+      }
+
+      const spent = results.reduce(
+        (total, r) => (r.usage ? addUsage(total, r.usage) : total),
+        createEmptyUsage()
+      );
+      if (isBudgetExhausted(config.budget, spent)) {
+        return stop('budget');
+      }
+
+      const result = await runSession({ ...config, budget: getRemainingBudget(config.budget, spent) });
+      results.push(result);
+      lastAgent = nextAgent;
+      onIteration?.(results.length, nextAgent, result);
+
+      if (result.error) {
+        consecutiveFailures++;
+        if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+          return stop('repeated_failure', result.error);
+        }
+      } else {
+        consecutiveFailures = 0;
+      }
+    }
+  } finally {
+    await releaseLock(projectDir);
+  }
 }
 
 /**
@@ -559,7 +971,10 @@ export const orchestrator = {
   calculateProgress,
   generateStatusReport,
   buildAgentContext,
+  reconcileArtifacts,
   initializeProject,
   runOrchestrator,
+  runOrchestratorLoop,
+  isBudgetExhausted,
   completeSession,
 };
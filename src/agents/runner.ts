@@ -5,11 +5,40 @@
  * Supports both OAuth token and API key authentication.
  */
 
-import { query, type Options as SDKOptions } from '@anthropic-ai/claude-agent-sdk';
-import type { AgentType, AgentConfig, SessionResult } from '../types.js';
+import {
+  query,
+  type Options as SDKOptions,
+  type HookCallback,
+  type HookJSONOutput,
+} from '@anthropic-ai/claude-agent-sdk';
+import type {
+  AgentType,
+  AgentConfig,
+  SessionResult,
+  CommandDecision,
+  SecurityConfig,
+  SessionUsage,
+  SessionTranscript,
+} from '../types.js';
 import { getPromptForAgent } from '../prompts/index.js';
 import { buildAgentContext } from './orchestrator.js';
 import type { ModernizationState } from '../types.js';
+import {
+  getSecurityConfigForMode,
+  validateCommand,
+  validatePathAccess,
+  sanitizeOutput,
+  sanitizeValue,
+} from '../security.js';
+import {
+  addApprovalRequest,
+  saveSessionTranscript,
+  getSessionTranscriptPath,
+  addUsage,
+  createEmptyUsage,
+  getTotalTokens,
+} from '../state.js';
+import { relative } from 'node:path';
 
 /**
  * Check if authentication is configured
@@ -90,19 +119,228 @@ You validate changes by running tests, comparing behaviors, and ensuring no regr
   return basePrompt + (agentSpecificPrompts[agentType] || '');
 }
 
+/**
+ * Evaluate a Bash command against the mode's security config.
+ * Commands that require approval are held back until a matching request is approved.
+ */
+export function evaluateBashCommand(
+  command: string,
+  state: ModernizationState,
+  securityConfig: SecurityConfig
+): CommandDecision {
+  const decidedAt = new Date().toISOString();
+  const validation = validateCommand(command, securityConfig);
+
+  if (!validation.allowed) {
+    return {
+      tool: 'Bash',
+      command,
+      decision: 'denied',
+      reason: validation.reason,
+      decidedAt,
+    };
+  }
+
+  if (!validation.requiresApproval) {
+    return { tool: 'Bash', command, decision: 'allowed', decidedAt };
+  }
+
+  // Reuse an existing request for the same command rather than queueing duplicates
+  const existing = state.pendingApprovals.find((r) => r.operation === command);
+
+  if (existing?.status === 'approved') {
+    return {
+      tool: 'Bash',
+      command,
+      decision: 'allowed',
+      reason: `Approved by ${existing.approvedBy || 'user'}`,
+      approvalId: existing.id,
+      decidedAt,
+    };
+  }
+
+  if (existing?.status === 'rejected') {
+    return {
+      tool: 'Bash',
+      command,
+      decision: 'denied',
+      reason: `Approval rejected: ${existing.id}`,
+      approvalId: existing.id,
+      decidedAt,
+    };
+  }
+
+  const approvalId =
+    existing?.id ??
+    addApprovalRequest(state, {
+      operation: command,
+      riskLevel: 'medium',
+      description: validation.reason || `Command requires approval: ${command}`,
+    });
+
+  return {
+    tool: 'Bash',
+    command,
+    decision: 'approval_required',
+    reason: validation.reason,
+    approvalId,
+    decidedAt,
+  };
+}
+
+/**
+ * File tools whose path arguments are sandboxed to the project
+ */
+const PATH_TOOLS = ['Read', 'Write', 'Edit', 'Glob', 'Grep'];
+const WRITE_TOOLS = ['Write', 'Edit'];
+
+/**
+ * Extract the path arguments a file tool will touch
+ */
+function getToolPaths(toolName: string, input: Record<string, unknown>): string[] {
+  const paths: string[] = [];
+
+  for (const key of ['file_path', 'path']) {
+    const value = input[key];
+    if (typeof value === 'string' && value) {
+      paths.push(value);
+    }
+  }
+
+  // Glob patterns can point outside the project on their own
+  if (toolName === 'Glob' && typeof input.pattern === 'string') {
+    paths.push(input.pattern);
+  }
+
+  return paths;
+}
+
+/**
+ * Evaluate a file tool call against the project sandbox.
+ * Returns null when every path is allowed.
+ */
+export function evaluatePathAccess(
+  toolName: string,
+  input: Record<string, unknown>,
+  projectDir: string,
+  securityConfig: SecurityConfig
+): CommandDecision | null {
+  const access = WRITE_TOOLS.includes(toolName) ? 'write' : 'read';
+
+  for (const path of getToolPaths(toolName, input)) {
+    const validation = validatePathAccess(path, projectDir, access, securityConfig);
+    if (!validation.allowed) {
+      return {
+        tool: toolName,
+        command: path,
+        decision: 'denied',
+        reason: validation.reason,
+        decidedAt: new Date().toISOString(),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create PreToolUse hooks that enforce the security config on every Bash call
+ * and sandbox file tool paths to the project (or to sandboxDir, e.g. a worktree)
+ */
+export function createSecurityHooks(
+  state: ModernizationState,
+  securityConfig: SecurityConfig,
+  decisions: CommandDecision[],
+  onDecision?: (decision: CommandDecision) => void,
+  sandboxDir: string = state.projectPath
+): NonNullable<SDKOptions['hooks']> {
+  const bashGuard: HookCallback = async (input): Promise<HookJSONOutput> => {
+    if (input.hook_event_name !== 'PreToolUse') {
+      return {};
+    }
+
+    const toolInput = input.tool_input as { command?: unknown } | undefined;
+    const command = typeof toolInput?.command === 'string' ? toolInput.command : '';
+
+    const decision = evaluateBashCommand(command, state, securityConfig);
+    decisions.push(decision);
+    onDecision?.(decision);
+
+    if (decision.decision === 'allowed') {
+      // Defer to allowedTools so the SDK's own checks still apply
+      return {};
+    }
+
+    const reason =
+      decision.decision === 'approval_required'
+        ? `${decision.reason}. Queued as ${decision.approvalId}; skip this step until it is approved.`
+        : decision.reason || 'Command blocked by security policy';
+
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: reason,
+      },
+    };
+  };
+
+  const pathGuard: HookCallback = async (input): Promise<HookJSONOutput> => {
+    if (input.hook_event_name !== 'PreToolUse') {
+      return {};
+    }
+
+    const toolInput = (input.tool_input ?? {}) as Record<string, unknown>;
+    const decision = evaluatePathAccess(
+      input.tool_name,
+      toolInput,
+      sandboxDir,
+      securityConfig
+    );
+
+    // Only violations are recorded; allowed reads would drown out the log
+    if (!decision) {
+      return {};
+    }
+
+    decisions.push(decision);
+    onDecision?.(decision);
+
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: decision.reason || 'Path blocked by security policy',
+      },
+    };
+  };
+
+  return {
+    PreToolUse: [
+      { matcher: 'Bash', hooks: [bashGuard] },
+      { matcher: PATH_TOOLS.join('|'), hooks: [pathGuard] },
+    ],
+  };
+}
+
 /**
  * Create SDK options for running an agent
  */
 function createAgentOptions(
   agentType: AgentType,
   projectDir: string,
-  model: string
+  model: string,
+  hooks?: SDKOptions['hooks'],
+  maxBudgetUsd?: number,
+  abortController?: AbortController
 ): SDKOptions {
   return {
     model,
     systemPrompt: getSystemPrompt(agentType),
     cwd: projectDir,
     maxTurns: 500,
+    maxBudgetUsd,
+    abortController,
     allowedTools: [
       'Read',
       'Write',
@@ -115,6 +353,7 @@ function createAgentOptions(
       'TodoWrite',
     ],
     permissionMode: 'acceptEdits',
+    hooks,
   };
 }
 
@@ -128,10 +367,49 @@ interface AgentMessage {
   errors?: string[];
   content?: string;
   tool?: string;
+  num_turns?: number;
+  total_cost_usd?: number;
+  message?: { id?: string; content?: unknown; usage?: AgentMessage['usage'] };
+  usage?: {
+    input_tokens?: number | null;
+    output_tokens?: number | null;
+    cache_read_input_tokens?: number | null;
+    cache_creation_input_tokens?: number | null;
+  };
+}
+
+/**
+ * Extract token and cost usage from a result message
+ */
+function getUsageFromResult(msg: AgentMessage): SessionUsage {
+  return {
+    inputTokens: msg.usage?.input_tokens ?? 0,
+    outputTokens: msg.usage?.output_tokens ?? 0,
+    cacheReadInputTokens: msg.usage?.cache_read_input_tokens ?? 0,
+    cacheCreationInputTokens: msg.usage?.cache_creation_input_tokens ?? 0,
+    turns: msg.num_turns ?? 0,
+    costUsd: msg.total_cost_usd ?? 0,
+  };
 }
 
 /**
- * Run an agent session using the Claude Agent SDK
+ * Extract the token usage of one model response from an assistant message
+ */
+function getUsageFromAssistant(msg: AgentMessage): SessionUsage {
+  return {
+    ...createEmptyUsage(),
+    inputTokens: msg.message?.usage?.input_tokens ?? 0,
+    outputTokens: msg.message?.usage?.output_tokens ?? 0,
+    cacheReadInputTokens: msg.message?.usage?.cache_read_input_tokens ?? 0,
+    cacheCreationInputTokens: msg.message?.usage?.cache_creation_input_tokens ?? 0,
+  };
+}
+
+/**
+ * Run an agent session using the Claude Agent SDK. A cost cap is passed to
+ * the SDK; a token cap is enforced here, aborting the session once the
+ * responses received so far use it up. Each response is counted once, and
+ * sessions that fail or end without a result report what they used.
  */
 export async function runAgentSession(
   agentType: AgentType,
@@ -164,18 +442,66 @@ export async function runAgentSession(
   const model = getModelForAgentType(agentType, config.model);
   log(`Using model: ${model}`);
 
+  // Agents in a worktree are sandboxed to it rather than the user's checkout
+  const workingDir = config.workingDir ?? config.projectDir;
+
+  // Enforce the mode's security config on every Bash call
+  const commandDecisions: CommandDecision[] = [];
+  const hooks = createSecurityHooks(
+    state,
+    getSecurityConfigForMode(state.mode),
+    commandDecisions,
+    (decision) => {
+      if (decision.decision !== 'allowed') {
+        log(`${decision.tool} ${decision.decision}: ${decision.command} (${decision.reason})`);
+      }
+    },
+    workingDir
+  );
+
   // Create options
-  const options = createAgentOptions(agentType, config.projectDir, model);
+  const abortController = new AbortController();
+  const options = createAgentOptions(
+    agentType,
+    workingDir,
+    model,
+    hooks,
+    config.budget?.maxCostUsd,
+    abortController
+  );
+  const maxTokens = config.budget?.maxTokens;
+  let spent = createEmptyUsage();
+  // One API message arrives as several assistant messages sharing its id and usage
+  const countedMessages = new Set<string>();
 
   const operations: string[] = [];
   const artifacts: string[] = [];
   const errors: string[] = [];
 
+  // Every SDK message is kept, redacted, in sessions/session_NNN.json
+  const transcript: SessionTranscript = {
+    sessionNumber: state.sessionNumber,
+    agentType,
+    mode: state.mode,
+    model,
+    startedAt: new Date().toISOString(),
+    prompt: sanitizeOutput(fullPrompt),
+    messages: [],
+  };
+  const transcriptFile = relative(
+    config.projectDir,
+    getSessionTranscriptPath(config.projectDir, state.sessionNumber)
+  );
+
   try {
     log('Running agent...');
 
     for await (const message of query({ prompt: fullPrompt, options })) {
       const msg = message as AgentMessage;
+      transcript.messages.push({
+        receivedAt: new Date().toISOString(),
+        message: sanitizeValue(message) as Record<string, unknown>,
+      });
 
       // Process different message types
       switch (msg.type) {
@@ -183,6 +509,27 @@ export async function runAgentSession(
           if (msg.content) {
             log(`Agent: ${msg.content.substring(0, 100)}...`);
           }
+          if (msg.message?.id !== undefined) {
+            if (countedMessages.has(msg.message.id)) {
+              break;
+            }
+            countedMessages.add(msg.message.id);
+          }
+          spent = addUsage(spent, getUsageFromAssistant(msg));
+          if (maxTokens !== undefined && getTotalTokens(spent) >= maxTokens) {
+            abortController.abort();
+            const errorMsg = `Token budget of ${maxTokens} exhausted after ${getTotalTokens(spent)} tokens`;
+            errors.push(errorMsg);
+            log(errorMsg);
+            return {
+              shouldContinue: false,
+              error: errorMsg,
+              artifactsModified: artifacts,
+              commandDecisions,
+              usage: spent,
+              transcript: transcriptFile,
+            };
+          }
           break;
 
         case 'tool_progress':
@@ -192,28 +539,42 @@ export async function runAgentSession(
           }
           break;
 
-        case 'result':
+        case 'result': {
+          const usage = getUsageFromResult(msg);
+          log(`Usage: ${usage.inputTokens + usage.outputTokens} tokens, $${usage.costUsd.toFixed(4)}`);
+
           if (msg.is_error) {
-            const errorMsg = msg.errors?.join(', ') || 'Unknown error';
+            const errorMsg = msg.errors?.join(', ') || msg.subtype || 'Unknown error';
             errors.push(errorMsg);
             log(`Error: ${errorMsg}`);
             return {
               shouldContinue: false,
               error: errorMsg,
               artifactsModified: artifacts,
+              commandDecisions,
+              usage,
+              transcript: transcriptFile,
             };
           }
           log('Agent session completed successfully');
           return {
             shouldContinue: true,
             artifactsCreated: artifacts,
+            commandDecisions,
+            usage,
+            transcript: transcriptFile,
           };
+        }
       }
     }
 
+    // Without a result message, the responses received are all that was spent
     return {
       shouldContinue: true,
       artifactsCreated: artifacts,
+      commandDecisions,
+      usage: spent,
+      transcript: transcriptFile,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -221,7 +582,17 @@ export async function runAgentSession(
     return {
       shouldContinue: false,
       error: errorMessage,
+      commandDecisions,
+      usage: spent,
+      transcript: transcriptFile,
     };
+  } finally {
+    transcript.completedAt = new Date().toISOString();
+    try {
+      await saveSessionTranscript(config.projectDir, state.sessionNumber, transcript);
+    } catch (error) {
+      log(`Failed to save transcript: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 }
 
@@ -233,5 +604,8 @@ export const runner = {
   getModelForAgentType,
   getSystemPrompt,
   createAgentOptions,
+  evaluateBashCommand,
+  evaluatePathAccess,
+  createSecurityHooks,
   runAgentSession,
 };
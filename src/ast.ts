@@ -0,0 +1,242 @@
+/**
+ * TypeScript Source Parsing
+ *
+ * Parses TypeScript and JavaScript modules with the compiler API to find
+ * functions, classes, exported symbols, line ranges and cyclomatic complexity,
+ * and reads string literals, callee names and decorators for route and
+ * database schema extraction
+ */
+
+import ts from 'typescript';
+import { extname } from 'node:path';
+import type { ModuleAnalysis } from './types.js';
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+};
+
+/**
+ * Check if a file can be parsed as TypeScript or JavaScript
+ */
+export function isParsableSource(file: string): boolean {
+  return extname(file).toLowerCase() in SCRIPT_KINDS;
+}
+
+/**
+ * Parse a file into a syntax tree, picking the dialect from its extension
+ */
+export function parseSourceFile(file: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(
+    file,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    SCRIPT_KINDS[extname(file).toLowerCase()] ?? ts.ScriptKind.TS
+  );
+}
+
+/**
+ * Get the 1-based line of a position
+ */
+export function lineOf(sourceFile: ts.SourceFile, pos: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+}
+
+/**
+ * Get the text of a string literal, or undefined for anything else
+ */
+export function getString(node: ts.Node | undefined): string | undefined {
+  return node && ts.isStringLiteralLike(node) ? node.text : undefined;
+}
+
+/**
+ * Get the name of an identifier, property access or call, e.g. `passport.authenticate`
+ */
+export function getCalleeName(node: ts.Expression): string {
+  return ts.isCallExpression(node) ? getCalleeName(node.expression) : node.getText();
+}
+
+/**
+ * Get the decorators of a node as name and arguments
+ */
+export function getDecorators(node: ts.Node): { name: string; args: readonly ts.Expression[] }[] {
+  const decorators = ts.canHaveDecorators(node) ? (ts.getDecorators(node) ?? []) : [];
+  return decorators.map((d) =>
+    ts.isCallExpression(d.expression)
+      ? { name: getCalleeName(d.expression.expression), args: d.expression.arguments }
+      : { name: d.expression.getText(), args: [] }
+  );
+}
+
+/**
+ * Check if a node adds a path through the code
+ */
+function isDecisionPoint(node: ts.Node): boolean {
+  switch (node.kind) {
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.CaseClause:
+    case ts.SyntaxKind.CatchClause:
+      return true;
+    case ts.SyntaxKind.BinaryExpression: {
+      const operator = (node as ts.BinaryExpression).operatorToken.kind;
+      return (
+        operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+        operator === ts.SyntaxKind.BarBarToken ||
+        operator === ts.SyntaxKind.QuestionQuestionToken ||
+        operator === ts.SyntaxKind.AmpersandAmpersandEqualsToken ||
+        operator === ts.SyntaxKind.BarBarEqualsToken ||
+        operator === ts.SyntaxKind.QuestionQuestionEqualsToken
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get the name of a function-like node, or undefined for anonymous callbacks
+ */
+function getFunctionName(node: ts.Node, className: string | undefined): string | undefined {
+  const member = (name: string) => (className ? `${className}.${name}` : name);
+
+  if (ts.isFunctionDeclaration(node)) {
+    return node.name?.text ?? (className ? undefined : 'default');
+  }
+  if (ts.isConstructorDeclaration(node)) {
+    return member('constructor');
+  }
+  if (ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+    return member(node.name.getText());
+  }
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    const parent = node.parent;
+    if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+    if (ts.isPropertyDeclaration(parent) && className) {
+      return member(parent.name.getText());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the names bound by a variable declaration, including destructured ones
+ */
+function getBindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) {
+    return [name.text];
+  }
+  return name.elements.flatMap((element) =>
+    ts.isOmittedExpression(element) ? [] : getBindingNames(element.name)
+  );
+}
+
+/**
+ * Get the symbols a top-level statement exports, including CommonJS assignments
+ */
+function getExports(statement: ts.Statement): string[] {
+  if (ts.isExportAssignment(statement)) {
+    return ['default'];
+  }
+
+  if (ts.isExportDeclaration(statement)) {
+    const clause = statement.exportClause;
+    if (!clause) return [];
+    return ts.isNamedExports(clause) ? clause.elements.map((e) => e.name.text) : [clause.name.text];
+  }
+
+  if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)) {
+    const { left, operatorToken } = statement.expression;
+    if (operatorToken.kind !== ts.SyntaxKind.EqualsToken || !ts.isPropertyAccessExpression(left)) {
+      return [];
+    }
+    const target = left.expression.getText();
+    if (target === 'module' && left.name.text === 'exports') return ['default'];
+    if (target === 'exports' || target === 'module.exports') return [left.name.text];
+    return [];
+  }
+
+  const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+  if (!modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+    return [];
+  }
+  if (modifiers.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)) {
+    return ['default'];
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap((d) => getBindingNames(d.name));
+  }
+  if (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isModuleDeclaration(statement)
+  ) {
+    return statement.name ? [statement.name.getText()] : [];
+  }
+  return [];
+}
+
+/**
+ * Parse a TypeScript or JavaScript module. Every named function starts at a
+ * complexity of one plus its decision points; anonymous callbacks count
+ * toward the function they are written in.
+ */
+export function analyzeModule(file: string, content: string): ModuleAnalysis {
+  const sourceFile = parseSourceFile(file, content);
+
+  const functions: string[] = [];
+  const classes: string[] = [];
+  let cyclomaticComplexity = 0;
+
+  const visit = (node: ts.Node, className: string | undefined): void => {
+    if (isDecisionPoint(node)) {
+      cyclomaticComplexity++;
+    }
+
+    let scope = className;
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+      scope = node.name?.text ?? (ts.isVariableDeclaration(node.parent) ? node.parent.name.getText() : undefined);
+      if (scope) classes.push(scope);
+    } else if (ts.isFunctionLike(node)) {
+      const name = getFunctionName(node, className);
+      if (name) {
+        functions.push(name);
+        cyclomaticComplexity++;
+      }
+    }
+
+    ts.forEachChild(node, (child) => visit(child, scope));
+  };
+  visit(sourceFile, undefined);
+
+  const statements = sourceFile.statements;
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+
+  return {
+    file,
+    lines: first && last ? [lineOf(sourceFile, first.getStart(sourceFile)), lineOf(sourceFile, last.end)] : [1, 1],
+    functions: [...new Set(functions)],
+    classes: [...new Set(classes)],
+    exports: [...new Set(statements.flatMap(getExports))],
+    // Code outside any function still has one path through it
+    cyclomaticComplexity: Math.max(cyclomaticComplexity, 1),
+  };
+}
@@ -5,36 +5,74 @@
  *
  * Usage:
  *   modernize discover [project-path]     - Analyze and document codebase functionality
+ *   modernize discover --refresh          - Rescan changed files into the existing map
  *   modernize coverage [project-path]     - Analyze and improve test coverage
  *   modernize enhance [project-path]      - Apply enhancements from spec file
  *   modernize migrate [project-path]      - Migrate to target tech stack
  *   modernize status [project-path]       - Show current modernization status
  *   modernize approve <approval-id>       - Approve a pending operation
  *   modernize reject <approval-id>        - Reject a pending operation
+ *   modernize transcript <session>        - Show an agent session transcript
+ *   modernize diff <session> [session]    - Show artifact changes across sessions
+ *   modernize graph [project-path]        - Export the feature dependency graph
+ *   modernize rollback [session]          - Restore the project to before a session
+ *   modernize merge [project-path]        - Merge or export the agents' worktree branch
+ *   modernize validate-artifacts [path]   - Validate .modernization JSON artifacts
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { resolve } from 'node:path';
-import { readFile } from 'node:fs/promises';
+import { readFile, writeFile } from 'node:fs/promises';
 
-import type { OperationMode, AgentConfig } from './types.js';
+import type {
+  OperationMode,
+  AgentConfig,
+  LoopResult,
+  Budget,
+  ReportFormat,
+  GraphFormat,
+  TranscriptEntryKind,
+  WorktreeScope,
+} from './types.js';
 import {
   loadState,
   saveState,
   isInitialized,
   getPendingApprovals,
   resolveApproval,
+  checkArtifact,
+  repairArtifactFile,
+  quarantineArtifact,
+  acquireLock,
+  releaseLock,
+  readLock,
+  isLockStale,
+  describeLockHolder,
+  loadSessionTranscript,
+  loadSessionSnapshot,
+  loadFunctionalityMap,
 } from './state.js';
+import { ARTIFACT_KINDS, formatSchemaIssues } from './schema.js';
+import { REPORT_FORMATS, buildReport, renderReport } from './report.js';
+import { GRAPH_FORMATS, exportDependencyGraph } from './imports.js';
+import {
+  TRANSCRIPT_ENTRY_KINDS,
+  getTranscriptEntries,
+  filterTranscriptEntries,
+} from './transcript.js';
+import { diffArtifacts, renderArtifactDiff } from './diff.js';
 import {
   runOrchestrator,
+  runOrchestratorLoop,
   generateStatusReport,
   determineNextAgent,
   getModelForAgent,
   initializeProject,
 } from './agents/orchestrator.js';
 import { checkAuthentication } from './agents/runner.js';
+import { rollbackToSession, mergeWorktree, exportWorktreePatch } from './git.js';
 
 const VERSION = '0.1.0';
 
@@ -71,9 +109,10 @@ function createProgram(): Command {
     .argument('[project-path]', 'Path to the project', '.')
     .option('-m, --model <model>', 'Model to use (opus, sonnet, haiku)', 'opus')
     .option('-v, --verbose', 'Enable verbose output')
+    .option('--refresh', 'Rescan only files changed since the last discovery and merge into the existing map')
     .option('--dry-run', 'Show what would be done without executing')
     .action(async (projectPath: string, options) => {
-      await runMode('discovery', projectPath, options);
+      await withLock(projectPath, 'discover', () => runMode('discovery', projectPath, options));
     });
 
   // Coverage command
@@ -84,12 +123,19 @@ function createProgram(): Command {
     .option('-t, --target <percent>', 'Target coverage percentage', '80')
     .option('-m, --model <model>', 'Model to use (opus, sonnet, haiku)', 'sonnet')
     .option('-v, --verbose', 'Enable verbose output')
+    .option('--max-iterations <n>', 'Run up to n sessions back to back')
+    .option('--until-complete', 'Keep running sessions until the mode is complete')
+    .option('--max-duration <minutes>', 'Stop starting new sessions after this many minutes')
+    .option('--budget <cap>', 'Spend cap for this run: dollars ($5, 5usd) or tokens (200000, 500k, 2m)')
+    .option('--worktree <scope>', 'Run agents in a git worktree per session or per mode (session, mode)')
     .option('--dry-run', 'Show what would be done without executing')
     .action(async (projectPath: string, options) => {
-      await runMode('coverage', projectPath, {
-        ...options,
-        coverageTarget: parseInt(options.target, 10),
-      });
+      await withLock(projectPath, 'coverage', () =>
+        runMode('coverage', projectPath, {
+          ...options,
+          coverageTarget: parseInt(options.target, 10),
+        })
+      );
     });
 
   // Enhance command
@@ -100,13 +146,18 @@ function createProgram(): Command {
     .option('-s, --spec <file>', 'Enhancement specification file')
     .option('-m, --model <model>', 'Model to use (opus, sonnet, haiku)', 'sonnet')
     .option('-v, --verbose', 'Enable verbose output')
+    .option('--max-iterations <n>', 'Run up to n sessions back to back')
+    .option('--until-complete', 'Keep running sessions until the mode is complete')
+    .option('--max-duration <minutes>', 'Stop starting new sessions after this many minutes')
+    .option('--budget <cap>', 'Spend cap for this run: dollars ($5, 5usd) or tokens (200000, 500k, 2m)')
+    .option('--worktree <scope>', 'Run agents in a git worktree per session or per mode (session, mode)')
     .option('--dry-run', 'Show what would be done without executing')
     .action(async (projectPath: string, options) => {
       if (!options.spec) {
         console.error(chalk.red('Error: Enhancement spec file is required (-s, --spec)'));
         process.exit(1);
       }
-      await runMode('enhancement', projectPath, options);
+      await withLock(projectPath, 'enhance', () => runMode('enhancement', projectPath, options));
     });
 
   // Migrate command
@@ -117,12 +168,19 @@ function createProgram(): Command {
     .requiredOption('-t, --target <stack>', 'Target stack (e.g., go:gin, typescript:express)')
     .option('-m, --model <model>', 'Model to use (opus, sonnet, haiku)', 'opus')
     .option('-v, --verbose', 'Enable verbose output')
+    .option('--max-iterations <n>', 'Run up to n sessions back to back')
+    .option('--until-complete', 'Keep running sessions until the mode is complete')
+    .option('--max-duration <minutes>', 'Stop starting new sessions after this many minutes')
+    .option('--budget <cap>', 'Spend cap for this run: dollars ($5, 5usd) or tokens (200000, 500k, 2m)')
+    .option('--worktree <scope>', 'Run agents in a git worktree per session or per mode (session, mode)')
     .option('--dry-run', 'Show what would be done without executing')
     .action(async (projectPath: string, options) => {
-      await runMode('migration', projectPath, {
-        ...options,
-        targetStack: options.target,
-      });
+      await withLock(projectPath, 'migrate', () =>
+        runMode('migration', projectPath, {
+          ...options,
+          targetStack: options.target,
+        })
+      );
     });
 
   // Status command
@@ -141,7 +199,7 @@ function createProgram(): Command {
     .argument('<approval-id>', 'ID of the approval request')
     .argument('[project-path]', 'Path to the project', '.')
     .action(async (approvalId: string, projectPath: string) => {
-      await handleApproval(approvalId, projectPath, true);
+      await withLock(projectPath, 'approve', () => handleApproval(approvalId, projectPath, true));
     });
 
   // Reject command
@@ -151,7 +209,7 @@ function createProgram(): Command {
     .argument('<approval-id>', 'ID of the approval request')
     .argument('[project-path]', 'Path to the project', '.')
     .action(async (approvalId: string, projectPath: string) => {
-      await handleApproval(approvalId, projectPath, false);
+      await withLock(projectPath, 'reject', () => handleApproval(approvalId, projectPath, false));
     });
 
   // Continue command
@@ -161,8 +219,13 @@ function createProgram(): Command {
     .argument('[project-path]', 'Path to the project', '.')
     .option('-m, --model <model>', 'Model to use (opus, sonnet, haiku)')
     .option('-v, --verbose', 'Enable verbose output')
+    .option('--max-iterations <n>', 'Run up to n sessions back to back')
+    .option('--until-complete', 'Keep running sessions until the mode is complete')
+    .option('--max-duration <minutes>', 'Stop starting new sessions after this many minutes')
+    .option('--budget <cap>', 'Spend cap for this run: dollars ($5, 5usd) or tokens (200000, 500k, 2m)')
+    .option('--worktree <scope>', 'Run agents in a git worktree per session or per mode (session, mode)')
     .action(async (projectPath: string, options) => {
-      await continueSession(projectPath, options);
+      await withLock(projectPath, 'continue', () => continueSession(projectPath, options));
     });
 
   // Report command
@@ -171,14 +234,128 @@ function createProgram(): Command {
     .description('Generate a detailed report')
     .argument('[project-path]', 'Path to the project', '.')
     .option('-o, --output <file>', 'Output file path')
-    .option('-f, --format <format>', 'Output format (markdown, json)', 'markdown')
+    .option('-f, --format <format>', 'Output format (markdown, json, html, junit)', 'markdown')
     .action(async (projectPath: string, options) => {
       await generateReport(projectPath, options);
     });
 
+  // Transcript command
+  program
+    .command('transcript')
+    .description('Show the transcript of an agent session')
+    .argument('<session>', 'Session number')
+    .argument('[project-path]', 'Path to the project', '.')
+    .option('-t, --type <kinds>', `Only show these entry kinds (comma-separated: ${TRANSCRIPT_ENTRY_KINDS.join(', ')})`)
+    .option('--tool <name>', 'Only show calls to and results from this tool')
+    .option('--json', 'Print the raw transcript JSON')
+    .action(async (session: string, projectPath: string, options) => {
+      await showTranscript(session, projectPath, options);
+    });
+
+  // Diff command
+  program
+    .command('diff')
+    .description('Show what sessions changed in the artifacts (features, coverage, statuses)')
+    .argument('<session-a>', 'First session')
+    .argument('[session-b]', 'Last session (defaults to the first)')
+    .argument('[project-path]', 'Path to the project', '.')
+    .option('--json', 'Print the diff as JSON')
+    .action(async (sessionA: string, sessionB: string | undefined, projectPath: string, options) => {
+      // `modernize diff 3 ./app` names a project, not a session
+      if (sessionB !== undefined && !/^\d+$/.test(sessionB) && projectPath === '.') {
+        projectPath = sessionB;
+        sessionB = undefined;
+      }
+      await showDiff(sessionA, sessionB ?? sessionA, projectPath, options);
+    });
+
+  // Graph command
+  program
+    .command('graph')
+    .description('Export the dependency graph found by discovery')
+    .argument('[project-path]', 'Path to the project', '.')
+    .option('-f, --format <format>', `Output format (${GRAPH_FORMATS.join(', ')})`, 'mermaid')
+    .option('--files', 'Graph imports between files instead of features')
+    .option('-o, --output <file>', 'Output file path')
+    .action(async (projectPath: string, options) => {
+      await exportGraph(projectPath, options);
+    });
+
+  // Rollback command
+  program
+    .command('rollback')
+    .description('Restore the working tree and state to the checkpoint taken before a session')
+    .argument('[session]', 'Session number (defaults to the last checkpointed session)')
+    .argument('[project-path]', 'Path to the project', '.')
+    .action(async (session: string | undefined, projectPath: string) => {
+      // `modernize rollback ./app` names a project, not a session
+      if (session !== undefined && !/^\d+$/.test(session) && projectPath === '.') {
+        projectPath = session;
+        session = undefined;
+      }
+      await withLock(projectPath, 'rollback', () => rollback(session, projectPath));
+    });
+
+  // Merge command
+  program
+    .command('merge')
+    .description('Merge the worktree branch agents ran on into the current branch')
+    .argument('[project-path]', 'Path to the project', '.')
+    .option('--patch <file>', 'Write the branch as a patch series instead of merging')
+    .option('--force', 'Merge even if validation has not passed')
+    .action(async (projectPath: string, options) => {
+      await withLock(projectPath, 'merge', () => mergeActiveWorktree(projectPath, options));
+    });
+
+  // Validate artifacts command
+  program
+    .command('validate-artifacts')
+    .description('Validate .modernization JSON artifacts against their schemas')
+    .argument('[project-path]', 'Path to the project', '.')
+    .option('--repair', 'Rewrite repairable artifacts (originals are quarantined)')
+    .option('--quarantine', 'Move unrepairable artifacts to .modernization/quarantine')
+    .action(async (projectPath: string, options) => {
+      if (options.repair || options.quarantine) {
+        await withLock(projectPath, 'validate-artifacts', () => validateArtifacts(projectPath, options));
+      } else {
+        await validateArtifacts(projectPath, options);
+      }
+    });
+
   return program;
 }
 
+/**
+ * Run a command while holding the project lock, exiting if another
+ * session already holds it
+ */
+async function withLock(
+  projectPath: string,
+  command: string,
+  fn: () => Promise<void>
+): Promise<void> {
+  const absolutePath = resolve(projectPath);
+
+  const lock = await acquireLock(absolutePath, command);
+  if (!lock.acquired) {
+    console.error(chalk.red(`\n${describeLockHolder(lock.holder)}.`));
+    console.error(chalk.gray('Wait for it to finish, or delete .modernization/session.lock if that process is gone.\n'));
+    process.exit(1);
+  }
+
+  if (lock.recoveredStale) {
+    console.log(
+      chalk.gray(`Removed stale lock from pid ${lock.recoveredStale.pid} (${lock.recoveredStale.command})`)
+    );
+  }
+
+  try {
+    await fn();
+  } finally {
+    await releaseLock(absolutePath);
+  }
+}
+
 /**
  * Run a specific mode
  */
@@ -192,6 +369,12 @@ async function runMode(
     spec?: string;
     targetStack?: string;
     coverageTarget?: number;
+    maxIterations?: string;
+    untilComplete?: boolean;
+    maxDuration?: string;
+    budget?: string;
+    worktree?: string;
+    refresh?: boolean;
   }
 ): Promise<void> {
   const absolutePath = resolve(projectPath);
@@ -289,7 +472,7 @@ async function runMode(
   }
 
   // Determine next agent
-  const nextAgent = determineNextAgent(state, mode);
+  const nextAgent = options.refresh ? 'discovery' : determineNextAgent(state, mode);
   const recommendedModel = getModelForAgent(nextAgent);
   const modelToUse = options.model || recommendedModel;
 
@@ -305,20 +488,32 @@ async function runMode(
     return;
   }
 
+  const config: AgentConfig = {
+    projectDir: absolutePath,
+    mode,
+    model: modelToUse as 'opus' | 'sonnet' | 'haiku',
+    maxIterations: parseLimit(options.maxIterations, '--max-iterations'),
+    untilComplete: options.untilComplete,
+    maxDurationMinutes: parseLimit(options.maxDuration, '--max-duration'),
+    budget: parseBudget(options.budget),
+    worktree: parseWorktreeScope(options.worktree),
+    refresh: options.refresh,
+    specFile: options.spec,
+    targetStack: options.targetStack,
+    dryRun: options.dryRun,
+    verbose: options.verbose,
+  };
+
+  if (config.maxIterations !== undefined || config.untilComplete || config.maxDurationMinutes !== undefined) {
+    await runLoop(config);
+    await showWorktree(absolutePath);
+    return;
+  }
+
   // Run the orchestrator
   spinner.start(`Running ${nextAgent} agent...`);
 
   try {
-    const config: AgentConfig = {
-      projectDir: absolutePath,
-      mode,
-      model: modelToUse as 'opus' | 'sonnet' | 'haiku',
-      specFile: options.spec,
-      targetStack: options.targetStack,
-      dryRun: options.dryRun,
-      verbose: options.verbose,
-    };
-
     const result = await runOrchestrator(config);
 
     if (result.error) {
@@ -342,6 +537,8 @@ async function runMode(
       }
     }
 
+    await showWorktree(absolutePath);
+
     if (result.shouldContinue) {
       console.log(chalk.blue('\n✨ Run `modernize continue` to proceed with the next session.\n'));
     } else {
@@ -354,6 +551,114 @@ async function runMode(
   }
 }
 
+/**
+ * Parse a positive integer limit option, exiting on invalid input
+ */
+function parseLimit(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    console.error(chalk.red(`Error: ${flag} must be a positive integer, got "${value}"`));
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a --budget value: dollars when prefixed with $ or suffixed with usd,
+ * otherwise a token count with an optional k/m suffix
+ */
+function parseBudget(value: string | undefined): Budget | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase().replace(/\s*tokens?$/, '');
+  const dollars = normalized.match(/^\$(\d+(?:\.\d+)?)$/) ?? normalized.match(/^(\d+(?:\.\d+)?)\s*usd$/);
+  if (dollars?.[1]) {
+    return { maxCostUsd: parseFloat(dollars[1]) };
+  }
+
+  const tokens = normalized.match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  if (tokens?.[1]) {
+    const multiplier = tokens[2] === 'm' ? 1_000_000 : tokens[2] === 'k' ? 1_000 : 1;
+    return { maxTokens: Math.round(parseFloat(tokens[1]) * multiplier) };
+  }
+
+  console.error(chalk.red(`Error: --budget must be dollars ($5, 5usd) or tokens (500k, 2m), got "${value}"`));
+  process.exit(1);
+}
+
+/**
+ * Parse the --worktree option, exiting on invalid input
+ */
+function parseWorktreeScope(value: string | undefined): WorktreeScope | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value !== 'session' && value !== 'mode') {
+    console.error(chalk.red(`Error: --worktree must be session or mode, got "${value}"`));
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Run sessions back to back until a stop condition is reached
+ */
+async function runLoop(config: AgentConfig): Promise<void> {
+  const spinner = ora();
+  spinner.start('Running session 1...');
+
+  let loop: LoopResult;
+  try {
+    loop = await runOrchestratorLoop(config, (iteration, agent, result) => {
+      if (result.error) {
+        spinner.fail(`Session ${iteration} (${agent}) failed: ${result.error}`);
+      } else {
+        spinner.succeed(`Session ${iteration} (${agent}) completed`);
+      }
+      spinner.start(`Running session ${iteration + 1}...`);
+    });
+  } catch (error) {
+    spinner.fail('Agent execution failed');
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+  spinner.stop();
+
+  const sessions = `${loop.iterations} session${loop.iterations === 1 ? '' : 's'}`;
+
+  switch (loop.stopReason) {
+    case 'complete':
+      console.log(chalk.green(`\n✅ Modernization complete after ${sessions}!\n`));
+      break;
+    case 'approval_required':
+      console.log(chalk.yellow(`\n⚠️  Stopped after ${sessions}: approval required.`));
+      console.log(chalk.gray('Run `modernize status` to review, then `modernize approve <id>` and `modernize continue`.\n'));
+      break;
+    case 'max_iterations':
+    case 'max_duration':
+    case 'budget': {
+      const limit = { max_iterations: 'iteration', max_duration: 'duration', budget: 'budget' }[loop.stopReason];
+      console.log(chalk.blue(`\nStopped after ${sessions}: ${limit} limit reached.`));
+      console.log(chalk.blue('✨ Run `modernize continue` to proceed with the next session.\n'));
+      break;
+    }
+    case 'repeated_failure':
+      console.error(chalk.red(`\nStopped after ${sessions}: repeated session failures (${loop.error}).\n`));
+      process.exit(1);
+      break;
+    case 'error':
+      console.error(chalk.red(`\n${loop.error}\n`));
+      process.exit(1);
+  }
+}
+
 /**
  * Show status of the modernization project
  */
@@ -375,6 +680,11 @@ async function showStatus(projectPath: string): Promise<void> {
 
   const report = generateStatusReport(state);
   console.log(report);
+
+  const lock = await readLock(absolutePath);
+  if (lock && !isLockStale(lock)) {
+    console.log(chalk.yellow(`Session in progress: ${lock.command} (pid ${lock.pid}, since ${lock.acquiredAt})\n`));
+  }
 }
 
 /**
@@ -414,7 +724,15 @@ async function handleApproval(
  */
 async function continueSession(
   projectPath: string,
-  options: { model?: string; verbose?: boolean }
+  options: {
+    model?: string;
+    verbose?: boolean;
+    maxIterations?: string;
+    untilComplete?: boolean;
+    maxDuration?: string;
+    budget?: string;
+    worktree?: string;
+  }
 ): Promise<void> {
   const absolutePath = resolve(projectPath);
 
@@ -424,8 +742,11 @@ async function continueSession(
     process.exit(1);
   }
 
-  // Continue with the current mode
-  await runMode(state.mode, projectPath, options);
+  // Continue with the current mode, in the same worktree if there is one
+  await runMode(state.mode, projectPath, {
+    ...options,
+    worktree: options.worktree ?? state.activeWorktree?.scope,
+  });
 }
 
 /**
@@ -443,10 +764,15 @@ async function generateReport(
     process.exit(1);
   }
 
-  const report = generateStatusReport(state);
+  const format = (options.format ?? 'markdown') as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    console.error(chalk.red(`Unknown report format: ${options.format} (expected ${REPORT_FORMATS.join(', ')})`));
+    process.exit(1);
+  }
+
+  const report = renderReport(await buildReport(absolutePath, state), state, format);
 
   if (options.output) {
-    const { writeFile } = await import('node:fs/promises');
     await writeFile(options.output, report, 'utf-8');
     console.log(chalk.green(`Report saved to: ${options.output}`));
   } else {
@@ -454,6 +780,297 @@ async function generateReport(
   }
 }
 
+/**
+ * Print a session transcript
+ */
+async function showTranscript(
+  session: string,
+  projectPath: string,
+  options: { type?: string; tool?: string; json?: boolean }
+): Promise<void> {
+  const absolutePath = resolve(projectPath);
+  const sessionNumber = parseLimit(session, 'session');
+
+  const transcript = await loadSessionTranscript(absolutePath, sessionNumber ?? 0);
+  if (!transcript) {
+    console.error(chalk.red(`No transcript found for session ${session}.`));
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(transcript, null, 2));
+    return;
+  }
+
+  const kinds = options.type?.split(',').map((k) => k.trim()) as TranscriptEntryKind[] | undefined;
+  const unknown = kinds?.filter((k) => !TRANSCRIPT_ENTRY_KINDS.includes(k)) ?? [];
+  if (unknown.length > 0) {
+    console.error(chalk.red(`Unknown entry kind: ${unknown.join(', ')} (expected ${TRANSCRIPT_ENTRY_KINDS.join(', ')})`));
+    process.exit(1);
+  }
+
+  const entries = filterTranscriptEntries(getTranscriptEntries(transcript), {
+    kinds,
+    tool: options.tool,
+  });
+
+  console.log(
+    chalk.blue(
+      `\nSession ${transcript.sessionNumber}: ${transcript.agentType} agent (${transcript.mode}, ${transcript.model})`
+    )
+  );
+  console.log(chalk.gray(`${transcript.startedAt} - ${transcript.completedAt ?? 'incomplete'}\n`));
+
+  for (const entry of entries) {
+    const label = entry.tool ? `${entry.kind} ${entry.tool}` : entry.kind;
+    const color = entry.isError ? chalk.red : entry.kind === 'assistant' ? chalk.cyan : chalk.yellow;
+    console.log(color(`[${entry.index}] ${label}${entry.isError ? ' (error)' : ''}`));
+    console.log(entry.text);
+    console.log();
+  }
+
+  if (entries.length === 0) {
+    console.log(chalk.gray('No matching entries.\n'));
+  }
+}
+
+/**
+ * Print or save the dependency graph from the functionality map
+ */
+async function exportGraph(
+  projectPath: string,
+  options: { format?: string; files?: boolean; output?: string }
+): Promise<void> {
+  const absolutePath = resolve(projectPath);
+
+  const format = (options.format ?? 'mermaid') as GraphFormat;
+  if (!GRAPH_FORMATS.includes(format)) {
+    console.error(chalk.red(`Unknown graph format: ${options.format} (expected ${GRAPH_FORMATS.join(', ')})`));
+    process.exit(1);
+  }
+
+  const map = await loadFunctionalityMap(absolutePath);
+  if (!map) {
+    console.error(chalk.red('No functionality map found. Run `modernize discover` first.'));
+    process.exit(1);
+  }
+
+  const graph = exportDependencyGraph(map, format, options.files ? 'files' : 'features');
+
+  if (options.output) {
+    await writeFile(options.output, graph, 'utf-8');
+    console.log(chalk.green(`Graph saved to: ${options.output}`));
+  } else {
+    console.log(graph);
+  }
+}
+
+/**
+ * Print the artifact changes made by a range of sessions
+ */
+async function showDiff(
+  sessionA: string,
+  sessionB: string,
+  projectPath: string,
+  options: { json?: boolean }
+): Promise<void> {
+  const absolutePath = resolve(projectPath);
+  const first = parseLimit(sessionA, 'session') ?? 0;
+  const last = parseLimit(sessionB, 'session') ?? 0;
+
+  if (first > last) {
+    console.error(chalk.red(`Session ${first} comes after session ${last}.`));
+    process.exit(1);
+  }
+
+  // Changes from before the first session to after the last one
+  const start = await loadSessionSnapshot(absolutePath, first);
+  const end = first === last ? start : await loadSessionSnapshot(absolutePath, last);
+  if (!start || !end) {
+    console.error(chalk.red(`No artifact snapshot found for session ${start ? last : first}.`));
+    process.exit(1);
+  }
+
+  const diff = diffArtifacts(start.before, end.after);
+
+  if (options.json) {
+    console.log(JSON.stringify(diff, null, 2));
+    return;
+  }
+
+  console.log(
+    renderArtifactDiff(
+      diff,
+      first === last ? `Artifact Changes (session ${first})` : `Artifact Changes (sessions ${first}-${last})`
+    )
+  );
+}
+
+/**
+ * Roll the project back to the checkpoint taken before a session
+ */
+async function rollback(session: string | undefined, projectPath: string): Promise<void> {
+  const absolutePath = resolve(projectPath);
+
+  const state = await loadState(absolutePath);
+  if (!state) {
+    console.error(chalk.red('No modernization project found.'));
+    process.exit(1);
+  }
+
+  const sessionNumber =
+    parseLimit(session, 'session') ??
+    [...state.sessions].reverse().find((s) => s.checkpoint)?.sessionNumber;
+  if (sessionNumber === undefined) {
+    console.error(chalk.red('No checkpointed sessions to roll back to.'));
+    process.exit(1);
+  }
+
+  let result;
+  try {
+    result = await rollbackToSession(absolutePath, sessionNumber);
+  } catch (error) {
+    console.error(chalk.red(`Rollback failed: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.green(`\n✅ Rolled back to before session ${sessionNumber}\n`));
+  console.log(`  Checkpoint: ${result.checkpoint.ref} (${result.checkpoint.commit.slice(0, 8)})`);
+  console.log(`  Files restored: ${result.restoredFiles}`);
+  console.log(`  Files removed: ${result.removedFiles.length}`);
+  console.log(`  Artifacts restored: ${result.artifactsRestored ? 'Yes' : 'No'}`);
+
+  for (const warning of result.warnings) {
+    console.log(chalk.yellow(`  ⚠️  ${warning}`));
+  }
+
+  console.log(chalk.gray(`\nThe tree before this rollback was saved as ${result.safetyRef}.\n`));
+}
+
+/**
+ * Print where agents' changes are when they ran in a worktree
+ */
+async function showWorktree(absolutePath: string): Promise<void> {
+  const worktree = (await loadState(absolutePath))?.activeWorktree;
+  if (!worktree) {
+    return;
+  }
+
+  console.log(chalk.blue(`\nChanges are on branch ${worktree.branch} (${worktree.path})`));
+  if (worktree.validatedAt) {
+    console.log(chalk.green('Validation passed. Merge with `modernize merge` or export with `modernize merge --patch <file>`.'));
+  }
+}
+
+/**
+ * Merge the active worktree branch, or export it as a patch
+ */
+async function mergeActiveWorktree(
+  projectPath: string,
+  options: { patch?: string; force?: boolean }
+): Promise<void> {
+  const absolutePath = resolve(projectPath);
+
+  const state = await loadState(absolutePath);
+  const worktree = state?.activeWorktree;
+  if (!state || !worktree) {
+    console.error(chalk.red('No worktree to merge. Run a mode with --worktree first.'));
+    process.exit(1);
+  }
+
+  try {
+    if (options.patch) {
+      const patch = await exportWorktreePatch(absolutePath, worktree);
+      await writeFile(options.patch, patch, 'utf-8');
+      console.log(chalk.green(`\n✅ Exported ${worktree.branch} to ${options.patch}`));
+      console.log(chalk.gray('Apply it with `git am`.\n'));
+      return;
+    }
+
+    if (!worktree.validatedAt && !options.force) {
+      console.error(chalk.red(`Validation has not passed on ${worktree.branch}. Use --force to merge anyway.`));
+      process.exit(1);
+    }
+
+    const commit = await mergeWorktree(absolutePath, worktree);
+    state.activeWorktree = undefined;
+    await saveState(absolutePath, state);
+    console.log(chalk.green(`\n✅ Merged ${worktree.branch} (${commit.slice(0, 8)})\n`));
+  } catch (error) {
+    console.error(chalk.red(`Merge failed: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Validate .modernization artifacts and optionally repair or quarantine them
+ */
+async function validateArtifacts(
+  projectPath: string,
+  options: { repair?: boolean; quarantine?: boolean }
+): Promise<void> {
+  const absolutePath = resolve(projectPath);
+  let invalidCount = 0;
+
+  console.log(chalk.blue('\n🔍 Validating .modernization artifacts\n'));
+
+  for (const kind of ARTIFACT_KINDS) {
+    const check = await checkArtifact(absolutePath, kind);
+
+    if (!check.exists) {
+      console.log(chalk.gray(`  - ${kind}: not present`));
+      continue;
+    }
+
+    if (check.migrations.length > 0) {
+      console.log(chalk.yellow(`  ↑ ${kind}: upgrade pending (written on the next save or with --repair)`));
+      for (const migration of check.migrations) {
+        console.log(chalk.gray(`      ${migration}`));
+      }
+    }
+
+    if (check.valid) {
+      if (check.migrations.length > 0 && options.repair) {
+        await repairArtifactFile(absolutePath, kind);
+        console.log(chalk.yellow('    Upgraded (original kept in .modernization/backups)'));
+      }
+      console.log(chalk.green(`  ✓ ${kind}: valid`));
+      continue;
+    }
+
+    console.log(chalk.red(`  ✗ ${kind}: ${check.errors.length} error(s)`));
+    for (const line of formatSchemaIssues(check.errors)) {
+      console.log(chalk.gray(`      ${line}`));
+    }
+
+    if (check.repairable && options.repair) {
+      await repairArtifactFile(absolutePath, kind);
+      console.log(chalk.yellow(`    Repaired (${check.repairs.length} fix(es)):`));
+      for (const repair of check.repairs) {
+        console.log(chalk.gray(`      ${repair}`));
+      }
+      continue;
+    }
+
+    if (check.repairable) {
+      console.log(chalk.yellow('    Repairable with --repair'));
+    } else if (options.quarantine) {
+      const target = await quarantineArtifact(absolutePath, kind);
+      console.log(chalk.yellow(`    Quarantined to: ${target}`));
+      continue;
+    } else {
+      console.log(chalk.yellow('    Not repairable; use --quarantine to move it aside'));
+    }
+
+    invalidCount++;
+  }
+
+  console.log();
+  if (invalidCount > 0) {
+    process.exit(1);
+  }
+}
+
 /**
  * Main entry point
  */
@@ -0,0 +1,600 @@
+/**
+ * Coverage Report Parsing
+ *
+ * Reads the coverage reports test runners write: lcov, Istanbul
+ * coverage-final.json, Cobertura XML, Go coverprofiles and coverage.py JSON.
+ * Computes line, branch and function coverage for the whole project and for
+ * each feature's source locations, with the lines no test runs, so coverage
+ * numbers come from the tests rather than from an agent.
+ */
+
+import { readFile, stat } from 'node:fs/promises';
+import { isAbsolute, posix, relative } from 'node:path';
+import { glob } from 'glob';
+import type {
+  CoverageGap,
+  CoverageMetrics,
+  CoverageReportFormat,
+  Feature,
+  FeatureCoverage,
+  FileCoverage,
+  ModernizationState,
+  TestCoverageMap,
+} from './types.js';
+import { readGoModule } from './imports.js';
+import { ARTIFACT_VERSIONS } from './migrations.js';
+import { updateCoverageMetrics } from './state.js';
+
+/**
+ * Where test runners write their reports by default
+ */
+const COVERAGE_REPORTS = [
+  '**/lcov.info',
+  '**/coverage-final.json',
+  '**/cobertura-coverage.xml',
+  '**/coverage.xml',
+  '**/coverage.json',
+  '**/coverage.out',
+  '**/cover.out',
+];
+
+const REPORT_IGNORE = ['**/node_modules/**', '**/.git/**', '**/.modernization/**'];
+
+/**
+ * Directories reports are written to, below the directory their paths are relative to
+ */
+const REPORT_DIRECTORIES = ['coverage', 'htmlcov', 'reports'];
+
+/**
+ * Create coverage for a file with nothing recorded yet
+ */
+function createFileCoverage(file: string): FileCoverage {
+  return { file, lines: {}, branches: {}, functions: [] };
+}
+
+/**
+ * Record that a line ran, keeping the highest count when it is reported twice
+ */
+function addLine(coverage: FileCoverage, line: number, hits: number): void {
+  coverage.lines[line] = Math.max(coverage.lines[line] ?? 0, hits);
+}
+
+/**
+ * Record branches of a line
+ */
+function addBranches(coverage: FileCoverage, line: number, taken: number, total: number): void {
+  const existing = coverage.branches[line] ?? { taken: 0, total: 0 };
+  coverage.branches[line] = { taken: existing.taken + taken, total: existing.total + total };
+}
+
+/**
+ * Parse an lcov tracefile, with the FN/FNDA function records of lcov 1 and
+ * the FNL/FNA records of lcov 2
+ */
+export function parseLcov(content: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | undefined;
+  // Function names and indexes -> declaring line
+  let declared = new Map<string, number>();
+
+  for (const raw of content.split('\n')) {
+    const line = raw.trim();
+    const colon = line.indexOf(':');
+    const tag = colon === -1 ? line : line.slice(0, colon);
+    const fields = line.slice(colon + 1).split(',');
+
+    if (tag === 'SF') {
+      current = createFileCoverage(line.slice(3));
+      declared = new Map();
+      files.push(current);
+    } else if (tag === 'end_of_record') {
+      current = undefined;
+    } else if (!current) {
+      continue;
+    } else if (tag === 'DA') {
+      addLine(current, Number(fields[0]), Number(fields[1]));
+    } else if (tag === 'BRDA') {
+      addBranches(current, Number(fields[0]), fields[3] === '-' || Number(fields[3]) === 0 ? 0 : 1, 1);
+    } else if (tag === 'FN') {
+      // FN:start,name, or FN:start,end,name
+      const name = fields.slice(fields.length >= 3 && /^\d+$/.test(fields[1] ?? '') ? 2 : 1).join(',');
+      declared.set(name, Number(fields[0]));
+    } else if (tag === 'FNL') {
+      // FNL:index,start[,end] declares the function FNA counts
+      declared.set(`#${fields[0]}`, Number(fields[1]));
+    } else if (tag === 'FNDA') {
+      const name = fields.slice(1).join(',');
+      current.functions.push({ name, line: declared.get(name) ?? 0, hits: Number(fields[0]) });
+    } else if (tag === 'FNA') {
+      const name = fields.slice(2).join(',');
+      current.functions.push({ name, line: declared.get(`#${fields[0]}`) ?? 0, hits: Number(fields[1]) });
+    }
+  }
+
+  return files;
+}
+
+interface IstanbulLocation {
+  start: { line: number };
+}
+
+interface IstanbulFile {
+  path?: string;
+  statementMap?: Record<string, IstanbulLocation>;
+  s?: Record<string, number>;
+  fnMap?: Record<string, { name: string; line?: number; decl?: IstanbulLocation; loc?: IstanbulLocation }>;
+  f?: Record<string, number>;
+  branchMap?: Record<string, { line?: number; loc?: IstanbulLocation; locations?: IstanbulLocation[] }>;
+  b?: Record<string, number[]>;
+}
+
+/**
+ * Parse an Istanbul coverage-final.json, as written by nyc, Jest and Vitest.
+ * A line's count is that of its busiest statement.
+ */
+export function parseIstanbulJson(content: string): FileCoverage[] {
+  const report = JSON.parse(content) as Record<string, IstanbulFile | { data: IstanbulFile }>;
+  const files: FileCoverage[] = [];
+
+  for (const [key, entry] of Object.entries(report)) {
+    const data = 'data' in entry ? entry.data : entry;
+    const coverage = createFileCoverage(data.path ?? key);
+
+    for (const [id, location] of Object.entries(data.statementMap ?? {})) {
+      addLine(coverage, location.start.line, data.s?.[id] ?? 0);
+    }
+    for (const [id, fn] of Object.entries(data.fnMap ?? {})) {
+      const line = fn.decl?.start.line ?? fn.loc?.start.line ?? fn.line ?? 0;
+      coverage.functions.push({ name: fn.name, line, hits: data.f?.[id] ?? 0 });
+    }
+    for (const [id, branch] of Object.entries(data.branchMap ?? {})) {
+      const line = branch.loc?.start.line ?? branch.line ?? branch.locations?.[0]?.start.line ?? 0;
+      const counts = data.b?.[id] ?? [];
+      addBranches(coverage, line, counts.filter((hits) => hits > 0).length, counts.length);
+    }
+
+    files.push(coverage);
+  }
+
+  return files;
+}
+
+/**
+ * Get an attribute of an XML tag
+ */
+function getAttribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+}
+
+/**
+ * Read the <line> elements of a Cobertura fragment
+ */
+function readCoberturaLines(xml: string): { number: number; hits: number; tag: string }[] {
+  return [...xml.matchAll(/<line\b[^>]*>/g)].map(([tag]) => ({
+    number: Number(getAttribute(tag, 'number')),
+    hits: Number(getAttribute(tag, 'hits') ?? 0),
+    tag,
+  }));
+}
+
+/**
+ * Parse a Cobertura XML report, as written by coverage.py, JaCoCo converters,
+ * Istanbul and gocover-cobertura. File names are joined to the first <source>.
+ */
+export function parseCoberturaXml(content: string): FileCoverage[] {
+  const source = content.match(/<source>([^<]*)<\/source>/)?.[1]?.trim();
+  const files = new Map<string, FileCoverage>();
+
+  for (const [, attributes = '', body = ''] of content.matchAll(/<class\b([^>]*)>([\s\S]*?)<\/class>/g)) {
+    const filename = getAttribute(attributes, 'filename');
+    if (!filename) continue;
+
+    const file = source && !isAbsolute(filename) ? posix.join(source, filename) : filename;
+    const coverage = files.get(file) ?? createFileCoverage(file);
+    files.set(file, coverage);
+
+    for (const [, method = '', lines = ''] of body.matchAll(/<method\b([^>]*)>([\s\S]*?)<\/method>/g)) {
+      const methodLines = readCoberturaLines(lines);
+      coverage.functions.push({
+        name: getAttribute(method, 'name') ?? '',
+        line: methodLines[0]?.number ?? 0,
+        hits: Math.max(0, ...methodLines.map((line) => line.hits)),
+      });
+    }
+
+    // Class lines repeat the method lines, with branch details
+    for (const line of readCoberturaLines(body.replace(/<methods>[\s\S]*?<\/methods>/g, ''))) {
+      addLine(coverage, line.number, line.hits);
+      const conditions = getAttribute(line.tag, 'condition-coverage')?.match(/\((\d+)\/(\d+)\)/);
+      if (getAttribute(line.tag, 'branch') === 'true' && conditions) {
+        addBranches(coverage, line.number, Number(conditions[1]), Number(conditions[2]));
+      }
+    }
+  }
+
+  return [...files.values()];
+}
+
+/**
+ * Parse a Go coverprofile. Every line of a block gets the block's count;
+ * profiles carry no branch or function data. Paths are import paths.
+ */
+export function parseGoCoverProfile(content: string): FileCoverage[] {
+  const files = new Map<string, FileCoverage>();
+
+  for (const line of content.split('\n')) {
+    const block = line.trim().match(/^(.+):(\d+)\.\d+,(\d+)\.\d+\s+\d+\s+(\d+)$/);
+    if (!block) continue;
+
+    const [, file = '', start, end, count] = block;
+    const coverage = files.get(file) ?? createFileCoverage(file);
+    files.set(file, coverage);
+    for (let n = Number(start); n <= Number(end); n++) {
+      addLine(coverage, n, Number(count));
+    }
+  }
+
+  return [...files.values()];
+}
+
+interface CoveragePyFile {
+  executed_lines?: number[];
+  missing_lines?: number[];
+  executed_branches?: [number, number][];
+  missing_branches?: [number, number][];
+  functions?: Record<string, { executed_lines?: number[]; missing_lines?: number[] }>;
+}
+
+/**
+ * Parse a coverage.py JSON report. Functions are only reported by
+ * coverage.py 7.5 and later.
+ */
+export function parseCoveragePyJson(content: string): FileCoverage[] {
+  const report = JSON.parse(content) as { files?: Record<string, CoveragePyFile> };
+  const files: FileCoverage[] = [];
+
+  for (const [file, data] of Object.entries(report.files ?? {})) {
+    const coverage = createFileCoverage(file);
+    for (const line of data.executed_lines ?? []) addLine(coverage, line, 1);
+    for (const line of data.missing_lines ?? []) addLine(coverage, line, 0);
+    for (const [from] of data.executed_branches ?? []) addBranches(coverage, from, 1, 1);
+    for (const [from] of data.missing_branches ?? []) addBranches(coverage, from, 0, 1);
+
+    // The unnamed entry is module-level code
+    for (const [name, fn] of Object.entries(data.functions ?? {})) {
+      const lines = [...(fn.executed_lines ?? []), ...(fn.missing_lines ?? [])];
+      if (!name || lines.length === 0) continue;
+      coverage.functions.push({ name, line: Math.min(...lines), hits: fn.executed_lines?.length ? 1 : 0 });
+    }
+
+    files.push(coverage);
+  }
+
+  return files;
+}
+
+/**
+ * Tell a report's format from its content
+ */
+export function detectCoverageFormat(content: string): CoverageReportFormat | undefined {
+  const text = content.trimStart();
+  if (text.startsWith('mode:')) return 'go';
+  if (text.startsWith('<') && /<coverage\b/.test(text)) return 'cobertura';
+  if (/^(TN|SF):/m.test(text)) return 'lcov';
+  if (text.startsWith('{')) {
+    try {
+      const json = JSON.parse(text) as Record<string, unknown>;
+      return 'meta' in json && 'files' in json ? 'coveragepy' : 'istanbul';
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a coverage report of a given format
+ */
+export function parseCoverageReport(content: string, format: CoverageReportFormat): FileCoverage[] {
+  switch (format) {
+    case 'lcov':
+      return parseLcov(content);
+    case 'istanbul':
+      return parseIstanbulJson(content);
+    case 'cobertura':
+      return parseCoberturaXml(content);
+    case 'go':
+      return parseGoCoverProfile(content);
+    case 'coveragepy':
+      return parseCoveragePyJson(content);
+  }
+}
+
+/**
+ * Find the coverage reports in a project, at the names test runners write
+ * them to. With a start time, only reports written since then are found.
+ */
+export async function findCoverageReports(projectDir: string, since?: Date): Promise<string[]> {
+  const reports = await glob(COVERAGE_REPORTS, { cwd: projectDir, ignore: REPORT_IGNORE, nodir: true });
+  const found: string[] = [];
+  for (const report of reports) {
+    if (since) {
+      const modified = await stat(posix.join(projectDir, report)).then((s) => s.mtime, () => undefined);
+      if (!modified || modified < since) continue;
+    }
+    found.push(report.split('\\').join('/'));
+  }
+  return found.sort();
+}
+
+/**
+ * Read coverage reports into project-relative file coverage. Relative paths
+ * in a report are relative to its directory, or to the parent of a coverage/
+ * directory; Go import paths are resolved with go.mod. Files found in several
+ * reports keep the highest count of each line. Without reports given, the
+ * reports findCoverageReports finds are read.
+ */
+export async function readCoverageReports(projectDir: string, reports?: string[]): Promise<FileCoverage[]> {
+  const goModule = await readGoModule(projectDir);
+  const merged = new Map<string, FileCoverage>();
+
+  for (const report of reports ?? (await findCoverageReports(projectDir))) {
+    let content: string;
+    try {
+      content = await readFile(posix.join(projectDir, report), 'utf-8');
+    } catch {
+      continue;
+    }
+    const format = detectCoverageFormat(content);
+    if (!format) continue;
+
+    let files: FileCoverage[];
+    try {
+      files = parseCoverageReport(content, format);
+    } catch {
+      continue;
+    }
+
+    const reportDir = posix.dirname(report);
+    const root = REPORT_DIRECTORIES.includes(posix.basename(reportDir)) ? posix.dirname(reportDir) : reportDir;
+
+    for (const coverage of files) {
+      let file = coverage.file.split('\\').join('/');
+      if (format === 'go' && goModule && file.startsWith(`${goModule}/`)) {
+        file = file.slice(goModule.length + 1);
+      } else if (isAbsolute(file)) {
+        file = relative(projectDir, file).split('\\').join('/');
+      } else {
+        file = posix.join(root, file);
+      }
+
+      const existing = merged.get(file);
+      if (!existing) {
+        merged.set(file, { ...coverage, file });
+        continue;
+      }
+      for (const [line, hits] of Object.entries(coverage.lines)) addLine(existing, Number(line), hits);
+      for (const [line, branches] of Object.entries(coverage.branches)) {
+        const current = existing.branches[Number(line)];
+        if (!current || branches.taken > current.taken) existing.branches[Number(line)] = branches;
+      }
+      for (const fn of coverage.functions) {
+        const current = existing.functions.find((f) => f.name === fn.name && f.line === fn.line);
+        if (current) {
+          current.hits = Math.max(current.hits, fn.hits);
+        } else {
+          existing.functions.push(fn);
+        }
+      }
+    }
+  }
+
+  return [...merged.values()].sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Get a percentage with one decimal, or undefined when there is nothing to cover
+ */
+function percent(covered: number, total: number): number | undefined {
+  return total === 0 ? undefined : Math.round((covered / total) * 1000) / 10;
+}
+
+/**
+ * Compute line, branch and function coverage over a set of files. Branch and
+ * function coverage are left out when the reports record none, as Go
+ * profiles do; no lines to cover counts as no line coverage.
+ */
+export function computeCoverageMetrics(files: FileCoverage[]): CoverageMetrics {
+  let lines = 0;
+  let coveredLines = 0;
+  let branches = 0;
+  let takenBranches = 0;
+  let functions = 0;
+  let coveredFunctions = 0;
+
+  for (const file of files) {
+    for (const hits of Object.values(file.lines)) {
+      lines++;
+      if (hits > 0) coveredLines++;
+    }
+    for (const branch of Object.values(file.branches)) {
+      branches += branch.total;
+      takenBranches += branch.taken;
+    }
+    functions += file.functions.length;
+    coveredFunctions += file.functions.filter((fn) => fn.hits > 0).length;
+  }
+
+  const branchCoverage = percent(takenBranches, branches);
+  const functionCoverage = percent(coveredFunctions, functions);
+  return {
+    lineCoverage: percent(coveredLines, lines) ?? 0,
+    ...(branchCoverage !== undefined ? { branchCoverage } : {}),
+    ...(functionCoverage !== undefined ? { functionCoverage } : {}),
+  };
+}
+
+/**
+ * Keep the coverage of the lines a feature's locations span in each file.
+ * A [1, 1] range, which discovery records for files it cannot parse, spans
+ * the whole file.
+ */
+function getFeatureCoverage(feature: Feature, byFile: Map<string, FileCoverage>): FileCoverage[] {
+  const ranges = new Map<string, [number, number][]>();
+  for (const loc of feature.sourceLocations) {
+    ranges.set(loc.file, [...(ranges.get(loc.file) ?? []), loc.lines]);
+  }
+
+  const files: FileCoverage[] = [];
+  for (const [file, spans] of ranges) {
+    const coverage = byFile.get(file);
+    if (!coverage) continue;
+
+    const inRange = (line: number) =>
+      spans.some(([start, end]) => (start <= 1 && end <= 1) || (line >= start && line <= end));
+    const keep = <T>(record: Record<number, T>) =>
+      Object.fromEntries(Object.entries(record).filter(([line]) => inRange(Number(line))));
+    files.push({
+      file,
+      lines: keep(coverage.lines),
+      branches: keep(coverage.branches),
+      functions: coverage.functions.filter((fn) => inRange(fn.line)),
+    });
+  }
+  return files;
+}
+
+/**
+ * Describe the lines of a file no test runs
+ */
+function createCoverageGap(coverage: FileCoverage): CoverageGap | undefined {
+  const uncoveredLines = Object.entries(coverage.lines)
+    .filter(([, hits]) => hits === 0)
+    .map(([line]) => Number(line))
+    .sort((a, b) => a - b);
+  if (uncoveredLines.length === 0) {
+    return undefined;
+  }
+
+  const functions = coverage.functions.filter((fn) => fn.hits === 0).map((fn) => fn.name);
+  return {
+    file: coverage.file,
+    uncoveredLines,
+    description:
+      `${uncoveredLines.length} uncovered lines` +
+      (functions.length > 0 ? `; functions never called: ${functions.join(', ')}` : ''),
+    complexity: uncoveredLines.length > 50 ? 'high' : uncoveredLines.length > 10 ? 'medium' : 'low',
+  };
+}
+
+/**
+ * Map a feature's priority score to a coverage priority
+ */
+function getCoveragePriority(feature: Feature): FeatureCoverage['priority'] {
+  const priority = feature.priority ?? 0;
+  if (priority >= 90) return 'critical';
+  if (priority >= 75) return 'high';
+  if (priority >= 45) return 'medium';
+  return 'low';
+}
+
+/**
+ * Drop the metrics a set of metrics was compared against, so history stays one step deep
+ */
+function withoutPrevious(metrics: CoverageMetrics): CoverageMetrics {
+  const { previous: _previous, ...current } = metrics;
+  return current;
+}
+
+/**
+ * Build a test coverage map from measured coverage. Features are measured
+ * over their source locations; features no report covers get zero coverage
+ * and are listed as untested along with features no test line runs. The
+ * previous map's priorities, generated tests and generation queue are kept,
+ * and its numbers become the previous metrics.
+ */
+export function buildTestCoverageMap(
+  files: FileCoverage[],
+  features: Feature[],
+  previous?: TestCoverageMap
+): TestCoverageMap {
+  const byFile = new Map(files.map((file) => [file.file, file]));
+  const byFeature: FeatureCoverage[] = [];
+  const untestedFeatures: string[] = [];
+
+  for (const feature of features) {
+    const known = previous?.byFeature.find((f) => f.featureId === feature.id);
+    const measured = getFeatureCoverage(feature, byFile);
+    const coverage: CoverageMetrics = measured.length > 0 ? computeCoverageMetrics(measured) : { lineCoverage: 0 };
+    if (known) {
+      coverage.previous = withoutPrevious(known.coverage);
+    }
+
+    const runs = measured.some((file) => Object.values(file.lines).some((hits) => hits > 0));
+    if (!runs) {
+      untestedFeatures.push(feature.id);
+    }
+
+    byFeature.push({
+      featureId: feature.id,
+      featureName: feature.name,
+      coverage,
+      testFiles: feature.testCoverage?.testFiles ?? known?.testFiles ?? [],
+      gaps: measured.map(createCoverageGap).filter((gap): gap is CoverageGap => gap !== undefined),
+      priority: known?.priority ?? getCoveragePriority(feature),
+      testsGenerated: known?.testsGenerated ?? false,
+    });
+  }
+
+  const overallCoverage = computeCoverageMetrics(files);
+  if (previous) {
+    overallCoverage.previous = withoutPrevious(previous.overallCoverage);
+  }
+
+  return {
+    version: ARTIFACT_VERSIONS.test_coverage,
+    analyzedAt: new Date().toISOString(),
+    overallCoverage,
+    byFeature,
+    untestedFeatures,
+    generationQueue: previous?.generationQueue ?? [],
+  };
+}
+
+/**
+ * Measure coverage from the project's coverage reports and record it in the
+ * state: the test coverage map, current coverage as the overall line
+ * coverage, and each measured feature's coverage percentage in the
+ * functionality map. Returns undefined, changing nothing, when there are no
+ * reports.
+ */
+export async function applyCoverageReports(
+  projectDir: string,
+  state: ModernizationState,
+  reports?: string[]
+): Promise<TestCoverageMap | undefined> {
+  const files = await readCoverageReports(projectDir, reports);
+  if (files.length === 0) {
+    return undefined;
+  }
+
+  const features = state.functionalityMap?.features ?? [];
+  const coverage = buildTestCoverageMap(files, features, state.testCoverageMap);
+
+  const reported = new Set(files.map((file) => file.file));
+  for (const feature of features) {
+    const measured = coverage.byFeature.find((f) => f.featureId === feature.id);
+    if (measured && feature.sourceLocations.some((loc) => reported.has(loc.file))) {
+      feature.testCoverage = {
+        hasTests: false,
+        testFiles: [],
+        ...feature.testCoverage,
+        coveragePercent: measured.coverage.lineCoverage,
+      };
+    }
+  }
+
+  state.testCoverageMap = coverage;
+  updateCoverageMetrics(state, coverage.overallCoverage.lineCoverage);
+  return coverage;
+}
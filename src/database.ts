@@ -0,0 +1,770 @@
+/**
+ * Database Schema Discovery
+ *
+ * Reads tables, columns and relationships from Prisma schemas, TypeORM
+ * entities, Sequelize models, Django and SQLAlchemy models and SQL
+ * migrations, and links each table to the features that query it
+ */
+
+import ts from 'typescript';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { glob } from 'glob';
+import type {
+  DatabaseColumn,
+  DatabaseRelationship,
+  DatabaseSchema,
+  DatabaseTable,
+  FunctionalityMap,
+} from './types.js';
+import { isParsableSource, parseSourceFile, getDecorators, getString } from './ast.js';
+import { getLogicalLines, getPythonString, splitArguments } from './text.js';
+
+/**
+ * Schema files that are not source files: Prisma schemas and SQL migrations
+ */
+const SCHEMA_FILES = ['**/*.prisma', '**/migrations/**/*.sql'];
+
+const SCHEMA_IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'];
+
+/**
+ * TypeORM decorators declaring a column
+ */
+const TYPEORM_COLUMNS = [
+  'Column',
+  'PrimaryColumn',
+  'PrimaryGeneratedColumn',
+  'CreateDateColumn',
+  'UpdateDateColumn',
+  'DeleteDateColumn',
+  'VersionColumn',
+  'ObjectIdColumn',
+];
+
+/**
+ * Relationship kinds by TypeORM decorator, Sequelize association and Django field
+ */
+const RELATIONSHIP_KINDS: Record<string, NonNullable<DatabaseRelationship['kind']>> = {
+  ManyToOne: 'many-to-one',
+  OneToMany: 'one-to-many',
+  OneToOne: 'one-to-one',
+  ManyToMany: 'many-to-many',
+  belongsTo: 'many-to-one',
+  hasMany: 'one-to-many',
+  hasOne: 'one-to-one',
+  belongsToMany: 'many-to-many',
+  ForeignKey: 'many-to-one',
+  OneToOneField: 'one-to-one',
+  ManyToManyField: 'many-to-many',
+};
+
+/**
+ * Table constraints in CREATE TABLE and ALTER TABLE ... ADD, as opposed to columns
+ */
+const SQL_CONSTRAINT =
+  /^(?:CONSTRAINT|PRIMARY\s+KEY|FOREIGN\s+KEY|CHECK|EXCLUDE)\b|^(?:UNIQUE|KEY|INDEX|FULLTEXT)\b(?:\s+(?:KEY|INDEX))?\s*[\w"`]*\s*\(/i;
+
+/**
+ * A column definition: name, then the type up to the first column constraint
+ */
+const SQL_COLUMN =
+  /^([\w"`[\]]+)\s+(.+?)(?=\s+(?:NOT\s+NULL|NULL|PRIMARY\s+KEY|REFERENCES|DEFAULT|UNIQUE|CHECK|CONSTRAINT|GENERATED|AUTO_INCREMENT|AUTOINCREMENT|COLLATE|IDENTITY)\b|$)/is;
+
+const SQL_NAME = '([\\w.\"`[\\]]+)';
+
+/**
+ * Create a column, leaving out flags that are not set
+ */
+function createColumn(name: string, type: string, nullable = false, primaryKey = false): DatabaseColumn {
+  const column: DatabaseColumn = { name, type };
+  if (nullable) column.nullable = true;
+  if (primaryKey) column.primaryKey = true;
+  return column;
+}
+
+/**
+ * Create a relationship, leaving out the column when there is none
+ */
+function createRelationship(
+  kind: DatabaseRelationship['kind'],
+  table: string,
+  column?: string
+): DatabaseRelationship {
+  return column ? { kind, table, column } : { kind, table };
+}
+
+/**
+ * Create a table declared by a model, without relationships until one is found
+ */
+function createTable(name: string, model: string | undefined, source: string): DatabaseTable {
+  return model ? { name, columns: [], model, source } : { name, columns: [], source };
+}
+
+/**
+ * Add a relationship to a table
+ */
+function addRelationship(table: DatabaseTable, relationship: DatabaseRelationship): void {
+  table.relationships = [...(table.relationships ?? []), relationship];
+}
+
+/**
+ * Convert a class name to the snake_case table names ORMs default to
+ */
+function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+/**
+ * Pluralize a model name the way Sequelize names its table
+ */
+function pluralize(name: string): string {
+  if (/(s|x|z|ch|sh)$/i.test(name)) return `${name}es`;
+  if (/[^aeiou]y$/i.test(name)) return `${name.slice(0, -1)}ies`;
+  return `${name}s`;
+}
+
+/**
+ * Point relationships that name a model at the model's table
+ */
+function resolveRelationships(tables: DatabaseTable[]): DatabaseTable[] {
+  const byModel = new Map(tables.flatMap((t) => (t.model ? [[t.model, t.name] as const] : [])));
+  for (const table of tables) {
+    for (const relationship of table.relationships ?? []) {
+      relationship.table = byModel.get(relationship.table) ?? relationship.table;
+    }
+  }
+  return tables;
+}
+
+/**
+ * Parse the models of a Prisma schema. Fields typed with another model are
+ * relationships: lists are one-to-many, or many-to-many when the other side
+ * is a list too, and `@relation(fields: [...])` marks the foreign key side.
+ */
+export function parsePrismaSchema(content: string, file: string): DatabaseTable[] {
+  const text = content.replace(/\/\/.*$/gm, '');
+  const models = [...text.matchAll(/^\s*model\s+(\w+)\s*\{([^}]*)\}/gm)];
+  const modelNames = new Set(models.flatMap((m) => m[1] ?? []));
+  const tables: DatabaseTable[] = [];
+
+  for (const [, model = '', body = ''] of models) {
+    const table = createTable(body.match(/@@map\(\s*(?:name:\s*)?"([^"]+)"/)?.[1] ?? model, model, file);
+    const compositeKey = body.match(/@@id\(\s*(?:fields:\s*)?\[([^\]]*)\]/)?.[1]?.split(',').map((f) => f.trim());
+
+    for (const line of body.split('\n')) {
+      const field = line.match(/^\s*(\w+)\s+(\w+)(\[\]|\?)?(.*)$/);
+      if (!field) continue;
+      const [, name = '', type = '', modifier, attributes = ''] = field;
+
+      if (modelNames.has(type)) {
+        const fields = attributes.match(/fields:\s*\[([^\]]*)\]/)?.[1];
+        const kind = modifier === '[]' ? 'one-to-many' : fields ? 'many-to-one' : 'one-to-one';
+        addRelationship(table, createRelationship(kind, type, fields?.split(',')[0]?.trim()));
+        continue;
+      }
+
+      table.columns.push(
+        createColumn(
+          attributes.match(/@map\(\s*(?:name:\s*)?"([^"]+)"/)?.[1] ?? name,
+          modifier === '[]' ? `${type}[]` : type,
+          modifier === '?',
+          /@id\b/.test(attributes) || (compositeKey?.includes(name) ?? false)
+        )
+      );
+    }
+    tables.push(table);
+  }
+
+  // Lists on both sides are an implicit many-to-many
+  for (const table of tables) {
+    for (const relationship of table.relationships ?? []) {
+      const inverse = tables
+        .find((t) => t.model === relationship.table)
+        ?.relationships?.find((r) => r.table === table.model && (r.kind === 'one-to-many' || r.kind === 'many-to-many'));
+      if (relationship.kind === 'one-to-many' && inverse) {
+        relationship.kind = 'many-to-many';
+        inverse.kind = 'many-to-many';
+      }
+    }
+  }
+
+  return resolveRelationships(tables);
+}
+
+/**
+ * Get a property of an object literal by name
+ */
+function getProperty(node: ts.Node | undefined, name: string): ts.Expression | undefined {
+  if (!node || !ts.isObjectLiteralExpression(node)) return undefined;
+  for (const property of node.properties) {
+    if (ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+      if (property.name.text === name) return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the last segment of a reference like `models.User`
+ */
+function getReferenceName(node: ts.Expression): string {
+  return getString(node) ?? node.getText().replace(/^.*\./, '');
+}
+
+/**
+ * Parse the `@Entity` classes of a TypeORM module. Tables default to the
+ * snake_case class name, and many-to-one relationships to a `<property>Id`
+ * join column.
+ */
+export function parseTypeOrmEntities(file: string, content: string): DatabaseTable[] {
+  const sourceFile = parseSourceFile(file, content);
+  const tables: DatabaseTable[] = [];
+
+  const readEntity = (node: ts.ClassDeclaration, model: string, args: readonly ts.Expression[]): DatabaseTable => {
+    const name = getString(args[0]) ?? getString(getProperty(args[0], 'name')) ?? toSnakeCase(model);
+    const table = createTable(name, model, file);
+
+    for (const member of node.members) {
+      if (!ts.isPropertyDeclaration(member)) continue;
+      const property = member.name.getText(sourceFile);
+      const decorators = getDecorators(member);
+      const joinColumn = decorators.find((d) => d.name === 'JoinColumn');
+
+      for (const decorator of decorators) {
+        const kind = RELATIONSHIP_KINDS[decorator.name];
+        const target = decorator.args[0];
+        if (kind && /^[A-Z]/.test(decorator.name) && target) {
+          const related = ts.isArrowFunction(target) ? target.body.getText(sourceFile) : getReferenceName(target);
+          const column =
+            kind === 'many-to-one' || (kind === 'one-to-one' && joinColumn)
+              ? (getString(getProperty(joinColumn?.args[0], 'name')) ?? `${property}Id`)
+              : undefined;
+          addRelationship(table, createRelationship(kind, related, column));
+        } else if (TYPEORM_COLUMNS.includes(decorator.name)) {
+          const options = decorator.args.find(ts.isObjectLiteralExpression);
+          const type = getString(decorator.args[0]) ?? getString(getProperty(options, 'type')) ?? member.type?.getText(sourceFile);
+          table.columns.push(
+            createColumn(
+              getString(getProperty(options, 'name')) ?? property,
+              type ?? 'unknown',
+              getProperty(options, 'nullable')?.kind === ts.SyntaxKind.TrueKeyword,
+              decorator.name.startsWith('Primary') || getProperty(options, 'primary')?.kind === ts.SyntaxKind.TrueKeyword
+            )
+          );
+        }
+      }
+    }
+    return table;
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isClassDeclaration(node) && node.name) {
+      const entity = getDecorators(node).find((d) => d.name === 'Entity');
+      if (entity) tables.push(readEntity(node, node.name.text, entity.args));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return resolveRelationships(tables);
+}
+
+/**
+ * Parse the models a Sequelize module declares with `sequelize.define()` or
+ * `Model.init()`, and the associations between them. Tables default to the
+ * pluralized model name, and models without a primary key get Sequelize's `id`.
+ */
+export function parseSequelizeModels(file: string, content: string): DatabaseTable[] {
+  const sourceFile = parseSourceFile(file, content);
+  const tables: DatabaseTable[] = [];
+  const associations: { model: string; kind: NonNullable<DatabaseRelationship['kind']>; target: string; foreignKey?: string }[] = [];
+
+  const readModel = (model: string, attributes: ts.ObjectLiteralExpression, options: ts.Expression | undefined) => {
+    const freeze = getProperty(options, 'freezeTableName')?.kind === ts.SyntaxKind.TrueKeyword;
+    const table = createTable(getString(getProperty(options, 'tableName')) ?? (freeze ? model : pluralize(model)), model, file);
+
+    for (const property of attributes.properties) {
+      if (!ts.isPropertyAssignment(property)) continue;
+      const definition = ts.isObjectLiteralExpression(property.initializer) ? property.initializer : undefined;
+      const name = getString(getProperty(definition, 'field')) ?? property.name.getText(sourceFile).replace(/^['"]|['"]$/g, '');
+      const type = (definition ? getProperty(definition, 'type') : property.initializer)?.getText(sourceFile);
+      const primaryKey = getProperty(definition, 'primaryKey')?.kind === ts.SyntaxKind.TrueKeyword;
+      const nullable = !primaryKey && getProperty(definition, 'allowNull')?.kind !== ts.SyntaxKind.FalseKeyword;
+      table.columns.push(
+        createColumn(name, type?.replace(/^(DataTypes|Sequelize)\./, '') ?? 'unknown', nullable, primaryKey)
+      );
+
+      const references = getProperty(definition, 'references');
+      const referenced = getProperty(references, 'model');
+      if (referenced) {
+        addRelationship(table, createRelationship('many-to-one', getReferenceName(referenced), name));
+      }
+    }
+
+    if (!table.columns.some((c) => c.primaryKey)) {
+      table.columns.unshift(createColumn('id', 'INTEGER', false, true));
+    }
+    tables.push(table);
+  };
+
+  const visit = (node: ts.Node, className: string | undefined): void => {
+    const scope = ts.isClassDeclaration(node) && node.name ? node.name.text : className;
+
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text;
+      const owner = node.expression.expression;
+      const [first, second, third] = node.arguments;
+      const model = owner.kind === ts.SyntaxKind.ThisKeyword ? scope : getReferenceName(owner);
+      const defined = getString(first);
+      const kind = RELATIONSHIP_KINDS[method];
+
+      if (method === 'define' && defined && second && ts.isObjectLiteralExpression(second)) {
+        readModel(defined, second, third);
+      } else if (
+        method === 'init' &&
+        first &&
+        ts.isObjectLiteralExpression(first) &&
+        second &&
+        ts.isObjectLiteralExpression(second) &&
+        second.properties.some((p) => p.name?.getText(sourceFile) === 'sequelize')
+      ) {
+        const name = getString(getProperty(second, 'modelName')) ?? model;
+        if (name) readModel(name, first, second);
+      } else if (['belongsTo', 'hasMany', 'hasOne', 'belongsToMany'].includes(method) && kind && model && first) {
+        const foreignKey = getProperty(second, 'foreignKey');
+        associations.push({
+          model,
+          kind,
+          target: getReferenceName(first),
+          foreignKey: getString(foreignKey) ?? getString(getProperty(foreignKey, 'name')),
+        });
+      }
+    }
+
+    ts.forEachChild(node, (child) => visit(child, scope));
+  };
+  visit(sourceFile, undefined);
+
+  for (const { model, kind, target, foreignKey } of associations) {
+    const table = tables.find((t) => t.model === model);
+    if (!table) continue;
+    addRelationship(table, createRelationship(kind, target, kind === 'many-to-one' ? (foreignKey ?? `${target}Id`) : undefined));
+  }
+
+  return resolveRelationships(tables);
+}
+
+/**
+ * Get the top-level classes of a Python module, with the logical lines of their bodies
+ */
+function getPythonClasses(content: string): { name: string; bases: string; body: string[] }[] {
+  const classes: { name: string; bases: string; body: string[] }[] = [];
+  let current: { name: string; bases: string; body: string[] } | undefined;
+
+  for (const { text } of getLogicalLines(content)) {
+    if (!text.trim() || text.trim().startsWith('#')) continue;
+    const header = text.match(/^class\s+(\w+)\s*(?:\((.*)\))?\s*:/);
+    if (header?.[1]) {
+      current = { name: header[1], bases: header[2] ?? '', body: [] };
+      classes.push(current);
+    } else if (/^\S/.test(text)) {
+      current = undefined;
+    } else {
+      current?.body.push(text);
+    }
+  }
+
+  return classes;
+}
+
+/**
+ * Split Python call arguments into positional ones and keywords
+ */
+function getPythonArguments(args: string): { positional: string[]; keywords: Record<string, string> } {
+  const positional: string[] = [];
+  const keywords: Record<string, string> = {};
+  for (const arg of splitArguments(args)) {
+    const keyword = arg.match(/^(\w+)\s*=\s*([\s\S]+)$/);
+    if (keyword?.[1] && keyword[2]) {
+      keywords[keyword[1]] = keyword[2].trim();
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, keywords };
+}
+
+/**
+ * Get the Django app label of a models module: the package holding models.py or models/
+ */
+function getDjangoAppLabel(file: string): string | undefined {
+  const parts = file.replace(/\.py$/i, '').split('/');
+  const index = parts.lastIndexOf('models');
+  return index > 0 ? parts[index - 1] : parts[parts.length - 2];
+}
+
+/**
+ * Parse the Django models of a module. Tables default to `<app>_<model>`,
+ * foreign keys add an `<field>_id` column, models without a primary key get
+ * Django's `id`, and abstract models only lend their fields to subclasses.
+ */
+export function parseDjangoModels(file: string, content: string): DatabaseTable[] {
+  const appLabel = getDjangoAppLabel(file);
+  const models = new Map<string, { table: DatabaseTable; abstract: boolean }>();
+
+  for (const { name, bases, body } of getPythonClasses(content)) {
+    const parents = bases.split(',').map((base) => models.get(base.trim())?.table);
+    if (!/\bmodels\.Model\b/.test(bases) && !parents.some(Boolean)) continue;
+
+    const dbTable = body.map((line) => line.match(/^\s+db_table\s*=\s*(.+)$/)?.[1]).find(Boolean);
+    const defaultName = appLabel ? `${appLabel}_${name.toLowerCase()}` : name.toLowerCase();
+    const table = createTable(getPythonString(dbTable?.trim()) ?? defaultName, name, file);
+    for (const parent of parents) {
+      table.columns.push(...(parent?.columns ?? []).map((column) => ({ ...column })));
+      for (const relationship of parent?.relationships ?? []) addRelationship(table, { ...relationship });
+    }
+
+    for (const line of body) {
+      const field = line.match(/^\s+(\w+)\s*(?::[^=]+)?=\s*(?:models\.)?(\w+(?:Field|Key))\(([\s\S]*)\)\s*$/);
+      if (!field?.[1] || !field[2]) continue;
+      const [, property, type, args = ''] = field;
+      const { positional, keywords } = getPythonArguments(args);
+      const column = getPythonString(keywords.db_column);
+      const nullable = keywords.null === 'True';
+
+      const kind = RELATIONSHIP_KINDS[type];
+      if (kind) {
+        const target = positional[0] ?? keywords.to ?? '';
+        const related = getPythonString(target) ?? target;
+        const model = related === 'self' ? name : /AUTH_USER_MODEL$/.test(related) ? 'auth_user' : related.replace(/^.*\./, '');
+        if (kind === 'many-to-many') {
+          addRelationship(table, createRelationship(kind, model));
+        } else {
+          table.columns.push(createColumn(column ?? `${property}_id`, type, nullable));
+          addRelationship(table, createRelationship(kind, model, column ?? `${property}_id`));
+        }
+        continue;
+      }
+
+      table.columns.push(createColumn(column ?? property, type, nullable, keywords.primary_key === 'True'));
+    }
+
+    if (!table.columns.some((c) => c.primaryKey)) {
+      table.columns.unshift(createColumn('id', 'AutoField', false, true));
+    }
+    models.set(name, { table, abstract: body.some((line) => /^\s+abstract\s*=\s*True\b/.test(line)) });
+  }
+
+  return resolveRelationships([...models.values()].filter((m) => !m.abstract).map((m) => m.table));
+}
+
+/**
+ * Parse the declarative SQLAlchemy models of a module: classes with a
+ * `__tablename__`, or Flask-SQLAlchemy `db.Model` subclasses named after the
+ * snake_case class. Foreign keys are many-to-one; `relationship()` is only
+ * recorded when its kind shows, through `secondary`, `uselist=False` or a list annotation.
+ */
+export function parseSqlAlchemyModels(file: string, content: string): DatabaseTable[] {
+  const tables: DatabaseTable[] = [];
+
+  for (const { name, bases, body } of getPythonClasses(content)) {
+    const tableName = getPythonString(body.map((line) => line.match(/^\s+__tablename__\s*=\s*(.+)$/)?.[1]?.trim()).find(Boolean));
+    if (!tableName && !/\bdb\.Model\b/.test(bases)) continue;
+    const table = createTable(tableName ?? toSnakeCase(name), name, file);
+
+    for (const line of body) {
+      const field = line.match(/^\s+(\w+)\s*(?::\s*(.+?))?\s*=\s*(?:\w+\.)*(Column|mapped_column|relationship)\(([\s\S]*)\)\s*$/);
+      if (!field?.[1] || !field[3]) continue;
+      const [, property, annotation = '', call, args = ''] = field;
+      const { positional, keywords } = getPythonArguments(args);
+      // The type inside Mapped[...], without Optional[...]
+      const mapped = annotation.match(/^Mapped\[\s*(?:Optional\[\s*)?(.+?)\s*\]*(?:\s*\|\s*None)?\s*\]*$/)?.[1];
+
+      if (call === 'relationship') {
+        const target = getPythonString(positional[0]) ?? positional[0] ?? mapped?.match(/["']?(\w+)["']?$/)?.[1];
+        const kind = keywords.secondary
+          ? 'many-to-many'
+          : keywords.uselist === 'False'
+            ? 'one-to-one'
+            : /^Mapped\[\s*(List|list|Set|set)\[/.test(annotation)
+              ? 'one-to-many'
+              : undefined;
+        if (target && kind) addRelationship(table, createRelationship(kind, target));
+        continue;
+      }
+
+      const column = getPythonString(positional[0]) ?? property;
+      if (getPythonString(positional[0])) positional.shift();
+      const foreignKey = args.match(/ForeignKey\(\s*["']([^"']+)["']/)?.[1];
+      const typeArg = positional.find((arg) => !/^(?:\w+\.)*(ForeignKey|Sequence|Identity|Computed)\(/.test(arg));
+      const primaryKey = keywords.primary_key === 'True';
+      const nullable =
+        keywords.nullable !== undefined
+          ? keywords.nullable === 'True'
+          : call === 'Column'
+            ? !primaryKey
+            : /Optional\[|\|\s*None/.test(annotation);
+
+      table.columns.push(
+        createColumn(column, typeArg?.replace(/^(?:db|sa|sqlalchemy)\./, '') ?? mapped ?? 'unknown', nullable, primaryKey)
+      );
+      if (foreignKey) {
+        addRelationship(table, createRelationship('many-to-one', foreignKey.replace(/\..*$/, ''), column));
+      }
+    }
+
+    if (table.columns.length > 0) tables.push(table);
+  }
+
+  return resolveRelationships(tables);
+}
+
+/**
+ * Strip identifier quoting: "name", `name` and [name]
+ */
+function unquote(identifier: string): string {
+  return identifier.trim().replace(/["`[\]]/g, '');
+}
+
+/**
+ * Add a column definition to a table, with the foreign key it references
+ */
+function addSqlColumn(table: DatabaseTable, definition: string): void {
+  const match = definition.match(SQL_COLUMN);
+  if (!match?.[1] || !match[2]) return;
+  const constraints = definition.slice(match[0].length);
+  const name = unquote(match[1]);
+  const primaryKey = /PRIMARY\s+KEY/i.test(constraints);
+
+  table.columns = table.columns.filter((c) => c.name !== name);
+  table.columns.push(createColumn(name, match[2].trim(), !primaryKey && !/NOT\s+NULL/i.test(constraints), primaryKey));
+
+  const references = constraints.match(new RegExp(`REFERENCES\\s+${SQL_NAME}`, 'i'))?.[1];
+  if (references) {
+    addRelationship(table, createRelationship('many-to-one', unquote(references), name));
+  }
+}
+
+/**
+ * Apply a PRIMARY KEY or FOREIGN KEY table constraint
+ */
+function applySqlConstraint(table: DatabaseTable, definition: string): void {
+  const primaryKey = definition.match(/PRIMARY\s+KEY\s*\(([^)]*)\)/i)?.[1];
+  for (const name of primaryKey?.split(',').map(unquote) ?? []) {
+    const column = table.columns.find((c) => c.name === name);
+    if (column) {
+      column.primaryKey = true;
+      delete column.nullable;
+    }
+  }
+
+  const foreignKey = definition.match(new RegExp(`FOREIGN\\s+KEY\\s*\\(([^)]*)\\)\\s*REFERENCES\\s+${SQL_NAME}`, 'i'));
+  const [column] = foreignKey?.[1]?.split(',') ?? [];
+  if (column && foreignKey?.[2]) {
+    addRelationship(table, createRelationship('many-to-one', unquote(foreignKey[2]), unquote(column)));
+  }
+}
+
+/**
+ * Replay SQL migrations in order: CREATE TABLE, ALTER TABLE (add, drop,
+ * rename and retype columns, add keys, rename the table) and DROP TABLE.
+ * A table's source is the migration creating it.
+ */
+export function parseSqlMigrations(migrations: { file: string; content: string }[]): DatabaseTable[] {
+  const tables = new Map<string, DatabaseTable>();
+  const key = (name: string) => unquote(name).toLowerCase();
+
+  for (const { file, content } of migrations) {
+    const sql = content.replace(/--.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
+
+    for (const raw of sql.split(';')) {
+      const statement = raw.trim().replace(/\s+/g, ' ');
+
+      const create = statement.match(new RegExp(`^CREATE\\s+TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?${SQL_NAME}\\s*\\((.*)\\)`, 'is'));
+      if (create?.[1] && create[2]) {
+        const table = createTable(unquote(create[1]), undefined, file);
+        const definitions = splitArguments(create[2]);
+        for (const definition of definitions.filter((d) => !SQL_CONSTRAINT.test(d))) addSqlColumn(table, definition);
+        for (const definition of definitions.filter((d) => SQL_CONSTRAINT.test(d))) applySqlConstraint(table, definition);
+        tables.set(key(create[1]), table);
+        continue;
+      }
+
+      const alter = statement.match(new RegExp(`^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?${SQL_NAME}\\s+(.*)$`, 'is'));
+      const table = alter?.[1] ? tables.get(key(alter[1])) : undefined;
+      if (alter?.[1] && alter[2] && table) {
+        for (const action of splitArguments(alter[2])) {
+          const renameTable = action.match(new RegExp(`^RENAME\\s+TO\\s+${SQL_NAME}`, 'i'))?.[1];
+          const renameColumn = action.match(/^RENAME\s+(?:COLUMN\s+)?([\w"`[\]]+)\s+TO\s+([\w"`[\]]+)/i);
+          const retype = action.match(/^ALTER\s+(?:COLUMN\s+)?([\w"`[\]]+)\s+(?:SET\s+DATA\s+)?TYPE\s+(.+?)(?:\s+USING\s+.*)?$/i);
+          const nullability = action.match(/^ALTER\s+(?:COLUMN\s+)?([\w"`[\]]+)\s+(SET|DROP)\s+NOT\s+NULL/i);
+          const drop = action.match(/^DROP\s+(?!CONSTRAINT|INDEX|KEY|PRIMARY|FOREIGN)(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?([\w"`[\]]+)/i)?.[1];
+          const add = action.match(/^(?:ADD|MODIFY)\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i)?.[1];
+
+          if (renameTable) {
+            tables.delete(key(table.name));
+            table.name = unquote(renameTable);
+            tables.set(key(renameTable), table);
+          } else if (renameColumn?.[1] && renameColumn[2]) {
+            const [from, to] = [unquote(renameColumn[1]), unquote(renameColumn[2])];
+            for (const column of table.columns.filter((c) => c.name === from)) column.name = to;
+            for (const relationship of table.relationships?.filter((r) => r.column === from) ?? []) relationship.column = to;
+          } else if (retype?.[1] && retype[2]) {
+            const name = unquote(retype[1]);
+            const column = table.columns.find((c) => c.name === name);
+            if (column) column.type = retype[2];
+          } else if (nullability?.[1] && nullability[2]) {
+            const name = unquote(nullability[1]);
+            const column = table.columns.find((c) => c.name === name);
+            if (column && nullability[2].toUpperCase() === 'SET') delete column.nullable;
+            if (column && nullability[2].toUpperCase() === 'DROP' && !column.primaryKey) column.nullable = true;
+          } else if (drop) {
+            table.columns = table.columns.filter((c) => c.name !== unquote(drop));
+            table.relationships = table.relationships?.filter((r) => r.column !== unquote(drop));
+          } else if (add) {
+            if (SQL_CONSTRAINT.test(add)) applySqlConstraint(table, add);
+            else addSqlColumn(table, add);
+          }
+        }
+        continue;
+      }
+
+      const dropTables = statement.match(/^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?(.+?)(?:\s+(?:CASCADE|RESTRICT))?$/i)?.[1];
+      for (const name of dropTables?.split(',') ?? []) {
+        tables.delete(key(name));
+      }
+    }
+  }
+
+  const result = [...tables.values()];
+  for (const table of result) {
+    if (table.relationships?.length === 0) delete table.relationships;
+  }
+  return result;
+}
+
+/**
+ * Read the tables declared by one source file's models, picking the ORM from its contents
+ */
+export function extractModelTables(file: string, content: string): DatabaseTable[] {
+  if (/\.py$/i.test(file)) {
+    return [
+      ...(/\bmodels\.Model\b/.test(content) ? parseDjangoModels(file, content) : []),
+      ...(/\b(Column|mapped_column)\(/.test(content) ? parseSqlAlchemyModels(file, content) : []),
+    ];
+  }
+  if (!isParsableSource(file)) return [];
+  return [
+    ...(/@Entity\b/.test(content) ? parseTypeOrmEntities(file, content) : []),
+    ...(/\.(define|init)\(/.test(content) && /sequelize/i.test(content) ? parseSequelizeModels(file, content) : []),
+  ];
+}
+
+/**
+ * Discover a project's database schema from its Prisma schemas, ORM models
+ * among the given source files, and SQL migrations replayed in path order.
+ * Models win over migrations for tables both declare.
+ */
+export async function discoverDatabaseSchema(projectDir: string, files: string[]): Promise<DatabaseSchema | undefined> {
+  const models: DatabaseTable[] = [];
+  const migrations: { file: string; content: string }[] = [];
+
+  const schemaFiles = (await glob(SCHEMA_FILES, { cwd: projectDir, absolute: false, ignore: SCHEMA_IGNORE })).sort();
+  for (const file of schemaFiles) {
+    const content = await readFile(join(projectDir, file), 'utf-8');
+    if (file.endsWith('.prisma')) {
+      models.push(...parsePrismaSchema(content, file));
+    } else {
+      migrations.push({ file, content });
+    }
+  }
+
+  for (const file of files) {
+    if (!isParsableSource(file) && !/\.py$/i.test(file)) continue;
+    try {
+      models.push(...extractModelTables(file, await readFile(join(projectDir, file), 'utf-8')));
+    } catch {
+      continue;
+    }
+  }
+
+  // Relationships can point at models declared in other files
+  const tables: DatabaseTable[] = [];
+  for (const table of [...resolveRelationships(models), ...parseSqlMigrations(migrations)]) {
+    if (!tables.some((t) => t.name.toLowerCase() === table.name.toLowerCase())) {
+      tables.push(table);
+    }
+  }
+
+  return tables.length > 0 ? { tables: tables.sort((a, b) => a.name.localeCompare(b.name)) } : undefined;
+}
+
+/**
+ * Escape a name for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Get the patterns of code querying a table: SQL naming it, or ORM calls on its model
+ */
+function getQueryPatterns(table: DatabaseTable): RegExp[] {
+  const patterns = [new RegExp(`\\b(?:FROM|JOIN|INTO|UPDATE|TABLE)\\s+["'\`[]?${escapeRegExp(table.name)}\\b`, 'i')];
+  if (table.model) {
+    const model = escapeRegExp(table.model);
+    const accessor = escapeRegExp(table.model.charAt(0).toLowerCase() + table.model.slice(1));
+    patterns.push(
+      // Django managers, Flask-SQLAlchemy queries, Sequelize and TypeORM static methods
+      new RegExp(
+        `\\b${model}\\.(?:objects|query|find\\w*|create|update|upsert|destroy|delete|count|aggregate|bulkCreate|select|where|get|filter|exists|save)\\b`
+      ),
+      // Repositories and session queries: getRepository(User), Repository<User>, session.query(User), select(User)
+      new RegExp(`(?:Repository<|getRepository\\(|InjectRepository\\(|\\.query\\(|\\bselect\\(|\\.get\\()${model}\\b`),
+      // Prisma client delegates: prisma.user.findMany()
+      new RegExp(`\\.${accessor}\\.(?:find\\w*|create\\w*|update\\w*|upsert|delete\\w*|count|aggregate|groupBy)\\(`)
+    );
+  }
+  return patterns;
+}
+
+/**
+ * Set each table's usedBy to the features whose files query it, leaving out
+ * the file declaring the table
+ */
+export async function linkDatabaseTables(projectDir: string, map: FunctionalityMap): Promise<FunctionalityMap> {
+  const tables = map.databaseSchema?.tables ?? [];
+  const usages = tables.map((table) => {
+    const usedBy: string[] = [];
+    table.usedBy = usedBy;
+    return { table, usedBy, patterns: getQueryPatterns(table) };
+  });
+  if (usages.length === 0) return map;
+
+  const contents = new Map<string, string>();
+  for (const feature of map.features) {
+    for (const { file } of feature.sourceLocations) {
+      let content = contents.get(file);
+      if (content === undefined) {
+        try {
+          content = await readFile(join(projectDir, file), 'utf-8');
+        } catch {
+          content = '';
+        }
+        contents.set(file, content);
+      }
+
+      for (const { table, usedBy, patterns } of usages) {
+        if (file === table.source || usedBy.includes(feature.id)) continue;
+        if (patterns.some((pattern) => pattern.test(content))) {
+          usedBy.push(feature.id);
+        }
+      }
+    }
+  }
+
+  return map;
+}
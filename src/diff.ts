@@ -0,0 +1,237 @@
+/**
+ * Artifact Diffs
+ *
+ * Compares .modernization artifacts before and after sessions: features
+ * added, removed or changed, coverage deltas and status transitions
+ */
+
+import type {
+  ArtifactDiff,
+  ArtifactSnapshot,
+  CoverageDelta,
+  CoverageMetrics,
+  Feature,
+  FeatureChange,
+  StatusItemKind,
+  StatusTransition,
+} from './types.js';
+import {
+  loadFunctionalityMap,
+  loadTestCoverageMap,
+  loadEnhancementPlan,
+  loadMigrationPlan,
+} from './state.js';
+
+const COVERAGE_METRICS: CoverageDelta['metric'][] = ['lineCoverage', 'branchCoverage', 'functionCoverage'];
+
+/**
+ * Read the current artifacts of a project
+ */
+export async function captureArtifacts(projectDir: string): Promise<ArtifactSnapshot> {
+  return {
+    functionalityMap: (await loadFunctionalityMap(projectDir)) ?? undefined,
+    testCoverageMap: (await loadTestCoverageMap(projectDir)) ?? undefined,
+    enhancementPlan: (await loadEnhancementPlan(projectDir)) ?? undefined,
+    migrationPlan: (await loadMigrationPlan(projectDir)) ?? undefined,
+  };
+}
+
+/**
+ * List the top-level fields that differ between two versions of a feature
+ */
+function getChangedFields(before: Feature, after: Feature): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter((key) => {
+      const a = before[key as keyof Feature];
+      const b = after[key as keyof Feature];
+      return JSON.stringify(a) !== JSON.stringify(b);
+    })
+    .sort();
+}
+
+/**
+ * Compare coverage metrics, keeping only the metrics that moved
+ */
+function diffMetrics(
+  before: CoverageMetrics | undefined,
+  after: CoverageMetrics | undefined,
+  feature?: { featureId: string; featureName: string }
+): CoverageDelta[] {
+  return COVERAGE_METRICS.filter((metric) => before?.[metric] !== after?.[metric]).map((metric) => ({
+    ...feature,
+    metric,
+    before: before?.[metric],
+    after: after?.[metric],
+  }));
+}
+
+/**
+ * Compare the status of items identified by id
+ */
+function diffStatuses(
+  kind: StatusItemKind,
+  before: { id: string; label: string; status: string }[],
+  after: { id: string; label: string; status: string }[]
+): StatusTransition[] {
+  const transitions: StatusTransition[] = [];
+  const previous = new Map(before.map((item) => [item.id, item]));
+  const current = new Set(after.map((item) => item.id));
+
+  for (const item of after) {
+    const from = previous.get(item.id)?.status;
+    if (from !== item.status) {
+      transitions.push({ kind, id: item.id, label: item.label, from, to: item.status });
+    }
+  }
+  for (const item of before) {
+    if (!current.has(item.id)) {
+      transitions.push({ kind, id: item.id, label: item.label, from: item.status });
+    }
+  }
+
+  return transitions;
+}
+
+/**
+ * Get every status-tracked item in a snapshot, grouped by kind
+ */
+function getStatusItems(
+  snapshot: ArtifactSnapshot
+): Record<StatusItemKind, { id: string; label: string; status: string }[]> {
+  const enhancements = snapshot.enhancementPlan?.enhancements ?? [];
+
+  return {
+    test_generation: (snapshot.testCoverageMap?.generationQueue ?? []).map((task) => ({
+      id: task.featureId,
+      label: `Tests for ${task.featureId}`,
+      status: task.status,
+    })),
+    enhancement: enhancements.map((e) => ({ id: e.id, label: e.title, status: e.status })),
+    implementation_step: enhancements.flatMap((e) =>
+      e.implementationSteps.map((step) => ({
+        id: `${e.id}#${step.step}`,
+        label: step.description,
+        status: step.status,
+      }))
+    ),
+    feature_migration: (snapshot.migrationPlan?.featureMigration ?? []).map((f) => ({
+      id: f.featureId,
+      label: f.featureName,
+      status: f.status,
+    })),
+  };
+}
+
+/**
+ * Compare two artifact snapshots
+ */
+export function diffArtifacts(before: ArtifactSnapshot, after: ArtifactSnapshot): ArtifactDiff {
+  const beforeFeatures = new Map((before.functionalityMap?.features ?? []).map((f) => [f.id, f]));
+  const afterFeatures = new Map((after.functionalityMap?.features ?? []).map((f) => [f.id, f]));
+
+  const featuresChanged: FeatureChange[] = [];
+  for (const [id, feature] of afterFeatures) {
+    const previous = beforeFeatures.get(id);
+    const fields = previous ? getChangedFields(previous, feature) : [];
+    if (fields.length > 0) {
+      featuresChanged.push({ id, name: feature.name, fields });
+    }
+  }
+
+  const coverage = diffMetrics(
+    before.testCoverageMap?.overallCoverage,
+    after.testCoverageMap?.overallCoverage
+  );
+  const beforeCoverage = new Map((before.testCoverageMap?.byFeature ?? []).map((f) => [f.featureId, f]));
+  const afterCoverage = new Map((after.testCoverageMap?.byFeature ?? []).map((f) => [f.featureId, f]));
+  for (const id of new Set([...beforeCoverage.keys(), ...afterCoverage.keys()])) {
+    const a = beforeCoverage.get(id);
+    const b = afterCoverage.get(id);
+    const featureName = b?.featureName ?? a?.featureName ?? id;
+    coverage.push(...diffMetrics(a?.coverage, b?.coverage, { featureId: id, featureName }));
+  }
+
+  const beforeItems = getStatusItems(before);
+  const afterItems = getStatusItems(after);
+  const statusTransitions = (Object.keys(afterItems) as StatusItemKind[]).flatMap((kind) =>
+    diffStatuses(kind, beforeItems[kind], afterItems[kind])
+  );
+
+  return {
+    featuresAdded: [...afterFeatures.values()]
+      .filter((f) => !beforeFeatures.has(f.id))
+      .map((f) => ({ id: f.id, name: f.name })),
+    featuresRemoved: [...beforeFeatures.values()]
+      .filter((f) => !afterFeatures.has(f.id))
+      .map((f) => ({ id: f.id, name: f.name })),
+    featuresChanged,
+    coverage,
+    statusTransitions,
+  };
+}
+
+/**
+ * Check if a diff records no changes
+ */
+export function isEmptyDiff(diff: ArtifactDiff): boolean {
+  return (
+    diff.featuresAdded.length === 0 &&
+    diff.featuresRemoved.length === 0 &&
+    diff.featuresChanged.length === 0 &&
+    diff.coverage.length === 0 &&
+    diff.statusTransitions.length === 0
+  );
+}
+
+/**
+ * Format a coverage value, or "n/a" when there was none
+ */
+function formatPercent(value: number | undefined): string {
+  return value === undefined ? 'n/a' : `${value.toFixed(1)}%`;
+}
+
+/**
+ * Render a diff as markdown
+ */
+export function renderArtifactDiff(diff: ArtifactDiff, title = 'Artifact Changes'): string {
+  let report = `## ${title}\n`;
+
+  if (isEmptyDiff(diff)) {
+    return `${report}\nNo changes.\n`;
+  }
+
+  if (diff.featuresAdded.length + diff.featuresRemoved.length + diff.featuresChanged.length > 0) {
+    report += `\n### Features\n`;
+    for (const f of diff.featuresAdded) {
+      report += `- Added: ${f.name} (${f.id})\n`;
+    }
+    for (const f of diff.featuresRemoved) {
+      report += `- Removed: ${f.name} (${f.id})\n`;
+    }
+    for (const f of diff.featuresChanged) {
+      report += `- Changed: ${f.name} (${f.id}): ${f.fields.join(', ')}\n`;
+    }
+  }
+
+  if (diff.coverage.length > 0) {
+    report += `\n### Coverage\n`;
+    for (const delta of diff.coverage) {
+      const scope = delta.featureName ? `${delta.featureName} ` : 'Overall ';
+      const change =
+        delta.before !== undefined && delta.after !== undefined
+          ? ` (${delta.after >= delta.before ? '+' : ''}${(delta.after - delta.before).toFixed(1)})`
+          : '';
+      report += `- ${scope}${delta.metric}: ${formatPercent(delta.before)} -> ${formatPercent(delta.after)}${change}\n`;
+    }
+  }
+
+  if (diff.statusTransitions.length > 0) {
+    report += `\n### Status Changes\n`;
+    for (const t of diff.statusTransitions) {
+      report += `- ${t.kind} ${t.label} (${t.id}): ${t.from ?? 'new'} -> ${t.to ?? 'removed'}\n`;
+    }
+  }
+
+  return report;
+}
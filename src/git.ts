@@ -0,0 +1,398 @@
+/**
+ * Git Checkpoints
+ *
+ * Snapshots the project before each agent session so a bad session can be
+ * rolled back. Checkpoints are commits under refs/modernize/checkpoints that
+ * never touch the user's branch, index or working tree.
+ *
+ * Agents can also run in a git worktree on a modernize/<mode>/<session>
+ * branch, which is merged or exported as a patch once validation passes.
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { rm, mkdtemp, mkdir, access, symlink } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { tmpdir } from 'node:os';
+import type {
+  OperationMode,
+  SessionCheckpoint,
+  RollbackResult,
+  SessionWorktree,
+  WorktreeScope,
+} from './types.js';
+import {
+  loadState,
+  saveState,
+  restoreArtifactCheckpoint,
+  getModernizationDir,
+} from './state.js';
+
+const execFileAsync = promisify(execFile);
+
+const CHECKPOINT_REF_PREFIX = 'refs/modernize/checkpoints';
+const ROLLBACK_REF_PREFIX = 'refs/modernize/rollbacks';
+const WORKTREES_DIR = 'worktrees';
+
+// Trailer of checkpoint commits naming the worktree they were taken in
+const WORKTREE_TRAILER = 'Worktree';
+
+// Modernize's own files are restored separately and never rolled back with the tree
+const EXCLUDE_MODERNIZATION = ':(exclude).modernization';
+
+// Checkpoint commits are authored by the tool, whatever the user's git config
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'modernize',
+  GIT_AUTHOR_EMAIL: 'modernize@localhost',
+  GIT_COMMITTER_NAME: 'modernize',
+  GIT_COMMITTER_EMAIL: 'modernize@localhost',
+};
+
+/**
+ * Run a git command in a directory and return its trimmed stdout
+ */
+export async function runGit(
+  cwd: string,
+  args: string[],
+  env: Record<string, string> = {}
+): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      env: { ...process.env, ...env },
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout.trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`);
+  }
+}
+
+/**
+ * Check if a directory is inside a git work tree
+ */
+export async function isGitRepository(dir: string): Promise<boolean> {
+  try {
+    return (await runGit(dir, ['rev-parse', '--is-inside-work-tree'])) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a path exists
+ */
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the commit HEAD points to, or undefined before the first commit
+ */
+async function getHead(dir: string): Promise<string | undefined> {
+  try {
+    return await runGit(dir, ['rev-parse', '--verify', '-q', 'HEAD']);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the ref a session's checkpoint is stored under
+ */
+export function getCheckpointRef(sessionNumber: number): string {
+  return `${CHECKPOINT_REF_PREFIX}/session_${sessionNumber.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Commit the current project tree, tracked and untracked files alike, to a ref.
+ * Uses a throwaway index so the user's staging area is left alone.
+ */
+async function snapshotTree(dir: string, ref: string, message: string): Promise<SessionCheckpoint> {
+  const head = await getHead(dir);
+  const tempDir = await mkdtemp(join(tmpdir(), 'modernize-index-'));
+  const env = { ...CHECKPOINT_IDENTITY, GIT_INDEX_FILE: join(tempDir, 'index') };
+
+  try {
+    await runGit(dir, head ? ['read-tree', head] : ['read-tree', '--empty'], env);
+    await runGit(dir, ['add', '-A', '--', '.', EXCLUDE_MODERNIZATION], env);
+    const tree = await runGit(dir, ['write-tree'], env);
+    const commit = await runGit(
+      dir,
+      ['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', message],
+      env
+    );
+    await runGit(dir, ['update-ref', ref, commit]);
+
+    return { ref, commit, head, createdAt: new Date().toISOString() };
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Create a checkpoint before an agent session, of the worktree the session
+ * runs in when it has one, else of the project.
+ * Returns null when the project is not in a git repository.
+ */
+export async function createCheckpoint(
+  projectDir: string,
+  sessionNumber: number,
+  worktree?: SessionWorktree
+): Promise<SessionCheckpoint | null> {
+  if (!(await isGitRepository(projectDir))) {
+    return null;
+  }
+
+  const message = `modernize: checkpoint before session ${sessionNumber}`;
+  if (!worktree) {
+    return snapshotTree(projectDir, getCheckpointRef(sessionNumber), message);
+  }
+
+  const path = relative(projectDir, worktree.path);
+  const checkpoint = await snapshotTree(
+    worktree.path,
+    getCheckpointRef(sessionNumber),
+    `${message}\n\n${WORKTREE_TRAILER}: ${path}`
+  );
+  return { ...checkpoint, worktree: path };
+}
+
+/**
+ * Look up a session's checkpoint, or null if none was recorded
+ */
+export async function getCheckpoint(
+  projectDir: string,
+  sessionNumber: number
+): Promise<SessionCheckpoint | null> {
+  const ref = getCheckpointRef(sessionNumber);
+  try {
+    const commit = await runGit(projectDir, ['rev-parse', '--verify', '-q', `${ref}^{commit}`]);
+    const info = await runGit(projectDir, [
+      'log',
+      '-1',
+      `--format=%P%n%cI%n%(trailers:key=${WORKTREE_TRAILER},valueonly)`,
+      commit,
+    ]);
+    const [parent, createdAt, worktree] = info.split('\n');
+    return {
+      ref,
+      commit,
+      head: parent || undefined,
+      ...(worktree ? { worktree } : {}),
+      createdAt: createdAt ?? '',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List project files git would include in a snapshot, relative to the project
+ */
+async function listWorkingFiles(dir: string): Promise<string[]> {
+  const output = await runGit(dir, [
+    'ls-files',
+    '--cached',
+    '--others',
+    '--exclude-standard',
+    '--',
+    '.',
+    EXCLUDE_MODERNIZATION,
+  ]);
+  return output ? output.split('\n') : [];
+}
+
+/**
+ * Restore the project's working tree to a checkpoint.
+ * The current tree is checkpointed first so the rollback itself can be undone.
+ * Files created after the checkpoint are removed; HEAD and the index are not moved.
+ */
+export async function restoreCheckpoint(
+  projectDir: string,
+  checkpoint: SessionCheckpoint
+): Promise<Omit<RollbackResult, 'checkpoint' | 'artifactsRestored'>> {
+  const warnings: string[] = [];
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const safety = await snapshotTree(
+    projectDir,
+    `${ROLLBACK_REF_PREFIX}/${stamp}`,
+    `modernize: tree before rolling back to ${checkpoint.ref}`
+  );
+
+  const snapshotFiles = await runGit(projectDir, ['ls-tree', '-r', '--name-only', checkpoint.commit, '--', '.']);
+  const keep = new Set(snapshotFiles ? snapshotFiles.split('\n') : []);
+  const removedFiles = (await listWorkingFiles(projectDir)).filter((file) => !keep.has(file));
+
+  for (const file of removedFiles) {
+    await rm(join(projectDir, file), { force: true });
+  }
+
+  await runGit(projectDir, ['restore', `--source=${checkpoint.commit}`, '--worktree', '--', '.', EXCLUDE_MODERNIZATION]);
+
+  const head = await getHead(projectDir);
+  if (head !== checkpoint.head) {
+    warnings.push(
+      `HEAD moved since the checkpoint (${checkpoint.head?.slice(0, 8) ?? 'none'} -> ${head?.slice(0, 8) ?? 'none'}); ` +
+        'commits made since then were left in place'
+    );
+  }
+
+  return {
+    restoredFiles: [...keep].filter((file) => !file.startsWith('.modernization/')).length,
+    removedFiles,
+    safetyRef: safety.ref,
+    warnings,
+  };
+}
+
+/**
+ * Roll a project back to the checkpoint taken before a session:
+ * restores the working tree, or the worktree the session ran in, and the
+ * .modernization artifacts. Throws if that worktree has since been removed.
+ */
+export async function rollbackToSession(
+  projectDir: string,
+  sessionNumber: number
+): Promise<RollbackResult> {
+  const checkpoint = await getCheckpoint(projectDir, sessionNumber);
+  if (!checkpoint) {
+    throw new Error(`No checkpoint found for session ${sessionNumber}`);
+  }
+
+  // Sessions in a worktree changed the worktree, not the project
+  const dir = checkpoint.worktree ? join(projectDir, checkpoint.worktree) : projectDir;
+  if (!(await exists(dir))) {
+    throw new Error(`Session ${sessionNumber} ran in the worktree ${checkpoint.worktree}, which no longer exists`);
+  }
+
+  const current = await loadState(projectDir);
+  const restored = await restoreCheckpoint(dir, checkpoint);
+  const artifactsRestored = await restoreArtifactCheckpoint(projectDir, sessionNumber);
+  if (!artifactsRestored) {
+    restored.warnings.push(`No artifact copies for session ${sessionNumber}; .modernization was left as is`);
+  }
+
+  // Keep numbering sessions from where we were, so later checkpoints and
+  // transcripts are not overwritten
+  const state = artifactsRestored ? await loadState(projectDir) : null;
+  if (state && current && current.sessionNumber > state.sessionNumber) {
+    state.sessionNumber = current.sessionNumber;
+    await saveState(projectDir, state);
+  }
+
+  return { checkpoint, artifactsRestored, ...restored };
+}
+
+/**
+ * Get the branch a session's worktree is created on
+ */
+export function getWorktreeBranch(mode: OperationMode, sessionNumber: number): string {
+  return `modernize/${mode}/session_${sessionNumber.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Get the worktree agents should run in for a session, creating it if needed.
+ * A mode-scoped worktree is reused for every session of the mode; a
+ * session-scoped one is created fresh, branching from the previous session's
+ * branch so work accumulates until it is merged.
+ */
+export async function prepareWorktree(
+  projectDir: string,
+  mode: OperationMode,
+  scope: WorktreeScope,
+  sessionNumber: number,
+  active?: SessionWorktree
+): Promise<SessionWorktree> {
+  if (!(await isGitRepository(projectDir))) {
+    throw new Error('Worktrees require the project to be a git repository');
+  }
+
+  if (scope === 'mode' && active?.scope === 'mode' && (await exists(active.path))) {
+    return active;
+  }
+
+  // The previous session's worktree is replaced; its branch is kept
+  if (active && (await exists(active.path))) {
+    await removeWorktree(projectDir, active);
+  }
+
+  const base = active?.branch ?? 'HEAD';
+  const baseCommit = active?.baseCommit ?? (await runGit(projectDir, ['rev-parse', '--verify', 'HEAD']));
+  const branch = getWorktreeBranch(mode, sessionNumber);
+  const path = join(getModernizationDir(projectDir), WORKTREES_DIR, branch.replace(/\//g, '-'));
+
+  await mkdir(join(getModernizationDir(projectDir), WORKTREES_DIR), { recursive: true });
+  await runGit(projectDir, ['worktree', 'add', '-q', '-b', branch, path, base]);
+
+  // Agents read and write artifacts through .modernization in their cwd
+  const link = join(path, '.modernization');
+  if (!(await exists(link))) {
+    await symlink(getModernizationDir(projectDir), link, 'dir');
+  }
+
+  return { scope, path, branch, baseCommit, createdAt: new Date().toISOString() };
+}
+
+/**
+ * Commit everything an agent changed in a worktree to its branch.
+ * Returns the new commit, or null if nothing changed.
+ */
+export async function commitWorktree(
+  worktree: SessionWorktree,
+  message: string
+): Promise<string | null> {
+  await runGit(worktree.path, ['add', '-A', '--', '.', EXCLUDE_MODERNIZATION]);
+  const staged = await runGit(worktree.path, ['diff', '--cached', '--name-only']);
+  if (!staged) {
+    return null;
+  }
+
+  await runGit(worktree.path, ['commit', '-q', '-m', message], CHECKPOINT_IDENTITY);
+  return runGit(worktree.path, ['rev-parse', 'HEAD']);
+}
+
+/**
+ * Remove a worktree's directory, keeping its branch
+ */
+export async function removeWorktree(projectDir: string, worktree: SessionWorktree): Promise<void> {
+  await runGit(projectDir, ['worktree', 'remove', '--force', worktree.path]);
+}
+
+/**
+ * Merge a worktree's branch into the project's current branch and remove the worktree
+ */
+export async function mergeWorktree(projectDir: string, worktree: SessionWorktree): Promise<string> {
+  if (await exists(worktree.path)) {
+    await commitWorktree(worktree, 'modernize: uncommitted worktree changes');
+  }
+
+  await runGit(projectDir, ['merge', '--no-ff', '-m', `Merge ${worktree.branch}`, worktree.branch]);
+
+  if (await exists(worktree.path)) {
+    await removeWorktree(projectDir, worktree);
+  }
+  return runGit(projectDir, ['rev-parse', 'HEAD']);
+}
+
+/**
+ * Export every commit on a worktree's branch since it was created as a patch series
+ */
+export async function exportWorktreePatch(
+  projectDir: string,
+  worktree: SessionWorktree
+): Promise<string> {
+  if (await exists(worktree.path)) {
+    await commitWorktree(worktree, 'modernize: uncommitted worktree changes');
+  }
+
+  const patch = await runGit(projectDir, ['format-patch', '--stdout', `${worktree.baseCommit}..${worktree.branch}`]);
+  return patch ? `${patch}\n` : '';
+}
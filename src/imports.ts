@@ -0,0 +1,430 @@
+/**
+ * Internal Import Graph
+ *
+ * Resolves the imports of TypeScript and JavaScript files to project files:
+ * relative imports, tsconfig/jsconfig path aliases and baseUrl, and the names
+ * of monorepo workspace packages. The file graph is lifted to dependency
+ * edges between features and exported as DOT or Mermaid. Imports of
+ * packages, including Python and Go ones, are recorded per file.
+ */
+
+import ts from 'typescript';
+import { readFile } from 'node:fs/promises';
+import { builtinModules } from 'node:module';
+import { posix } from 'node:path';
+import type { Feature, FeatureDependencyEdge, FunctionalityMap, GraphFormat, ImportGraph } from './types.js';
+import { isParsableSource } from './ast.js';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid'];
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Compiled output extensions and the sources they are written from
+ */
+const OUTPUT_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/**
+ * Path aliases of a tsconfig or jsconfig, with project-relative targets
+ */
+interface PathAliases {
+  baseUrl?: string;
+  paths: { pattern: string; targets: string[] }[];
+}
+
+/**
+ * A workspace package, by the name other packages import it with
+ */
+interface WorkspacePackage {
+  name: string;
+  dir: string;
+  entries: string[];
+}
+
+/**
+ * Get the modules a file imports: static and dynamic imports, re-exports and
+ * require() calls in TypeScript and JavaScript, absolute imports in Python,
+ * and import paths in Go
+ */
+export function getImportSpecifiers(file: string, content: string): string[] {
+  if (/\.py$/i.test(file)) {
+    const modules: string[] = [];
+    for (const line of content.split('\n')) {
+      const from = line.match(/^\s*from\s+([\w.]+)\s+import\b/);
+      const imports = line.match(/^\s*import\s+([\w.,\s]+?)\s*(?:#.*)?$/);
+      if (from?.[1] && !from[1].startsWith('.')) {
+        modules.push(from[1]);
+      } else if (imports?.[1]) {
+        modules.push(...imports[1].split(',').map((part) => part.trim().replace(/\s.*$/, '')).filter(Boolean));
+      }
+    }
+    return [...new Set(modules)];
+  }
+
+  if (/\.go$/i.test(file)) {
+    const paths: string[] = [];
+    for (const [, block = ''] of content.matchAll(/^\s*import\s*\(([\s\S]*?)\)/gm)) {
+      paths.push(...[...block.matchAll(/"([^"]+)"/g)].flatMap((m) => m[1] ?? []));
+    }
+    paths.push(...[...content.matchAll(/^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)].flatMap((m) => m[1] ?? []));
+    return [...new Set(paths)];
+  }
+
+  const { importedFiles } = ts.preProcessFile(content, true, true);
+  return [...new Set(importedFiles.map((f) => f.fileName))];
+}
+
+/**
+ * Get the npm package a bare specifier imports, e.g. `@scope/pkg` for
+ * `@scope/pkg/sub`, or undefined for Node built-ins and URLs
+ */
+function getPackageName(specifier: string): string | undefined {
+  if (specifier.includes(':') || specifier.startsWith('/') || builtinModules.includes(specifier.replace(/\/.*$/, ''))) {
+    return undefined;
+  }
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Read the module path a go.mod declares, which the project's own packages start with
+ */
+export async function readGoModule(projectDir: string): Promise<string | undefined> {
+  try {
+    return (await readFile(posix.join(projectDir, 'go.mod'), 'utf-8')).match(/^module\s+(\S+)/m)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a JSON file that may contain comments, like tsconfig.json
+ */
+async function readConfig(path: string): Promise<Record<string, unknown> | undefined> {
+  try {
+    const { config } = ts.parseConfigFileTextToJson(path, await readFile(path, 'utf-8'));
+    return config as Record<string, unknown> | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the path aliases of a root's tsconfig.json or jsconfig.json, following
+ * relative `extends`. Paths resolve from baseUrl, or from the config declaring them.
+ */
+async function readPathAliases(projectDir: string, root: string): Promise<PathAliases> {
+  const aliases: PathAliases = { paths: [] };
+  let declaredPaths = false;
+
+  let configFile: string | undefined;
+  for (const name of ['tsconfig.json', 'jsconfig.json']) {
+    if (await readConfig(posix.join(projectDir, root, name))) {
+      configFile = posix.join(root, name);
+      break;
+    }
+  }
+
+  // Settings in the extending config win over the ones it extends
+  for (let depth = 0; configFile && depth < 5; depth++) {
+    const config = await readConfig(posix.join(projectDir, configFile));
+    if (!config) break;
+    const configDir = posix.dirname(configFile);
+    const options = (config.compilerOptions ?? {}) as { baseUrl?: string; paths?: Record<string, string[]> };
+
+    if (options.baseUrl !== undefined && aliases.baseUrl === undefined) {
+      aliases.baseUrl = posix.normalize(posix.join(configDir, options.baseUrl));
+    }
+    if (options.paths && !declaredPaths) {
+      declaredPaths = true;
+      const base = options.baseUrl !== undefined ? posix.join(configDir, options.baseUrl) : configDir;
+      aliases.paths = Object.entries(options.paths).map(([pattern, targets]) => ({
+        pattern,
+        targets: targets.map((target) => posix.normalize(posix.join(base, target))),
+      }));
+    }
+
+    const parent = typeof config.extends === 'string' && config.extends.startsWith('.') ? config.extends : undefined;
+    configFile = parent ? posix.normalize(posix.join(configDir, parent.endsWith('.json') ? parent : `${parent}.json`)) : undefined;
+  }
+
+  // The most specific pattern wins, as in TypeScript
+  aliases.paths.sort((a, b) => b.pattern.indexOf('*') - a.pattern.indexOf('*') || b.pattern.length - a.pattern.length);
+  return aliases;
+}
+
+/**
+ * Read the names and entry points of workspace packages
+ */
+async function readWorkspacePackages(projectDir: string, workspaces: string[]): Promise<WorkspacePackage[]> {
+  const packages: WorkspacePackage[] = [];
+
+  for (const dir of workspaces) {
+    const packageJson = await readConfig(posix.join(projectDir, dir, 'package.json'));
+    if (typeof packageJson?.name !== 'string') continue;
+
+    // Built entry points usually mirror a src/ directory
+    const fields = ['source', 'module', 'main']
+      .map((field) => packageJson[field])
+      .filter((value): value is string => typeof value === 'string');
+    const entries = [
+      ...fields.flatMap((field) => [field, field.replace(/^(\.\/)?(dist|lib|build)\//, 'src/')]),
+      'src/index',
+      'index',
+    ].map((entry) => posix.normalize(posix.join(dir, entry)));
+
+    packages.push({ name: packageJson.name, dir, entries });
+  }
+
+  return packages;
+}
+
+/**
+ * Find the project file a module path refers to, trying source extensions,
+ * the sources of compiled extensions and index files
+ */
+function findFile(path: string, files: Set<string>): string | undefined {
+  const base = posix.normalize(path).replace(/\/$/, '');
+  const ext = posix.extname(base);
+  const stem = base.slice(0, base.length - ext.length);
+
+  const candidates = [
+    base,
+    ...(OUTPUT_EXTENSIONS[ext] ?? []).map((source) => stem + source),
+    ...SOURCE_EXTENSIONS.map((source) => base + source),
+    ...SOURCE_EXTENSIONS.map((source) => `${base}/index${source}`),
+  ];
+  return candidates.find((candidate) => files.has(candidate));
+}
+
+/**
+ * Resolve a specifier through path aliases, e.g. `@/lib/db` with `"@/*": ["src/*"]`
+ */
+function resolveAlias(specifier: string, aliases: PathAliases, files: Set<string>): string | undefined {
+  for (const { pattern, targets } of aliases.paths) {
+    const star = pattern.indexOf('*');
+    let match: string | undefined;
+    if (star === -1) {
+      match = specifier === pattern ? '' : undefined;
+    } else {
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length) {
+        match = specifier.slice(prefix.length, specifier.length - suffix.length);
+      }
+    }
+    if (match === undefined) continue;
+
+    for (const target of targets) {
+      const file = findFile(target.replace('*', match), files);
+      if (file) return file;
+    }
+  }
+
+  return aliases.baseUrl !== undefined ? findFile(posix.join(aliases.baseUrl, specifier), files) : undefined;
+}
+
+/**
+ * Build the import graph of a project's files, with the packages each file
+ * imports: npm package names, top-level Python modules and Go import paths
+ * outside the standard library. Files listed as unchanged keep their imports
+ * from the previous graph instead of being read again.
+ */
+export async function buildImportGraph(
+  projectDir: string,
+  files: string[],
+  options: { workspaces?: string[]; previous?: ImportGraph; unchanged?: Set<string> } = {}
+): Promise<ImportGraph> {
+  const known = new Set(files);
+  const workspaces = options.workspaces ?? [];
+
+  // Each workspace can have its own tsconfig; the longest matching root applies
+  const roots = ['', ...workspaces].sort((a, b) => b.length - a.length);
+  const aliases = new Map<string, PathAliases>();
+  for (const root of roots) {
+    aliases.set(root, await readPathAliases(projectDir, root));
+  }
+  const packages = await readWorkspacePackages(projectDir, workspaces);
+  const goModule = await readGoModule(projectDir);
+
+  const resolve = (from: string, specifier: string): string | undefined => {
+    if (specifier.startsWith('.')) {
+      return findFile(posix.join(posix.dirname(from), specifier), known);
+    }
+
+    const pkg = packages.find((p) => specifier === p.name || specifier.startsWith(`${p.name}/`));
+    if (pkg) {
+      const subpath = specifier.slice(pkg.name.length + 1);
+      const paths = subpath ? [posix.join(pkg.dir, subpath), posix.join(pkg.dir, 'src', subpath)] : pkg.entries;
+      return paths.map((path) => findFile(path, known)).find(Boolean);
+    }
+
+    return resolveAlias(specifier, getAliases(from), known);
+  };
+  const getAliases = (from: string): PathAliases =>
+    aliases.get(roots.find((r) => r === '' || from.startsWith(`${r}/`)) ?? '') ?? { paths: [] };
+
+  // Specifiers that did not resolve to a file but name an alias are not packages
+  const isAlias = (from: string, specifier: string) =>
+    getAliases(from).paths.some(({ pattern }) => specifier.startsWith(pattern.replace(/\*.*$/, '')) && pattern !== '*');
+
+  // Python modules of the project itself, by the names they are imported with
+  const localModules = new Set(
+    files.filter((file) => /\.py$/i.test(file)).flatMap((file) => file.replace(/\.py$/i, '').split('/'))
+  );
+
+  const getPackages = (from: string, specifiers: string[]): (string | undefined)[] => {
+    if (/\.py$/i.test(from)) {
+      return specifiers.map((module) => module.replace(/\..*$/, '')).filter((module) => !localModules.has(module));
+    }
+    if (/\.go$/i.test(from)) {
+      // Standard library paths have no domain
+      return specifiers.filter(
+        (path) => path.replace(/\/.*$/, '').includes('.') && path !== goModule && !path.startsWith(`${goModule}/`)
+      );
+    }
+    return specifiers
+      .filter((specifier) => !specifier.startsWith('.') && !isAlias(from, specifier) && resolve(from, specifier) === undefined)
+      .map(getPackageName)
+      .filter((name) => !packages.some((p) => p.name === name));
+  };
+
+  const packageImports: Record<string, string[]> = {};
+  const graph: ImportGraph = { files: {}, packages: packageImports };
+  for (const file of files) {
+    if (!isParsableSource(file) && !/\.(py|go)$/i.test(file)) continue;
+
+    let imports: string[];
+    let external: (string | undefined)[];
+    if (options.previous && options.unchanged?.has(file)) {
+      imports = (options.previous.files[file] ?? []).filter((target) => known.has(target));
+      external = options.previous.packages?.[file] ?? [];
+    } else {
+      let content: string;
+      try {
+        content = await readFile(posix.join(projectDir, file), 'utf-8');
+      } catch {
+        continue;
+      }
+      const specifiers = getImportSpecifiers(file, content);
+      imports = isParsableSource(file)
+        ? specifiers
+            .map((specifier) => resolve(file, specifier))
+            .filter((target): target is string => target !== undefined && target !== file)
+        : [];
+      external = getPackages(file, specifiers);
+    }
+
+    if (imports.length > 0) {
+      graph.files[file] = [...new Set(imports)].sort();
+    }
+    const names = [...new Set(external.filter((name): name is string => Boolean(name)))].sort();
+    if (names.length > 0) {
+      packageImports[file] = names;
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Lift a file import graph to edges between the features owning the files
+ */
+export function getFeatureEdges(features: Feature[], graph: ImportGraph): FeatureDependencyEdge[] {
+  const owners = new Map<string, string>();
+  for (const feature of features) {
+    for (const loc of feature.sourceLocations) {
+      if (!owners.has(loc.file)) owners.set(loc.file, feature.id);
+    }
+  }
+
+  const counts = new Map<string, FeatureDependencyEdge>();
+  for (const [file, targets] of Object.entries(graph.files)) {
+    const from = owners.get(file);
+    for (const target of targets) {
+      const to = owners.get(target);
+      if (!from || !to || from === to) continue;
+
+      const key = `${from}\n${to}`;
+      const edge = counts.get(key) ?? { from, to, imports: 0 };
+      edge.imports++;
+      counts.set(key, edge);
+    }
+  }
+
+  return [...counts.values()].sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+}
+
+/**
+ * Set each feature's dependencies to the features whose files it imports
+ */
+export function linkFeatureDependencies(features: Feature[], graph: ImportGraph): Feature[] {
+  const edges = getFeatureEdges(features, graph);
+  for (const feature of features) {
+    feature.dependencies = edges.filter((e) => e.from === feature.id).map((e) => e.to);
+  }
+  return features;
+}
+
+/**
+ * Render a map's dependency graph as Graphviz DOT or a Mermaid flowchart,
+ * between features or, with `files`, between source files
+ */
+export function exportDependencyGraph(
+  map: FunctionalityMap,
+  format: GraphFormat,
+  level: 'features' | 'files' = 'features'
+): string {
+  const nodes = new Map<string, string>();
+  let edges: FeatureDependencyEdge[];
+
+  if (level === 'files') {
+    const files = map.importGraph?.files ?? {};
+    edges = Object.entries(files).flatMap(([from, targets]) => targets.map((to) => ({ from, to, imports: 1 })));
+    for (const file of [...new Set(edges.flatMap((e) => [e.from, e.to]))].sort()) {
+      nodes.set(file, file);
+    }
+  } else {
+    for (const feature of map.features) {
+      nodes.set(feature.id, feature.name);
+    }
+    // Maps discovered before the graph existed only have feature dependencies
+    edges = map.importGraph
+      ? getFeatureEdges(map.features, map.importGraph)
+      : map.features.flatMap((f) => f.dependencies.filter((to) => nodes.has(to)).map((to) => ({ from: f.id, to, imports: 0 })));
+  }
+
+  // Feature edges are labelled with the number of imports behind them
+  const label = (edge: FeatureDependencyEdge) => (level === 'features' && edge.imports > 0 ? String(edge.imports) : '');
+
+  if (format === 'dot') {
+    const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+    const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+    for (const [id, name] of nodes) {
+      lines.push(`  ${quote(id)} [label=${quote(name)}];`);
+    }
+    for (const edge of edges) {
+      const text = label(edge);
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${text ? ` [label=${quote(text)}]` : ''};`);
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  // Mermaid node IDs must be plain identifiers
+  const ids = new Map([...nodes.keys()].map((key, index) => [key, `n${index}`]));
+  const lines = ['graph LR'];
+  for (const [id, name] of nodes) {
+    lines.push(`  ${ids.get(id)}["${name.replace(/"/g, '#quot;')}"]`);
+  }
+  for (const edge of edges) {
+    const text = label(edge);
+    lines.push(`  ${ids.get(edge.from)} -->${text ? `|${text}|` : ''} ${ids.get(edge.to)}`);
+  }
+  return lines.join('\n') + '\n';
+}
@@ -28,6 +28,16 @@ export {
   loadMigrationPlan,
   saveMigrationPlan,
   saveSessionTranscript,
+  loadSessionTranscript,
+  getSessionTranscriptPath,
+  saveArtifactCheckpoint,
+  restoreArtifactCheckpoint,
+  getArtifactCheckpointDir,
+  saveSessionSnapshot,
+  loadSessionSnapshot,
+  getSessionSnapshotPath,
+  loadDiscoveryCache,
+  saveDiscoveryCache,
   addSessionSummary,
   createSessionSummary,
   completeSessionSummary,
@@ -37,15 +47,152 @@ export {
   markDiscoveryComplete,
   updateCoverageMetrics,
   updateMigrationProgress,
+  getArtifactPath,
+  checkArtifact,
+  repairArtifactFile,
+  quarantineArtifact,
+  backupArtifact,
+  acquireLock,
+  releaseLock,
+  readLock,
+  isLockStale,
+  describeLockHolder,
+  createEmptyUsage,
+  addUsage,
+  getTotalTokens,
+  summarizeUsage,
 } from './state.js';
 
+// Artifact version migrations
+export {
+  ARTIFACT_VERSIONS,
+  ARTIFACT_MIGRATIONS,
+  MIGRATION_REGISTRY,
+  compareVersions,
+  migrateArtifact,
+} from './migrations.js';
+
+// Artifact schemas
+export {
+  ARTIFACT_KINDS,
+  validateArtifact,
+  repairArtifact,
+  formatSchemaIssues,
+} from './schema.js';
+
+// Reports
+export {
+  REPORT_SCHEMA_VERSION,
+  REPORT_FORMATS,
+  buildReport,
+  renderReport,
+  renderReportJson,
+  renderReportHtml,
+  renderReportJUnit,
+} from './report.js';
+
+// Session transcripts
+export {
+  TRANSCRIPT_ENTRY_KINDS,
+  getTranscriptEntries,
+  filterTranscriptEntries,
+} from './transcript.js';
+
+// Artifact diffs
+export {
+  captureArtifacts,
+  diffArtifacts,
+  isEmptyDiff,
+  renderArtifactDiff,
+} from './diff.js';
+
+// Git checkpoints and worktrees
+export {
+  isGitRepository,
+  getCheckpointRef,
+  createCheckpoint,
+  getCheckpoint,
+  restoreCheckpoint,
+  rollbackToSession,
+  getWorktreeBranch,
+  prepareWorktree,
+  commitWorktree,
+  removeWorktree,
+  mergeWorktree,
+  exportWorktreePatch,
+} from './git.js';
+
+// Source parsing
+export { analyzeModule, isParsableSource } from './ast.js';
+
+// Route extraction
+export { HTTP_METHODS, extractRoutes, canExtractRoutes, getNextRoutePath, findRouterMounts, linkRouterMounts } from './routes.js';
+
+// Import graph
+export {
+  GRAPH_FORMATS,
+  getImportSpecifiers,
+  buildImportGraph,
+  getFeatureEdges,
+  linkFeatureDependencies,
+  exportDependencyGraph,
+} from './imports.js';
+
+// Database schema
+export {
+  parsePrismaSchema,
+  parseTypeOrmEntities,
+  parseSequelizeModels,
+  parseDjangoModels,
+  parseSqlAlchemyModels,
+  parseSqlMigrations,
+  extractModelTables,
+  discoverDatabaseSchema,
+  linkDatabaseTables,
+} from './database.js';
+
+// Test discovery
+export { isTestFile, countTestCases, discoverTests, linkFeatureTests } from './testing.js';
+
+// Coverage reports
+export {
+  parseLcov,
+  parseIstanbulJson,
+  parseCoberturaXml,
+  parseGoCoverProfile,
+  parseCoveragePyJson,
+  detectCoverageFormat,
+  parseCoverageReport,
+  findCoverageReports,
+  readCoverageReports,
+  computeCoverageMetrics,
+  buildTestCoverageMap,
+  applyCoverageReports,
+} from './coverage.js';
+
+// Dependency manifests
+export {
+  parseTomlSections,
+  parseRequirements,
+  parsePyproject,
+  parsePipfile,
+  readPythonDependencies,
+  parseGoMod,
+  parseCargoToml,
+  parsePomXml,
+  parseGradle,
+  readManifestDependencies,
+} from './manifests.js';
+
 // Security
 export {
   DEFAULT_SECURITY_CONFIG,
   getSecurityConfigForMode,
   validateCommand,
   isPathSafe,
+  validatePathAccess,
   sanitizeOutput,
+  sanitizeValue,
 } from './security.js';
 
 // Orchestrator agent
@@ -56,8 +203,11 @@ export {
   calculateProgress,
   generateStatusReport,
   buildAgentContext,
+  reconcileArtifacts,
   initializeProject,
   runOrchestrator,
+  runOrchestratorLoop,
+  isBudgetExhausted,
   completeSession,
 } from './agents/orchestrator.js';
 
@@ -66,12 +216,15 @@ export {
   discovery,
   createEmptyFunctionalityMap,
   generateFeatureId,
+  ensureUniqueFeatureIds,
+  preserveFeatureIds,
   detectFeatureCategory,
   parseAPIEndpoint,
   createFeature,
   createUndocumentedBehavior,
   createExternalDependency,
   mergeFeatures,
+  computeCodeMetrics,
   addOrUpdateFeature,
   calculateComplexity,
   prioritizeFeatures,
@@ -79,14 +232,19 @@ export {
   saveDiscoveryResults,
   // New discovery functions
   detectLanguage,
+  detectLanguages,
   detectFramework,
+  detectFrameworkVersion,
   detectArchitecturePattern,
   findWorkspacePackages,
   findEntryPoints,
   extractDependencies,
+  linkExternalDependencies,
   scanSourceFiles,
   extractFeatures,
   runDiscovery,
+  refreshDiscovery,
+  buildDiscoveryCache,
 } from './agents/discovery.js';
 
 // Agent prompts
@@ -105,4 +263,7 @@ export {
   runner,
   checkAuthentication,
   runAgentSession,
+  evaluateBashCommand,
+  evaluatePathAccess,
+  createSecurityHooks,
 } from './agents/runner.js';
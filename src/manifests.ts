@@ -0,0 +1,375 @@
+/**
+ * Dependency Manifests
+ *
+ * Reads dependencies from language manifests other than package.json:
+ * requirements.txt, pyproject.toml, Pipfile, go.mod, Cargo.toml, pom.xml
+ * and build.gradle
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ExternalDependency } from './types.js';
+
+/**
+ * Split TOML into sections of raw `key = value` pairs. Only the subset
+ * manifests use is supported: tables, strings, arrays and inline tables,
+ * with arrays allowed to span lines.
+ */
+export function parseTomlSections(content: string): Map<string, Record<string, string>> {
+  let current: Record<string, string> = {};
+  const sections = new Map<string, Record<string, string>>([['', current]]);
+  let pending: { key: string; value: string } | undefined;
+
+  const depth = (value: string) =>
+    (value.replace(/"[^"]*"|'[^']*'/g, '').match(/[[{]/g) ?? []).length -
+    (value.replace(/"[^"]*"|'[^']*'/g, '').match(/[\]}]/g) ?? []).length;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').trim();
+    if (!line || line.startsWith('#')) continue;
+
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (depth(pending.value) <= 0) {
+        current[pending.key] = pending.value;
+        pending = undefined;
+      }
+      continue;
+    }
+
+    const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header?.[1]) {
+      current = sections.get(header[1].trim()) ?? {};
+      sections.set(header[1].trim(), current);
+      continue;
+    }
+
+    const pair = line.match(/^("[^"]+"|'[^']+'|[\w.-]+)\s*=\s*(.*)$/);
+    if (pair?.[1] && pair[2] !== undefined) {
+      const key = pair[1].replace(/^["']|["']$/g, '');
+      if (depth(pair[2]) > 0) {
+        pending = { key, value: pair[2] };
+      } else {
+        current[key] = pair[2];
+      }
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Get the strings in a raw TOML value: a string, an array, or an inline table's `version`
+ */
+export function getTomlStrings(value: string | undefined): string[] {
+  if (!value) return [];
+  const trimmed = value.trim();
+
+  if (trimmed.startsWith('{')) {
+    const version = trimmed.match(/\bversion\s*=\s*["']([^"']*)["']/);
+    return version?.[1] !== undefined ? [version[1]] : [];
+  }
+  return [...trimmed.matchAll(/"([^"]*)"|'([^']*)'/g)].map((m) => m[1] ?? m[2] ?? '');
+}
+
+/**
+ * Normalize a Python package name (PEP 503)
+ */
+export function normalizePythonPackage(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * Split a PEP 508 requirement like `Django[bcrypt]>=4.2; python_version>"3.8"`
+ */
+function parseRequirement(requirement: string): { name: string; version?: string } | undefined {
+  const [specifier = ''] = requirement.split(';');
+  const match = specifier.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match?.[1]) return undefined;
+
+  const version = match[2]?.replace(/^\(|\)$/g, '').trim();
+  return { name: normalizePythonPackage(match[1]), version: version || undefined };
+}
+
+/**
+ * Create a dependency entry, leaving out a missing version
+ */
+function createDependency(
+  name: string,
+  version: string | undefined,
+  type: string,
+  configLocation: string
+): ExternalDependency {
+  const dependency: ExternalDependency = { name, type, usedBy: [], configLocation };
+  if (version && version !== '*') {
+    dependency.version = version;
+  }
+  return dependency;
+}
+
+/**
+ * Parse a requirements.txt file, skipping options, includes and editable installs
+ */
+export function parseRequirements(content: string, type: string, configLocation: string): ExternalDependency[] {
+  return content
+    .split('\n')
+    .map((line) => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter((line) => line && !line.startsWith('-') && !line.includes('://'))
+    .flatMap((line) => {
+      const requirement = parseRequirement(line);
+      return requirement ? [createDependency(requirement.name, requirement.version, type, configLocation)] : [];
+    });
+}
+
+/**
+ * Parse a pyproject.toml file: PEP 621 `[project]` dependencies and Poetry tables
+ */
+export function parsePyproject(content: string): ExternalDependency[] {
+  const sections = parseTomlSections(content);
+  const dependencies: ExternalDependency[] = [];
+
+  const addRequirements = (requirements: string[], type: string) => {
+    for (const line of requirements) {
+      const requirement = parseRequirement(line);
+      if (requirement) {
+        dependencies.push(createDependency(requirement.name, requirement.version, type, 'pyproject.toml'));
+      }
+    }
+  };
+
+  addRequirements(getTomlStrings(sections.get('project')?.dependencies), 'production');
+  for (const [group, value] of Object.entries(sections.get('project.optional-dependencies') ?? {})) {
+    addRequirements(getTomlStrings(value), /^(dev|test|tests|lint|docs)$/.test(group) ? 'development' : 'optional');
+  }
+
+  for (const [section, values] of sections) {
+    const type =
+      section === 'tool.poetry.dependencies'
+        ? 'production'
+        : section === 'tool.poetry.dev-dependencies' || /^tool\.poetry\.group\.[\w-]+\.dependencies$/.test(section)
+          ? 'development'
+          : undefined;
+    if (!type) continue;
+
+    for (const [name, value] of Object.entries(values)) {
+      if (name === 'python') continue;
+      const version = getTomlStrings(value)[0];
+      dependencies.push(createDependency(normalizePythonPackage(name), version, type, 'pyproject.toml'));
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse a Pipfile's `[packages]` and `[dev-packages]`
+ */
+export function parsePipfile(content: string): ExternalDependency[] {
+  const sections = parseTomlSections(content);
+  const dependencies: ExternalDependency[] = [];
+
+  for (const [section, type] of [
+    ['packages', 'production'],
+    ['dev-packages', 'development'],
+  ] as const) {
+    for (const [name, value] of Object.entries(sections.get(section) ?? {})) {
+      dependencies.push(createDependency(normalizePythonPackage(name), getTomlStrings(value)[0], type, 'Pipfile'));
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse a go.mod file's `require` directives; `// indirect` requirements are typed as such
+ */
+export function parseGoMod(content: string): ExternalDependency[] {
+  const dependencies: ExternalDependency[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (/^require\s*\($/.test(line)) {
+      inRequireBlock = true;
+      continue;
+    }
+    if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+      continue;
+    }
+
+    const requirement = (inRequireBlock ? line : line.replace(/^require\s+/, '')).match(/^(\S+)\s+(v\S+)(.*)$/);
+    if ((inRequireBlock || line.startsWith('require ')) && requirement?.[1] && requirement[2]) {
+      const type = /\/\/\s*indirect/.test(requirement[3] ?? '') ? 'indirect' : 'production';
+      dependencies.push(createDependency(requirement[1], requirement[2], type, 'go.mod'));
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse a Cargo.toml file's dependency tables, including `[dependencies.name]`
+ * tables and target-specific dependencies
+ */
+export function parseCargoToml(content: string): ExternalDependency[] {
+  const dependencies: ExternalDependency[] = [];
+  const types: Record<string, string> = {
+    dependencies: 'production',
+    'dev-dependencies': 'development',
+    'build-dependencies': 'build',
+  };
+
+  for (const [section, values] of parseTomlSections(content)) {
+    // [dependencies], [workspace.dependencies], [target.'cfg(unix)'.dependencies]
+    const table = section.match(/^(?:workspace\.|target\..+\.)?((?:dev-|build-)?dependencies)$/);
+    const tableType = table?.[1] && types[table[1]];
+    if (tableType) {
+      for (const [name, value] of Object.entries(values)) {
+        dependencies.push(createDependency(name, getTomlStrings(value)[0], tableType, 'Cargo.toml'));
+      }
+      continue;
+    }
+
+    // [dependencies.serde] with `version = "1"`
+    const single = section.match(/^((?:dev-|build-)?dependencies)\.([\w-]+)$/);
+    const singleType = single?.[1] && types[single[1]];
+    if (singleType && single?.[2]) {
+      dependencies.push(createDependency(single[2], getTomlStrings(values.version)[0], singleType, 'Cargo.toml'));
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Get the text of an XML element in a fragment
+ */
+function getXmlText(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+}
+
+/**
+ * Parse a Maven pom.xml: dependencies as `groupId:artifactId`, the parent POM,
+ * and `${property}` versions resolved from `<properties>`
+ */
+export function parsePomXml(content: string): ExternalDependency[] {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+  const properties = xml.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] ?? '';
+  const resolve = (version: string | undefined) =>
+    version?.replace(/\$\{([^}]+)\}/g, (ref, name: string) => getXmlText(properties, name.replace(/\./g, '\\.')) ?? ref);
+
+  const dependencies: ExternalDependency[] = [];
+
+  const parent = xml.match(/<parent>([\s\S]*?)<\/parent>/)?.[1];
+  if (parent) {
+    const name = `${getXmlText(parent, 'groupId')}:${getXmlText(parent, 'artifactId')}`;
+    dependencies.push(createDependency(name, resolve(getXmlText(parent, 'version')), 'parent', 'pom.xml'));
+  }
+
+  // Managed versions are not dependencies themselves
+  const body = xml.replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '');
+  for (const [, block = ''] of body.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const groupId = getXmlText(block, 'groupId');
+    const artifactId = getXmlText(block, 'artifactId');
+    if (!groupId || !artifactId) continue;
+
+    const scope = getXmlText(block, 'scope');
+    const type = scope === 'test' ? 'development' : scope === 'provided' ? 'provided' : 'production';
+    dependencies.push(createDependency(`${groupId}:${artifactId}`, resolve(getXmlText(block, 'version')), type, 'pom.xml'));
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse a Gradle build script (Groovy or Kotlin DSL): `group:artifact:version`
+ * dependencies and versioned plugins
+ */
+export function parseGradle(content: string, configLocation: string): ExternalDependency[] {
+  const dependencies: ExternalDependency[] = [];
+
+  const configurations =
+    /^\s*(implementation|api|compile|compileOnly|runtimeOnly|annotationProcessor|kapt|testImplementation|testCompile|testCompileOnly|testRuntimeOnly)\s*\(?\s*["']([^"':]+):([^"':]+)(?::([^"']+))?["']/gm;
+  for (const [, configuration = '', group, artifact, version] of content.matchAll(configurations)) {
+    const type = configuration.startsWith('test') ? 'development' : configuration === 'compileOnly' ? 'provided' : 'production';
+    dependencies.push(createDependency(`${group}:${artifact}`, version, type, configLocation));
+  }
+
+  // plugins { id 'org.springframework.boot' version '3.2.0' }
+  for (const [, id = '', version] of content.matchAll(/\bid\s*\(?\s*["']([\w.-]+)["']\s*\)?\s*version\s*\(?\s*["']([^"']+)["']/g)) {
+    dependencies.push(createDependency(id, version, 'plugin', configLocation));
+  }
+
+  return dependencies;
+}
+
+/**
+ * Read a file, or undefined when it does not exist
+ */
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Drop repeated packages, keeping the first declaration
+ */
+function uniqueDependencies(dependencies: ExternalDependency[]): ExternalDependency[] {
+  const seen = new Set<string>();
+  return dependencies.filter((dep) => {
+    if (seen.has(dep.name)) return false;
+    seen.add(dep.name);
+    return true;
+  });
+}
+
+/**
+ * Read Python dependencies from requirements files, pyproject.toml and Pipfile.
+ * A package declared in several places is listed once, from the first.
+ */
+export async function readPythonDependencies(projectDir: string): Promise<ExternalDependency[]> {
+  const dependencies: ExternalDependency[] = [];
+
+  const requirementFiles: [string, string][] = [
+    ['requirements.txt', 'production'],
+    ['requirements-dev.txt', 'development'],
+    ['dev-requirements.txt', 'development'],
+  ];
+  for (const [file, type] of requirementFiles) {
+    const content = await readOptional(join(projectDir, file));
+    if (content !== undefined) dependencies.push(...parseRequirements(content, type, file));
+  }
+
+  const pyproject = await readOptional(join(projectDir, 'pyproject.toml'));
+  if (pyproject !== undefined) dependencies.push(...parsePyproject(pyproject));
+
+  const pipfile = await readOptional(join(projectDir, 'Pipfile'));
+  if (pipfile !== undefined) dependencies.push(...parsePipfile(pipfile));
+
+  return uniqueDependencies(dependencies);
+}
+
+/**
+ * Read dependencies from every supported manifest other than package.json
+ */
+export async function readManifestDependencies(projectDir: string): Promise<ExternalDependency[]> {
+  const dependencies = await readPythonDependencies(projectDir);
+
+  const parsers: [string, (content: string) => ExternalDependency[]][] = [
+    ['go.mod', parseGoMod],
+    ['Cargo.toml', parseCargoToml],
+    ['pom.xml', parsePomXml],
+    ['build.gradle', (content) => parseGradle(content, 'build.gradle')],
+    ['build.gradle.kts', (content) => parseGradle(content, 'build.gradle.kts')],
+  ];
+  for (const [file, parse] of parsers) {
+    const content = await readOptional(join(projectDir, file));
+    if (content !== undefined) dependencies.push(...parse(content));
+  }
+
+  return uniqueDependencies(dependencies);
+}
@@ -0,0 +1,153 @@
+/**
+ * Artifact Version Migrations
+ *
+ * Upgrades older .modernization files step by step to the current format
+ */
+
+import type { ArtifactKind, ArtifactMigration, MigrationRegistry, MigrationResult } from './types.js';
+
+/**
+ * Current format version of each artifact
+ */
+export const ARTIFACT_VERSIONS: Record<ArtifactKind, string> = {
+  state: '1.1.0',
+  functionality_map: '1.1.0',
+  test_coverage: '1.0.0',
+  enhancement_plan: '1.0.0',
+  migration_plan: '1.0.0',
+};
+
+/**
+ * Version assumed for files written before they carried a version field
+ */
+const BASELINE_VERSION = '1.0.0';
+
+/**
+ * Registered upgrade steps per artifact.
+ * Each step moves data from one version to the next; when bumping a version
+ * in ARTIFACT_VERSIONS, add the step that gets there from the previous one.
+ */
+export const ARTIFACT_MIGRATIONS: Record<ArtifactKind, ArtifactMigration[]> = {
+  state: [
+    {
+      from: '1.0.0',
+      to: '1.1.0',
+      description: 'Add token and cost totals',
+      migrate: (data) => ({
+        ...data,
+        totalUsage: {
+          inputTokens: 0,
+          outputTokens: 0,
+          cacheReadInputTokens: 0,
+          cacheCreationInputTokens: 0,
+          turns: 0,
+          costUsd: 0,
+        },
+      }),
+    },
+  ],
+  functionality_map: [
+    {
+      from: '1.0.0',
+      to: '1.1.0',
+      description: 'Describe database columns and relationships as objects',
+      migrate: (data) => {
+        const schema = data.databaseSchema as { tables?: Record<string, unknown>[] } | undefined;
+        if (!Array.isArray(schema?.tables)) return data;
+        const tables = schema.tables.map((table) => ({
+          ...table,
+          columns: ((table.columns ?? []) as unknown[]).map((c) => (typeof c === 'string' ? { name: c, type: 'unknown' } : c)),
+          ...(Array.isArray(table.relationships)
+            ? { relationships: table.relationships.map((r: unknown) => (typeof r === 'string' ? { table: r } : r)) }
+            : {}),
+        }));
+        return { ...data, databaseSchema: { ...schema, tables } };
+      },
+    },
+  ],
+  test_coverage: [],
+  enhancement_plan: [],
+  migration_plan: [],
+};
+
+/**
+ * The current versions and their upgrade steps, used when reading artifacts
+ */
+export const MIGRATION_REGISTRY: MigrationRegistry = {
+  versions: ARTIFACT_VERSIONS,
+  migrations: ARTIFACT_MIGRATIONS,
+};
+
+/**
+ * Compare two dotted version strings numerically
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((p) => parseInt(p, 10) || 0);
+  const partsB = b.split('.').map((p) => parseInt(p, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff < 0 ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Upgrade artifact data to the current version.
+ * Refuses data written by a newer version rather than guessing at its format.
+ */
+export function migrateArtifact(
+  kind: ArtifactKind,
+  data: unknown,
+  migrations: ArtifactMigration[] = ARTIFACT_MIGRATIONS[kind],
+  currentVersion: string = ARTIFACT_VERSIONS[kind]
+): MigrationResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    // Leave shape errors to schema validation
+    return { data, fromVersion: currentVersion, toVersion: currentVersion, applied: [] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const fromVersion = typeof record.version === 'string' ? record.version : BASELINE_VERSION;
+
+  if (compareVersions(fromVersion, currentVersion) > 0) {
+    return {
+      data,
+      fromVersion,
+      toVersion: fromVersion,
+      applied: [],
+      error: `written by a newer version (${fromVersion}, supported up to ${currentVersion}); upgrade modernize to load it`,
+    };
+  }
+
+  let current: Record<string, unknown> = { ...record };
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  while (compareVersions(version, currentVersion) < 0) {
+    const step = migrations.find((m) => m.from === version);
+    if (!step) {
+      return {
+        data,
+        fromVersion,
+        toVersion: version,
+        applied,
+        error: `no migration path from version ${version} to ${currentVersion}`,
+      };
+    }
+
+    current = { ...step.migrate(current), version: step.to };
+    applied.push(`${step.from} -> ${step.to}: ${step.description}`);
+    version = step.to;
+  }
+
+  if (current.version === undefined) {
+    current.version = version;
+  }
+
+  return { data: current, fromVersion, toVersion: version, applied };
+}
@@ -5,6 +5,7 @@
  */
 
 import type { ModernizationState } from '../types.js';
+import { ARTIFACT_VERSIONS } from '../migrations.js';
 
 export function getCoveragePrompt(state: ModernizationState): string {
   return `# Coverage Agent
@@ -246,7 +247,7 @@ Update: \`.modernization/test_coverage.json\`
 
 \`\`\`json
 {
-  "version": "1.0.0",
+  "version": "${ARTIFACT_VERSIONS.test_coverage}",
   "analyzedAt": "ISO timestamp",
   "overallCoverage": {
     "lineCoverage": 75.5,
@@ -285,9 +286,10 @@ Coverage session is successful when:
 5. **All generated tests pass linting with zero errors**
 6. **All generated tests pass TypeScript type checking with zero errors**
 
-Update state.json with:
-- currentCoverage: new percentage
-- testCoverageMap: reference to coverage file
+Leave the coverage report the test run writes in place (\`lcov.info\`, \`coverage-final.json\`,
+Cobertura \`coverage.xml\`, Go \`coverage.out\` or coverage.py \`coverage.json\`). After the session,
+current coverage and the per-feature numbers in test_coverage.json are computed from it,
+replacing the numbers you recorded.
 
 ## Code Quality Requirements
 
@@ -5,6 +5,7 @@
  */
 
 import type { ModernizationState } from '../types.js';
+import { ARTIFACT_VERSIONS } from '../migrations.js';
 
 export function getDiscoveryPrompt(state: ModernizationState): string {
   return `# Discovery Agent
@@ -79,7 +80,7 @@ Create/update: \`.modernization/functionality_map.json\`
 
 \`\`\`json
 {
-  "version": "1.0.0",
+  "version": "${ARTIFACT_VERSIONS.functionality_map}",
   "discoveredAt": "ISO timestamp",
   "sourceAnalysis": {
     "language": "typescript",
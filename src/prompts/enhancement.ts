@@ -5,6 +5,7 @@
  */
 
 import type { ModernizationState } from '../types.js';
+import { ARTIFACT_VERSIONS } from '../migrations.js';
 
 export function getEnhancementPrompt(state: ModernizationState): string {
   return `# Enhancement Agent
@@ -107,7 +108,7 @@ Update: \`.modernization/enhancement_plan.json\`
 
 \`\`\`json
 {
-  "version": "1.0.0",
+  "version": "${ARTIFACT_VERSIONS.enhancement_plan}",
   "createdAt": "ISO timestamp",
   "enhancementSpec": "Description of enhancement",
   "baselineTestResults": {
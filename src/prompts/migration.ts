@@ -5,6 +5,7 @@
  */
 
 import type { ModernizationState } from '../types.js';
+import { ARTIFACT_VERSIONS } from '../migrations.js';
 
 export function getMigrationPrompt(state: ModernizationState): string {
   const sourceStack = state.sourceStack;
@@ -123,7 +124,7 @@ Update: \`.modernization/migration_plan.json\`
 
 \`\`\`json
 {
-  "version": "1.0.0",
+  "version": "${ARTIFACT_VERSIONS.migration_plan}",
   "createdAt": "ISO timestamp",
   "strategy": "strangler_fig",
   "source": {
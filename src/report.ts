@@ -0,0 +1,312 @@
+/**
+ * Report Generation
+ *
+ * Builds a structured report from project state and renders it as
+ * JSON, HTML or JUnit XML for dashboards and CI
+ */
+
+import { relative } from 'node:path';
+import type {
+  ModernizationState,
+  ModernizationReport,
+  ReportArtifact,
+  ReportFormat,
+  ReportSession,
+} from './types.js';
+import { checkArtifact, summarizeUsage } from './state.js';
+import { ARTIFACT_KINDS, formatSchemaIssues } from './schema.js';
+import { calculateProgress, generateStatusReport } from './agents/orchestrator.js';
+
+/**
+ * Current version of the report format
+ */
+export const REPORT_SCHEMA_VERSION = '1.0.0';
+
+export const REPORT_FORMATS: ReportFormat[] = ['markdown', 'json', 'html', 'junit'];
+
+/**
+ * Build a structured report for a project
+ */
+export async function buildReport(
+  projectDir: string,
+  state: ModernizationState
+): Promise<ModernizationReport> {
+  const artifacts: ReportArtifact[] = [];
+  for (const kind of ARTIFACT_KINDS) {
+    const check = await checkArtifact(projectDir, kind);
+    artifacts.push({
+      kind,
+      file: relative(projectDir, check.file),
+      exists: check.exists,
+      valid: check.valid,
+      errors: formatSchemaIssues(check.errors),
+    });
+  }
+
+  const sessions: ReportSession[] = state.sessions.map((session) => ({
+    sessionNumber: session.sessionNumber,
+    agentType: session.agentType,
+    mode: session.mode,
+    startedAt: session.startedAt,
+    completedAt: session.completedAt,
+    durationMinutes: session.durationMinutes,
+    operations: session.operationsCompleted.length,
+    artifactsModified: session.artifactsModified,
+    errors: session.errors,
+    usage: session.usage,
+  }));
+
+  const enhancements = state.enhancementPlan?.enhancements;
+
+  const report: ModernizationReport = {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    project: {
+      name: state.projectName,
+      path: state.projectPath,
+      mode: state.mode,
+      phase: state.currentPhase,
+      createdAt: state.createdAt,
+      updatedAt: state.updatedAt,
+    },
+    progress: {
+      percent: calculateProgress(state),
+      discoveryComplete: state.discoveryComplete,
+      currentCoverage: state.currentCoverage,
+      coverageTarget: state.coverageTarget,
+      featuresMigrated: state.featuresMigrated,
+      featuresTotal: state.featuresTotal,
+      enhancementsCompleted: enhancements?.filter((e) => e.status === 'completed').length,
+      enhancementsTotal: enhancements?.length,
+    },
+    artifacts,
+    sessions,
+    approvals: {
+      pending: state.pendingApprovals.filter((a) => a.status === 'pending'),
+      resolved: state.pendingApprovals.filter((a) => a.status !== 'pending'),
+    },
+    usage: summarizeUsage(state),
+  };
+
+  const map = state.functionalityMap;
+  if (map) {
+    const featuresByCategory: Record<string, number> = {};
+    for (const feature of map.features) {
+      featuresByCategory[feature.category] = (featuresByCategory[feature.category] ?? 0) + 1;
+    }
+
+    report.functionalityMap = {
+      language: map.sourceAnalysis.language,
+      framework: map.sourceAnalysis.framework,
+      totalFiles: map.sourceAnalysis.totalFiles,
+      totalLines: map.sourceAnalysis.totalLines,
+      features: map.features.length,
+      featuresByCategory,
+      undocumentedBehaviors: map.undocumentedBehaviors.length,
+      externalDependencies: map.externalDependencies.length,
+    };
+  }
+
+  return report;
+}
+
+/**
+ * Escape text for HTML and XML output
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Render a report as pretty-printed JSON
+ */
+export function renderReportJson(report: ModernizationReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Render a report as a standalone HTML page
+ */
+export function renderReportHtml(report: ModernizationReport): string {
+  const e = escapeXml;
+  const row = (cells: (string | number)[]) =>
+    `<tr>${cells.map((c) => `<td>${e(String(c))}</td>`).join('')}</tr>`;
+
+  const progressRows = [
+    ['Progress', `${report.progress.percent.toFixed(1)}%`],
+    ['Discovery complete', report.progress.discoveryComplete ? 'Yes' : 'No'],
+    ['Coverage', `${report.progress.currentCoverage}% of ${report.progress.coverageTarget}%`],
+    ['Features migrated', `${report.progress.featuresMigrated}/${report.progress.featuresTotal}`],
+  ];
+  if (report.progress.enhancementsTotal !== undefined) {
+    progressRows.push([
+      'Enhancements completed',
+      `${report.progress.enhancementsCompleted}/${report.progress.enhancementsTotal}`,
+    ]);
+  }
+
+  const sections: string[] = [];
+
+  sections.push(`<h2>Progress</h2>
+<table>${progressRows.map(row).join('\n')}</table>`);
+
+  sections.push(`<h2>Artifacts</h2>
+<table>
+<tr><th>Artifact</th><th>Status</th><th>Errors</th></tr>
+${report.artifacts
+  .map((a) => row([a.file, !a.exists ? 'missing' : a.valid ? 'valid' : 'invalid', a.errors.join('; ')]))
+  .join('\n')}
+</table>`);
+
+  if (report.functionalityMap) {
+    const map = report.functionalityMap;
+    sections.push(`<h2>Functionality Map</h2>
+<table>
+${row(['Language', map.framework ? `${map.language} (${map.framework})` : map.language])}
+${row(['Files', map.totalFiles])}
+${row(['Lines', map.totalLines])}
+${row(['Features', map.features])}
+${row(['Undocumented behaviors', map.undocumentedBehaviors])}
+${row(['External dependencies', map.externalDependencies])}
+</table>`);
+  }
+
+  if (report.approvals.pending.length > 0) {
+    sections.push(`<h2>Pending Approvals</h2>
+<table>
+<tr><th>ID</th><th>Operation</th><th>Risk</th><th>Description</th></tr>
+${report.approvals.pending.map((a) => row([a.id, a.operation, a.riskLevel, a.description])).join('\n')}
+</table>`);
+  }
+
+  sections.push(`<h2>Sessions</h2>
+<table>
+<tr><th>#</th><th>Agent</th><th>Mode</th><th>Started</th><th>Operations</th><th>Cost</th><th>Errors</th></tr>
+${report.sessions
+  .map((s) =>
+    row([
+      s.sessionNumber,
+      s.agentType,
+      s.mode ?? '',
+      s.startedAt,
+      s.operations,
+      s.usage ? `$${s.usage.costUsd.toFixed(2)}` : '',
+      s.errors.join('; '),
+    ])
+  )
+  .join('\n')}
+</table>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Modernization Report: ${e(report.project.name)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+td, th { border: 1px solid #ccc; padding: 0.25rem 0.5rem; text-align: left; }
+</style>
+</head>
+<body>
+<h1>Modernization Report: ${e(report.project.name)}</h1>
+<p>Mode: ${e(report.project.mode)} &middot; Phase: ${e(report.project.phase)} &middot; Generated: ${e(report.generatedAt)}</p>
+${sections.join('\n\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a report as JUnit XML: one test case per session, artifact and
+ * approval, so CI can flag failed sessions and invalid artifacts
+ */
+export function renderReportJUnit(report: ModernizationReport): string {
+  const e = escapeXml;
+  const suites: string[] = [];
+
+  const suite = (name: string, cases: string[], failures: number, skipped: number) =>
+    `  <testsuite name="${e(name)}" tests="${cases.length}" failures="${failures}" skipped="${skipped}">\n` +
+    cases.join('\n') +
+    (cases.length > 0 ? '\n' : '') +
+    '  </testsuite>';
+
+  const sessionCases = report.sessions.map((s) => {
+    const name = `session ${s.sessionNumber} (${s.agentType})`;
+    const time = ((s.durationMinutes ?? 0) * 60).toFixed(0);
+    if (s.errors.length === 0) {
+      return `    <testcase classname="sessions" name="${e(name)}" time="${time}"/>`;
+    }
+    return (
+      `    <testcase classname="sessions" name="${e(name)}" time="${time}">\n` +
+      `      <failure message="${e(s.errors[0] ?? '')}">${e(s.errors.join('\n'))}</failure>\n` +
+      '    </testcase>'
+    );
+  });
+  suites.push(
+    suite('sessions', sessionCases, report.sessions.filter((s) => s.errors.length > 0).length, 0)
+  );
+
+  const present = report.artifacts.filter((a) => a.exists);
+  const artifactCases = present.map((a) => {
+    if (a.valid) {
+      return `    <testcase classname="artifacts" name="${e(a.file)}"/>`;
+    }
+    return (
+      `    <testcase classname="artifacts" name="${e(a.file)}">\n` +
+      `      <failure message="${a.errors.length} schema errors">${e(a.errors.join('\n'))}</failure>\n` +
+      '    </testcase>'
+    );
+  });
+  suites.push(suite('artifacts', artifactCases, present.filter((a) => !a.valid).length, 0));
+
+  const approvals = [...report.approvals.pending, ...report.approvals.resolved];
+  const approvalCases = approvals.map((a) => {
+    const name = `${a.id}: ${a.operation}`;
+    if (a.status === 'approved') {
+      return `    <testcase classname="approvals" name="${e(name)}"/>`;
+    }
+    // Pending and rejected operations were never run
+    const reason = a.status === 'pending' ? 'awaiting approval' : 'rejected';
+    return (
+      `    <testcase classname="approvals" name="${e(name)}">\n` +
+      `      <skipped message="${reason}"/>\n` +
+      '    </testcase>'
+    );
+  });
+  suites.push(
+    suite('approvals', approvalCases, 0, approvals.filter((a) => a.status !== 'approved').length)
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${e(`modernize ${report.project.name}`)}">
+${suites.join('\n')}
+</testsuites>
+`;
+}
+
+/**
+ * Render a report in the requested format.
+ * Markdown keeps the status report layout used by `modernize status`.
+ */
+export function renderReport(
+  report: ModernizationReport,
+  state: ModernizationState,
+  format: ReportFormat
+): string {
+  switch (format) {
+    case 'json':
+      return renderReportJson(report);
+    case 'html':
+      return renderReportHtml(report);
+    case 'junit':
+      return renderReportJUnit(report);
+    case 'markdown':
+      return generateStatusReport(state);
+  }
+}
@@ -0,0 +1,1257 @@
+/**
+ * HTTP Route Extraction
+ *
+ * Statically finds the HTTP routes a source file declares: Express routers,
+ * NestJS controllers and Next.js API routes; Flask, FastAPI and Django URL
+ * patterns; Gin, Echo and Fiber routers in Go; Actix, Axum and Rocket in
+ * Rust; and Spring controllers in Java and Kotlin
+ */
+
+import ts from 'typescript';
+import { readFile } from 'node:fs/promises';
+import { posix } from 'node:path';
+import type { APIEndpoint, FunctionalityMap, RouteHandler, RouterMount } from './types.js';
+import { isParsableSource, parseSourceFile, lineOf, getString, getCalleeName, getDecorators } from './ast.js';
+import { getLogicalLines, getPythonString, splitArguments } from './text.js';
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
+
+/**
+ * Names of middleware, guards and calls that look like they enforce
+ * authentication. Sessions, tokens and logins only count when required or
+ * checked, so a /login handler's validators are not taken for auth.
+ */
+const AUTH_PATTERN =
+  /auth|jwt|passport|guard|protect|permission|role|current_?user|login_?required|logged_?in|(require|verify|check|ensure|validate|get_?server)_?(session|token)/i;
+
+/**
+ * Packages providing Express apps and routers
+ */
+const EXPRESS_PACKAGES = ['express', 'router'];
+
+/**
+ * Receivers treated as Express apps or routers in files importing Express,
+ * even when not created in the file
+ */
+const ROUTER_NAME_PATTERN = /^(app|server|api|router|routes?|\w+Router)$/i;
+
+const NEST_METHOD_DECORATORS = ['Get', 'Post', 'Put', 'Patch', 'Delete', 'Options', 'Head', 'All'];
+
+/**
+ * Build an endpoint for a route
+ */
+function createEndpoint(
+  method: string,
+  path: string,
+  framework: string,
+  handler: RouteHandler,
+  auth: string[]
+): APIEndpoint {
+  const endpoint: APIEndpoint = {
+    method: method.toUpperCase(),
+    path,
+    authRequired: auth.length > 0,
+    documented: false,
+    framework,
+    handler,
+  };
+  if (auth.length > 0) {
+    endpoint.auth = [...new Set(auth)];
+  }
+  return endpoint;
+}
+
+/**
+ * Join route segments into a path with one leading slash
+ */
+function joinPaths(...parts: string[]): string {
+  return '/' + parts.flatMap((part) => part.split('/')).filter(Boolean).join('/');
+}
+
+/**
+ * Describe the handler at a node; named functions and references keep their name
+ */
+function getHandler(sourceFile: ts.SourceFile, node: ts.Node, name?: string): RouteHandler {
+  const handler: RouteHandler = { file: sourceFile.fileName, line: lineOf(sourceFile, node.getStart(sourceFile)) };
+  if (name) {
+    handler.function = name;
+  } else if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+    handler.function = node.getText();
+  } else if ((ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node)) && node.name) {
+    handler.function = node.name.text;
+  }
+  return handler;
+}
+
+/**
+ * Find calls inside a handler that look like authentication checks
+ */
+function findAuthCalls(node: ts.Node): string[] {
+  const calls: string[] = [];
+  const visit = (child: ts.Node): void => {
+    if (ts.isCallExpression(child)) {
+      const name = getCalleeName(child.expression);
+      if (AUTH_PATTERN.test(name)) calls.push(name);
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return calls;
+}
+
+/**
+ * Check if a file imports or requires one of the given packages
+ */
+function importsPackage(sourceFile: ts.SourceFile, packages: string[]): boolean {
+  let found = false;
+  const visit = (node: ts.Node): void => {
+    const specifier = ts.isImportDeclaration(node)
+      ? getString(node.moduleSpecifier)
+      : ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'require'
+        ? getString(node.arguments[0])
+        : undefined;
+    if (specifier && packages.includes(specifier)) {
+      found = true;
+    } else if (!found) {
+      ts.forEachChild(node, visit);
+    }
+  };
+  visit(sourceFile);
+  return found;
+}
+
+/**
+ * Get the module a router passed to `.use()` comes from: an identifier
+ * imported or required from it, or an inline `require('./users')`
+ */
+function getRouterModule(node: ts.Node, imports: Map<string, string>): string | undefined {
+  if (ts.isIdentifier(node)) {
+    return imports.get(node.text);
+  }
+  if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+    return getString(node.arguments[0]);
+  }
+  return undefined;
+}
+
+/**
+ * Find Express routes in files importing Express: `app.get('/path',
+ * ...middleware, handler)`, `router.route('/path').post(handler)`, auth
+ * middleware applied with `.use()`, and the prefix and middleware of
+ * routers mounted in the same file with `app.use('/prefix', router)`.
+ * Routes of routers created here but mounted elsewhere are relative to that
+ * mount; routers imported from other modules and mounted here are returned
+ * as mounts, for linkRouterMounts to resolve.
+ */
+function extractExpressRoutes(sourceFile: ts.SourceFile): { endpoints: APIEndpoint[]; mounts: RouterMount[] } {
+  if (!importsPackage(sourceFile, EXPRESS_PACKAGES)) {
+    return { endpoints: [], mounts: [] };
+  }
+
+  const routes: { receiver: string; method: string; path: string; handler: ts.Node; auth: string[] }[] = [];
+  const mounts: { parent: string; prefix: string; router: string; auth: string[] }[] = [];
+  const imported: { parent: string; prefix: string; specifier: string; auth: string[] }[] = [];
+  const routers = new Set<string>();
+  // Routers from Router(), which only serve requests once mounted
+  const mountable = new Set<string>();
+  const routerAuth = new Map<string, string[]>();
+  const imports = new Map<string, string>();
+
+  const isRouter = (receiver: ts.Expression): boolean => {
+    const name = receiver.getText();
+    return routers.has(name) || (ts.isIdentifier(receiver) && ROUTER_NAME_PATTERN.test(name));
+  };
+
+  // Children first, so chained routes come out in the order they are written
+  const visit = (node: ts.Node): void => {
+    ts.forEachChild(node, visit);
+
+    // Remember modules imported by name, which can export routers
+    if (ts.isImportDeclaration(node) && node.importClause) {
+      const specifier = getString(node.moduleSpecifier);
+      const { name, namedBindings } = node.importClause;
+      if (specifier && name) {
+        imports.set(name.text, specifier);
+      }
+      if (specifier && namedBindings && ts.isNamedImports(namedBindings)) {
+        for (const element of namedBindings.elements) {
+          imports.set(element.name.text, specifier);
+        }
+      }
+    }
+
+    // Remember apps and routers created in this file, and required modules
+    if (ts.isVariableDeclaration(node) && node.initializer && ts.isCallExpression(node.initializer)) {
+      const callee = getCalleeName(node.initializer.expression);
+      if (/^(express|express\.Router|Router)$/.test(callee)) {
+        routers.add(node.name.getText());
+        if (callee !== 'express') {
+          mountable.add(node.name.getText());
+        }
+      }
+      const required = getRouterModule(node.initializer, imports);
+      if (required && ts.isIdentifier(node.name)) {
+        imports.set(node.name.text, required);
+      }
+    }
+
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text;
+      let receiver = node.expression.expression;
+      let args = [...node.arguments];
+
+      // router.route('/path').get(handler).post(handler)
+      while (
+        ts.isCallExpression(receiver) &&
+        ts.isPropertyAccessExpression(receiver.expression) &&
+        HTTP_METHODS.includes(receiver.expression.name.text.toUpperCase())
+      ) {
+        receiver = receiver.expression.expression;
+      }
+
+      let path: string | undefined;
+      if (
+        ts.isCallExpression(receiver) &&
+        ts.isPropertyAccessExpression(receiver.expression) &&
+        receiver.expression.name.text === 'route'
+      ) {
+        path = getString(receiver.arguments[0]);
+        receiver = receiver.expression.expression;
+      } else {
+        path = getString(args[0]);
+        args = args.slice(1);
+      }
+
+      const last = args[args.length - 1];
+      if (method === 'use' && isRouter(receiver) && path === undefined) {
+        // Middleware applied to every route declared after it
+        const auth = node.arguments.map(getCalleeName).filter((name) => AUTH_PATTERN.test(name));
+        const key = receiver.getText();
+        routerAuth.set(key, [...(routerAuth.get(key) ?? []), ...auth]);
+      } else if (method === 'use' && isRouter(receiver) && path !== undefined && last) {
+        // A router mounted under a prefix, behind the middleware before it
+        const parent = receiver.getText();
+        const middleware = args.slice(0, -1).map(getCalleeName);
+        const auth = [...(routerAuth.get(parent) ?? []), ...middleware.filter((name) => AUTH_PATTERN.test(name))];
+        const specifier = getRouterModule(last, imports);
+        if (ts.isIdentifier(last) && routers.has(last.text)) {
+          mounts.push({ parent, prefix: path, router: last.text, auth });
+        } else if (specifier) {
+          imported.push({ parent, prefix: path, specifier, auth });
+        }
+      } else if (
+        path !== undefined &&
+        (HTTP_METHODS.includes(method.toUpperCase()) || method === 'all') &&
+        isRouter(receiver) &&
+        last
+      ) {
+        const middleware = args.slice(0, -1).map(getCalleeName);
+        const auth = [
+          ...(routerAuth.get(receiver.getText()) ?? []),
+          ...middleware.filter((name) => AUTH_PATTERN.test(name)),
+        ];
+        routes.push({ receiver: receiver.getText(), method, path, handler: last, auth });
+      }
+    }
+  };
+  visit(sourceFile);
+
+  // The prefixes and middleware a router is reached through, following
+  // nested mounts up to the router they start from
+  const resolveMounts = (router: string, seen: string[]): { prefix?: string; auth: string[]; root: string }[] => {
+    const parents = mounts.filter((m) => m.router === router && !seen.includes(m.parent));
+    if (parents.length === 0) {
+      return [{ auth: [], root: router }];
+    }
+    return parents.flatMap((mount) =>
+      resolveMounts(mount.parent, [...seen, router]).map((outer) => ({
+        prefix: joinPaths(outer.prefix ?? '', mount.prefix),
+        auth: [...outer.auth, ...mount.auth],
+        root: outer.root,
+      }))
+    );
+  };
+
+  const endpoints = routes.flatMap((route) =>
+    resolveMounts(route.receiver, []).map((mount) => {
+      const endpoint = createEndpoint(
+        route.method,
+        mount.prefix === undefined ? route.path : joinPaths(mount.prefix, route.path),
+        'express',
+        getHandler(sourceFile, route.handler),
+        [...mount.auth, ...route.auth]
+      );
+      if (mountable.has(mount.root)) {
+        endpoint.relativeToMount = true;
+      }
+      return endpoint;
+    })
+  );
+
+  return {
+    endpoints,
+    mounts: imported.flatMap((router) =>
+      resolveMounts(router.parent, []).map((mount) => ({
+        file: sourceFile.fileName,
+        specifier: router.specifier,
+        prefix: joinPaths(mount.prefix ?? '', router.prefix),
+        auth: [...mount.auth, ...router.auth],
+        relative: mountable.has(mount.root),
+      }))
+    ),
+  };
+}
+
+/**
+ * Find NestJS routes from `@Controller()` classes and their `@Get()`,
+ * `@Post()`, ... methods, with guards from `@UseGuards()`
+ */
+function extractNestRoutes(sourceFile: ts.SourceFile): APIEndpoint[] {
+  const endpoints: APIEndpoint[] = [];
+
+  // Guards and auth decorators, e.g. @UseGuards(AuthGuard('jwt')) or @Auth()
+  const getAuth = (decorators: { name: string; args: readonly ts.Expression[] }[]): string[] =>
+    decorators.flatMap((d) =>
+      d.name === 'UseGuards' ? d.args.map(getCalleeName) : AUTH_PATTERN.test(d.name) ? [d.name] : []
+    );
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isClassDeclaration(node)) {
+      const decorators = getDecorators(node);
+      const controller = decorators.find((d) => d.name === 'Controller');
+
+      if (controller) {
+        const [arg] = controller.args;
+        let prefix = getString(arg) ?? '';
+        if (arg && ts.isObjectLiteralExpression(arg)) {
+          const pathProperty = arg.properties.find(
+            (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && p.name.getText() === 'path'
+          );
+          prefix = getString(pathProperty?.initializer) ?? '';
+        }
+        const classAuth = getAuth(decorators);
+        const className = node.name?.text ?? 'default';
+
+        for (const member of node.members) {
+          if (!ts.isMethodDeclaration(member)) continue;
+          const methodDecorators = getDecorators(member);
+          const route = methodDecorators.find((d) => NEST_METHOD_DECORATORS.includes(d.name));
+          if (!route) continue;
+
+          const handler = getHandler(sourceFile, member, `${className}.${member.name.getText()}`);
+          const path = joinPaths(prefix, getString(route.args[0]) ?? '');
+          endpoints.push(
+            createEndpoint(route.name, path, 'nestjs', handler, [...classAuth, ...getAuth(methodDecorators)])
+          );
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return endpoints;
+}
+
+/**
+ * Get the route a Next.js file serves: `pages/api/**` or `app/**\/route.ts`
+ */
+export function getNextRoutePath(file: string): { router: 'pages' | 'app'; path: string } | undefined {
+  const normalized = file.replace(/\\/g, '/');
+
+  const pages = normalized.match(/(?:^|\/)pages\/(api(?:\/.*)?)\.[cm]?[jt]sx?$/);
+  if (pages?.[1]) {
+    const segments = pages[1].split('/');
+    if (segments[segments.length - 1] === 'index') segments.pop();
+    return { router: 'pages', path: joinPaths(...segments) };
+  }
+
+  const app = normalized.match(/(?:^|\/)app\/(?:(.*)\/)?route\.[cm]?[jt]sx?$/);
+  if (app) {
+    // Route groups and parallel route slots are not part of the URL
+    const segments = (app[1] ?? '').split('/').filter((s) => !/^\(.*\)$/.test(s) && !s.startsWith('@'));
+    return { router: 'app', path: joinPaths(...segments) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the top-level function or variable declaring a name
+ */
+function findDeclaration(sourceFile: ts.SourceFile, name: string): ts.Node | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name?.text === name) {
+      return statement;
+    }
+    if (ts.isVariableStatement(statement)) {
+      const declaration = statement.declarationList.declarations.find((d) => d.name.getText() === name);
+      if (declaration) return declaration.initializer ?? declaration;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the methods a pages router handler checks, e.g. `req.method === 'POST'`
+ */
+function findCheckedMethods(node: ts.Node): string[] {
+  const methods: string[] = [];
+  const visit = (child: ts.Node): void => {
+    if (ts.isBinaryExpression(child) && /\.method$/.test(child.left.getText())) {
+      const method = getString(child.right);
+      if (method && HTTP_METHODS.includes(method.toUpperCase())) methods.push(method.toUpperCase());
+    }
+    if (ts.isSwitchStatement(child) && /\.method$/.test(child.expression.getText())) {
+      for (const clause of child.caseBlock.clauses) {
+        const method = ts.isCaseClause(clause) ? getString(clause.expression) : undefined;
+        if (method && HTTP_METHODS.includes(method.toUpperCase())) methods.push(method.toUpperCase());
+      }
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return [...new Set(methods)];
+}
+
+/**
+ * Find Next.js API routes. App router files export one function per method;
+ * pages router files export a default handler serving the methods it checks
+ * for, or every method when it checks none.
+ */
+function extractNextRoutes(sourceFile: ts.SourceFile): APIEndpoint[] {
+  const route = getNextRoutePath(sourceFile.fileName);
+  if (!route) {
+    return [];
+  }
+
+  const endpoints: APIEndpoint[] = [];
+  const hasModifier = (node: ts.Node, kind: ts.SyntaxKind) =>
+    ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === kind);
+
+  for (const statement of sourceFile.statements) {
+    if (route.router === 'app' && hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      const declarations: [string, ts.Node][] = ts.isFunctionDeclaration(statement)
+        ? [[statement.name?.text ?? '', statement]]
+        : ts.isVariableStatement(statement)
+          ? statement.declarationList.declarations.map((d) => [d.name.getText(), d.initializer ?? d])
+          : [];
+
+      for (const [name, node] of declarations) {
+        if (HTTP_METHODS.includes(name)) {
+          const handler = getHandler(sourceFile, statement, name);
+          endpoints.push(createEndpoint(name, route.path, 'nextjs', handler, findAuthCalls(node)));
+        }
+      }
+    }
+
+    if (route.router === 'pages') {
+      let handlerNode: ts.Node | undefined;
+      if (ts.isExportAssignment(statement)) {
+        handlerNode = statement.expression;
+      } else if (ts.isFunctionDeclaration(statement) && hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+        handlerNode = statement;
+      }
+      if (!handlerNode) continue;
+
+      // Look through wrappers like `withAuth(handler)` to the function itself
+      let target = handlerNode;
+      while (ts.isCallExpression(target)) {
+        const wrapped = target.arguments[target.arguments.length - 1];
+        if (!wrapped) break;
+        target = wrapped;
+      }
+      const name = ts.isIdentifier(target) ? target.text : undefined;
+      const body = (name && findDeclaration(sourceFile, name)) || target;
+
+      const handler = getHandler(sourceFile, body, name);
+      const auth = [...findAuthCalls(handlerNode), ...(body === handlerNode ? [] : findAuthCalls(body))];
+      const checked = findCheckedMethods(body);
+      for (const method of checked.length > 0 ? checked : ['ALL']) {
+        endpoints.push(createEndpoint(method, route.path, 'nextjs', handler, auth));
+      }
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Find the offset of the parenthesis closing a call, given the offset just past its opening one
+ */
+function findClosingParen(text: string, start: number): number {
+  let depth = 0;
+  let end = start;
+  for (; end < text.length; end++) {
+    if (text[end] === '(') depth++;
+    if (text[end] === ')' && depth-- === 0) break;
+  }
+  return end;
+}
+
+/**
+ * Get the 1-based line of an offset in a file
+ */
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Get the fields of Pydantic-style models (`class Name(BaseModel):`) in a file
+ */
+function getPythonModels(content: string): Map<string, Record<string, string>> {
+  const models = new Map<string, Record<string, string>>();
+  let current: Record<string, string> | undefined;
+
+  for (const line of content.split('\n')) {
+    const model = line.match(/^class\s+(\w+)\s*\(([^)]*)\)\s*:/);
+    if (model?.[1]) {
+      current = /Model|Schema|TypedDict/.test(model[2] ?? '') ? {} : undefined;
+      if (current) models.set(model[1], current);
+      continue;
+    }
+    if (/^\S/.test(line)) {
+      current = undefined;
+    }
+    const field = line.match(/^\s+(\w+)\s*:\s*([^=]+?)\s*(?:=.*)?$/);
+    if (current && field?.[1] && field[2]) {
+      current[field[1]] = field[2];
+    }
+  }
+
+  return models;
+}
+
+/**
+ * Describe a model as a request or response schema, with its fields when defined in the file
+ */
+function getModelSchema(name: string, models: Map<string, Record<string, string>>): Record<string, unknown> {
+  const fields = models.get(name);
+  return fields ? { model: name, fields } : { model: name };
+}
+
+/**
+ * Decorators declaring Flask and FastAPI routes, e.g. `@app.route` or `@router.get`
+ */
+const PYTHON_ROUTE_DECORATOR = /^\w+\.(route|api_route|get|post|put|patch|delete|options|head)$/;
+
+/**
+ * Annotations that are framework objects rather than request bodies
+ */
+const NON_BODY_TYPES = /^(Request|Response|WebSocket|BackgroundTasks|Session|AsyncSession|UploadFile|HTTPConnection)$/;
+
+/**
+ * Find FastAPI dependencies that enforce auth: `Security(...)` or
+ * `Depends(...)` on something named like `get_current_user`
+ */
+function findDependencyAuth(text: string): string[] {
+  return [...text.matchAll(/\b(Depends|Security)\(\s*([\w.]*)/g)]
+    .filter((m) => m[1] === 'Security' || AUTH_PATTERN.test(m[2] ?? ''))
+    .flatMap((m) => m[2] || m[1] || []);
+}
+
+/**
+ * Get the value of a keyword argument like `methods=[...]`
+ */
+function getKeywordArgument(args: string[], name: string): string | undefined {
+  const arg = args.find((a) => new RegExp(`^${name}\\s*=`).test(a));
+  return arg?.slice(arg.indexOf('=') + 1).trim();
+}
+
+/**
+ * Find the body model and auth dependencies in a FastAPI handler's parameters
+ */
+function readFastApiParameters(
+  params: string,
+  models: Map<string, Record<string, string>>
+): { requestSchema?: Record<string, unknown>; auth: string[] } {
+  const auth: string[] = [];
+  let requestSchema: Record<string, unknown> | undefined;
+
+  for (const param of splitArguments(params)) {
+    const match = param.match(/^(\w+)\s*:\s*([^=]+?)\s*(?:=\s*(.*))?$/);
+    if (!match?.[1] || match[1] === 'self' || !match[2]) continue;
+    const [, , annotation, defaultValue = ''] = match;
+
+    auth.push(...findDependencyAuth(defaultValue));
+    if (/\b(Depends|Security|Query|Path|Header|Cookie|File|Form)\(/.test(defaultValue)) continue;
+
+    // Unwrap Optional[Model] and Model | None
+    const type = annotation
+      .replace(/^Optional\[(.*)\]$/, '$1')
+      .replace(/\s*\|\s*None$/, '')
+      .replace(/^Annotated\[(\w+),.*\]$/, '$1');
+    if (!requestSchema && /^[A-Z]\w*$/.test(type) && !NON_BODY_TYPES.test(type)) {
+      requestSchema = getModelSchema(type, models);
+    }
+  }
+
+  return { requestSchema, auth };
+}
+
+/**
+ * Find Flask (`@app.route`, `@bp.get`) and FastAPI (`@router.post`) routes
+ * from the decorators above each function
+ */
+function extractPythonDecoratorRoutes(file: string, content: string): APIEndpoint[] {
+  const endpoints: APIEndpoint[] = [];
+  const framework = /^\s*(from|import)\s+fastapi\b/m.test(content)
+    ? 'fastapi'
+    : /^\s*(from|import)\s+flask\b/m.test(content)
+      ? 'flask'
+      : undefined;
+  const models = getPythonModels(content);
+  let decorators: { name: string; args: string[] }[] = [];
+
+  for (const { text, line } of getLogicalLines(content)) {
+    const decorator = text.match(/^\s*@([\w.]+)\s*(?:\((.*)\))?\s*$/s);
+    if (decorator?.[1]) {
+      decorators.push({ name: decorator[1], args: splitArguments(decorator[2] ?? '') });
+      continue;
+    }
+
+    const def = text.match(/^\s*(?:async\s+)?def\s+(\w+)\s*\((.*)\)\s*(?:->.*)?:/s);
+    if (!def?.[1]) {
+      if (text.trim()) decorators = [];
+      continue;
+    }
+
+    const routes = decorators.filter((d) => PYTHON_ROUTE_DECORATOR.test(d.name));
+    const others = decorators.filter((d) => !routes.includes(d));
+    decorators = [];
+    if (routes.length === 0) continue;
+
+    const handler: RouteHandler = { file, line, function: def[1] };
+    const parameters = readFastApiParameters(def[2] ?? '', models);
+    const decoratorAuth = others.filter((d) => AUTH_PATTERN.test(d.name)).map((d) => d.name);
+
+    // flask-smorest @blp.arguments(Schema) and webargs @use_args(Schema)
+    const argumentsSchema = others
+      .filter((d) => /(\.arguments|^use_args|^use_kwargs)$/.test(d.name))
+      .map((d) => d.args[0])
+      .find((arg) => arg && /^\w+(\(.*\))?$/.test(arg));
+
+    for (const route of routes) {
+      const verb = route.name.split('.').pop();
+      if (!verb) continue;
+      const path = getPythonString(route.args[0]) ?? getPythonString(getKeywordArgument(route.args, 'path'));
+      if (path === undefined) continue;
+
+      const methodsArg = getKeywordArgument(route.args, 'methods');
+      const methods =
+        verb === 'route' || verb === 'api_route'
+          ? methodsArg
+            ? [...methodsArg.matchAll(/["'](\w+)["']/g)].flatMap((m) => m[1] ?? [])
+            : ['GET']
+          : [verb];
+
+      // dependencies=[Depends(verify_token)] on the route itself
+      const routeAuth = findDependencyAuth(getKeywordArgument(route.args, 'dependencies') ?? '');
+      const responseModel = getKeywordArgument(route.args, 'response_model');
+      const routeFramework = framework ?? (verb === 'route' ? 'flask' : 'fastapi');
+
+      for (const method of methods) {
+        const endpoint = createEndpoint(method, path, routeFramework, handler, [
+          ...decoratorAuth,
+          ...routeAuth,
+          ...parameters.auth,
+        ]);
+        const requestModel =
+          parameters.requestSchema ?? (argumentsSchema ? { model: argumentsSchema.replace(/\(.*\)$/, '') } : undefined);
+        if (requestModel && !['GET', 'HEAD', 'DELETE', 'OPTIONS'].includes(endpoint.method)) {
+          endpoint.requestSchema = requestModel;
+        }
+        if (responseModel && /^[\w.[\]]+$/.test(responseModel)) {
+          endpoint.responseSchema = getModelSchema(responseModel, models);
+        }
+        endpoints.push(endpoint);
+      }
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Find Django URL patterns: `path()`, `re_path()` and `url()` in urls.py.
+ * Included URL configs are skipped; their prefixes are not resolved.
+ */
+function extractDjangoRoutes(file: string, content: string): APIEndpoint[] {
+  const endpoints: APIEndpoint[] = [];
+  // Blank out comments, keeping offsets so lines can be counted
+  const text = content.replace(/#.*$/gm, (comment) => ' '.repeat(comment.length));
+
+  for (const call of text.matchAll(/\b(path|re_path|url)\s*\(/g)) {
+    const start = call.index + call[0].length;
+    const [route, view] = splitArguments(text.slice(start, findClosingParen(text, start)));
+    const pattern = getPythonString(route);
+    if (pattern === undefined || !view || /^include\(/.test(view)) continue;
+
+    // login_required(views.profile) or ProfileView.as_view()
+    const auth = [...view.matchAll(/(\w*(?:login|auth|permission|staff)\w*)\(/gi)].flatMap((m) => m[1] ?? []);
+    const target = view.replace(/^(\w+\()+/, '').replace(/\)+$/, '').replace(/\.as_view\(.*$/, '');
+    const path = call[1] === 'path' ? pattern : pattern.replace(/^\^/, '').replace(/\$$/, '');
+
+    const handler: RouteHandler = { file, line: lineAt(text, call.index), function: target };
+    const trailingSlash = path.endsWith('/') && path !== '/' ? '/' : '';
+    endpoints.push(createEndpoint('ALL', joinPaths(path) + trailingSlash, 'django', handler, auth));
+  }
+
+  return endpoints;
+}
+
+/**
+ * Blank out line and block comments in Go, Rust, Java or Kotlin source,
+ * keeping offsets so lines can be counted
+ */
+function blankComments(content: string): string {
+  return content.replace(/("(?:\\.|[^"\\\n])*")|\/\/.*$|\/\*[\s\S]*?\*\//gm, (match, string?: string) =>
+    string ?? match.replace(/[^\n]/g, ' ')
+  );
+}
+
+/**
+ * Get the value of a double-quoted or raw string literal argument
+ */
+function getQuotedString(arg: string | undefined): string | undefined {
+  return arg?.match(/^r?(["`])(.*)\1$/s)?.[2];
+}
+
+/**
+ * Get the function an argument calls or refers to, e.g. `middleware.JWT` for `middleware.JWT(config)`
+ */
+function getCallName(arg: string): string {
+  return arg.match(/^&?([\w.:]+)/)?.[1] ?? arg;
+}
+
+/**
+ * Go web frameworks, by the import path a file uses
+ */
+const GO_FRAMEWORKS: [string, RegExp][] = [
+  ['gin', /"github\.com\/gin-gonic\/gin"/],
+  ['echo', /"github\.com\/labstack\/echo(\/v\d+)?"/],
+  ['fiber', /"github\.com\/gofiber\/fiber(\/v\d+)?"/],
+];
+
+/**
+ * Router methods registering a handler: Gin and Echo use `GET`, Fiber uses `Get`
+ */
+const GO_ROUTE_METHOD = /^(GET|POST|PUT|PATCH|DELETE|OPTIONS|HEAD|Get|Post|Put|Patch|Delete|Options|Head|Any|All|Handle)$/;
+
+/**
+ * Find Gin, Echo and Fiber routes, e.g. `r.GET("/users", list)`, with the
+ * prefix and middleware of the groups they are registered on
+ */
+function extractGoRoutes(file: string, content: string): APIEndpoint[] {
+  const framework = GO_FRAMEWORKS.find(([, pattern]) => pattern.test(content))?.[0];
+  if (!framework) {
+    return [];
+  }
+
+  const endpoints: APIEndpoint[] = [];
+  const text = blankComments(content);
+  // Prefix and auth middleware of each router or group, by variable name
+  const groups = new Map<string, { prefix: string; auth: string[] }>();
+  const findAuth = (args: string[]) => args.map(getCallName).filter((name) => AUTH_PATTERN.test(name));
+
+  for (const call of text.matchAll(/(?:\b(\w+)\s*:?=\s*)?\b(\w+)\.(\w+)\s*\(/g)) {
+    const [, assigned, receiver = '', method = ''] = call;
+    const start = call.index + call[0].length;
+    const args = splitArguments(text.slice(start, findClosingParen(text, start)));
+    const group = groups.get(receiver) ?? { prefix: '', auth: [] };
+
+    if (method === 'Group') {
+      const prefix = getQuotedString(args[0]);
+      if (assigned && prefix !== undefined) {
+        groups.set(assigned, { prefix: joinPaths(group.prefix, prefix), auth: [...group.auth, ...findAuth(args.slice(1))] });
+      }
+      continue;
+    }
+    if (method === 'Use') {
+      groups.set(receiver, { ...group, auth: [...group.auth, ...findAuth(args)] });
+      continue;
+    }
+    if (!GO_ROUTE_METHOD.test(method)) continue;
+
+    // r.Handle("GET", "/users", list)
+    const routeArgs = method === 'Handle' ? args.slice(1) : args;
+    const verb = method === 'Handle' ? getQuotedString(args[0]) : /^(Any|All)$/.test(method) ? 'ALL' : method;
+    const path = getQuotedString(routeArgs[0]);
+    // Lookalikes such as fiber's c.Get("X-Header", "default") take no route path
+    if (!verb || path === undefined || !/^(\/|$)/.test(path) || routeArgs.length < 2) continue;
+
+    // Echo takes the handler before its middleware; Gin and Fiber take it last
+    const functions = routeArgs.slice(1);
+    const handlerArg = framework === 'echo' ? functions[0] : functions[functions.length - 1];
+    if (!handlerArg) continue;
+    const middleware = functions.filter((arg) => arg !== handlerArg);
+
+    const handler: RouteHandler = { file, line: lineAt(text, call.index) };
+    if (/^[\w.]+$/.test(handlerArg)) {
+      handler.function = handlerArg;
+    }
+    const trailingSlash = path.endsWith('/') && path !== '/' ? '/' : '';
+    endpoints.push(
+      createEndpoint(verb, joinPaths(group.prefix, path) + trailingSlash, framework, handler, [
+        ...group.auth,
+        ...findAuth(middleware),
+      ])
+    );
+  }
+
+  return endpoints;
+}
+
+/**
+ * Rust web frameworks, by the crate a file uses
+ */
+const RUST_FRAMEWORKS: [string, RegExp][] = [
+  ['actix', /\bactix_web\b/],
+  ['axum', /\baxum\b/],
+  ['rocket', /\brocket\b/],
+];
+
+const RUST_ROUTE_ATTRIBUTES = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'route'];
+
+/**
+ * Get the fields of the structs declared in a Rust file
+ */
+function getRustStructs(text: string): Map<string, Record<string, string>> {
+  const structs = new Map<string, Record<string, string>>();
+
+  for (const [, name = '', body = ''] of text.matchAll(/\bstruct\s+(\w+)(?:<[^>]*>)?\s*\{([^}]*)\}/g)) {
+    const fields: Record<string, string> = {};
+    for (const line of body.split('\n')) {
+      const field = line.match(/^\s*(?:pub(?:\([^)]*\))?\s+)?(\w+)\s*:\s*(.+?),?\s*$/);
+      if (field?.[1] && field[2]) fields[field[1]] = field[2];
+    }
+    structs.set(name, fields);
+  }
+
+  return structs;
+}
+
+/**
+ * Find the body type and auth extractors in a Rust handler's parameters:
+ * `Json<T>` and `Form<T>` bodies, and extractors named like `AuthUser`
+ */
+function readRustParameters(
+  params: string,
+  structs: Map<string, Record<string, string>>
+): { requestSchema?: Record<string, unknown>; auth: string[] } {
+  const auth: string[] = [];
+  let requestSchema: Record<string, unknown> | undefined;
+
+  for (const param of splitArguments(params)) {
+    // The type follows the first single colon: `web::Json(body): web::Json<NewUser>`
+    const type = param.match(/^.*?[^:]:(?!:)\s*(.+)$/s)?.[1];
+    if (!type) continue;
+
+    const body = type.match(/\b(?:Json|Form)\s*<\s*([\w:]+)/)?.[1];
+    if (body) {
+      requestSchema ??= getModelSchema(body.replace(/^.*::/, ''), structs);
+      continue;
+    }
+    auth.push(...(type.match(/[A-Za-z_]\w*/g) ?? []).filter((name) => AUTH_PATTERN.test(name)));
+  }
+
+  return { requestSchema, auth };
+}
+
+/**
+ * Find Actix, Axum and Rocket routes: attribute macros like `#[get("/users")]`
+ * on handlers, and handlers registered with `.route("/users", get(list))` or
+ * `web::get().to(list)`, under the prefix of an enclosing `scope`, `resource`
+ * or inline `nest`. Routers mounted from other functions keep their own paths.
+ */
+function extractRustRoutes(file: string, content: string): APIEndpoint[] {
+  const framework = RUST_FRAMEWORKS.find(([, pattern]) => pattern.test(content))?.[0];
+  if (!framework) {
+    return [];
+  }
+
+  const endpoints: APIEndpoint[] = [];
+  const text = blankComments(content);
+  const structs = getRustStructs(text);
+  const functions = new Map<string, { line: number; params: string }>();
+  let attributes: { name: string; args: string[] }[] = [];
+  let attributesEnd = 0;
+
+  for (const match of text.matchAll(/#\[\s*([\w:]+)\s*(\()?|\bfn\s+(\w+)\s*(?:<[^>]*>)?\s*\(/g)) {
+    // Attributes only apply to the item right after them
+    const gap = text.slice(attributesEnd, match.index);
+    if (!/^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?$/.test(gap)) {
+      attributes = [];
+    }
+
+    const start = match.index + match[0].length;
+    if (match[1]) {
+      const args = match[2] ? splitArguments(text.slice(start, findClosingParen(text, start))) : [];
+      attributes.push({ name: match[1].replace(/^.*::/, ''), args });
+      attributesEnd = text.indexOf(']', match[2] ? findClosingParen(text, start) : start) + 1;
+      continue;
+    }
+
+    const name = match[3];
+    if (!name) continue;
+    const params = text.slice(start, findClosingParen(text, start));
+    const line = lineAt(text, match.index);
+    functions.set(name, { line, params });
+
+    const routes = attributes.filter((a) => RUST_ROUTE_ATTRIBUTES.includes(a.name));
+    const auth = attributes.filter((a) => !routes.includes(a) && AUTH_PATTERN.test(a.name)).map((a) => a.name);
+    attributes = [];
+
+    const parameters = readRustParameters(params, structs);
+    for (const route of routes) {
+      const path = getQuotedString(route.args[0]);
+      if (path === undefined) continue;
+
+      // #[route("/users", method = "GET", method = "HEAD")]
+      const methods =
+        route.name === 'route'
+          ? route.args.filter((arg) => /^method\s*=/.test(arg)).flatMap((arg) => getQuotedString(arg.replace(/^method\s*=\s*/, '')) ?? [])
+          : [route.name];
+      for (const method of methods.length > 0 ? methods : ['ALL']) {
+        const endpoint = createEndpoint(method, path, framework, { file, line, function: name }, [
+          ...auth,
+          ...parameters.auth,
+        ]);
+        if (parameters.requestSchema) endpoint.requestSchema = parameters.requestSchema;
+        endpoints.push(endpoint);
+      }
+    }
+  }
+
+  // Path prefixes and the spans of the calls they apply to
+  const prefixes: { path: string; start: number; end: number }[] = [];
+  for (const scope of text.matchAll(/\b(scope|resource)\s*\(\s*"([^"]*)"\s*\)/g)) {
+    const path = scope[2];
+    if (path === undefined) continue;
+    // web::scope("/api").route(...) applies to the rest of its expression
+    let depth = 0;
+    let end = scope.index;
+    for (; end < text.length; end++) {
+      if (text[end] === '(') depth++;
+      if ((text[end] === ')' && depth-- === 0) || (text[end] === ';' && depth === 0)) break;
+    }
+    prefixes.push({ path, start: scope.index, end });
+  }
+  for (const nest of text.matchAll(/\.nest\s*\(\s*"([^"]*)"\s*,/g)) {
+    const path = nest[1];
+    if (path === undefined) continue;
+    prefixes.push({ path, start: nest.index, end: findClosingParen(text, nest.index + nest[0].indexOf('(') + 1) });
+  }
+
+  for (const call of text.matchAll(/\.route\s*\(/g)) {
+    const start = call.index + call[0].length;
+    const args = splitArguments(text.slice(start, findClosingParen(text, start)));
+    // web::resource("/users").route(web::get().to(list)) takes the resource's path
+    const [path, methods] = args.length === 1 ? ['', args[0]] : [getQuotedString(args[0]), args[1]];
+    if (path === undefined || !methods) continue;
+
+    const prefix = prefixes
+      .filter((p) => p.start < call.index && call.index < p.end)
+      .sort((a, b) => a.start - b.start)
+      .map((p) => p.path);
+
+    // get(list).post(create) in Axum, web::get().to(list) in Actix
+    for (const method of methods.matchAll(/\b(get|post|put|patch|delete|head|options|any)\s*\(\s*(?:\)\s*\.to\s*\(\s*)?([\w:]*)/g)) {
+      const [, verb, name] = method;
+      if (!verb) continue;
+      const declared = name ? functions.get(name.replace(/^.*::/, '')) : undefined;
+      const parameters = declared ? readRustParameters(declared.params, structs) : { auth: [] };
+
+      const handler: RouteHandler = { file, line: declared?.line ?? lineAt(text, call.index) };
+      if (name) handler.function = name;
+      const endpoint = createEndpoint(
+        verb === 'any' ? 'ALL' : verb,
+        joinPaths(...prefix, path),
+        framework,
+        handler,
+        parameters.auth
+      );
+      if (parameters.requestSchema) endpoint.requestSchema = parameters.requestSchema;
+      endpoints.push(endpoint);
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Spring mapping annotations and the method each maps, `ALL` unless `method =` narrows it
+ */
+const SPRING_MAPPINGS: Record<string, string> = {
+  GetMapping: 'GET',
+  PostMapping: 'POST',
+  PutMapping: 'PUT',
+  PatchMapping: 'PATCH',
+  DeleteMapping: 'DELETE',
+  RequestMapping: 'ALL',
+};
+
+/**
+ * Get the paths a Spring mapping annotation declares, `""` when it declares none
+ */
+function getMappingPaths(args: string[]): string[] {
+  const arg = args.find((a) => !/^\w+\s*=/.test(a)) ?? getKeywordArgument(args, 'value') ?? getKeywordArgument(args, 'path');
+  const paths = [...(arg ?? '').matchAll(/"([^"]*)"/g)].flatMap((m) => m[1] ?? []);
+  return paths.length > 0 ? paths : [''];
+}
+
+/**
+ * Find Spring MVC routes in Java and Kotlin controllers: `@GetMapping` and
+ * friends on methods, under the class's `@RequestMapping` prefix, with
+ * `@PreAuthorize`, `@Secured` and `@RolesAllowed` as auth
+ */
+function extractSpringRoutes(file: string, content: string): APIEndpoint[] {
+  const text = blankComments(content);
+  if (!/@(RestController|Controller)\b/.test(text)) {
+    return [];
+  }
+
+  const endpoints: APIEndpoint[] = [];
+  let controller: { name?: string; paths: string[]; auth: string[] } = { paths: [''], auth: [] };
+  let annotations: { name: string; args: string[]; end: number }[] = [];
+  // Annotations inside a method's parameters are read with the method
+  let position = 0;
+
+  for (const match of text.matchAll(/@([\w.]+)/g)) {
+    const annotation = match[1]?.replace(/^.*\./, '');
+    if (match.index < position || !annotation) continue;
+
+    let end = match.index + match[0].length;
+    let args: string[] = [];
+    const open = text.slice(end).match(/^\s*\(/);
+    if (open) {
+      const start = end + open[0].length;
+      end = findClosingParen(text, start);
+      args = splitArguments(text.slice(start, end));
+      end++;
+    }
+    const previous = annotations[annotations.length - 1];
+    if (previous && text.slice(previous.end, match.index).trim()) {
+      annotations = [];
+    }
+    annotations.push({ name: annotation, args, end });
+
+    // Read the declaration once all of its annotations are collected
+    const rest = text.slice(end);
+    if (/^\s*@/.test(rest)) continue;
+    const block = annotations;
+    annotations = [];
+
+    const mapping = block.find((a) => a.name in SPRING_MAPPINGS);
+    const auth = block.filter((a) => a.name === 'Secured' || AUTH_PATTERN.test(a.name)).map((a) => a.name);
+    const header = rest.match(/^[^({;=@]*/)?.[0];
+    if (header === undefined) continue;
+
+    const declaredClass = header.match(/\b(?:class|interface)\s+(\w+)/);
+    if (declaredClass) {
+      controller = { name: declaredClass[1], paths: mapping ? getMappingPaths(mapping.args) : [''], auth };
+      continue;
+    }
+
+    const method = header.match(/(\w+)\s*$/);
+    if (!method?.[1] || rest[header.length] !== '(') continue;
+    const paramsStart = end + header.length + 1;
+    const params = text.slice(paramsStart, findClosingParen(text, paramsStart));
+    position = paramsStart + params.length;
+    const mapped = mapping && SPRING_MAPPINGS[mapping.name];
+    if (!mapping || !mapped) continue;
+
+    const verbs =
+      mapping.name === 'RequestMapping'
+        ? [...(getKeywordArgument(mapping.args, 'method') ?? '').matchAll(/RequestMethod\.(\w+)/g)].flatMap((m) => m[1] ?? [])
+        : [mapped];
+
+    const handler: RouteHandler = {
+      file,
+      line: lineAt(text, end + header.length - method[0].length + method[0].search(/\w/)),
+      function: controller.name ? `${controller.name}.${method[1]}` : method[1],
+    };
+    // @AuthenticationPrincipal parameters
+    const paramAuth = [...params.matchAll(/@(\w+)/g)].flatMap((m) => m[1] ?? []).filter((name) => AUTH_PATTERN.test(name));
+
+    // Java `@RequestBody @Valid NewUser user`, Kotlin `@RequestBody user: NewUser`
+    const body = params.match(
+      /@RequestBody\b(?:\s*\([^)]*\))?(?:\s*@[\w.]+(?:\([^)]*\))?)*\s*(?:\w+\s*:\s*([\w.<>]+)|([\w.<>[\]]+)\s+\w+)/
+    );
+    const model = body?.[1] ?? body?.[2];
+
+    for (const controllerPath of controller.paths) {
+      for (const path of getMappingPaths(mapping.args)) {
+        for (const verb of verbs.length > 0 ? verbs : ['ALL']) {
+          const endpoint = createEndpoint(verb, joinPaths(controllerPath, path), 'spring', handler, [
+            ...controller.auth,
+            ...auth,
+            ...paramAuth,
+          ]);
+          if (model) endpoint.requestSchema = { model };
+          endpoints.push(endpoint);
+        }
+      }
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Check if routes can be extracted from a file
+ */
+export function canExtractRoutes(file: string): boolean {
+  return isParsableSource(file) || /\.(py|go|rs|java|kt)$/i.test(file);
+}
+
+/**
+ * Extract the HTTP routes a source file declares
+ */
+export function extractRoutes(file: string, content: string): APIEndpoint[] {
+  if (/\.py$/i.test(file)) {
+    return /(^|\/)urls\.py$/.test(file)
+      ? extractDjangoRoutes(file, content)
+      : extractPythonDecoratorRoutes(file, content);
+  }
+  if (/\.go$/i.test(file)) {
+    return extractGoRoutes(file, content);
+  }
+  if (/\.rs$/i.test(file)) {
+    return extractRustRoutes(file, content);
+  }
+  if (/\.(java|kt)$/i.test(file)) {
+    return extractSpringRoutes(file, content);
+  }
+  if (!isParsableSource(file)) {
+    return [];
+  }
+
+  const sourceFile = parseSourceFile(file, content);
+  const endpoints = [
+    ...extractNextRoutes(sourceFile),
+    ...extractNestRoutes(sourceFile),
+    ...extractExpressRoutes(sourceFile).endpoints,
+  ];
+
+  // The same route can be matched twice, e.g. a Next.js handler with an Express-like call
+  const seen = new Set<string>();
+  return endpoints.filter((e) => {
+    const key = `${e.method} ${e.path} ${e.handler?.line}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Find the routers a file imports from other modules and mounts, with the
+ * prefix and auth middleware they are mounted under
+ */
+export function findRouterMounts(file: string, content: string): RouterMount[] {
+  return isParsableSource(file) ? extractExpressRoutes(parseSourceFile(file, content)).mounts : [];
+}
+
+/**
+ * Find which of the files a module imports a specifier refers to: relative
+ * paths by their location, aliases and workspace packages by the path after
+ * their first segment. Extensions and index files are ignored.
+ */
+function findImportedFile(from: string, specifier: string, targets: string[]): string | undefined {
+  const stem = (file: string) => file.replace(/\.[^./]+$/, '').replace(/\/index$/, '');
+  if (specifier.startsWith('.')) {
+    const base = stem(posix.join(posix.dirname(from), specifier));
+    return targets.find((target) => stem(target) === base);
+  }
+
+  const rest = stem(specifier).split('/').slice(1).join('/');
+  const matches = rest ? targets.filter((target) => stem(target).endsWith(`/${rest}`)) : [];
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Prefix the routes of routers mounted from other files, found through the
+ * import graph: `app.use('/api/users', usersRouter)` in one file turns the
+ * `/:id` route of the router another file exports into `/api/users/:id`,
+ * behind the mount's auth middleware. Mounts on routers that are themselves
+ * mounted elsewhere are followed. Routes no mount is found for keep
+ * relativeToMount.
+ */
+export async function linkRouterMounts(projectDir: string, map: FunctionalityMap): Promise<FunctionalityMap> {
+  const routerFiles = new Set(
+    map.features.flatMap((feature) =>
+      (feature.apiEndpoints ?? []).flatMap((e) => (e.relativeToMount && e.handler ? [e.handler.file] : []))
+    )
+  );
+  const graph = map.importGraph?.files ?? {};
+
+  // Read the files importing a router file, then those importing files that
+  // mount routers on a router of their own
+  const mounts: (RouterMount & { target: string })[] = [];
+  const read = new Set<string>();
+  for (let found = true; found; ) {
+    found = false;
+    for (const [file, targets] of Object.entries(graph)) {
+      if (read.has(file) || !targets.some((target) => routerFiles.has(target))) continue;
+      read.add(file);
+      found = true;
+
+      let content: string;
+      try {
+        content = await readFile(posix.join(projectDir, file), 'utf-8');
+      } catch {
+        continue;
+      }
+      for (const mount of findRouterMounts(file, content)) {
+        const target = findImportedFile(file, mount.specifier, targets);
+        if (target && routerFiles.has(target)) {
+          mounts.push({ ...mount, target });
+          if (mount.relative) {
+            routerFiles.add(file);
+          }
+        }
+      }
+    }
+  }
+  if (mounts.length === 0) return map;
+
+  // The prefixes and auth a file's routers are reached through
+  const resolve = (file: string, seen: string[]): { prefix: string; auth: string[]; relative: boolean }[] => {
+    const into = mounts.filter((m) => m.target === file && !seen.includes(m.file));
+    if (into.length === 0) {
+      return [{ prefix: '', auth: [], relative: true }];
+    }
+    return into.flatMap((mount) =>
+      mount.relative
+        ? resolve(mount.file, [...seen, file]).map((outer) => ({
+            prefix: joinPaths(outer.prefix, mount.prefix),
+            auth: [...outer.auth, ...mount.auth],
+            relative: outer.relative,
+          }))
+        : [{ prefix: mount.prefix, auth: mount.auth, relative: false }]
+    );
+  };
+
+  for (const feature of map.features) {
+    if (!feature.apiEndpoints) continue;
+    feature.apiEndpoints = feature.apiEndpoints.flatMap((endpoint) => {
+      const { relativeToMount, ...rest } = endpoint;
+      if (!relativeToMount || !endpoint.handler) {
+        return [endpoint];
+      }
+      return resolve(endpoint.handler.file, []).map((mount) => {
+        const auth = [...new Set([...mount.auth, ...(endpoint.auth ?? [])])];
+        return {
+          ...rest,
+          path: joinPaths(mount.prefix, endpoint.path),
+          authRequired: auth.length > 0,
+          ...(auth.length > 0 ? { auth } : {}),
+          ...(mount.relative ? { relativeToMount: true } : {}),
+        };
+      });
+    });
+  }
+
+  return map;
+}
@@ -0,0 +1,913 @@
+/**
+ * Runtime Schemas for .modernization Artifacts
+ *
+ * Mirrors the interfaces in types.ts. Object schemas are typed against their
+ * interface, so adding, removing or changing the optionality of a field in
+ * types.ts fails to compile until the schema here is updated too.
+ */
+
+import type {
+  ArtifactKind,
+  SchemaIssue,
+  ModernizationState,
+  SessionSummary,
+  SessionUsage,
+  SessionCheckpoint,
+  SessionWorktree,
+  WorktreeScope,
+  ArtifactDiff,
+  FeatureRef,
+  FeatureChange,
+  CoverageDelta,
+  StatusTransition,
+  StatusItemKind,
+  CommandDecision,
+  ApprovalRequest,
+  FunctionalityMap,
+  SourceAnalysis,
+  EntryPoint,
+  Feature,
+  LanguageStats,
+  SourceLocation,
+  CodeMetrics,
+  APIEndpoint,
+  RouteHandler,
+  UIComponent,
+  FeatureTestCoverage,
+  FeatureDocumentation,
+  UndocumentedBehavior,
+  ExternalDependency,
+  DatabaseSchema,
+  DatabaseTable,
+  DatabaseColumn,
+  DatabaseRelationship,
+  ImportGraph,
+  TestCoverageMap,
+  CoverageMetrics,
+  FeatureCoverage,
+  CoverageGap,
+  TestGenerationTask,
+  EnhancementPlan,
+  Enhancement,
+  NewFeature,
+  ImplementationStep,
+  TestResults,
+  MigrationPlan,
+  TechStack,
+  Dependency,
+  MigrationPhase,
+  FeatureMigration,
+  DataMigration,
+  TableMigration,
+  RiskAssessment,
+  ValidationResults,
+  PerformanceComparison,
+  OperationMode,
+  AgentType,
+} from './types.js';
+
+// ============================================================================
+// Schema Primitives
+// ============================================================================
+
+type Schema =
+  | { kind: 'string'; optional?: boolean }
+  | { kind: 'number'; optional?: boolean }
+  | { kind: 'boolean'; optional?: boolean }
+  | { kind: 'unknown'; optional?: boolean }
+  | { kind: 'record'; optional?: boolean }
+  | { kind: 'enum'; values: string[]; optional?: boolean }
+  | { kind: 'array'; items: Schema; optional?: boolean }
+  | { kind: 'tuple'; items: Schema[]; optional?: boolean }
+  | { kind: 'object'; fields: Record<string, Schema>; optional?: boolean }
+  | { kind: 'lazy'; get: () => Schema; optional?: boolean };
+
+type RequiredField = Schema & { optional?: false };
+type OptionalField = Schema & { optional: true };
+
+/**
+ * Field schemas for an interface: optional properties must use t.optional()
+ */
+type FieldsOf<T> = {
+  [K in keyof T]-?: undefined extends T[K] ? OptionalField : RequiredField;
+};
+
+const t = {
+  string: (): RequiredField => ({ kind: 'string' }),
+  number: (): RequiredField => ({ kind: 'number' }),
+  boolean: (): RequiredField => ({ kind: 'boolean' }),
+  unknown: (): RequiredField => ({ kind: 'unknown' }),
+  record: (): RequiredField => ({ kind: 'record' }),
+  // Keyed by every member of the union so new members can't be missed
+  enumOf: <T extends string>(values: Record<T, true>): RequiredField => ({
+    kind: 'enum',
+    values: Object.keys(values),
+  }),
+  arrayOf: (items: Schema): RequiredField => ({ kind: 'array', items }),
+  tuple: (...items: Schema[]): RequiredField => ({ kind: 'tuple', items }),
+  object: <T>(fields: FieldsOf<T>): RequiredField => ({
+    kind: 'object',
+    fields: fields as Record<string, Schema>,
+  }),
+  lazy: (get: () => Schema): RequiredField => ({ kind: 'lazy', get }),
+  optional: (schema: Schema): OptionalField => ({ ...schema, optional: true }),
+};
+
+// ============================================================================
+// Shared Enums
+// ============================================================================
+
+const RISK_LEVELS = t.enumOf<ApprovalRequest['riskLevel']>({
+  low: true,
+  medium: true,
+  high: true,
+  critical: true,
+});
+
+const COMPLEXITY = t.enumOf<'low' | 'medium' | 'high'>({ low: true, medium: true, high: true });
+
+const OPERATION_MODE = t.enumOf<OperationMode>({
+  discovery: true,
+  coverage: true,
+  enhancement: true,
+  migration: true,
+});
+
+const WORK_STATUS = t.enumOf<Enhancement['status']>({
+  pending: true,
+  in_progress: true,
+  completed: true,
+  failed: true,
+});
+
+// ============================================================================
+// State
+// ============================================================================
+
+const COMMAND_DECISION = t.object<CommandDecision>({
+  tool: t.string(),
+  command: t.string(),
+  decision: t.enumOf<CommandDecision['decision']>({
+    allowed: true,
+    denied: true,
+    approval_required: true,
+  }),
+  reason: t.optional(t.string()),
+  approvalId: t.optional(t.string()),
+  decidedAt: t.string(),
+});
+
+const SESSION_USAGE = t.object<SessionUsage>({
+  inputTokens: t.number(),
+  outputTokens: t.number(),
+  cacheReadInputTokens: t.number(),
+  cacheCreationInputTokens: t.number(),
+  turns: t.number(),
+  costUsd: t.number(),
+});
+
+const SESSION_CHECKPOINT = t.object<SessionCheckpoint>({
+  ref: t.string(),
+  commit: t.string(),
+  head: t.optional(t.string()),
+  worktree: t.optional(t.string()),
+  createdAt: t.string(),
+});
+
+const SESSION_WORKTREE = t.object<SessionWorktree>({
+  scope: t.enumOf<WorktreeScope>({ session: true, mode: true }),
+  path: t.string(),
+  branch: t.string(),
+  baseCommit: t.string(),
+  createdAt: t.string(),
+  validatedAt: t.optional(t.string()),
+});
+
+const FEATURE_REF = t.object<FeatureRef>({
+  id: t.string(),
+  name: t.string(),
+});
+
+const FEATURE_CHANGE = t.object<FeatureChange>({
+  id: t.string(),
+  name: t.string(),
+  fields: t.arrayOf(t.string()),
+});
+
+const COVERAGE_DELTA = t.object<CoverageDelta>({
+  featureId: t.optional(t.string()),
+  featureName: t.optional(t.string()),
+  metric: t.enumOf<CoverageDelta['metric']>({
+    lineCoverage: true,
+    branchCoverage: true,
+    functionCoverage: true,
+  }),
+  before: t.optional(t.number()),
+  after: t.optional(t.number()),
+});
+
+const STATUS_TRANSITION = t.object<StatusTransition>({
+  kind: t.enumOf<StatusItemKind>({
+    test_generation: true,
+    enhancement: true,
+    implementation_step: true,
+    feature_migration: true,
+  }),
+  id: t.string(),
+  label: t.string(),
+  from: t.optional(t.string()),
+  to: t.optional(t.string()),
+});
+
+const ARTIFACT_DIFF = t.object<ArtifactDiff>({
+  featuresAdded: t.arrayOf(FEATURE_REF),
+  featuresRemoved: t.arrayOf(FEATURE_REF),
+  featuresChanged: t.arrayOf(FEATURE_CHANGE),
+  coverage: t.arrayOf(COVERAGE_DELTA),
+  statusTransitions: t.arrayOf(STATUS_TRANSITION),
+});
+
+const SESSION_SUMMARY = t.object<SessionSummary>({
+  sessionNumber: t.number(),
+  agentType: t.enumOf<AgentType>({
+    orchestrator: true,
+    discovery: true,
+    coverage: true,
+    enhancement: true,
+    migration: true,
+    validation: true,
+  }),
+  startedAt: t.string(),
+  completedAt: t.optional(t.string()),
+  durationMinutes: t.optional(t.number()),
+  operationsCompleted: t.arrayOf(t.string()),
+  artifactsModified: t.arrayOf(t.string()),
+  errors: t.arrayOf(t.string()),
+  nextActions: t.arrayOf(t.string()),
+  commandDecisions: t.optional(t.arrayOf(COMMAND_DECISION)),
+  mode: t.optional(OPERATION_MODE),
+  usage: t.optional(SESSION_USAGE),
+  transcript: t.optional(t.string()),
+  checkpoint: t.optional(SESSION_CHECKPOINT),
+  worktree: t.optional(SESSION_WORKTREE),
+  artifactDiff: t.optional(ARTIFACT_DIFF),
+});
+
+const APPROVAL_REQUEST = t.object<ApprovalRequest>({
+  id: t.string(),
+  operation: t.string(),
+  riskLevel: RISK_LEVELS,
+  description: t.string(),
+  requestedAt: t.string(),
+  status: t.enumOf<ApprovalRequest['status']>({ pending: true, approved: true, rejected: true }),
+  approvedBy: t.optional(t.string()),
+  approvedAt: t.optional(t.string()),
+});
+
+// ============================================================================
+// Functionality Map
+// ============================================================================
+
+const ENTRY_POINT = t.object<EntryPoint>({
+  file: t.string(),
+  function: t.optional(t.string()),
+  type: t.string(),
+});
+
+const LANGUAGE_STATS = t.object<LanguageStats>({
+  language: t.string(),
+  files: t.number(),
+  lines: t.number(),
+});
+
+const SOURCE_ANALYSIS = t.object<SourceAnalysis>({
+  language: t.string(),
+  languageVersion: t.optional(t.string()),
+  framework: t.optional(t.string()),
+  frameworkVersion: t.optional(t.string()),
+  entryPoints: t.arrayOf(ENTRY_POINT),
+  totalFiles: t.number(),
+  totalLines: t.number(),
+  architecturePattern: t.optional(t.string()),
+  secondaryLanguages: t.optional(t.arrayOf(t.string())),
+  languages: t.optional(t.arrayOf(LANGUAGE_STATS)),
+  directoryLanguages: t.optional(t.record()),
+});
+
+const SOURCE_LOCATION = t.object<SourceLocation>({
+  file: t.string(),
+  lines: t.tuple(t.number(), t.number()),
+  functions: t.optional(t.arrayOf(t.string())),
+  classes: t.optional(t.arrayOf(t.string())),
+  exports: t.optional(t.arrayOf(t.string())),
+  complexity: t.optional(t.number()),
+});
+
+const CODE_METRICS = t.object<CodeMetrics>({
+  functions: t.number(),
+  classes: t.number(),
+  lines: t.number(),
+  cyclomaticComplexity: t.number(),
+});
+
+const ROUTE_HANDLER = t.object<RouteHandler>({
+  file: t.string(),
+  line: t.number(),
+  function: t.optional(t.string()),
+});
+
+const API_ENDPOINT = t.object<APIEndpoint>({
+  method: t.string(),
+  path: t.string(),
+  requestSchema: t.optional(t.record()),
+  responseSchema: t.optional(t.record()),
+  authRequired: t.boolean(),
+  documented: t.boolean(),
+  framework: t.optional(t.string()),
+  auth: t.optional(t.arrayOf(t.string())),
+  handler: t.optional(ROUTE_HANDLER),
+  relativeToMount: t.optional(t.boolean()),
+});
+
+const UI_COMPONENT = t.object<UIComponent>({
+  type: t.string(),
+  id: t.optional(t.string()),
+  screenshot: t.optional(t.string()),
+});
+
+const FEATURE_TEST_COVERAGE = t.object<FeatureTestCoverage>({
+  hasTests: t.boolean(),
+  testFiles: t.arrayOf(t.string()),
+  testCount: t.optional(t.number()),
+  coveragePercent: t.optional(t.number()),
+});
+
+const FEATURE_DOCUMENTATION = t.object<FeatureDocumentation>({
+  inlineDocs: t.boolean(),
+  readmeSection: t.boolean(),
+  apiDocs: t.boolean(),
+});
+
+const FEATURE = t.object<Feature>({
+  id: t.string(),
+  name: t.string(),
+  category: t.string(),
+  description: t.optional(t.string()),
+  discoveryMethod: t.enumOf<Feature['discoveryMethod']>({
+    static: true,
+    runtime: true,
+    'static+runtime': true,
+  }),
+  sourceLocations: t.arrayOf(SOURCE_LOCATION),
+  apiEndpoints: t.optional(t.arrayOf(API_ENDPOINT)),
+  uiComponents: t.optional(t.arrayOf(UI_COMPONENT)),
+  dependencies: t.arrayOf(t.string()),
+  testCoverage: t.optional(FEATURE_TEST_COVERAGE),
+  documentation: t.optional(FEATURE_DOCUMENTATION),
+  behavioralNotes: t.optional(t.arrayOf(t.string())),
+  complexity: t.optional(COMPLEXITY),
+  priority: t.optional(t.number()),
+  missingSourceFiles: t.optional(t.arrayOf(t.string())),
+  codeMetrics: t.optional(CODE_METRICS),
+});
+
+const UNDOCUMENTED_BEHAVIOR = t.object<UndocumentedBehavior>({
+  id: t.string(),
+  description: t.string(),
+  discoveredVia: t.enumOf<UndocumentedBehavior['discoveredVia']>({ runtime: true, static: true }),
+  evidence: t.optional(t.string()),
+  affectedFeatures: t.arrayOf(t.string()),
+});
+
+const EXTERNAL_DEPENDENCY = t.object<ExternalDependency>({
+  name: t.string(),
+  type: t.string(),
+  usedBy: t.arrayOf(t.string()),
+  configLocation: t.optional(t.string()),
+  version: t.optional(t.string()),
+});
+
+const DATABASE_COLUMN = t.object<DatabaseColumn>({
+  name: t.string(),
+  type: t.string(),
+  nullable: t.optional(t.boolean()),
+  primaryKey: t.optional(t.boolean()),
+});
+
+const DATABASE_RELATIONSHIP = t.object<DatabaseRelationship>({
+  kind: t.optional(
+    t.enumOf<NonNullable<DatabaseRelationship['kind']>>({
+      'many-to-one': true,
+      'one-to-many': true,
+      'one-to-one': true,
+      'many-to-many': true,
+    })
+  ),
+  table: t.string(),
+  column: t.optional(t.string()),
+});
+
+const DATABASE_TABLE = t.object<DatabaseTable>({
+  name: t.string(),
+  columns: t.arrayOf(DATABASE_COLUMN),
+  relationships: t.optional(t.arrayOf(DATABASE_RELATIONSHIP)),
+  model: t.optional(t.string()),
+  source: t.optional(t.string()),
+  usedBy: t.optional(t.arrayOf(t.string())),
+});
+
+const DATABASE_SCHEMA = t.object<DatabaseSchema>({
+  tables: t.arrayOf(DATABASE_TABLE),
+});
+
+const IMPORT_GRAPH = t.object<ImportGraph>({
+  files: t.record(),
+  packages: t.optional(t.record()),
+});
+
+const FUNCTIONALITY_MAP = t.object<FunctionalityMap>({
+  version: t.string(),
+  discoveredAt: t.string(),
+  sourceAnalysis: SOURCE_ANALYSIS,
+  features: t.arrayOf(FEATURE),
+  undocumentedBehaviors: t.arrayOf(UNDOCUMENTED_BEHAVIOR),
+  externalDependencies: t.arrayOf(EXTERNAL_DEPENDENCY),
+  databaseSchema: t.optional(DATABASE_SCHEMA),
+  importGraph: t.optional(IMPORT_GRAPH),
+});
+
+// ============================================================================
+// Test Coverage
+// ============================================================================
+
+const COVERAGE_METRICS: RequiredField = t.object<CoverageMetrics>({
+  lineCoverage: t.number(),
+  branchCoverage: t.optional(t.number()),
+  functionCoverage: t.optional(t.number()),
+  previous: t.optional(t.lazy(() => COVERAGE_METRICS)),
+});
+
+const COVERAGE_GAP = t.object<CoverageGap>({
+  file: t.string(),
+  uncoveredLines: t.arrayOf(t.number()),
+  description: t.string(),
+  complexity: COMPLEXITY,
+});
+
+const FEATURE_COVERAGE = t.object<FeatureCoverage>({
+  featureId: t.string(),
+  featureName: t.string(),
+  coverage: COVERAGE_METRICS,
+  testFiles: t.arrayOf(t.string()),
+  gaps: t.arrayOf(COVERAGE_GAP),
+  priority: RISK_LEVELS,
+  testsGenerated: t.boolean(),
+});
+
+const TEST_GENERATION_TASK = t.object<TestGenerationTask>({
+  featureId: t.string(),
+  priority: t.number(),
+  estimatedTests: t.number(),
+  status: WORK_STATUS,
+});
+
+const TEST_COVERAGE_MAP = t.object<TestCoverageMap>({
+  version: t.string(),
+  analyzedAt: t.string(),
+  overallCoverage: COVERAGE_METRICS,
+  byFeature: t.arrayOf(FEATURE_COVERAGE),
+  untestedFeatures: t.arrayOf(t.string()),
+  generationQueue: t.arrayOf(TEST_GENERATION_TASK),
+});
+
+// ============================================================================
+// Enhancement
+// ============================================================================
+
+const TEST_RESULTS = t.object<TestResults>({
+  total: t.number(),
+  passed: t.number(),
+  failed: t.number(),
+  skipped: t.number(),
+});
+
+const NEW_FEATURE = t.object<NewFeature>({
+  id: t.string(),
+  name: t.string(),
+  category: t.string(),
+});
+
+const IMPLEMENTATION_STEP = t.object<ImplementationStep>({
+  step: t.number(),
+  description: t.string(),
+  files: t.arrayOf(t.string()),
+  risk: COMPLEXITY,
+  status: t.enumOf<ImplementationStep['status']>({
+    pending: true,
+    in_progress: true,
+    completed: true,
+  }),
+});
+
+const ENHANCEMENT = t.object<Enhancement>({
+  id: t.string(),
+  title: t.string(),
+  description: t.string(),
+  affectedFeatures: t.arrayOf(t.string()),
+  newFeatures: t.arrayOf(NEW_FEATURE),
+  implementationSteps: t.arrayOf(IMPLEMENTATION_STEP),
+  riskLevel: RISK_LEVELS,
+  requiresApproval: t.boolean(),
+  status: WORK_STATUS,
+});
+
+const ENHANCEMENT_PLAN = t.object<EnhancementPlan>({
+  version: t.string(),
+  createdAt: t.string(),
+  enhancementSpec: t.string(),
+  baselineTestResults: TEST_RESULTS,
+  enhancements: t.arrayOf(ENHANCEMENT),
+});
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+const DEPENDENCY = t.object<Dependency>({
+  name: t.string(),
+  version: t.string(),
+  equivalent: t.optional(t.string()),
+});
+
+const TECH_STACK = t.object<TechStack>({
+  language: t.string(),
+  version: t.string(),
+  framework: t.optional(t.string()),
+  database: t.optional(t.string()),
+  keyDependencies: t.arrayOf(DEPENDENCY),
+});
+
+const MIGRATION_PHASE = t.object<MigrationPhase>({
+  phase: t.number(),
+  name: t.string(),
+  tasks: t.optional(t.arrayOf(t.string())),
+  features: t.optional(t.arrayOf(t.string())),
+  priority: RISK_LEVELS,
+  estimatedComplexity: COMPLEXITY,
+});
+
+const PERFORMANCE_COMPARISON = t.object<PerformanceComparison>({
+  sourceP99Ms: t.number(),
+  targetP99Ms: t.number(),
+  improvement: t.string(),
+});
+
+const VALIDATION_RESULTS = t.object<ValidationResults>({
+  behavioralTestsPassed: t.boolean(),
+  responseComparison: t.enumOf<ValidationResults['responseComparison']>({
+    identical: true,
+    equivalent: true,
+    different: true,
+  }),
+  performance: t.optional(PERFORMANCE_COMPARISON),
+});
+
+const FEATURE_MIGRATION = t.object<FeatureMigration>({
+  featureId: t.string(),
+  featureName: t.string(),
+  sourceFiles: t.arrayOf(t.string()),
+  targetFiles: t.arrayOf(t.string()),
+  complexity: COMPLEXITY,
+  dependencies: t.arrayOf(t.string()),
+  migrationNotes: t.optional(t.arrayOf(t.string())),
+  validationCriteria: t.arrayOf(t.string()),
+  status: t.enumOf<FeatureMigration['status']>({
+    pending: true,
+    in_progress: true,
+    completed: true,
+    validated: true,
+  }),
+  migratedAt: t.optional(t.string()),
+  validationResults: t.optional(VALIDATION_RESULTS),
+});
+
+const TABLE_MIGRATION = t.object<TableMigration>({
+  name: t.string(),
+  records: t.number(),
+  strategy: t.enumOf<TableMigration['strategy']>({
+    bulk_copy: true,
+    skip_historical: true,
+    transform: true,
+  }),
+});
+
+const DATA_MIGRATION = t.object<DataMigration>({
+  strategy: t.enumOf<DataMigration['strategy']>({
+    bulk_copy: true,
+    dual_write: true,
+    incremental: true,
+  }),
+  tables: t.arrayOf(TABLE_MIGRATION),
+});
+
+const RISK_ASSESSMENT = t.object<RiskAssessment>({
+  highRiskFeatures: t.arrayOf(t.string()),
+  mitigationStrategies: t.arrayOf(t.string()),
+});
+
+const MIGRATION_PLAN = t.object<MigrationPlan>({
+  version: t.string(),
+  createdAt: t.string(),
+  strategy: t.enumOf<MigrationPlan['strategy']>({
+    strangler_fig: true,
+    big_bang: true,
+    parallel_running: true,
+    feature_flag: true,
+  }),
+  source: TECH_STACK,
+  target: TECH_STACK,
+  phases: t.arrayOf(MIGRATION_PHASE),
+  featureMigration: t.arrayOf(FEATURE_MIGRATION),
+  dataMigration: t.optional(DATA_MIGRATION),
+  riskAssessment: RISK_ASSESSMENT,
+});
+
+// ============================================================================
+// Modernization State
+// ============================================================================
+
+const MODERNIZATION_STATE = t.object<ModernizationState>({
+  version: t.string(),
+  projectPath: t.string(),
+  projectName: t.string(),
+  mode: OPERATION_MODE,
+  currentPhase: t.string(),
+  sessionNumber: t.number(),
+  createdAt: t.string(),
+  updatedAt: t.string(),
+  discoveryComplete: t.boolean(),
+  functionalityMap: t.optional(FUNCTIONALITY_MAP),
+  coverageTarget: t.number(),
+  currentCoverage: t.number(),
+  testCoverageMap: t.optional(TEST_COVERAGE_MAP),
+  enhancementSpec: t.optional(t.string()),
+  enhancementPlan: t.optional(ENHANCEMENT_PLAN),
+  sourceStack: t.optional(TECH_STACK),
+  targetStack: t.optional(TECH_STACK),
+  migrationPlan: t.optional(MIGRATION_PLAN),
+  featuresMigrated: t.number(),
+  featuresTotal: t.number(),
+  sessions: t.arrayOf(SESSION_SUMMARY),
+  totalUsage: SESSION_USAGE,
+  activeWorktree: t.optional(SESSION_WORKTREE),
+  pendingApprovals: t.arrayOf(APPROVAL_REQUEST),
+});
+
+/**
+ * Schema for each artifact kind
+ */
+const ARTIFACT_SCHEMAS: Record<ArtifactKind, Schema> = {
+  state: MODERNIZATION_STATE,
+  functionality_map: FUNCTIONALITY_MAP,
+  test_coverage: TEST_COVERAGE_MAP,
+  enhancement_plan: ENHANCEMENT_PLAN,
+  migration_plan: MIGRATION_PLAN,
+};
+
+/**
+ * All artifact kinds, in the order they are reported
+ */
+export const ARTIFACT_KINDS = Object.keys(ARTIFACT_SCHEMAS) as ArtifactKind[];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Describe a value's type for error messages
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Walk a value against a schema, collecting field-level issues
+ */
+function check(schema: Schema, value: unknown, path: string, issues: SchemaIssue[]): void {
+  const at = path || '(root)';
+
+  switch (schema.kind) {
+    case 'unknown':
+      return;
+
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.kind || (schema.kind === 'number' && Number.isNaN(value))) {
+        issues.push({ path: at, message: `expected ${schema.kind}, got ${describeType(value)}` });
+      }
+      return;
+
+    case 'record':
+      if (!isObject(value)) {
+        issues.push({ path: at, message: `expected object, got ${describeType(value)}` });
+      }
+      return;
+
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        issues.push({
+          path: at,
+          message: `expected one of ${schema.values.join(', ')}, got ${JSON.stringify(value)}`,
+        });
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path: at, message: `expected array, got ${describeType(value)}` });
+        return;
+      }
+      value.forEach((item, i) => check(schema.items, item, `${path}[${i}]`, issues));
+      return;
+
+    case 'tuple':
+      if (!Array.isArray(value) || value.length !== schema.items.length) {
+        issues.push({
+          path: at,
+          message: `expected tuple of ${schema.items.length}, got ${describeType(value)}`,
+        });
+        return;
+      }
+      schema.items.forEach((item, i) => check(item, value[i], `${path}[${i}]`, issues));
+      return;
+
+    case 'object':
+      if (!isObject(value)) {
+        issues.push({ path: at, message: `expected object, got ${describeType(value)}` });
+        return;
+      }
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const fieldValue = value[key];
+        if (fieldValue === undefined) {
+          if (!field.optional) {
+            issues.push({ path: fieldPath, message: 'missing required field' });
+          }
+          continue;
+        }
+        check(field, fieldValue, fieldPath, issues);
+      }
+      return;
+
+    case 'lazy':
+      check(schema.get(), value, path, issues);
+      return;
+  }
+}
+
+/**
+ * Validate parsed artifact data against its schema
+ */
+export function validateArtifact(kind: ArtifactKind, data: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  check(ARTIFACT_SCHEMAS[kind], data, '', issues);
+  return issues;
+}
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+/**
+ * Check if a schema holds a single value rather than a list or object
+ */
+function isScalar(schema: Schema): boolean {
+  return ['string', 'number', 'boolean', 'enum'].includes(schema.kind);
+}
+
+/**
+ * Apply conservative fixes to a value.
+ * Never invents scalar values; only coerces obvious mistakes, fills missing
+ * collections and drops invalid optional scalars. Lists and objects are
+ * never dropped: an invalid entry in one is left in place, so the artifact
+ * stays unrepairable instead of losing the valid entries around it.
+ */
+function repair(schema: Schema, value: unknown, path: string, repairs: string[]): unknown {
+  const at = path || '(root)';
+
+  switch (schema.kind) {
+    case 'number':
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        repairs.push(`${at}: converted "${value}" to a number`);
+        return Number(value);
+      }
+      return value;
+
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        repairs.push(`${at}: converted ${value} to a string`);
+        return String(value);
+      }
+      return value;
+
+    case 'boolean':
+      if (value === 'true' || value === 'false') {
+        repairs.push(`${at}: converted "${value}" to a boolean`);
+        return value === 'true';
+      }
+      return value;
+
+    case 'enum':
+      if (typeof value === 'string' && !schema.values.includes(value)) {
+        const match = schema.values.find((v) => v.toLowerCase() === value.toLowerCase());
+        if (match) {
+          repairs.push(`${at}: normalized "${value}" to "${match}"`);
+          return match;
+        }
+      }
+      return value;
+
+    case 'array':
+    case 'tuple':
+      if (!Array.isArray(value)) {
+        return value;
+      }
+      return value.map((item, i) => {
+        const itemSchema = schema.kind === 'array' ? schema.items : schema.items[i];
+        return itemSchema ? repair(itemSchema, item, `${path}[${i}]`, repairs) : item;
+      });
+
+    case 'object': {
+      if (!isObject(value)) {
+        return value;
+      }
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const fieldValue = result[key];
+
+        if (fieldValue === undefined || fieldValue === null) {
+          if (!field.optional && field.kind === 'array') {
+            repairs.push(`${fieldPath}: defaulted missing list to []`);
+            result[key] = [];
+          } else if (field.optional && fieldValue === null) {
+            repairs.push(`${fieldPath}: removed null optional field`);
+            delete result[key];
+          }
+          continue;
+        }
+
+        const repaired = repair(field, fieldValue, fieldPath, repairs);
+        const remaining: SchemaIssue[] = [];
+        check(field, repaired, fieldPath, remaining);
+
+        if (remaining.length > 0 && field.optional && isScalar(field)) {
+          repairs.push(`${fieldPath}: removed invalid optional field`);
+          delete result[key];
+        } else {
+          result[key] = repaired;
+        }
+      }
+      return result;
+    }
+
+    case 'lazy':
+      return repair(schema.get(), value, path, repairs);
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Attempt to repair artifact data. The input is not mutated.
+ */
+export function repairArtifact(
+  kind: ArtifactKind,
+  data: unknown
+): { data: unknown; repairs: string[]; errors: SchemaIssue[] } {
+  const repairs: string[] = [];
+  const repaired = repair(ARTIFACT_SCHEMAS[kind], data, '', repairs);
+  return {
+    data: repaired,
+    repairs,
+    errors: validateArtifact(kind, repaired),
+  };
+}
+
+/**
+ * Format schema issues for display
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string[] {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`);
+}
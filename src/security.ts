@@ -174,6 +174,7 @@ export function getSecurityConfigForMode(
   switch (mode) {
     case 'discovery':
       // Discovery mode is read-only, block all write operations
+      config.writablePaths = ['.modernization'];
       config.requireApprovalFor = [
         ...config.requireApprovalFor,
         'git add',
@@ -404,7 +405,7 @@ export function isPathSafe(path: string, projectDir: string): boolean {
   const normalizedProject = projectDir.replace(/\\/g, '/');
 
   // Block absolute paths outside project
-  if (normalizedPath.startsWith('/') && !normalizedPath.startsWith(normalizedProject)) {
+  if (normalizedPath.startsWith('/') && !isWithinDir(normalizedPath, normalizedProject)) {
     // Allow /tmp for temporary files
     if (!normalizedPath.startsWith('/tmp')) {
       return false;
@@ -415,7 +416,7 @@ export function isPathSafe(path: string, projectDir: string): boolean {
   if (normalizedPath.includes('../')) {
     // Check if it resolves outside project
     const resolved = resolvePath(projectDir, path);
-    if (!resolved.startsWith(normalizedProject)) {
+    if (!isWithinDir(resolved, normalizedProject)) {
       return false;
     }
   }
@@ -442,20 +443,60 @@ export function isPathSafe(path: string, projectDir: string): boolean {
 }
 
 /**
- * Simple path resolution (no actual filesystem access)
+ * Validate a file tool's path argument against the project sandbox
  */
-function resolvePath(base: string, relative: string): string {
-  if (relative.startsWith('/')) {
-    return relative;
+export function validatePathAccess(
+  path: string,
+  projectDir: string,
+  access: 'read' | 'write',
+  config: SecurityConfig = DEFAULT_SECURITY_CONFIG
+): CommandValidation {
+  if (!isPathSafe(path, projectDir)) {
+    return {
+      allowed: false,
+      reason: `Path is outside the project or sensitive: ${path}`,
+    };
   }
 
-  const parts = base.split('/').filter(Boolean);
+  if (access === 'write' && config.writablePaths) {
+    const normalizedProject = projectDir.replace(/\\/g, '/').replace(/\/+$/, '');
+    const resolved = resolvePath(normalizedProject, path.replace(/\\/g, '/'));
+    const writable = config.writablePaths.some((dir) =>
+      isWithinDir(resolved, `${normalizedProject}/${dir}`)
+    );
+
+    if (!writable) {
+      return {
+        allowed: false,
+        reason: `Writes are limited to ${config.writablePaths.join(', ')}: ${path}`,
+      };
+    }
+  }
+
+  return {
+    allowed: true,
+  };
+}
+
+/**
+ * Check if a normalized path is the directory itself or inside it
+ */
+function isWithinDir(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(`${dir}/`);
+}
+
+/**
+ * Simple path resolution (no actual filesystem access)
+ */
+function resolvePath(base: string, relative: string): string {
+  // Absolute paths are still normalized so embedded '..' segments can't escape
+  const parts = relative.startsWith('/') ? [] : base.split('/').filter(Boolean);
   const relativeParts = relative.split('/');
 
   for (const part of relativeParts) {
     if (part === '..') {
       parts.pop();
-    } else if (part !== '.') {
+    } else if (part && part !== '.') {
       parts.push(part);
     }
   }
@@ -489,3 +530,30 @@ export function sanitizeOutput(output: string): string {
 
   return sanitized;
 }
+
+/**
+ * Keys whose string values are always secrets, whatever they contain
+ */
+const SENSITIVE_KEY_PATTERN = /^(?:api[_-]?key|password|passwd|secret|authorization|[\w-]*token)$/i;
+
+/**
+ * Sanitize every string in a JSON-like value, redacting values stored under
+ * sensitive keys as well
+ */
+export function sanitizeValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return sanitizeOutput(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(sanitizeValue);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] =
+        typeof entry === 'string' && SENSITIVE_KEY_PATTERN.test(key) ? '[REDACTED]' : sanitizeValue(entry);
+    }
+    return result;
+  }
+  return value;
+}
@@ -4,9 +4,13 @@
  * Handles persistence of modernization state in .modernization/ directory
  */
 
-import { readFile, writeFile, mkdir, access } from 'node:fs/promises';
+import { readFile, writeFile, mkdir, access, rename, copyFile, unlink, link } from 'node:fs/promises';
 import { join } from 'node:path';
+import { hostname } from 'node:os';
+import { randomBytes } from 'node:crypto';
 import type {
+  ArtifactKind,
+  ArtifactCheck,
   ModernizationState,
   OperationMode,
   SessionSummary,
@@ -15,16 +19,51 @@ import type {
   TestCoverageMap,
   EnhancementPlan,
   MigrationPlan,
+  LockInfo,
+  LockResult,
+  SessionUsage,
+  UsageBreakdown,
+  SessionTranscript,
+  SessionSnapshot,
+  DiscoveryCache,
+  MigrationRegistry,
 } from './types.js';
+import { validateArtifact, repairArtifact, formatSchemaIssues } from './schema.js';
+import { migrateArtifact, ARTIFACT_VERSIONS, MIGRATION_REGISTRY } from './migrations.js';
 
-const STATE_VERSION = '1.0.0';
+const STATE_VERSION = ARTIFACT_VERSIONS.state;
 const MODERNIZATION_DIR = '.modernization';
 const STATE_FILE = 'state.json';
 const FUNCTIONALITY_MAP_FILE = 'functionality_map.json';
 const TEST_COVERAGE_FILE = 'test_coverage.json';
 const ENHANCEMENT_PLAN_FILE = 'enhancement_plan.json';
 const MIGRATION_PLAN_FILE = 'migration_plan.json';
+const DISCOVERY_CACHE_FILE = 'discovery_cache.json';
 const SESSIONS_DIR = 'sessions';
+const QUARANTINE_DIR = 'quarantine';
+const BACKUPS_DIR = 'backups';
+const CHECKPOINTS_DIR = 'checkpoints';
+const SNAPSHOTS_DIR = 'snapshots';
+const LOCK_FILE = 'session.lock';
+
+// Locks from other hosts can't be checked by pid, so they expire by age
+const LOCK_STALE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * File name for each artifact kind
+ */
+const ARTIFACT_FILES: Record<ArtifactKind, string> = {
+  state: STATE_FILE,
+  functionality_map: FUNCTIONALITY_MAP_FILE,
+  test_coverage: TEST_COVERAGE_FILE,
+  enhancement_plan: ENHANCEMENT_PLAN_FILE,
+  migration_plan: MIGRATION_PLAN_FILE,
+};
+
+/**
+ * Files copied aside before a session: every artifact and the discovery cache
+ */
+const CHECKPOINT_FILES = [...Object.values(ARTIFACT_FILES), DISCOVERY_CACHE_FILE];
 
 /**
  * Check if a file or directory exists
@@ -38,6 +77,21 @@ async function exists(path: string): Promise<boolean> {
   }
 }
 
+/**
+ * Write JSON to a temp file and rename it into place, so readers never
+ * see a partially written file
+ */
+async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
 /**
  * Get the .modernization directory path
  */
@@ -45,6 +99,199 @@ export function getModernizationDir(projectDir: string): string {
   return join(projectDir, MODERNIZATION_DIR);
 }
 
+/**
+ * Get the path of an artifact file
+ */
+export function getArtifactPath(projectDir: string, kind: ArtifactKind): string {
+  return join(getModernizationDir(projectDir), ARTIFACT_FILES[kind]);
+}
+
+/**
+ * Read, parse and validate an artifact without side effects
+ */
+async function inspectArtifact(
+  projectDir: string,
+  kind: ArtifactKind,
+  registry: MigrationRegistry = MIGRATION_REGISTRY
+): Promise<{ check: ArtifactCheck; data: unknown }> {
+  const file = getArtifactPath(projectDir, kind);
+  const check: ArtifactCheck = {
+    kind,
+    file,
+    exists: false,
+    valid: false,
+    errors: [],
+    repairable: false,
+    repairs: [],
+    migrations: [],
+  };
+
+  if (!(await exists(file))) {
+    return { check, data: null };
+  }
+  check.exists = true;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(file, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    check.errors = [{ path: '(root)', message: `invalid JSON: ${message}` }];
+    return { check, data: null };
+  }
+
+  // Upgrade older formats before validating against the current schema
+  const migration = migrateArtifact(kind, parsed, registry.migrations[kind], registry.versions[kind]);
+  if (migration.error) {
+    check.errors = [{ path: 'version', message: migration.error }];
+    return { check, data: null };
+  }
+  check.migrations = migration.applied;
+  parsed = migration.data;
+
+  check.errors = validateArtifact(kind, parsed);
+  if (check.errors.length === 0) {
+    check.valid = true;
+    return { check, data: parsed };
+  }
+
+  const repaired = repairArtifact(kind, parsed);
+  check.repairs = repaired.repairs;
+  check.repairable = repaired.errors.length === 0;
+  return { check, data: check.repairable ? repaired.data : null };
+}
+
+/**
+ * Load an artifact, upgrading older formats in memory only; the file is
+ * rewritten when the artifact is next saved or repaired. Invalid artifacts
+ * are reported, with the repairs that would fix them or field by field,
+ * and not trusted; onInvalid receives their check.
+ */
+async function readArtifact<T>(
+  projectDir: string,
+  kind: ArtifactKind,
+  label: string,
+  onInvalid?: (check: ArtifactCheck) => void
+): Promise<T | null> {
+  const { check, data } = await inspectArtifact(projectDir, kind);
+
+  if (!check.exists || check.valid) {
+    return data as T | null;
+  }
+  onInvalid?.(check);
+
+  // Repairs change the data, so they are only applied when asked for
+  if (check.repairable) {
+    console.error(
+      `Not loading ${label}, which needs repairs:\n  ${check.repairs.join('\n  ')}\n` +
+        'Run `modernize validate-artifacts --repair` to apply them.'
+    );
+    return null;
+  }
+
+  console.error(
+    `Failed to load ${label}:\n  ${formatSchemaIssues(check.errors).join('\n  ')}\n` +
+      'Run `modernize validate-artifacts --repair` or `--quarantine` to fix it.'
+  );
+  return null;
+}
+
+/**
+ * Validate an artifact on disk and report whether it can be repaired
+ */
+export async function checkArtifact(
+  projectDir: string,
+  kind: ArtifactKind,
+  registry: MigrationRegistry = MIGRATION_REGISTRY
+): Promise<ArtifactCheck> {
+  const { check } = await inspectArtifact(projectDir, kind, registry);
+  return check;
+}
+
+/**
+ * Rewrite an artifact with its repaired and upgraded contents.
+ * A repaired original is kept in the quarantine directory, an upgraded
+ * one in the backups directory.
+ */
+export async function repairArtifactFile(
+  projectDir: string,
+  kind: ArtifactKind,
+  registry: MigrationRegistry = MIGRATION_REGISTRY
+): Promise<ArtifactCheck> {
+  const { check, data } = await inspectArtifact(projectDir, kind, registry);
+
+  if (check.exists && !check.valid && check.repairable) {
+    await quarantineArtifact(projectDir, kind);
+    await writeJsonAtomic(check.file, data);
+  } else if (check.valid && check.migrations.length > 0) {
+    await backupArtifact(projectDir, kind);
+    await writeJsonAtomic(check.file, data);
+  }
+
+  return check;
+}
+
+/**
+ * Write an artifact, first backing up a file in an older format so the
+ * upgrade applied when it was loaded keeps the original
+ */
+async function writeArtifact(projectDir: string, kind: ArtifactKind, data: unknown): Promise<void> {
+  const file = getArtifactPath(projectDir, kind);
+  try {
+    const current = JSON.parse(await readFile(file, 'utf-8')) as unknown;
+    if (migrateArtifact(kind, current).applied.length > 0) {
+      await backupArtifact(projectDir, kind);
+    }
+  } catch {
+    // Nothing readable to keep
+  }
+  await writeJsonAtomic(file, data);
+}
+
+/**
+ * Copy an artifact into .modernization/backups before it is upgraded.
+ * Returns the backup path, or null if the artifact does not exist.
+ */
+export async function backupArtifact(
+  projectDir: string,
+  kind: ArtifactKind
+): Promise<string | null> {
+  const file = getArtifactPath(projectDir, kind);
+  if (!(await exists(file))) {
+    return null;
+  }
+
+  const backupsDir = join(getModernizationDir(projectDir), BACKUPS_DIR);
+  await mkdir(backupsDir, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const target = join(backupsDir, `${ARTIFACT_FILES[kind]}.${stamp}`);
+  await copyFile(file, target);
+  return target;
+}
+
+/**
+ * Move an artifact into .modernization/quarantine so it is no longer loaded.
+ * Returns the quarantined path, or null if the artifact does not exist.
+ */
+export async function quarantineArtifact(
+  projectDir: string,
+  kind: ArtifactKind
+): Promise<string | null> {
+  const file = getArtifactPath(projectDir, kind);
+  if (!(await exists(file))) {
+    return null;
+  }
+
+  const quarantineDir = join(getModernizationDir(projectDir), QUARANTINE_DIR);
+  await mkdir(quarantineDir, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const target = join(quarantineDir, `${ARTIFACT_FILES[kind]}.${stamp}`);
+  await rename(file, target);
+  return target;
+}
+
 /**
  * Initialize the modernization directory structure
  */
@@ -66,6 +313,159 @@ export async function isInitialized(projectDir: string): Promise<boolean> {
   return exists(statePath);
 }
 
+// Lock depth per project, so nested callers in one process share a lock
+const heldLocks = new Map<string, number>();
+
+/**
+ * Get the path of the session lockfile
+ */
+function getLockPath(projectDir: string): string {
+  return join(getModernizationDir(projectDir), LOCK_FILE);
+}
+
+/**
+ * Read the current lock holder, or null if unlocked or unreadable
+ */
+export async function readLock(projectDir: string): Promise<LockInfo | null> {
+  try {
+    return JSON.parse(await readFile(getLockPath(projectDir), 'utf-8')) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a process is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Check if a lock was left behind by a session that is no longer running
+ */
+export function isLockStale(lock: LockInfo, now: number = Date.now()): boolean {
+  if (lock.hostname === hostname()) {
+    return !isProcessAlive(lock.pid);
+  }
+  return now - new Date(lock.acquiredAt).getTime() > LOCK_STALE_MS;
+}
+
+/**
+ * Remove a stale lockfile, unless another process replaced it since it was
+ * read. The file is claimed by renaming it, which only one process can do;
+ * a claimed file that is not the stale one is a fresh lock and is linked back.
+ * Returns whether the stale lock was removed.
+ */
+async function removeStaleLock(lockPath: string, staleContent: string): Promise<boolean> {
+  const claimed = `${lockPath}.${process.pid}.${randomBytes(4).toString('hex')}`;
+  try {
+    await rename(lockPath, claimed);
+  } catch {
+    // Someone else removed it first
+    return false;
+  }
+
+  const content = await readFile(claimed, 'utf-8').catch(() => undefined);
+  if (content !== staleContent) {
+    await link(claimed, lockPath).catch(() => {});
+  }
+  await unlink(claimed).catch(() => {});
+  return content === staleContent;
+}
+
+/**
+ * Acquire the lock guarding the .modernization directory.
+ * Stale locks are replaced; a live lock held by another session is reported
+ * back instead of waited on.
+ */
+export async function acquireLock(projectDir: string, command: string): Promise<LockResult> {
+  const info: LockInfo = {
+    pid: process.pid,
+    hostname: hostname(),
+    command,
+    acquiredAt: new Date().toISOString(),
+  };
+
+  const depth = heldLocks.get(projectDir) ?? 0;
+  if (depth > 0) {
+    heldLocks.set(projectDir, depth + 1);
+    return { acquired: true, holder: (await readLock(projectDir)) ?? info };
+  }
+
+  const lockPath = getLockPath(projectDir);
+  await mkdir(getModernizationDir(projectDir), { recursive: true });
+
+  let recoveredStale: LockInfo | undefined;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await writeFile(lockPath, JSON.stringify(info, null, 2), { encoding: 'utf-8', flag: 'wx' });
+      heldLocks.set(projectDir, 1);
+      return { acquired: true, holder: info, recoveredStale };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const content = await readFile(lockPath, 'utf-8').catch(() => undefined);
+    if (content === undefined) {
+      // Released since our write failed
+      continue;
+    }
+    let existing: LockInfo | undefined;
+    try {
+      existing = JSON.parse(content) as LockInfo;
+    } catch {
+      // A lockfile truncated by a crash
+    }
+    if (existing && !isLockStale(existing)) {
+      return { acquired: false, holder: existing };
+    }
+
+    // Dead holder, or a lockfile truncated by a crash
+    if (await removeStaleLock(lockPath, content)) {
+      recoveredStale = existing;
+    }
+  }
+
+  // Another process took the lock between our unlink and retry
+  return { acquired: false, holder: (await readLock(projectDir)) ?? info };
+}
+
+/**
+ * Release a lock acquired by this process
+ */
+export async function releaseLock(projectDir: string): Promise<void> {
+  const depth = heldLocks.get(projectDir) ?? 0;
+  if (depth > 1) {
+    heldLocks.set(projectDir, depth - 1);
+    return;
+  }
+  heldLocks.delete(projectDir);
+
+  const lock = await readLock(projectDir);
+  if (lock && lock.pid === process.pid && lock.hostname === hostname()) {
+    await unlink(getLockPath(projectDir)).catch(() => {});
+  }
+}
+
+/**
+ * Describe the session holding a lock
+ */
+export function describeLockHolder(lock: LockInfo): string {
+  return (
+    `Another modernize session is already running against this project ` +
+    `(${lock.command}, pid ${lock.pid} on ${lock.hostname}, since ${lock.acquiredAt})`
+  );
+}
+
 /**
  * Create initial state for a new modernization project
  */
@@ -99,6 +499,7 @@ export function createInitialState(
 
     // History
     sessions: [],
+    totalUsage: createEmptyUsage(),
     pendingApprovals: [],
   };
 }
@@ -107,19 +508,7 @@ export function createInitialState(
  * Load state from disk
  */
 export async function loadState(projectDir: string): Promise<ModernizationState | null> {
-  const statePath = join(getModernizationDir(projectDir), STATE_FILE);
-
-  if (!(await exists(statePath))) {
-    return null;
-  }
-
-  try {
-    const content = await readFile(statePath, 'utf-8');
-    return JSON.parse(content) as ModernizationState;
-  } catch (error) {
-    console.error('Failed to load state:', error);
-    return null;
-  }
+  return readArtifact<ModernizationState>(projectDir, 'state', 'state');
 }
 
 /**
@@ -129,38 +518,24 @@ export async function saveState(
   projectDir: string,
   state: ModernizationState
 ): Promise<void> {
-  const modDir = getModernizationDir(projectDir);
-  const statePath = join(modDir, STATE_FILE);
-
   // Ensure directory exists
-  await mkdir(modDir, { recursive: true });
+  await mkdir(getModernizationDir(projectDir), { recursive: true });
 
   // Update timestamp
   state.updatedAt = new Date().toISOString();
 
   // Write state
-  await writeFile(statePath, JSON.stringify(state, null, 2), 'utf-8');
+  await writeArtifact(projectDir, 'state', state);
 }
 
 /**
  * Load functionality map
  */
 export async function loadFunctionalityMap(
-  projectDir: string
+  projectDir: string,
+  onInvalid?: (check: ArtifactCheck) => void
 ): Promise<FunctionalityMap | null> {
-  const filePath = join(getModernizationDir(projectDir), FUNCTIONALITY_MAP_FILE);
-
-  if (!(await exists(filePath))) {
-    return null;
-  }
-
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    return JSON.parse(content) as FunctionalityMap;
-  } catch (error) {
-    console.error('Failed to load functionality map:', error);
-    return null;
-  }
+  return readArtifact<FunctionalityMap>(projectDir, 'functionality_map', 'functionality map', onInvalid);
 }
 
 /**
@@ -170,29 +545,17 @@ export async function saveFunctionalityMap(
   projectDir: string,
   map: FunctionalityMap
 ): Promise<void> {
-  const filePath = join(getModernizationDir(projectDir), FUNCTIONALITY_MAP_FILE);
-  await writeFile(filePath, JSON.stringify(map, null, 2), 'utf-8');
+  await writeArtifact(projectDir, 'functionality_map', map);
 }
 
 /**
  * Load test coverage map
  */
 export async function loadTestCoverageMap(
-  projectDir: string
+  projectDir: string,
+  onInvalid?: (check: ArtifactCheck) => void
 ): Promise<TestCoverageMap | null> {
-  const filePath = join(getModernizationDir(projectDir), TEST_COVERAGE_FILE);
-
-  if (!(await exists(filePath))) {
-    return null;
-  }
-
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    return JSON.parse(content) as TestCoverageMap;
-  } catch (error) {
-    console.error('Failed to load test coverage map:', error);
-    return null;
-  }
+  return readArtifact<TestCoverageMap>(projectDir, 'test_coverage', 'test coverage map', onInvalid);
 }
 
 /**
@@ -202,29 +565,17 @@ export async function saveTestCoverageMap(
   projectDir: string,
   map: TestCoverageMap
 ): Promise<void> {
-  const filePath = join(getModernizationDir(projectDir), TEST_COVERAGE_FILE);
-  await writeFile(filePath, JSON.stringify(map, null, 2), 'utf-8');
+  await writeArtifact(projectDir, 'test_coverage', map);
 }
 
 /**
  * Load enhancement plan
  */
 export async function loadEnhancementPlan(
-  projectDir: string
+  projectDir: string,
+  onInvalid?: (check: ArtifactCheck) => void
 ): Promise<EnhancementPlan | null> {
-  const filePath = join(getModernizationDir(projectDir), ENHANCEMENT_PLAN_FILE);
-
-  if (!(await exists(filePath))) {
-    return null;
-  }
-
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    return JSON.parse(content) as EnhancementPlan;
-  } catch (error) {
-    console.error('Failed to load enhancement plan:', error);
-    return null;
-  }
+  return readArtifact<EnhancementPlan>(projectDir, 'enhancement_plan', 'enhancement plan', onInvalid);
 }
 
 /**
@@ -234,40 +585,62 @@ export async function saveEnhancementPlan(
   projectDir: string,
   plan: EnhancementPlan
 ): Promise<void> {
-  const filePath = join(getModernizationDir(projectDir), ENHANCEMENT_PLAN_FILE);
-  await writeFile(filePath, JSON.stringify(plan, null, 2), 'utf-8');
+  await writeArtifact(projectDir, 'enhancement_plan', plan);
 }
 
 /**
  * Load migration plan
  */
 export async function loadMigrationPlan(
-  projectDir: string
+  projectDir: string,
+  onInvalid?: (check: ArtifactCheck) => void
 ): Promise<MigrationPlan | null> {
-  const filePath = join(getModernizationDir(projectDir), MIGRATION_PLAN_FILE);
+  return readArtifact<MigrationPlan>(projectDir, 'migration_plan', 'migration plan', onInvalid);
+}
+
+/**
+ * Save migration plan
+ */
+export async function saveMigrationPlan(
+  projectDir: string,
+  plan: MigrationPlan
+): Promise<void> {
+  await writeArtifact(projectDir, 'migration_plan', plan);
+}
 
+/**
+ * Load the discovery file cache, or null if there is none
+ */
+export async function loadDiscoveryCache(projectDir: string): Promise<DiscoveryCache | null> {
+  const filePath = join(getModernizationDir(projectDir), DISCOVERY_CACHE_FILE);
   if (!(await exists(filePath))) {
     return null;
   }
 
   try {
-    const content = await readFile(filePath, 'utf-8');
-    return JSON.parse(content) as MigrationPlan;
+    return JSON.parse(await readFile(filePath, 'utf-8')) as DiscoveryCache;
   } catch (error) {
-    console.error('Failed to load migration plan:', error);
+    console.error('Failed to load discovery cache:', error);
     return null;
   }
 }
 
 /**
- * Save migration plan
+ * Save the discovery file cache
  */
-export async function saveMigrationPlan(
-  projectDir: string,
-  plan: MigrationPlan
-): Promise<void> {
-  const filePath = join(getModernizationDir(projectDir), MIGRATION_PLAN_FILE);
-  await writeFile(filePath, JSON.stringify(plan, null, 2), 'utf-8');
+export async function saveDiscoveryCache(projectDir: string, cache: DiscoveryCache): Promise<void> {
+  await writeJsonAtomic(join(getModernizationDir(projectDir), DISCOVERY_CACHE_FILE), cache);
+}
+
+/**
+ * Get the transcript path for a session
+ */
+export function getSessionTranscriptPath(projectDir: string, sessionNumber: number): string {
+  return join(
+    getModernizationDir(projectDir),
+    SESSIONS_DIR,
+    `session_${sessionNumber.toString().padStart(3, '0')}.json`
+  );
 }
 
 /**
@@ -276,13 +649,131 @@ export async function saveMigrationPlan(
 export async function saveSessionTranscript(
   projectDir: string,
   sessionNumber: number,
-  transcript: unknown
+  transcript: SessionTranscript
 ): Promise<void> {
   const sessionsDir = join(getModernizationDir(projectDir), SESSIONS_DIR);
   await mkdir(sessionsDir, { recursive: true });
 
-  const filePath = join(sessionsDir, `session_${sessionNumber.toString().padStart(3, '0')}.json`);
-  await writeFile(filePath, JSON.stringify(transcript, null, 2), 'utf-8');
+  await writeJsonAtomic(getSessionTranscriptPath(projectDir, sessionNumber), transcript);
+}
+
+/**
+ * Load a session transcript, or null if the session has none
+ */
+export async function loadSessionTranscript(
+  projectDir: string,
+  sessionNumber: number
+): Promise<SessionTranscript | null> {
+  const filePath = getSessionTranscriptPath(projectDir, sessionNumber);
+  if (!(await exists(filePath))) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8')) as SessionTranscript;
+  } catch (error) {
+    console.error(`Failed to load transcript for session ${sessionNumber}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the path of a session's artifact snapshot
+ */
+export function getSessionSnapshotPath(projectDir: string, sessionNumber: number): string {
+  return join(
+    getModernizationDir(projectDir),
+    SNAPSHOTS_DIR,
+    `session_${sessionNumber.toString().padStart(3, '0')}.json`
+  );
+}
+
+/**
+ * Save the artifacts as they were before and after a session
+ */
+export async function saveSessionSnapshot(
+  projectDir: string,
+  snapshot: SessionSnapshot
+): Promise<void> {
+  await mkdir(join(getModernizationDir(projectDir), SNAPSHOTS_DIR), { recursive: true });
+
+  await writeJsonAtomic(getSessionSnapshotPath(projectDir, snapshot.sessionNumber), snapshot);
+}
+
+/**
+ * Load a session's artifact snapshot, or null if none was saved
+ */
+export async function loadSessionSnapshot(
+  projectDir: string,
+  sessionNumber: number
+): Promise<SessionSnapshot | null> {
+  const filePath = getSessionSnapshotPath(projectDir, sessionNumber);
+  if (!(await exists(filePath))) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8')) as SessionSnapshot;
+  } catch (error) {
+    console.error(`Failed to load snapshot for session ${sessionNumber}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the directory holding the artifact copies taken before a session
+ */
+export function getArtifactCheckpointDir(projectDir: string, sessionNumber: number): string {
+  return join(
+    getModernizationDir(projectDir),
+    CHECKPOINTS_DIR,
+    `session_${sessionNumber.toString().padStart(3, '0')}`
+  );
+}
+
+/**
+ * Copy the artifacts aside before a session so rollback can restore them
+ */
+export async function saveArtifactCheckpoint(
+  projectDir: string,
+  sessionNumber: number
+): Promise<void> {
+  const checkpointDir = getArtifactCheckpointDir(projectDir, sessionNumber);
+  await mkdir(checkpointDir, { recursive: true });
+
+  for (const file of CHECKPOINT_FILES) {
+    const source = join(getModernizationDir(projectDir), file);
+    if (await exists(source)) {
+      await copyFile(source, join(checkpointDir, file));
+    }
+  }
+}
+
+/**
+ * Restore the artifacts from the copies taken before a session, removing
+ * the ones the session created. Returns false if no copies exist.
+ */
+export async function restoreArtifactCheckpoint(
+  projectDir: string,
+  sessionNumber: number
+): Promise<boolean> {
+  const checkpointDir = getArtifactCheckpointDir(projectDir, sessionNumber);
+  if (!(await exists(checkpointDir))) {
+    return false;
+  }
+
+  for (const file of CHECKPOINT_FILES) {
+    const copy = join(checkpointDir, file);
+    const target = join(getModernizationDir(projectDir), file);
+    if (await exists(copy)) {
+      const tempPath = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await copyFile(copy, tempPath);
+      await rename(tempPath, target);
+    } else {
+      await unlink(target).catch(() => {});
+    }
+  }
+  return true;
 }
 
 /**
@@ -294,6 +785,9 @@ export function addSessionSummary(
 ): void {
   state.sessions.push(summary);
   state.sessionNumber = summary.sessionNumber;
+  if (summary.usage) {
+    state.totalUsage = addUsage(state.totalUsage, summary.usage);
+  }
 }
 
 /**
@@ -301,11 +795,13 @@ export function addSessionSummary(
  */
 export function createSessionSummary(
   sessionNumber: number,
-  agentType: SessionSummary['agentType']
+  agentType: SessionSummary['agentType'],
+  mode?: OperationMode
 ): SessionSummary {
   return {
     sessionNumber,
     agentType,
+    mode,
     startedAt: new Date().toISOString(),
     operationsCompleted: [],
     artifactsModified: [],
@@ -411,3 +907,61 @@ export function updateMigrationProgress(
   state.featuresMigrated = featuresMigrated;
   state.featuresTotal = featuresTotal;
 }
+
+/**
+ * Create a zeroed usage record
+ */
+export function createEmptyUsage(): SessionUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    turns: 0,
+    costUsd: 0,
+  };
+}
+
+/**
+ * Add two usage records
+ */
+export function addUsage(a: SessionUsage, b: SessionUsage): SessionUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadInputTokens: a.cacheReadInputTokens + b.cacheReadInputTokens,
+    cacheCreationInputTokens: a.cacheCreationInputTokens + b.cacheCreationInputTokens,
+    turns: a.turns + b.turns,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+/**
+ * Count every token a usage record was billed for, cache reads and writes included
+ */
+export function getTotalTokens(usage: SessionUsage): number {
+  return (
+    usage.inputTokens +
+    usage.outputTokens +
+    usage.cacheReadInputTokens +
+    usage.cacheCreationInputTokens
+  );
+}
+
+/**
+ * Break down recorded spend by agent type and by mode
+ */
+export function summarizeUsage(state: ModernizationState): UsageBreakdown {
+  const byAgent: Record<string, SessionUsage> = {};
+  const byMode: Record<string, SessionUsage> = {};
+
+  for (const session of state.sessions) {
+    if (!session.usage) continue;
+
+    const mode = session.mode ?? 'unknown';
+    byAgent[session.agentType] = addUsage(byAgent[session.agentType] ?? createEmptyUsage(), session.usage);
+    byMode[mode] = addUsage(byMode[mode] ?? createEmptyUsage(), session.usage);
+  }
+
+  return { total: state.totalUsage, byAgent, byMode };
+}
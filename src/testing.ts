@@ -0,0 +1,205 @@
+/**
+ * Test Discovery
+ *
+ * Finds a project's test files by the usual conventions: __tests__ and tests/
+ * directories, *.test.* and *.spec.* files, Go *_test.go files, Python
+ * test_*.py files and Java *Test classes. Counts the test cases in each and
+ * links them to the features they cover, through the files they import and
+ * the names of the files they test.
+ */
+
+import ts from 'typescript';
+import { readFile } from 'node:fs/promises';
+import { posix } from 'node:path';
+import type { Feature, ImportGraph, TestFile } from './types.js';
+import { isParsableSource, parseSourceFile } from './ast.js';
+import { getImportSpecifiers } from './imports.js';
+
+/**
+ * Directories holding tests, which are left out when matching directories
+ */
+const TEST_DIRECTORIES = ['__tests__', 'tests', 'test', 'spec'];
+
+/**
+ * Modifiers of it() and test() that still declare a test case
+ */
+const TEST_MODIFIERS = ['only', 'skip', 'todo', 'concurrent', 'each', 'fails', 'failing'];
+
+/**
+ * Check if a file is a test file by its name or directory
+ */
+export function isTestFile(file: string): boolean {
+  const name = posix.basename(file);
+  return (
+    file.split('/').slice(0, -1).some((dir) => TEST_DIRECTORIES.includes(dir)) ||
+    /\.(test|spec)\.[^.]+$/i.test(name) ||
+    /_test\.(go|py)$/i.test(name) ||
+    /^test_\w+\.py$/i.test(name) ||
+    /\w+Tests?\.(java|kt)$/.test(name)
+  );
+}
+
+/**
+ * Get the name of the file a test file is named after: orders.test.ts,
+ * test_orders.py, orders_test.go and OrdersTest.java all test orders
+ */
+function getTestedName(file: string): string {
+  const name = posix.basename(file);
+  const match =
+    name.match(/^(.+)\.(?:test|spec)\.[^.]+$/i) ??
+    name.match(/^test_(.+)\.py$/i) ??
+    name.match(/^(.+)_test\.(?:go|py)$/i) ??
+    name.match(/^(.+?)Tests?\.(?:java|kt)$/);
+  return (match?.[1] ?? name.replace(/\.[^.]+$/, '')).toLowerCase();
+}
+
+/**
+ * Check if a call declares a test case: it(), test() and their modifiers
+ * such as it.only() or test.each()
+ */
+function isTestCall(callee: ts.Expression): boolean {
+  if (ts.isIdentifier(callee)) {
+    return callee.text === 'it' || callee.text === 'test';
+  }
+  if (ts.isPropertyAccessExpression(callee)) {
+    return TEST_MODIFIERS.includes(callee.name.text) && isTestCall(callee.expression);
+  }
+  return false;
+}
+
+/**
+ * Count the test cases in a test file: it() and test() calls in TypeScript
+ * and JavaScript, test functions in Python and Go, #[test] functions in Rust
+ * and @Test methods in Java and Kotlin
+ */
+export function countTestCases(file: string, content: string): number {
+  if (isParsableSource(file)) {
+    let count = 0;
+    const visit = (node: ts.Node): void => {
+      // test.each`table`('name', fn) declares its cases through a tagged template
+      const callee = ts.isCallExpression(node)
+        ? node.expression
+        : ts.isTaggedTemplateExpression(node)
+          ? node.tag
+          : undefined;
+      if (callee && isTestCall(callee)) {
+        count++;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(parseSourceFile(file, content));
+    return count;
+  }
+
+  const patterns: [RegExp, RegExp][] = [
+    [/\.py$/i, /^\s*(?:async\s+)?def\s+test\w*\s*\(/gm],
+    [/\.go$/i, /^func\s+Test\w*\s*\(/gm],
+    [/\.rs$/i, /#\[(?:tokio::)?test\]/g],
+    [/\.(java|kt)$/i, /@Test\b/g],
+  ];
+  const pattern = patterns.find(([extension]) => extension.test(file))?.[1];
+  return pattern ? [...content.matchAll(pattern)].length : 0;
+}
+
+/**
+ * Resolve the absolute imports of a Python test to the project's modules
+ */
+function resolvePythonImports(specifiers: string[], sources: string[]): string[] {
+  const covered: string[] = [];
+  for (const module of specifiers) {
+    const path = module.replace(/\./g, '/');
+    const candidates = [`${path}.py`, `${path}/__init__.py`];
+    covered.push(
+      ...sources.filter((file) => candidates.some((candidate) => file === candidate || file.endsWith(`/${candidate}`)))
+    );
+  }
+  return covered;
+}
+
+/**
+ * Find the source file a test is named after. When several files share the
+ * name, the one sharing the most directories with the test wins; a tie
+ * matches nothing.
+ */
+function findTestedFile(testFile: string, sources: string[]): string | undefined {
+  const name = getTestedName(testFile);
+  const candidates = sources.filter((file) => posix.basename(file).replace(/\.[^.]+$/, '').toLowerCase() === name);
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+
+  const testDirs = new Set(testFile.split('/').slice(0, -1).filter((dir) => !TEST_DIRECTORIES.includes(dir)));
+  const [best, next] = candidates
+    .map((file) => ({ file, score: file.split('/').slice(0, -1).filter((dir) => testDirs.has(dir)).length }))
+    .sort((a, b) => b.score - a.score);
+  return best && next && best.score > next.score ? best.file : undefined;
+}
+
+/**
+ * Find the test files among a project's files, count their test cases and
+ * find the source files each one covers: the project files it imports,
+ * from the import graph for TypeScript and JavaScript, and the file it is
+ * named after. Go tests without a matching file cover their whole package.
+ */
+export async function discoverTests(projectDir: string, files: string[], graph?: ImportGraph): Promise<TestFile[]> {
+  const sources = files.filter((file) => !isTestFile(file));
+  const tests: TestFile[] = [];
+
+  for (const file of files.filter(isTestFile).sort()) {
+    let content: string;
+    try {
+      content = await readFile(posix.join(projectDir, file), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const covers = (graph?.files[file] ?? []).filter((target) => !isTestFile(target));
+    if (/\.py$/i.test(file)) {
+      covers.push(...resolvePythonImports(getImportSpecifiers(file, content), sources));
+    }
+
+    const tested = findTestedFile(file, sources);
+    if (tested) {
+      covers.push(tested);
+    } else if (/_test\.go$/i.test(file)) {
+      const dir = posix.dirname(file);
+      covers.push(...sources.filter((source) => /\.go$/i.test(source) && posix.dirname(source) === dir));
+    }
+
+    tests.push({ file, testCount: countTestCases(file, content), covers: [...new Set(covers)].sort() });
+  }
+
+  return tests;
+}
+
+/**
+ * Set each feature's test coverage to the test files covering its source
+ * files, keeping a recorded coverage percentage. Features no discovered
+ * test covers lose the test files discovery would have found, which no
+ * longer exist or cover them; test files it can't find, such as e2e specs
+ * an agent recorded, are kept. Features without coverage are marked untested.
+ */
+export function linkFeatureTests(features: Feature[], tests: TestFile[]): Feature[] {
+  for (const feature of features) {
+    const files = new Set(feature.sourceLocations.map((loc) => loc.file));
+    const covering = tests.filter((test) => test.covers.some((file) => files.has(file)));
+
+    if (covering.length > 0) {
+      feature.testCoverage = {
+        ...feature.testCoverage,
+        hasTests: true,
+        testFiles: covering.map((test) => test.file),
+        testCount: covering.reduce((sum, test) => sum + test.testCount, 0),
+      };
+    } else if (feature.testCoverage) {
+      const { testCount: _, ...coverage } = feature.testCoverage;
+      const remaining = coverage.testFiles.filter((file) => !isTestFile(file));
+      if (remaining.length < coverage.testFiles.length) {
+        feature.testCoverage = { ...coverage, hasTests: remaining.length > 0, testFiles: remaining };
+      }
+    } else {
+      feature.testCoverage = { hasTests: false, testFiles: [] };
+    }
+  }
+  return features;
+}
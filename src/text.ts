@@ -0,0 +1,68 @@
+/**
+ * Source Text Scanning
+ *
+ * Helpers for reading source that is not parsed into a syntax tree, such as
+ * Python and SQL: logical lines, call arguments and string literals
+ */
+
+/**
+ * Join Python source into logical lines, so calls and signatures spanning
+ * several lines are read as one
+ */
+export function getLogicalLines(content: string): { text: string; line: number }[] {
+  const logical: { text: string; line: number }[] = [];
+  let current: { text: string; line: number } | undefined;
+  let depth = 0;
+
+  content.split('\n').forEach((raw, index) => {
+    const text = raw.replace(/\s+#.*$/, '');
+    current = current ? { ...current, text: `${current.text} ${text.trim()}` } : { text, line: index + 1 };
+
+    const code = text.replace(/(["'])(?:\\.|(?!\1).)*\1/g, '');
+    depth += (code.match(/[([{]/g) ?? []).length - (code.match(/[)\]}]/g) ?? []).length;
+    if (depth <= 0) {
+      logical.push(current);
+      current = undefined;
+      depth = 0;
+    }
+  });
+  if (current) logical.push(current);
+
+  return logical;
+}
+
+/**
+ * Split call arguments or parameters on top-level commas
+ */
+export function splitArguments(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let quote: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const char = args.charAt(i);
+    if (quote) {
+      if (char === quote && args[i - 1] !== '\\') quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(args.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(args.slice(start).trim());
+
+  return parts.filter(Boolean);
+}
+
+/**
+ * Get the value of a Python string literal argument, ignoring r/b/f prefixes
+ */
+export function getPythonString(arg: string | undefined): string | undefined {
+  return arg?.match(/^[rRbBfFuU]{0,2}(["'])(.*)\1$/)?.[2];
+}
@@ -0,0 +1,140 @@
+/**
+ * Session Transcripts
+ *
+ * Turns saved SDK messages into readable entries for `modernize transcript`
+ */
+
+import type {
+  SessionTranscript,
+  TranscriptEntry,
+  TranscriptEntryKind,
+} from './types.js';
+
+export const TRANSCRIPT_ENTRY_KINDS: TranscriptEntryKind[] = [
+  'system',
+  'assistant',
+  'tool_use',
+  'tool_result',
+  'result',
+  'other',
+];
+
+interface ContentBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+/**
+ * Get the content blocks of an assistant or user message
+ */
+function getContentBlocks(message: Record<string, unknown>): ContentBlock[] {
+  const inner = message.message as { content?: unknown } | undefined;
+  const content = inner?.content;
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }];
+  }
+  return Array.isArray(content) ? (content as ContentBlock[]) : [];
+}
+
+/**
+ * Flatten tool result content, which may be a string or a list of blocks
+ */
+function getResultText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return (content as ContentBlock[])
+      .map((block) => (block.type === 'text' ? (block.text ?? '') : `[${block.type}]`))
+      .join('\n');
+  }
+  return content === undefined ? '' : JSON.stringify(content);
+}
+
+/**
+ * Break a transcript into readable entries: one per text block, tool call,
+ * tool result and result message
+ */
+export function getTranscriptEntries(transcript: SessionTranscript): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [];
+  // Tool results only carry the id of the call they answer
+  const toolNames = new Map<string, string>();
+
+  transcript.messages.forEach(({ message }, index) => {
+    switch (message.type) {
+      case 'system':
+        entries.push({
+          index,
+          kind: 'system',
+          text:
+            message.subtype === 'init'
+              ? `init (model ${String(message.model)}, cwd ${String(message.cwd)})`
+              : String(message.subtype ?? ''),
+        });
+        break;
+
+      case 'assistant':
+        for (const block of getContentBlocks(message)) {
+          if (block.type === 'text' && block.text) {
+            entries.push({ index, kind: 'assistant', text: block.text });
+          } else if (block.type === 'tool_use') {
+            const tool = block.name ?? 'unknown';
+            if (block.id) toolNames.set(block.id, tool);
+            entries.push({ index, kind: 'tool_use', tool, text: JSON.stringify(block.input ?? {}) });
+          }
+        }
+        break;
+
+      case 'user':
+        for (const block of getContentBlocks(message)) {
+          if (block.type === 'tool_result') {
+            entries.push({
+              index,
+              kind: 'tool_result',
+              tool: block.tool_use_id ? toolNames.get(block.tool_use_id) : undefined,
+              text: getResultText(block.content),
+              isError: block.is_error === true,
+            });
+          }
+        }
+        break;
+
+      case 'result': {
+        const cost = typeof message.total_cost_usd === 'number' ? message.total_cost_usd : 0;
+        const errors = Array.isArray(message.errors) ? `: ${message.errors.join(', ')}` : '';
+        entries.push({
+          index,
+          kind: 'result',
+          text: `${String(message.subtype)} after ${String(message.num_turns)} turns, $${cost.toFixed(4)}${errors}`,
+          isError: message.is_error === true,
+        });
+        break;
+      }
+
+      default:
+        entries.push({ index, kind: 'other', text: String(message.type) });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Filter transcript entries by kind and tool name
+ */
+export function filterTranscriptEntries(
+  entries: TranscriptEntry[],
+  filter: { kinds?: TranscriptEntryKind[]; tool?: string } = {}
+): TranscriptEntry[] {
+  return entries.filter((entry) => {
+    if (filter.kinds && !filter.kinds.includes(entry.kind)) return false;
+    if (filter.tool && entry.tool?.toLowerCase() !== filter.tool.toLowerCase()) return false;
+    return true;
+  });
+}
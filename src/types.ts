@@ -54,6 +54,10 @@ export interface ModernizationState {
 
   // Session history
   sessions: SessionSummary[];
+  totalUsage: SessionUsage;
+
+  // Worktree agents are running in, until it is merged
+  activeWorktree?: SessionWorktree;
 
   // Approval gates
   pendingApprovals: ApprovalRequest[];
@@ -69,6 +73,34 @@ export interface SessionSummary {
   artifactsModified: string[];
   errors: string[];
   nextActions: string[];
+  commandDecisions?: CommandDecision[];
+  // Absent on sessions recorded before mode and usage were tracked
+  mode?: OperationMode;
+  usage?: SessionUsage;
+  // Project-relative path of the saved transcript
+  transcript?: string;
+  // Git snapshot of the project taken before the session ran
+  checkpoint?: SessionCheckpoint;
+  // Git worktree the session ran in
+  worktree?: SessionWorktree;
+  // What the session changed in the artifacts
+  artifactDiff?: ArtifactDiff;
+}
+
+export interface SessionUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  turns: number;
+  costUsd: number;
+}
+
+export interface UsageBreakdown {
+  total: SessionUsage;
+  // Sessions recorded without a mode are grouped under 'unknown'
+  byAgent: Record<string, SessionUsage>;
+  byMode: Record<string, SessionUsage>;
 }
 
 export interface ApprovalRequest {
@@ -94,6 +126,7 @@ export interface FunctionalityMap {
   undocumentedBehaviors: UndocumentedBehavior[];
   externalDependencies: ExternalDependency[];
   databaseSchema?: DatabaseSchema;
+  importGraph?: ImportGraph;
 }
 
 export interface SourceAnalysis {
@@ -105,6 +138,18 @@ export interface SourceAnalysis {
   totalFiles: number;
   totalLines: number;
   architecturePattern?: string;
+  // Other languages with a significant share of the source lines
+  secondaryLanguages?: string[];
+  // Every language found, by lines of code, largest first
+  languages?: LanguageStats[];
+  // Languages scanned in each top-level directory, '.' for files at the root
+  directoryLanguages?: Record<string, string[]>;
+}
+
+export interface LanguageStats {
+  language: string;
+  files: number;
+  lines: number;
 }
 
 export interface EntryPoint {
@@ -128,6 +173,10 @@ export interface Feature {
   behavioralNotes?: string[];
   complexity?: 'low' | 'medium' | 'high';
   priority?: number;
+  // Source files that no longer exist, set by `discover --refresh`
+  missingSourceFiles?: string[];
+  // Measured from parsed sources; absent when none could be parsed
+  codeMetrics?: CodeMetrics;
 }
 
 export interface SourceLocation {
@@ -135,6 +184,16 @@ export interface SourceLocation {
   lines: [number, number];
   functions?: string[];
   classes?: string[];
+  exports?: string[];
+  // Cyclomatic complexity of the file
+  complexity?: number;
+}
+
+export interface CodeMetrics {
+  functions: number;
+  classes: number;
+  lines: number;
+  cyclomaticComplexity: number;
 }
 
 export interface APIEndpoint {
@@ -144,6 +203,28 @@ export interface APIEndpoint {
   responseSchema?: Record<string, unknown>;
   authRequired: boolean;
   documented: boolean;
+  framework?: string;
+  // Middleware, guards or calls that enforce authentication
+  auth?: string[];
+  handler?: RouteHandler;
+  // The path is relative to a router mount in another file that was not found
+  relativeToMount?: boolean;
+}
+
+export interface RouteHandler {
+  file: string;
+  line: number;
+  function?: string;
+}
+
+export interface RouterMount {
+  // File mounting the router, and the module it imports the router from
+  file: string;
+  specifier: string;
+  prefix: string;
+  auth: string[];
+  // Mounted on a router that is itself mounted from another file
+  relative: boolean;
 }
 
 export interface UIComponent {
@@ -187,8 +268,30 @@ export interface DatabaseSchema {
 
 export interface DatabaseTable {
   name: string;
-  columns: string[];
-  relationships?: string[];
+  columns: DatabaseColumn[];
+  relationships?: DatabaseRelationship[];
+  // Model, entity or Prisma model mapped to the table
+  model?: string;
+  // File declaring the table: a model, schema or the migration creating it
+  source?: string;
+  // IDs of the features that query the table
+  usedBy?: string[];
+}
+
+export interface DatabaseColumn {
+  name: string;
+  // As declared: an SQL type, ORM field type or Prisma scalar
+  type: string;
+  nullable?: boolean;
+  primaryKey?: boolean;
+}
+
+export interface DatabaseRelationship {
+  // Cardinality seen from the table declaring the relationship
+  kind?: 'many-to-one' | 'one-to-many' | 'one-to-one' | 'many-to-many';
+  table: string;
+  // Foreign key column on the declaring table
+  column?: string;
 }
 
 // ============================================================================
@@ -206,8 +309,8 @@ export interface TestCoverageMap {
 
 export interface CoverageMetrics {
   lineCoverage: number;
-  branchCoverage: number;
-  functionCoverage: number;
+  branchCoverage?: number;
+  functionCoverage?: number;
   previous?: CoverageMetrics;
 }
 
@@ -235,6 +338,17 @@ export interface TestGenerationTask {
   status: 'pending' | 'in_progress' | 'completed' | 'failed';
 }
 
+export type CoverageReportFormat = 'lcov' | 'istanbul' | 'cobertura' | 'go' | 'coveragepy';
+
+export interface FileCoverage {
+  file: string;
+  // Line -> times executed, for executable lines
+  lines: Record<number, number>;
+  // Line -> branches taken and branches on the line
+  branches: Record<number, { taken: number; total: number }>;
+  functions: { name: string; line: number; hits: number }[];
+}
+
 // ============================================================================
 // Enhancement (Use Case 3)
 // ============================================================================
@@ -370,17 +484,53 @@ export interface AgentConfig {
   mode: OperationMode;
   model: 'opus' | 'sonnet' | 'haiku';
   maxIterations?: number;
+  // Keep running sessions until the mode is complete or another stop condition hits
+  untilComplete?: boolean;
+  maxDurationMinutes?: number;
+  budget?: Budget;
+  // Rescan only changed files and merge into the existing functionality map
+  refresh?: boolean;
+  // Run agents in a git worktree instead of the user's checkout
+  worktree?: WorktreeScope;
+  // Directory the agent works in; defaults to projectDir
+  workingDir?: string;
   specFile?: string;
   targetStack?: string;
   dryRun?: boolean;
   verbose?: boolean;
 }
 
+// Spend limit for one orchestrator run; either cap may be omitted
+export interface Budget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
 export interface SessionResult {
   shouldContinue: boolean;
   error?: string;
   artifactsCreated?: string[];
   artifactsModified?: string[];
+  commandDecisions?: CommandDecision[];
+  usage?: SessionUsage;
+  transcript?: string;
+  worktree?: SessionWorktree;
+}
+
+export type LoopStopReason =
+  | 'complete'
+  | 'approval_required'
+  | 'repeated_failure'
+  | 'max_iterations'
+  | 'max_duration'
+  | 'budget'
+  | 'error';
+
+export interface LoopResult {
+  iterations: number;
+  stopReason: LoopStopReason;
+  results: SessionResult[];
+  error?: string;
 }
 
 // ============================================================================
@@ -391,6 +541,8 @@ export interface SecurityConfig {
   allowedCommands: string[];
   blockedPatterns: string[];
   requireApprovalFor: string[];
+  // Project-relative directories that write tools may touch (unrestricted when omitted)
+  writablePaths?: string[];
 }
 
 export interface CommandValidation {
@@ -398,3 +550,357 @@ export interface CommandValidation {
   reason?: string;
   requiresApproval?: boolean;
 }
+
+export interface CommandDecision {
+  tool: string;
+  // The Bash command, or the path argument for file tools
+  command: string;
+  decision: 'allowed' | 'denied' | 'approval_required';
+  reason?: string;
+  approvalId?: string;
+  decidedAt: string;
+}
+
+// ============================================================================
+// Artifact Validation
+// ============================================================================
+
+export type ArtifactKind =
+  | 'state'
+  | 'functionality_map'
+  | 'test_coverage'
+  | 'enhancement_plan'
+  | 'migration_plan';
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface ArtifactCheck {
+  kind: ArtifactKind;
+  file: string;
+  exists: boolean;
+  valid: boolean;
+  errors: SchemaIssue[];
+  repairable: boolean;
+  repairs: string[];
+  migrations: string[];
+}
+
+export interface ArtifactMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export interface MigrationRegistry {
+  versions: Record<ArtifactKind, string>;
+  migrations: Record<ArtifactKind, ArtifactMigration[]>;
+}
+
+export interface MigrationResult {
+  data: unknown;
+  fromVersion: string;
+  toVersion: string;
+  applied: string[];
+  error?: string;
+}
+
+// ============================================================================
+// Project Locking
+// ============================================================================
+
+export interface LockInfo {
+  pid: number;
+  hostname: string;
+  command: string;
+  acquiredAt: string;
+}
+
+export interface LockResult {
+  acquired: boolean;
+  // Our lock when acquired, otherwise the session holding it
+  holder: LockInfo;
+  // A dead session's lock that was removed to acquire this one
+  recoveredStale?: LockInfo;
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+export type ReportFormat = 'markdown' | 'json' | 'html' | 'junit';
+
+export interface ModernizationReport {
+  // Version of this report format, bumped on breaking changes
+  schemaVersion: string;
+  generatedAt: string;
+  project: {
+    name: string;
+    path: string;
+    mode: OperationMode;
+    phase: string;
+    createdAt: string;
+    updatedAt: string;
+  };
+  progress: {
+    percent: number;
+    discoveryComplete: boolean;
+    currentCoverage: number;
+    coverageTarget: number;
+    featuresMigrated: number;
+    featuresTotal: number;
+    enhancementsCompleted?: number;
+    enhancementsTotal?: number;
+  };
+  artifacts: ReportArtifact[];
+  sessions: ReportSession[];
+  approvals: {
+    pending: ApprovalRequest[];
+    resolved: ApprovalRequest[];
+  };
+  functionalityMap?: {
+    language: string;
+    framework?: string;
+    totalFiles: number;
+    totalLines: number;
+    features: number;
+    featuresByCategory: Record<string, number>;
+    undocumentedBehaviors: number;
+    externalDependencies: number;
+  };
+  usage: UsageBreakdown;
+}
+
+export interface ReportArtifact {
+  kind: ArtifactKind;
+  file: string;
+  exists: boolean;
+  valid: boolean;
+  errors: string[];
+}
+
+export interface ReportSession {
+  sessionNumber: number;
+  agentType: AgentType;
+  mode?: OperationMode;
+  startedAt: string;
+  completedAt?: string;
+  durationMinutes?: number;
+  operations: number;
+  artifactsModified: string[];
+  errors: string[];
+  usage?: SessionUsage;
+}
+
+// ============================================================================
+// Transcripts
+// ============================================================================
+
+export interface SessionTranscript {
+  sessionNumber: number;
+  agentType: AgentType;
+  mode: OperationMode;
+  model: string;
+  startedAt: string;
+  completedAt?: string;
+  prompt: string;
+  messages: TranscriptMessage[];
+}
+
+export interface TranscriptMessage {
+  receivedAt: string;
+  // SDK message with secrets redacted
+  message: Record<string, unknown>;
+}
+
+export type TranscriptEntryKind = 'system' | 'assistant' | 'tool_use' | 'tool_result' | 'result' | 'other';
+
+export interface TranscriptEntry {
+  index: number;
+  kind: TranscriptEntryKind;
+  tool?: string;
+  text: string;
+  isError?: boolean;
+}
+
+// ============================================================================
+// Git Checkpoints
+// ============================================================================
+
+export interface SessionCheckpoint {
+  ref: string;
+  commit: string;
+  // HEAD when the checkpoint was taken; absent in a repository without commits
+  head?: string;
+  // Project-relative path of the worktree the checkpoint was taken in
+  worktree?: string;
+  createdAt: string;
+}
+
+export interface RollbackResult {
+  checkpoint: SessionCheckpoint;
+  restoredFiles: number;
+  removedFiles: string[];
+  artifactsRestored: boolean;
+  // Checkpoint of the tree as it was before the rollback, so it can be undone
+  safetyRef: string;
+  warnings: string[];
+}
+
+// A new worktree per session, or one shared by every session of a mode
+export type WorktreeScope = 'session' | 'mode';
+
+export interface SessionWorktree {
+  scope: WorktreeScope;
+  path: string;
+  branch: string;
+  // Commit on the user's branch the first worktree was created from
+  baseCommit: string;
+  createdAt: string;
+  validatedAt?: string;
+}
+
+// ============================================================================
+// Artifact Diffs
+// ============================================================================
+
+export interface ArtifactSnapshot {
+  functionalityMap?: FunctionalityMap;
+  testCoverageMap?: TestCoverageMap;
+  enhancementPlan?: EnhancementPlan;
+  migrationPlan?: MigrationPlan;
+}
+
+// Artifacts as they were before and after one session
+export interface SessionSnapshot {
+  sessionNumber: number;
+  before: ArtifactSnapshot;
+  after: ArtifactSnapshot;
+}
+
+export interface ArtifactDiff {
+  featuresAdded: FeatureRef[];
+  featuresRemoved: FeatureRef[];
+  featuresChanged: FeatureChange[];
+  coverage: CoverageDelta[];
+  statusTransitions: StatusTransition[];
+}
+
+export interface FeatureRef {
+  id: string;
+  name: string;
+}
+
+export interface FeatureChange extends FeatureRef {
+  // Top-level Feature fields whose value changed
+  fields: string[];
+}
+
+export interface CoverageDelta {
+  // Absent for the project's overall coverage
+  featureId?: string;
+  featureName?: string;
+  metric: 'lineCoverage' | 'branchCoverage' | 'functionCoverage';
+  // Absent when the project or feature had no coverage data on that side
+  before?: number;
+  after?: number;
+}
+
+export type StatusItemKind = 'test_generation' | 'enhancement' | 'implementation_step' | 'feature_migration';
+
+export interface StatusTransition {
+  kind: StatusItemKind;
+  id: string;
+  label: string;
+  // Absent when the item was added or removed
+  from?: string;
+  to?: string;
+}
+
+// ============================================================================
+// Incremental Discovery
+// ============================================================================
+
+export interface DiscoveryCache {
+  version: string;
+  updatedAt: string;
+  // Keyed by project-relative path
+  files: Record<string, CachedSourceFile>;
+}
+
+export interface CachedSourceFile {
+  hash: string;
+  mtimeMs: number;
+  size: number;
+  lines: number;
+}
+
+export interface DiscoveryRefresh {
+  changedFiles: string[];
+  removedFiles: string[];
+  unchangedFiles: number;
+  featuresAdded: string[];
+  featuresUpdated: string[];
+  featuresWithMissingFiles: string[];
+}
+
+// ============================================================================
+// Source Parsing
+// ============================================================================
+
+export interface ModuleAnalysis {
+  file: string;
+  // First and last line of code, ignoring leading comments
+  lines: [number, number];
+  // Named functions, with methods as Class.method
+  functions: string[];
+  classes: string[];
+  exports: string[];
+  cyclomaticComplexity: number;
+}
+
+// ============================================================================
+// Language Detection
+// ============================================================================
+
+export interface LanguageBreakdown {
+  // Most lines of code, or the first language with a marker file when there is no source
+  primary: string;
+  secondary: string[];
+  languages: LanguageStats[];
+  directories: Record<string, string[]>;
+}
+
+// ============================================================================
+// Import Graph
+// ============================================================================
+
+export interface ImportGraph {
+  // Project-relative file -> project files it imports
+  files: Record<string, string[]>;
+  // Project-relative file -> external packages it imports
+  packages?: Record<string, string[]>;
+}
+
+export interface FeatureDependencyEdge {
+  from: string;
+  to: string;
+  // Number of file imports behind the edge
+  imports: number;
+}
+
+export type GraphFormat = 'dot' | 'mermaid';
+
+// ============================================================================
+// Test Discovery
+// ============================================================================
+
+export interface TestFile {
+  file: string;
+  testCount: number;
+  // Project source files the tests import or are named after
+  covers: string[];
+}